@@ -0,0 +1,128 @@
+-- Credit / Debit Notes Migration
+-- Rate disputes and rejections are settled with notes against an issued
+-- invoice instead of editing the original transactions. Notes carry their own
+-- gapless numbering (CN/25-26/0001, DN/25-26/0001) and reverse or add GST at
+-- the rates of the invoice they reference.
+
+CREATE TABLE adjustment_notes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  note_type TEXT NOT NULL CHECK (note_type IN ('Credit', 'Debit')),
+  note_number TEXT NOT NULL UNIQUE,
+  series TEXT NOT NULL,
+  financial_year TEXT NOT NULL,
+  sequence_number INTEGER NOT NULL,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE RESTRICT,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+  note_date DATE NOT NULL,
+  reason TEXT NOT NULL,
+
+  -- Tax at the rates of the referenced invoice
+  taxable_amount DECIMAL(12,2) NOT NULL,
+  cgst_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+  cgst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  sgst_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+  sgst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  igst_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+  igst_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_tax DECIMAL(12,2) NOT NULL,
+  total_amount DECIMAL(12,2) NOT NULL CHECK (total_amount > 0),
+
+  status TEXT NOT NULL DEFAULT 'Issued' CHECK (status IN ('Issued', 'Cancelled')),
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE (series, financial_year, sequence_number)
+);
+
+CREATE TABLE adjustment_note_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  note_id UUID NOT NULL REFERENCES adjustment_notes(id) ON DELETE CASCADE,
+  invoice_line_id UUID REFERENCES invoice_lines(id) ON DELETE SET NULL,
+  line_no INTEGER NOT NULL,
+  description TEXT NOT NULL,
+  quantity DECIMAL(10,2) NOT NULL DEFAULT 0,
+  rate DECIMAL(10,2) NOT NULL DEFAULT 0,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  UNIQUE (note_id, line_no)
+);
+
+CREATE INDEX idx_adjustment_notes_invoice_id ON adjustment_notes(invoice_id);
+CREATE INDEX idx_adjustment_notes_client_id ON adjustment_notes(client_id);
+CREATE INDEX idx_adjustment_note_lines_note_id ON adjustment_note_lines(note_id);
+
+ALTER TABLE adjustment_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE adjustment_note_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage adjustment_notes" ON adjustment_notes FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can manage adjustment_note_lines" ON adjustment_note_lines FOR ALL USING (auth.role() = 'authenticated');
+
+-- Store a note with its lines and give it the next CN or DN number
+CREATE OR REPLACE FUNCTION finalize_adjustment_note(p_note JSONB, p_lines JSONB)
+RETURNS adjustment_notes AS $$
+DECLARE
+  new_note adjustment_notes;
+  referenced_invoice invoices;
+  credited DECIMAL;
+BEGIN
+  IF jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'A note needs at least one line';
+  END IF;
+
+  new_note := jsonb_populate_record(NULL::adjustment_notes, p_note);
+
+  SELECT * INTO referenced_invoice FROM invoices WHERE id = new_note.invoice_id FOR UPDATE;
+  IF referenced_invoice.status IS DISTINCT FROM 'Issued' THEN
+    RAISE EXCEPTION 'Notes can only be raised against issued invoices';
+  END IF;
+
+  -- A credit note can never take an invoice below zero
+  IF new_note.note_type = 'Credit' THEN
+    SELECT COALESCE(SUM(total_amount), 0) INTO credited
+    FROM adjustment_notes
+    WHERE invoice_id = new_note.invoice_id AND note_type = 'Credit' AND status = 'Issued';
+
+    IF credited + new_note.total_amount > referenced_invoice.total_amount THEN
+      RAISE EXCEPTION 'Credit notes would exceed the value of invoice %', referenced_invoice.invoice_number;
+    END IF;
+  END IF;
+
+  new_note.id := uuid_generate_v4();
+  new_note.client_id := referenced_invoice.client_id;
+  new_note.series := CASE WHEN new_note.note_type = 'Credit' THEN 'CN' ELSE 'DN' END;
+  new_note.financial_year := financial_year_label(new_note.note_date);
+  new_note.sequence_number := next_document_number(new_note.series, new_note.financial_year);
+  new_note.note_number := new_note.series || '/' || new_note.financial_year || '/' || LPAD(new_note.sequence_number::TEXT, 4, '0');
+  new_note.status := 'Issued';
+  new_note.cancelled_at := NULL;
+  new_note.created_at := NOW();
+
+  INSERT INTO adjustment_notes SELECT (new_note).*;
+
+  INSERT INTO adjustment_note_lines
+  SELECT (jsonb_populate_record(
+    NULL::adjustment_note_lines,
+    line || jsonb_build_object('id', uuid_generate_v4(), 'note_id', new_note.id)
+  )).*
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  RETURN new_note;
+END;
+$$ LANGUAGE plpgsql;
+
+-- An invoice with live notes against it cannot be cancelled; cancel the notes first
+CREATE OR REPLACE FUNCTION prevent_cancelling_adjusted_invoice()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'Cancelled' AND OLD.status = 'Issued' AND EXISTS (
+    SELECT 1 FROM adjustment_notes WHERE invoice_id = NEW.id AND status = 'Issued'
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has credit or debit notes against it. Cancel those first.', NEW.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER invoices_prevent_cancelling_adjusted
+  BEFORE UPDATE OF status ON invoices
+  FOR EACH ROW EXECUTE FUNCTION prevent_cancelling_adjusted_invoice();
@@ -0,0 +1,202 @@
+-- Delivery Challan Header Migration
+-- A DC is entered once as a header (client, number, date, direction, vehicle)
+-- with one transaction per component and lot on it. Inward DCs are numbered
+-- by the client and outward DCs by us, so the direction is part of the key.
+-- Transactions keep their dc_no column, always copied from the header, so
+-- billing and reports are unchanged.
+
+CREATE TABLE challans (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  dc_no TEXT NOT NULL,
+  dc_date DATE NOT NULL,
+  transaction_type TEXT NOT NULL,
+  vehicle_no TEXT,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The same DC typed with different case or spacing is still the same DC
+CREATE UNIQUE INDEX idx_challans_client_dc_no ON challans(client_id, transaction_type, UPPER(dc_no));
+CREATE INDEX idx_challans_dc_date ON challans(dc_date);
+
+ALTER TABLE challans ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage challans" ON challans FOR ALL USING (auth.role() = 'authenticated');
+
+ALTER TABLE transactions ADD COLUMN dc_id UUID REFERENCES challans(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_transactions_dc_id ON transactions(dc_id);
+
+-- One header per client, direction and DC number already in use, dated by its earliest row
+INSERT INTO challans (client_id, dc_no, dc_date, transaction_type, created_at)
+SELECT client_id, MIN(TRIM(dc_no)), MIN(date), transaction_type, MIN(created_at)
+FROM transactions
+WHERE client_id IS NOT NULL AND transaction_type IS NOT NULL
+GROUP BY client_id, transaction_type, UPPER(TRIM(dc_no));
+
+-- Link the rows and settle drifted spellings on the header's. Invoiced rows
+-- are locked by a trigger, which is paused for this one-off backfill; their
+-- invoice lines keep the number they were printed with.
+ALTER TABLE transactions DISABLE TRIGGER transactions_prevent_changing_invoiced;
+
+UPDATE transactions t SET dc_id = c.id, dc_no = c.dc_no
+FROM challans c
+WHERE c.client_id = t.client_id
+  AND c.transaction_type = t.transaction_type
+  AND UPPER(c.dc_no) = UPPER(TRIM(t.dc_no));
+
+ALTER TABLE transactions ENABLE TRIGGER transactions_prevent_changing_invoiced;
+
+-- Rows saved one at a time carry a typed DC number; they are filed under the
+-- matching header, which is created if it is new. The header is the only
+-- source of a row's DC number, client and direction.
+CREATE OR REPLACE FUNCTION link_transaction_challan()
+RETURNS TRIGGER AS $$
+DECLARE
+  challan challans;
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.dc_id IS NULL) OR
+     (TG_OP = 'UPDATE' AND NEW.dc_id IS NOT DISTINCT FROM OLD.dc_id AND
+      (NEW.dc_no, NEW.client_id, NEW.transaction_type) IS DISTINCT FROM (OLD.dc_no, OLD.client_id, OLD.transaction_type)) THEN
+    SELECT * INTO challan FROM challans
+    WHERE client_id = NEW.client_id
+      AND transaction_type = NEW.transaction_type
+      AND UPPER(dc_no) = UPPER(TRIM(NEW.dc_no));
+
+    IF NOT FOUND THEN
+      INSERT INTO challans (client_id, dc_no, dc_date, transaction_type)
+      VALUES (NEW.client_id, TRIM(NEW.dc_no), NEW.date, NEW.transaction_type)
+      RETURNING * INTO challan;
+    END IF;
+  ELSE
+    SELECT * INTO challan FROM challans WHERE id = NEW.dc_id;
+  END IF;
+
+  NEW.dc_id := challan.id;
+  NEW.dc_no := challan.dc_no;
+  NEW.client_id := challan.client_id;
+  NEW.transaction_type := challan.transaction_type;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Named to run before transactions_prevent_changing_invoiced
+CREATE TRIGGER transactions_link_challan
+  BEFORE INSERT OR UPDATE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION link_transaction_challan();
+
+-- A header goes when its last row is deleted or moved to another DC
+CREATE OR REPLACE FUNCTION remove_empty_challan()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' OR NEW.dc_id IS DISTINCT FROM OLD.dc_id THEN
+    DELETE FROM challans c
+    WHERE c.id = OLD.dc_id
+      AND NOT EXISTS (SELECT 1 FROM transactions t WHERE t.dc_id = c.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER transactions_remove_empty_challan
+  AFTER DELETE OR UPDATE OF dc_id ON transactions
+  FOR EACH ROW EXECUTE FUNCTION remove_empty_challan();
+
+-- The header is dated by its earliest row, so editing a row's date (or
+-- moving rows between DCs) keeps the grouped view and the DC print in step
+CREATE OR REPLACE FUNCTION sync_challan_dc_date()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE challans c SET dc_date = d.first_date
+  FROM (
+    SELECT dc_id, MIN(date) AS first_date
+    FROM transactions
+    WHERE dc_id IN (NEW.dc_id, OLD.dc_id)
+    GROUP BY dc_id
+  ) d
+  WHERE c.id = d.dc_id AND c.dc_date <> d.first_date;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER transactions_sync_challan_dc_date
+  AFTER INSERT OR DELETE OR UPDATE OF date, dc_id ON transactions
+  FOR EACH ROW EXECUTE FUNCTION sync_challan_dc_date();
+
+-- Renumbering a DC renumbers its rows (refused by the lock if any are invoiced)
+CREATE OR REPLACE FUNCTION sync_challan_dc_no()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE transactions SET dc_no = NEW.dc_no WHERE dc_id = NEW.id AND dc_no <> NEW.dc_no;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER challans_sync_dc_no
+  AFTER UPDATE OF dc_no ON challans
+  FOR EACH ROW EXECUTE FUNCTION sync_challan_dc_no();
+
+-- Invoiced transactions may still be filed under a DC header
+CREATE OR REPLACE FUNCTION prevent_changing_invoiced_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  locked_by TEXT;
+BEGIN
+  IF OLD.invoice_id IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (to_jsonb(NEW) - 'invoice_id' - 'dc_id') = (to_jsonb(OLD) - 'invoice_id' - 'dc_id') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT invoice_number INTO locked_by FROM invoices WHERE id = OLD.invoice_id;
+  RAISE EXCEPTION 'DC % is on invoice % and cannot be changed. Cancel the invoice first.', OLD.dc_no, locked_by;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Save a DC header and all its lines together. Lines take their client, date,
+-- DC number and direction from the header.
+CREATE OR REPLACE FUNCTION create_challan(p_challan JSONB, p_lines JSONB)
+RETURNS challans AS $$
+DECLARE
+  new_challan challans;
+BEGIN
+  IF jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'A DC needs at least one line';
+  END IF;
+
+  new_challan := jsonb_populate_record(NULL::challans, p_challan);
+
+  new_challan.id := uuid_generate_v4();
+  new_challan.dc_no := TRIM(new_challan.dc_no);
+  new_challan.created_at := NOW();
+
+  IF EXISTS (
+    SELECT 1 FROM challans
+    WHERE client_id = new_challan.client_id
+      AND transaction_type = new_challan.transaction_type
+      AND UPPER(dc_no) = UPPER(new_challan.dc_no)
+  ) THEN
+    RAISE EXCEPTION 'DC % has already been entered for this client', new_challan.dc_no;
+  END IF;
+
+  INSERT INTO challans SELECT (new_challan).*;
+
+  INSERT INTO transactions (
+    client_id, date, dc_no, transaction_type, dc_id,
+    component, lot_no, qty_in, qty_out, weight_kg,
+    work_type, unit, rate_applied, billed_amount, sac_code
+  )
+  SELECT
+    new_challan.client_id, new_challan.dc_date, new_challan.dc_no, new_challan.transaction_type, new_challan.id,
+    line.component, line.lot_no, line.qty_in, line.qty_out, line.weight_kg,
+    line.work_type, line.unit, line.rate_applied, line.billed_amount, line.sac_code
+  FROM jsonb_populate_recordset(NULL::transactions, p_lines) AS line;
+
+  RETURN new_challan;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,53 @@
+-- Company Profile Migration
+-- The business details printed on invoices and report headers, plus the
+-- billing defaults, kept in a single row edited from the Settings page.
+-- The logo is uploaded to the public company-assets storage bucket.
+
+CREATE TABLE company_profile (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  company_name TEXT NOT NULL,
+  gst_number TEXT,
+  address TEXT,
+  phone TEXT,
+  email TEXT,
+  bank_name TEXT,
+  account_number TEXT,
+  ifsc_code TEXT,
+  logo_url TEXT,
+  payment_terms TEXT NOT NULL DEFAULT 'Net 30 days',
+  cgst_rate DECIMAL(5,2) NOT NULL DEFAULT 6 CHECK (cgst_rate >= 0),
+  sgst_rate DECIMAL(5,2) NOT NULL DEFAULT 6 CHECK (sgst_rate >= 0),
+  invoice_notes TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE company_profile ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage company_profile" ON company_profile FOR ALL USING (auth.role() = 'authenticated');
+
+-- The values previously hard-coded in the billing screen
+INSERT INTO company_profile (
+  company_name, gst_number, address, phone, email,
+  bank_name, account_number, ifsc_code, invoice_notes
+) VALUES (
+  'BRS INDUSTRIES & SHOT-BLASTING',
+  '33AFYPR4654L1ZK',
+  'Processing & ShotBlasting Services',
+  '9944913135, 9842211191',
+  'brsshotblasting11191@gmail.com, brsindustries13135@gmail.com',
+  'State Bank of India',
+  'XXXXXXXXXXXX',
+  'SBIN0XXXXXX',
+  'Thank you for your business!'
+);
+
+-- Logo storage (readable by anyone so the URL works in printed invoices)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('company-assets', 'company-assets', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Authenticated users can upload company assets" ON storage.objects
+  FOR INSERT WITH CHECK (bucket_id = 'company-assets' AND auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can update company assets" ON storage.objects
+  FOR UPDATE USING (bucket_id = 'company-assets' AND auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can delete company assets" ON storage.objects
+  FOR DELETE USING (bucket_id = 'company-assets' AND auth.role() = 'authenticated');
@@ -0,0 +1,42 @@
+-- Credit Note Payment Check Migration
+-- Run after add-payments.sql. A credit note raised against an invoice that
+-- payments already cover would drive its outstanding negative, so a credit
+-- is limited to what is still unpaid after earlier notes and allocations.
+
+-- A credit note cannot take back more than is still unpaid on the invoice,
+-- or its outstanding would go negative with nothing to carry the excess
+CREATE OR REPLACE FUNCTION check_credit_note_against_payments()
+RETURNS TRIGGER AS $$
+DECLARE
+  invoice_row invoices;
+  allocated_to_invoice DECIMAL;
+  invoice_value DECIMAL;
+BEGIN
+  IF NEW.note_type <> 'Credit' OR NEW.status <> 'Issued' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO invoice_row FROM invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  SELECT COALESCE(SUM(amount), 0) INTO allocated_to_invoice
+  FROM payment_allocations
+  WHERE invoice_id = NEW.invoice_id;
+
+  SELECT invoice_row.total_amount + COALESCE(SUM(
+    CASE WHEN note_type = 'Debit' THEN total_amount ELSE -total_amount END
+  ), 0) INTO invoice_value
+  FROM adjustment_notes
+  WHERE invoice_id = NEW.invoice_id AND status = 'Issued' AND id <> NEW.id;
+
+  IF NEW.total_amount > invoice_value - allocated_to_invoice THEN
+    RAISE EXCEPTION 'Credit note exceeds the amount still unpaid on invoice % (%)',
+      invoice_row.invoice_number, invoice_value - allocated_to_invoice;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER adjustment_notes_check_payments
+  BEFORE INSERT ON adjustment_notes
+  FOR EACH ROW EXECUTE FUNCTION check_credit_note_against_payments();
@@ -0,0 +1,145 @@
+-- Outward DC Numbering Migration
+-- Outward DC numbers are ours, so they come from a sequence per financial
+-- year in the same number_sequences table as invoices, e.g. DC/25-26/0001.
+-- An outward DC (any movement but Received) saved without a number is given
+-- the next one; a typed number is kept, and counted if it follows the series.
+-- Inward DCs keep the client's number.
+
+ALTER TABLE company_profile ADD COLUMN dc_series TEXT NOT NULL DEFAULT 'DC';
+
+-- Sequence details on outward DCs (left NULL for numbers typed by hand)
+ALTER TABLE challans
+ADD COLUMN series TEXT,
+ADD COLUMN financial_year TEXT,
+ADD COLUMN sequence_number INTEGER;
+
+ALTER TABLE challans
+ADD CONSTRAINT challans_series_sequence_unique UNIQUE (series, financial_year, sequence_number);
+
+CREATE INDEX idx_challans_financial_year ON challans(series, financial_year);
+
+CREATE OR REPLACE FUNCTION number_outward_challan()
+RETURNS TRIGGER AS $$
+DECLARE
+  series_prefix TEXT;
+  number_part TEXT;
+  issued_to TEXT;
+BEGIN
+  NEW.dc_no := TRIM(NEW.dc_no);
+
+  IF NEW.transaction_type = 'Received' THEN
+    IF NEW.dc_no = '' THEN
+      RAISE EXCEPTION 'DC number is required';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT cp.dc_series INTO series_prefix FROM company_profile cp WHERE cp.id = 1;
+  series_prefix := COALESCE(series_prefix, 'DC');
+
+  IF NEW.dc_no = '' THEN
+    NEW.series := series_prefix;
+    NEW.financial_year := financial_year_label(NEW.dc_date);
+    NEW.sequence_number := next_document_number(NEW.series, NEW.financial_year);
+    NEW.dc_no := NEW.series || '/' || NEW.financial_year || '/' || LPAD(NEW.sequence_number::TEXT, 4, '0');
+    RETURN NEW;
+  END IF;
+
+  -- The same outward number can only ever be sent to one client
+  SELECT c.name INTO issued_to
+  FROM challans ch JOIN clients c ON c.id = ch.client_id
+  WHERE ch.transaction_type <> 'Received'
+    AND UPPER(ch.dc_no) = UPPER(NEW.dc_no)
+    AND ch.client_id <> NEW.client_id
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'DC % was already issued to %', NEW.dc_no, issued_to;
+  END IF;
+
+  -- A typed number in the series, e.g. from a paper book, moves the counter on
+  IF UPPER(NEW.dc_no) LIKE UPPER(series_prefix) || '/%' THEN
+    number_part := SUBSTR(NEW.dc_no, LENGTH(series_prefix) + 2);
+
+    IF SPLIT_PART(number_part, '/', 1) ~ '^\d{2}-\d{2}$' AND SPLIT_PART(number_part, '/', 2) ~ '^\d{1,9}$' THEN
+      NEW.series := series_prefix;
+      NEW.financial_year := SPLIT_PART(number_part, '/', 1);
+      NEW.sequence_number := SPLIT_PART(number_part, '/', 2)::INTEGER;
+
+      INSERT INTO number_sequences (series, financial_year, last_number)
+      VALUES (NEW.series, NEW.financial_year, NEW.sequence_number)
+      ON CONFLICT (series, financial_year)
+      DO UPDATE SET last_number = GREATEST(number_sequences.last_number, EXCLUDED.last_number), updated_at = NOW();
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER challans_number_outward
+  BEFORE INSERT ON challans
+  FOR EACH ROW EXECUTE FUNCTION number_outward_challan();
+
+-- A numbered DC belongs to the financial year in its number, so its date
+-- (kept in step with its rows) cannot move into another year
+CREATE OR REPLACE FUNCTION check_numbered_challan_year()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.financial_year IS NOT NULL AND financial_year_label(NEW.dc_date) <> OLD.financial_year THEN
+    RAISE EXCEPTION 'DC % is numbered in 20%; its date must stay within that financial year',
+      OLD.dc_no, OLD.financial_year;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER challans_check_numbered_year
+  BEFORE UPDATE OF dc_date ON challans
+  FOR EACH ROW EXECUTE FUNCTION check_numbered_challan_year();
+
+-- Lines now take the number given to the header when it is inserted
+CREATE OR REPLACE FUNCTION create_challan(p_challan JSONB, p_lines JSONB)
+RETURNS challans AS $$
+DECLARE
+  new_challan challans;
+BEGIN
+  IF jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'A DC needs at least one line';
+  END IF;
+
+  new_challan := jsonb_populate_record(NULL::challans, p_challan);
+
+  new_challan.id := uuid_generate_v4();
+  new_challan.dc_no := TRIM(COALESCE(new_challan.dc_no, ''));
+  new_challan.series := NULL;
+  new_challan.financial_year := NULL;
+  new_challan.sequence_number := NULL;
+  new_challan.created_at := NOW();
+
+  IF new_challan.dc_no <> '' AND EXISTS (
+    SELECT 1 FROM challans
+    WHERE client_id = new_challan.client_id
+      AND transaction_type = new_challan.transaction_type
+      AND UPPER(dc_no) = UPPER(new_challan.dc_no)
+  ) THEN
+    RAISE EXCEPTION 'DC % has already been entered for this client', new_challan.dc_no;
+  END IF;
+
+  INSERT INTO challans SELECT (new_challan).* RETURNING * INTO new_challan;
+
+  INSERT INTO transactions (
+    client_id, date, dc_no, transaction_type, dc_id,
+    component, lot_no, qty_in, qty_out, weight_kg,
+    work_type, unit, rate_applied, billed_amount, sac_code
+  )
+  SELECT
+    new_challan.client_id, new_challan.dc_date, new_challan.dc_no, new_challan.transaction_type, new_challan.id,
+    line.component, line.lot_no, line.qty_in, line.qty_out, line.weight_kg,
+    line.work_type, line.unit, line.rate_applied, line.billed_amount, line.sac_code
+  FROM jsonb_populate_recordset(NULL::transactions, p_lines) AS line;
+
+  RETURN new_challan;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,10 @@
+-- IGST Migration
+-- Inter-state invoices (client GSTIN state code differs from ours) are charged
+-- IGST at the combined rate instead of CGST + SGST
+
+ALTER TABLE invoices
+ADD COLUMN place_of_supply TEXT,
+ADD COLUMN igst_rate DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN igst_amount DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN invoices.place_of_supply IS 'Two digit GST state code of the recipient; NULL for unregistered clients';
@@ -0,0 +1,11 @@
+-- Invoice Charge Lines Migration
+-- Invoices can carry hand-entered charges such as transport, loading, packing
+-- or a minimum lot charge next to the delivery lines. Each line is either
+-- taxed at the invoice's GST rate or exempt; the value of exempt lines is kept
+-- apart from the taxable value on the invoice.
+
+ALTER TABLE invoice_lines
+  ADD COLUMN line_type TEXT NOT NULL DEFAULT 'Transaction' CHECK (line_type IN ('Transaction', 'Charge')),
+  ADD COLUMN tax_treatment TEXT NOT NULL DEFAULT 'Taxable' CHECK (tax_treatment IN ('Taxable', 'Exempt'));
+
+ALTER TABLE invoices ADD COLUMN exempt_amount DECIMAL(12,2) NOT NULL DEFAULT 0;
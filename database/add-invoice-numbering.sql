@@ -0,0 +1,95 @@
+-- Invoice Numbering Migration
+-- Replaces client-generated invoice numbers with gapless sequences per series
+-- and financial year (April-March), e.g. BRS/25-26/0001. Numbers are only
+-- allocated inside finalize_invoice, in the same transaction that stores the
+-- invoice, so a failed save never burns a number.
+
+-- One counter per document series and financial year
+CREATE TABLE number_sequences (
+  series TEXT NOT NULL,
+  financial_year TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (series, financial_year)
+);
+
+ALTER TABLE number_sequences ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage number_sequences" ON number_sequences FOR ALL USING (auth.role() = 'authenticated');
+
+-- Sequence details on invoices (left NULL for invoices issued before this migration)
+ALTER TABLE invoices
+ADD COLUMN series TEXT,
+ADD COLUMN financial_year TEXT,
+ADD COLUMN sequence_number INTEGER,
+ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE invoices
+ADD CONSTRAINT invoices_series_sequence_unique UNIQUE (series, financial_year, sequence_number);
+
+CREATE INDEX idx_invoices_financial_year ON invoices(series, financial_year);
+
+-- Financial year label for a date, e.g. 2025-06-15 -> '25-26', 2026-02-01 -> '25-26'
+CREATE OR REPLACE FUNCTION financial_year_label(d DATE)
+RETURNS TEXT AS $$
+DECLARE
+  start_year INTEGER;
+BEGIN
+  start_year := CASE WHEN EXTRACT(MONTH FROM d) >= 4
+    THEN EXTRACT(YEAR FROM d)::INTEGER
+    ELSE EXTRACT(YEAR FROM d)::INTEGER - 1
+  END;
+
+  RETURN LPAD((start_year % 100)::TEXT, 2, '0') || '-' || LPAD(((start_year + 1) % 100)::TEXT, 2, '0');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Allocate the next number in a series. The upsert takes a row lock on the
+-- counter, so concurrent callers are serialised until their transaction ends.
+CREATE OR REPLACE FUNCTION next_document_number(p_series TEXT, p_financial_year TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  allocated INTEGER;
+BEGIN
+  INSERT INTO number_sequences (series, financial_year, last_number)
+  VALUES (p_series, p_financial_year, 1)
+  ON CONFLICT (series, financial_year)
+  DO UPDATE SET last_number = number_sequences.last_number + 1, updated_at = NOW()
+  RETURNING last_number INTO allocated;
+
+  RETURN allocated;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Store an invoice and its lines and give it the next number in its series
+CREATE OR REPLACE FUNCTION finalize_invoice(p_invoice JSONB, p_lines JSONB, p_series TEXT DEFAULT 'BRS')
+RETURNS invoices AS $$
+DECLARE
+  new_invoice invoices;
+BEGIN
+  IF jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  new_invoice := jsonb_populate_record(NULL::invoices, p_invoice);
+
+  new_invoice.id := uuid_generate_v4();
+  new_invoice.series := p_series;
+  new_invoice.financial_year := financial_year_label(new_invoice.invoice_date);
+  new_invoice.sequence_number := next_document_number(p_series, new_invoice.financial_year);
+  new_invoice.invoice_number := p_series || '/' || new_invoice.financial_year || '/' || LPAD(new_invoice.sequence_number::TEXT, 4, '0');
+  new_invoice.status := 'Issued';
+  new_invoice.cancelled_at := NULL;
+  new_invoice.created_at := NOW();
+
+  INSERT INTO invoices SELECT (new_invoice).*;
+
+  INSERT INTO invoice_lines
+  SELECT (jsonb_populate_record(
+    NULL::invoice_lines,
+    line || jsonb_build_object('id', uuid_generate_v4(), 'invoice_id', new_invoice.id)
+  )).*
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  RETURN new_invoice;
+END;
+$$ LANGUAGE plpgsql;
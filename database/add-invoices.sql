@@ -0,0 +1,82 @@
+-- Invoices Migration
+-- Persists every generated invoice together with a snapshot of its lines,
+-- taxes, client and company details so it can be reopened and reprinted later
+
+-- Invoices table
+CREATE TABLE invoices (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  invoice_number TEXT NOT NULL UNIQUE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+  invoice_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+
+  -- Client snapshot at the time of issue
+  client_name TEXT NOT NULL,
+  client_gst_number TEXT,
+  client_address TEXT,
+
+  -- Company snapshot at the time of issue
+  company_name TEXT NOT NULL,
+  company_gst TEXT NOT NULL,
+  company_address TEXT NOT NULL,
+  company_phone TEXT NOT NULL,
+  company_email TEXT NOT NULL,
+  bank_name TEXT,
+  account_number TEXT,
+  ifsc_code TEXT,
+
+  payment_terms TEXT NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'INR',
+  notes TEXT,
+  template TEXT NOT NULL DEFAULT 'standard' CHECK (template IN ('standard', 'detailed', 'minimal')),
+
+  -- Tax snapshot
+  subtotal DECIMAL(12,2) NOT NULL,
+  discount_percent DECIMAL(5,2) NOT NULL DEFAULT 0,
+  discount_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  taxable_amount DECIMAL(12,2) NOT NULL,
+  cgst_rate DECIMAL(5,2) NOT NULL,
+  cgst_amount DECIMAL(12,2) NOT NULL,
+  sgst_rate DECIMAL(5,2) NOT NULL,
+  sgst_amount DECIMAL(12,2) NOT NULL,
+  total_tax DECIMAL(12,2) NOT NULL,
+  total_amount DECIMAL(12,2) NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'Issued' CHECK (status IN ('Issued', 'Cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Invoice lines table
+CREATE TABLE invoice_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  line_no INTEGER NOT NULL,
+  date DATE NOT NULL,
+  dc_no TEXT,
+  component TEXT NOT NULL,
+  lot_no TEXT,
+  description TEXT NOT NULL,
+  work_type TEXT CHECK (work_type IN ('Fettling', 'Shot Blasting', 'Both')),
+  unit TEXT CHECK (unit IN ('Per Piece', 'Per Kg')),
+  quantity DECIMAL(10,2) NOT NULL,
+  weight_kg DECIMAL(10,3),
+  rate DECIMAL(10,2) NOT NULL,
+  amount DECIMAL(12,2) NOT NULL,
+  UNIQUE(invoice_id, line_no)
+);
+
+-- Indexes for better performance
+CREATE INDEX idx_invoices_client_id ON invoices(client_id);
+CREATE INDEX idx_invoices_invoice_date ON invoices(invoice_date);
+CREATE INDEX idx_invoice_lines_invoice_id ON invoice_lines(invoice_id);
+CREATE INDEX idx_invoice_lines_transaction_id ON invoice_lines(transaction_id);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage invoices" ON invoices FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can manage invoice lines" ON invoice_lines FOR ALL USING (auth.role() = 'authenticated');
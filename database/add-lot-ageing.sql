@@ -0,0 +1,89 @@
+-- Lot Ageing Migration
+-- How long open material has been with us, counted from the first receipt of
+-- each lot. The balance summary carries the first received date, and
+-- get_oldest_pending_lots lists the longest-waiting open lots across all
+-- clients for the dashboard.
+
+DROP FUNCTION get_balance_summary(UUID);
+
+CREATE OR REPLACE FUNCTION get_balance_summary(client_id UUID)
+RETURNS TABLE (
+  component TEXT,
+  lot_no TEXT,
+  total_in DECIMAL,
+  total_out DECIMAL,
+  total_delivered DECIMAL,
+  total_rejected DECIMAL,
+  total_returned_unprocessed DECIMAL,
+  total_scrapped DECIMAL,
+  balance DECIMAL,
+  received_kg DECIMAL,
+  delivered_kg DECIMAL,
+  weight_loss_percent DECIMAL,
+  first_received_date DATE
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.component,
+    s.lot_no,
+    s.total_in,
+    s.total_out,
+    s.total_delivered,
+    s.total_rejected,
+    s.total_returned_unprocessed,
+    s.total_scrapped,
+    s.total_in - s.total_out as balance,
+    s.received_kg,
+    s.delivered_kg,
+    CASE
+      WHEN s.received_weighed_qty > 0 AND s.delivered_weighed_qty > 0 AND s.received_kg > 0 THEN
+        ROUND((1 - (s.delivered_kg / s.delivered_weighed_qty) / (s.received_kg / s.received_weighed_qty)) * 100, 2)
+    END as weight_loss_percent,
+    s.first_received_date
+  FROM (
+    SELECT
+      t.component,
+      t.lot_no,
+      COALESCE(SUM(t.qty_in), 0) as total_in,
+      COALESCE(SUM(t.qty_out), 0) as total_out,
+      COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Delivered'), 0) as total_delivered,
+      COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Rejected'), 0) as total_rejected,
+      COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Returned Unprocessed'), 0) as total_returned_unprocessed,
+      COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Scrapped'), 0) as total_scrapped,
+      COALESCE(SUM(t.weight_kg) FILTER (WHERE t.transaction_type = 'Received'), 0) as received_kg,
+      COALESCE(SUM(t.weight_kg) FILTER (WHERE t.transaction_type = 'Delivered'), 0) as delivered_kg,
+      COALESCE(SUM(t.qty_in) FILTER (WHERE t.transaction_type = 'Received' AND t.weight_kg IS NOT NULL), 0) as received_weighed_qty,
+      COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Delivered' AND t.weight_kg IS NOT NULL), 0) as delivered_weighed_qty,
+      MIN(t.date) FILTER (WHERE t.transaction_type = 'Received') as first_received_date
+    FROM transactions t
+    WHERE t.client_id = get_balance_summary.client_id
+    GROUP BY t.component, t.lot_no
+  ) s
+  ORDER BY s.component, s.lot_no;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_oldest_pending_lots(p_limit INTEGER DEFAULT 10)
+RETURNS TABLE (
+  client_id UUID,
+  client_name TEXT,
+  component TEXT,
+  lot_no TEXT,
+  balance DECIMAL,
+  first_received_date DATE
+) AS $$
+  SELECT
+    c.id,
+    c.name,
+    t.component,
+    t.lot_no,
+    COALESCE(SUM(t.qty_in), 0) - COALESCE(SUM(t.qty_out), 0),
+    MIN(t.date) FILTER (WHERE t.transaction_type = 'Received')
+  FROM transactions t
+  JOIN clients c ON c.id = t.client_id
+  GROUP BY c.id, c.name, t.component, t.lot_no
+  HAVING COALESCE(SUM(t.qty_in), 0) - COALESCE(SUM(t.qty_out), 0) > 0
+  ORDER BY MIN(t.date) FILTER (WHERE t.transaction_type = 'Received') ASC NULLS LAST, c.name, t.component, t.lot_no
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE;
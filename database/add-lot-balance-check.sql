@@ -0,0 +1,155 @@
+-- Lot Balance Check Migration
+-- A lot cannot go below zero: deliveries beyond what was received for a
+-- component and lot are refused, as are edits and deletions that would leave
+-- a lot over-delivered. A genuine correction is let through when the row
+-- carries a reason, and every such override is written to balance_overrides
+-- with the user who made it.
+
+ALTER TABLE transactions ADD COLUMN balance_override_reason TEXT;
+
+CREATE TABLE balance_overrides (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_id UUID REFERENCES transactions(id) ON DELETE SET NULL,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  component TEXT NOT NULL,
+  lot_no TEXT NOT NULL,
+  dc_no TEXT NOT NULL,
+  quantity DECIMAL NOT NULL,
+  -- Lot balance after the save; negative by the quantity over-delivered
+  balance_after DECIMAL NOT NULL,
+  reason TEXT NOT NULL,
+  overridden_by UUID,
+  overridden_by_email TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_balance_overrides_client_id ON balance_overrides(client_id);
+
+ALTER TABLE balance_overrides ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage balance_overrides" ON balance_overrides FOR ALL USING (auth.role() = 'authenticated');
+
+CREATE OR REPLACE FUNCTION lot_balance(p_client_id UUID, p_component TEXT, p_lot_no TEXT)
+RETURNS DECIMAL AS $$
+  SELECT COALESCE(SUM(qty_in), 0) - COALESCE(SUM(qty_out), 0)
+  FROM transactions
+  WHERE client_id = p_client_id AND component = p_component AND lot_no = p_lot_no;
+$$ LANGUAGE sql STABLE;
+
+-- Runs after the row is written so the balance includes it. Saves to the same
+-- lot are serialised by an advisory lock, so two deliveries entered at once
+-- cannot both take the last pieces.
+CREATE OR REPLACE FUNCTION check_lot_balance()
+RETURNS TRIGGER AS $$
+DECLARE
+  balance DECIMAL;
+  row_effect DECIMAL;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF COALESCE(OLD.qty_in, 0) - COALESCE(OLD.qty_out, 0) <= 0 THEN
+      RETURN NULL;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(hashtext(OLD.client_id || '|' || OLD.component || '|' || OLD.lot_no));
+    balance := lot_balance(OLD.client_id, OLD.component, OLD.lot_no);
+
+    IF balance < 0 THEN
+      RAISE EXCEPTION 'Lot % of % has already been delivered; delete or correct the deliveries first', OLD.lot_no, OLD.component;
+    END IF;
+
+    RETURN NULL;
+  END IF;
+
+  -- How much this save takes out of the lot; unchanged rows are never blocked
+  row_effect := COALESCE(NEW.qty_out, 0) - COALESCE(NEW.qty_in, 0);
+  IF TG_OP = 'UPDATE' AND (NEW.client_id, NEW.component, NEW.lot_no) = (OLD.client_id, OLD.component, OLD.lot_no) THEN
+    row_effect := row_effect - (COALESCE(OLD.qty_out, 0) - COALESCE(OLD.qty_in, 0));
+  ELSIF TG_OP = 'UPDATE' AND COALESCE(OLD.qty_in, 0) - COALESCE(OLD.qty_out, 0) > 0 THEN
+    -- A receipt moved to another lot leaves its old lot short
+    PERFORM pg_advisory_xact_lock(hashtext(OLD.client_id || '|' || OLD.component || '|' || OLD.lot_no));
+    IF lot_balance(OLD.client_id, OLD.component, OLD.lot_no) < 0 THEN
+      RAISE EXCEPTION 'Lot % of % has already been delivered; delete or correct the deliveries first', OLD.lot_no, OLD.component;
+    END IF;
+  END IF;
+
+  IF row_effect <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.client_id || '|' || NEW.component || '|' || NEW.lot_no));
+  balance := lot_balance(NEW.client_id, NEW.component, NEW.lot_no);
+
+  IF balance >= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- A receipt lowered below what has gone out is a mistake in the outward
+  -- entries, not something to override
+  IF COALESCE(NEW.qty_in, 0) > 0 THEN
+    RAISE EXCEPTION 'Pieces of lot % of % have already gone out; this receipt cannot go below % pcs',
+      NEW.lot_no, NEW.component, NEW.qty_in - balance;
+  END IF;
+
+  IF COALESCE(TRIM(NEW.balance_override_reason), '') = '' THEN
+    RAISE EXCEPTION 'Only % pcs of % lot % are left to deliver', GREATEST(balance + row_effect, 0), NEW.component, NEW.lot_no;
+  END IF;
+
+  INSERT INTO balance_overrides (
+    transaction_id, client_id, component, lot_no, dc_no,
+    quantity, balance_after, reason, overridden_by, overridden_by_email
+  ) VALUES (
+    NEW.id, NEW.client_id, NEW.component, NEW.lot_no, NEW.dc_no,
+    COALESCE(NEW.qty_out, 0), balance, TRIM(NEW.balance_override_reason), auth.uid(), auth.jwt() ->> 'email'
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER transactions_check_lot_balance
+  AFTER INSERT OR UPDATE OR DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION check_lot_balance();
+
+-- DC lines may carry an override reason too
+CREATE OR REPLACE FUNCTION create_challan(p_challan JSONB, p_lines JSONB)
+RETURNS challans AS $$
+DECLARE
+  new_challan challans;
+BEGIN
+  IF jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'A DC needs at least one line';
+  END IF;
+
+  new_challan := jsonb_populate_record(NULL::challans, p_challan);
+
+  new_challan.id := uuid_generate_v4();
+  new_challan.dc_no := TRIM(COALESCE(new_challan.dc_no, ''));
+  new_challan.series := NULL;
+  new_challan.financial_year := NULL;
+  new_challan.sequence_number := NULL;
+  new_challan.created_at := NOW();
+
+  IF new_challan.dc_no <> '' AND EXISTS (
+    SELECT 1 FROM challans
+    WHERE client_id = new_challan.client_id
+      AND transaction_type = new_challan.transaction_type
+      AND UPPER(dc_no) = UPPER(new_challan.dc_no)
+  ) THEN
+    RAISE EXCEPTION 'DC % has already been entered for this client', new_challan.dc_no;
+  END IF;
+
+  INSERT INTO challans SELECT (new_challan).* RETURNING * INTO new_challan;
+
+  INSERT INTO transactions (
+    client_id, date, dc_no, transaction_type, dc_id,
+    component, lot_no, qty_in, qty_out, weight_kg,
+    work_type, unit, rate_applied, billed_amount, sac_code, balance_override_reason
+  )
+  SELECT
+    new_challan.client_id, new_challan.dc_date, new_challan.dc_no, new_challan.transaction_type, new_challan.id,
+    line.component, line.lot_no, line.qty_in, line.qty_out, line.weight_kg,
+    line.work_type, line.unit, line.rate_applied, line.billed_amount, line.sac_code, line.balance_override_reason
+  FROM jsonb_populate_recordset(NULL::transactions, p_lines) AS line;
+
+  RETURN new_challan;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,93 @@
+-- Lot Stages Migration
+-- Between receipt and delivery a lot goes through fettling, shot blasting,
+-- inspection and ready for dispatch, often split across stages at once. Each
+-- move of pieces from one stage to the next is recorded with who made it;
+-- the quantity in each stage is worked out from these moves, with pieces
+-- that have left the lot taken from the furthest stage first.
+
+CREATE TABLE lot_stage_moves (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  component TEXT NOT NULL,
+  lot_no TEXT NOT NULL,
+  -- NULL for pieces not yet started on
+  from_stage TEXT CHECK (from_stage IN ('Fettling', 'Shot Blasting', 'Inspection', 'Ready for Dispatch')),
+  to_stage TEXT NOT NULL CHECK (to_stage IN ('Fettling', 'Shot Blasting', 'Inspection', 'Ready for Dispatch')),
+  quantity DECIMAL NOT NULL CHECK (quantity > 0),
+  notes TEXT,
+  moved_by UUID DEFAULT auth.uid(),
+  moved_by_email TEXT DEFAULT auth.jwt() ->> 'email',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT lot_stage_moves_different_stage CHECK (from_stage IS DISTINCT FROM to_stage)
+);
+
+CREATE INDEX idx_lot_stage_moves_lot ON lot_stage_moves(client_id, component, lot_no);
+
+ALTER TABLE lot_stage_moves ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage lot_stage_moves" ON lot_stage_moves FOR ALL USING (auth.role() = 'authenticated');
+
+-- A move may only take pieces that are in the stage it moves them from. The
+-- lot's rows are locked so two moves (or a move and a delivery) cannot both
+-- spend the same pieces. Quantities per stage come from replaying the lot in
+-- order, as getStageBreakdown in src/lib/lotStages.ts does.
+CREATE OR REPLACE FUNCTION check_lot_stage_move()
+RETURNS TRIGGER AS $$
+DECLARE
+  stage_order TEXT[] := ARRAY['Ready for Dispatch', 'Inspection', 'Shot Blasting', 'Fettling', 'Not Started'];
+  stages JSONB := '{"Not Started": 0, "Fettling": 0, "Shot Blasting": 0, "Inspection": 0, "Ready for Dispatch": 0}';
+  from_stage_name TEXT := COALESCE(NEW.from_stage, 'Not Started');
+  event RECORD;
+  stage TEXT;
+  remaining_out DECIMAL;
+  taken DECIMAL;
+BEGIN
+  PERFORM 1 FROM transactions
+  WHERE client_id = NEW.client_id AND component = NEW.component AND lot_no = NEW.lot_no
+  FOR UPDATE;
+
+  PERFORM 1 FROM lot_stage_moves
+  WHERE client_id = NEW.client_id AND component = NEW.component AND lot_no = NEW.lot_no
+  FOR UPDATE;
+
+  FOR event IN
+    SELECT t.date AS day, t.created_at, COALESCE(t.qty_in, 0) AS qty_in, COALESCE(t.qty_out, 0) AS qty_out,
+           NULL::TEXT AS from_stage, NULL::TEXT AS to_stage, 0::DECIMAL AS quantity
+    FROM transactions t
+    WHERE t.client_id = NEW.client_id AND t.component = NEW.component AND t.lot_no = NEW.lot_no
+    UNION ALL
+    SELECT (m.created_at AT TIME ZONE 'Asia/Kolkata')::DATE, m.created_at, 0, 0,
+           COALESCE(m.from_stage, 'Not Started'), m.to_stage, m.quantity
+    FROM lot_stage_moves m
+    WHERE m.client_id = NEW.client_id AND m.component = NEW.component AND m.lot_no = NEW.lot_no
+      AND m.id <> NEW.id
+    ORDER BY 1, 2
+  LOOP
+    IF event.to_stage IS NOT NULL THEN
+      stages := jsonb_set(stages, ARRAY[event.from_stage], to_jsonb((stages->>event.from_stage)::DECIMAL - event.quantity));
+      stages := jsonb_set(stages, ARRAY[event.to_stage], to_jsonb((stages->>event.to_stage)::DECIMAL + event.quantity));
+    ELSE
+      stages := jsonb_set(stages, '{Not Started}', to_jsonb((stages->>'Not Started')::DECIMAL + event.qty_in));
+      remaining_out := event.qty_out;
+
+      FOREACH stage IN ARRAY stage_order LOOP
+        taken := LEAST(GREATEST((stages->>stage)::DECIMAL, 0), remaining_out);
+        stages := jsonb_set(stages, ARRAY[stage], to_jsonb((stages->>stage)::DECIMAL - taken));
+        remaining_out := remaining_out - taken;
+      END LOOP;
+
+      stages := jsonb_set(stages, '{Not Started}', to_jsonb((stages->>'Not Started')::DECIMAL - remaining_out));
+    END IF;
+  END LOOP;
+
+  IF NEW.quantity > (stages->>from_stage_name)::DECIMAL THEN
+    RAISE EXCEPTION 'Only % pcs of lot % are in %',
+      GREATEST((stages->>from_stage_name)::DECIMAL, 0), NEW.lot_no, from_stage_name;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER lot_stage_moves_check
+  BEFORE INSERT OR UPDATE ON lot_stage_moves
+  FOR EACH ROW EXECUTE FUNCTION check_lot_stage_move();
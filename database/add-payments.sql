@@ -0,0 +1,128 @@
+-- Payments Migration
+-- Records what clients actually paid (including TDS they deducted) and how
+-- each receipt is allocated against invoices, for the client ledger and the
+-- outstanding receivables KPI
+
+CREATE TABLE payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE RESTRICT,
+  payment_date DATE NOT NULL,
+  mode TEXT NOT NULL CHECK (mode IN ('Cash', 'Cheque', 'NEFT', 'RTGS', 'IMPS', 'UPI', 'Other')),
+  reference TEXT,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount >= 0),
+  tds_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (tds_amount >= 0),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (amount + tds_amount > 0)
+);
+
+-- Part of a payment (cash received plus TDS) settling one invoice
+CREATE TABLE payment_allocations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE RESTRICT,
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (payment_id, invoice_id)
+);
+
+CREATE INDEX idx_payments_client_id ON payments(client_id);
+CREATE INDEX idx_payments_payment_date ON payments(payment_date);
+CREATE INDEX idx_payment_allocations_payment_id ON payment_allocations(payment_id);
+CREATE INDEX idx_payment_allocations_invoice_id ON payment_allocations(invoice_id);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE payment_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage payments" ON payments FOR ALL USING (auth.role() = 'authenticated');
+CREATE POLICY "Authenticated users can manage payment_allocations" ON payment_allocations FOR ALL USING (auth.role() = 'authenticated');
+
+-- Allocations must stay within the payment and within what the invoice
+-- (after credit and debit notes) still has outstanding
+CREATE OR REPLACE FUNCTION check_payment_allocation()
+RETURNS TRIGGER AS $$
+DECLARE
+  payment_row payments;
+  invoice_row invoices;
+  allocated_from_payment DECIMAL;
+  allocated_to_invoice DECIMAL;
+  invoice_value DECIMAL;
+BEGIN
+  SELECT * INTO payment_row FROM payments WHERE id = NEW.payment_id;
+  SELECT * INTO invoice_row FROM invoices WHERE id = NEW.invoice_id FOR UPDATE;
+
+  IF invoice_row.status <> 'Issued' THEN
+    RAISE EXCEPTION 'Invoice % is cancelled', invoice_row.invoice_number;
+  END IF;
+
+  IF invoice_row.client_id <> payment_row.client_id THEN
+    RAISE EXCEPTION 'Invoice % belongs to a different client', invoice_row.invoice_number;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO allocated_from_payment
+  FROM payment_allocations
+  WHERE payment_id = NEW.payment_id AND id <> NEW.id;
+
+  IF allocated_from_payment + NEW.amount > payment_row.amount + payment_row.tds_amount THEN
+    RAISE EXCEPTION 'Allocations exceed the payment amount';
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO allocated_to_invoice
+  FROM payment_allocations
+  WHERE invoice_id = NEW.invoice_id AND id <> NEW.id;
+
+  SELECT invoice_row.total_amount + COALESCE(SUM(
+    CASE WHEN note_type = 'Debit' THEN total_amount ELSE -total_amount END
+  ), 0) INTO invoice_value
+  FROM adjustment_notes
+  WHERE invoice_id = NEW.invoice_id AND status = 'Issued';
+
+  IF allocated_to_invoice + NEW.amount > invoice_value THEN
+    RAISE EXCEPTION 'Allocation exceeds the amount outstanding on invoice %', invoice_row.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER payment_allocations_check
+  BEFORE INSERT OR UPDATE ON payment_allocations
+  FOR EACH ROW EXECUTE FUNCTION check_payment_allocation();
+
+-- Store a payment and its allocations together
+CREATE OR REPLACE FUNCTION record_payment(p_payment JSONB, p_allocations JSONB)
+RETURNS payments AS $$
+DECLARE
+  new_payment payments;
+BEGIN
+  new_payment := jsonb_populate_record(NULL::payments, p_payment);
+  new_payment.id := uuid_generate_v4();
+  new_payment.created_at := NOW();
+
+  INSERT INTO payments SELECT (new_payment).*;
+
+  INSERT INTO payment_allocations (payment_id, invoice_id, amount)
+  SELECT new_payment.id, (allocation->>'invoice_id')::UUID, (allocation->>'amount')::DECIMAL
+  FROM jsonb_array_elements(p_allocations) AS allocation;
+
+  RETURN new_payment;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Paid invoices cannot be cancelled while payments are allocated to them
+CREATE OR REPLACE FUNCTION prevent_cancelling_paid_invoice()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'Cancelled' AND OLD.status = 'Issued' AND EXISTS (
+    SELECT 1 FROM payment_allocations WHERE invoice_id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Invoice % has payments allocated to it. Remove those first.', NEW.invoice_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER invoices_prevent_cancelling_paid
+  BEFORE UPDATE OF status ON invoices
+  FOR EACH ROW EXECUTE FUNCTION prevent_cancelling_paid_invoice();
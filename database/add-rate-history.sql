@@ -0,0 +1,119 @@
+-- Rate History Migration
+-- Editing a rate used to overwrite it, losing the price that applied to
+-- earlier deliveries. Each price is now a version valid from effective_from
+-- up to and including effective_to (open ended for the current version), and
+-- the rate for a delivery is the version in force on its date.
+
+ALTER TABLE rates ADD COLUMN effective_from DATE;
+ALTER TABLE rates ADD COLUMN effective_to DATE;
+
+-- Existing rates have been applied to everything recorded so far for their
+-- client (any client for a default rate), component, work type and unit
+UPDATE rates r SET effective_from = LEAST(
+  r.created_at::DATE,
+  COALESCE((
+    SELECT MIN(t.date) FROM transactions t
+    WHERE (r.client_id IS NULL OR t.client_id = r.client_id)
+      AND t.component = r.component
+      AND t.work_type = r.work_type
+      AND t.unit = r.unit
+  ), r.created_at::DATE)
+);
+
+ALTER TABLE rates ALTER COLUMN effective_from SET NOT NULL;
+ALTER TABLE rates ALTER COLUMN effective_from SET DEFAULT CURRENT_DATE;
+ALTER TABLE rates ADD CONSTRAINT rates_effective_range_check
+  CHECK (effective_to IS NULL OR effective_to >= effective_from);
+
+-- Only one open version per client, component, work type and unit
+ALTER TABLE rates DROP CONSTRAINT rates_client_id_component_work_type_unit_key;
+CREATE UNIQUE INDEX idx_rates_current ON rates(client_id, component, work_type, unit)
+  WHERE effective_to IS NULL;
+CREATE INDEX idx_rates_effective ON rates(client_id, component, work_type, unit, effective_from);
+
+-- A version keeps its client, component, work type, unit and price for good;
+-- a new price goes through revise_rate, and earlier versions only ever have
+-- their end date moved (by revise_rate or by reverting a revision)
+CREATE OR REPLACE FUNCTION protect_rate_history()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.client_id, NEW.component, NEW.work_type, NEW.unit) IS DISTINCT FROM
+     (OLD.client_id, OLD.component, OLD.work_type, OLD.unit) THEN
+    RAISE EXCEPTION 'The client, component, work type and unit of a rate cannot change';
+  END IF;
+
+  IF NEW.rate <> OLD.rate THEN
+    RAISE EXCEPTION 'A new price for % needs a new version from a later date', OLD.component;
+  END IF;
+
+  IF OLD.effective_to IS NOT NULL AND (to_jsonb(NEW) - 'effective_to') <> (to_jsonb(OLD) - 'effective_to') THEN
+    RAISE EXCEPTION 'Earlier versions of a rate cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER rates_protect_history
+  BEFORE UPDATE ON rates
+  FOR EACH ROW EXECUTE FUNCTION protect_rate_history();
+
+-- Close the current version the day before the new price starts and add the
+-- new version in one transaction
+CREATE OR REPLACE FUNCTION revise_rate(p_rate_id UUID, p_rate DECIMAL, p_sac_code TEXT, p_effective_from DATE)
+RETURNS rates AS $$
+DECLARE
+  current_rate rates;
+  new_rate rates;
+BEGIN
+  SELECT * INTO current_rate FROM rates WHERE id = p_rate_id FOR UPDATE;
+
+  IF current_rate.id IS NULL THEN
+    RAISE EXCEPTION 'Rate not found';
+  END IF;
+  IF current_rate.effective_to IS NOT NULL THEN
+    RAISE EXCEPTION 'Only the current rate of % can be revised', current_rate.component;
+  END IF;
+  IF p_effective_from <= current_rate.effective_from THEN
+    RAISE EXCEPTION 'The new rate must start after %', current_rate.effective_from;
+  END IF;
+
+  UPDATE rates SET effective_to = p_effective_from - 1 WHERE id = p_rate_id;
+
+  INSERT INTO rates (client_id, component, work_type, unit, rate, sac_code, effective_from)
+  VALUES (
+    current_rate.client_id, current_rate.component, current_rate.work_type, current_rate.unit,
+    p_rate, p_sac_code, p_effective_from
+  )
+  RETURNING * INTO new_rate;
+
+  RETURN new_rate;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Deleting the current version reverts to the previous one (RateMaster
+-- labels it that way), so removing a mistaken revision does not leave the
+-- rate without a current price
+CREATE OR REPLACE FUNCTION reopen_previous_rate()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.effective_to IS NULL THEN
+    UPDATE rates SET effective_to = NULL
+    WHERE id = (
+      SELECT r.id FROM rates r
+      WHERE r.client_id IS NOT DISTINCT FROM OLD.client_id
+        AND r.component = OLD.component
+        AND r.work_type = OLD.work_type
+        AND r.unit = OLD.unit
+      ORDER BY r.effective_from DESC
+      LIMIT 1
+    );
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER rates_reopen_previous
+  AFTER DELETE ON rates
+  FOR EACH ROW EXECUTE FUNCTION reopen_previous_rate();
@@ -0,0 +1,41 @@
+-- SAC / HSN Codes Migration
+-- Job-work services must be invoiced with their SAC (9988xx) code. The code is
+-- kept on the rate, copied onto each delivery when its rate is applied and
+-- frozen on the invoice and note lines so the HSN-wise tax summary of an
+-- issued invoice never changes.
+
+ALTER TABLE rates ADD COLUMN sac_code TEXT CHECK (sac_code ~ '^(\d{4}|\d{6}|\d{8})$');
+ALTER TABLE transactions ADD COLUMN sac_code TEXT;
+ALTER TABLE invoice_lines ADD COLUMN sac_code TEXT;
+ALTER TABLE adjustment_note_lines ADD COLUMN sac_code TEXT;
+
+-- Defaults per work type (same as DEFAULT_SAC_CODES in src/lib/billing.ts)
+UPDATE rates SET sac_code = CASE work_type
+  WHEN 'Fettling' THEN '998860'
+  WHEN 'Shot Blasting' THEN '998873'
+  ELSE '998898'
+END
+WHERE sac_code IS NULL;
+
+UPDATE transactions t SET sac_code = COALESCE(
+  (SELECT r.sac_code FROM rates r
+   WHERE r.client_id = t.client_id AND r.component = t.component AND r.work_type = t.work_type AND r.unit = t.unit
+   LIMIT 1),
+  (SELECT r.sac_code FROM rates r
+   WHERE r.client_id IS NULL AND r.component = t.component AND r.work_type = t.work_type AND r.unit = t.unit
+   LIMIT 1),
+  CASE t.work_type WHEN 'Fettling' THEN '998860' WHEN 'Shot Blasting' THEN '998873' ELSE '998898' END
+)
+WHERE t.transaction_type = 'Delivered' AND t.sac_code IS NULL;
+
+UPDATE invoice_lines l SET sac_code = COALESCE(
+  (SELECT t.sac_code FROM transactions t WHERE t.id = l.transaction_id),
+  CASE l.work_type WHEN 'Fettling' THEN '998860' WHEN 'Shot Blasting' THEN '998873' ELSE '998898' END
+)
+WHERE l.sac_code IS NULL;
+
+UPDATE adjustment_note_lines n SET sac_code = COALESCE(
+  (SELECT l.sac_code FROM invoice_lines l WHERE l.id = n.invoice_line_id),
+  '998898'
+)
+WHERE n.sac_code IS NULL;
@@ -0,0 +1,15 @@
+-- TDS and Round-Off Migration
+-- Invoices round their total to the nearest rupee and record the TDS the
+-- client is expected to deduct under section 194C, with the net amount
+-- receivable after it. Rounding is switched on or off in Settings.
+
+ALTER TABLE invoices
+  ADD COLUMN round_off DECIMAL(12,2) NOT NULL DEFAULT 0,
+  ADD COLUMN tds_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (tds_rate >= 0),
+  ADD COLUMN tds_amount DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (tds_amount >= 0),
+  ADD COLUMN net_receivable DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- Invoices issued so far had no rounding and no TDS recorded
+UPDATE invoices SET net_receivable = total_amount;
+
+ALTER TABLE company_profile ADD COLUMN round_off_invoices BOOLEAN NOT NULL DEFAULT TRUE;
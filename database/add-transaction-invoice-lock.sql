@@ -0,0 +1,116 @@
+-- Invoiced Transaction Lock Migration
+-- A delivery can only be billed once. finalize_invoice links every transaction
+-- it bills to the new invoice and refuses any that are already linked; the
+-- link is released when the invoice is cancelled. While linked, a transaction
+-- cannot be edited or deleted.
+
+ALTER TABLE transactions ADD COLUMN invoice_id UUID REFERENCES invoices(id);
+
+CREATE INDEX idx_transactions_invoice_id ON transactions(invoice_id);
+
+-- Link deliveries already on issued invoices (the latest invoice wins if one was billed twice)
+UPDATE transactions t SET invoice_id = billed.invoice_id
+FROM (
+  SELECT DISTINCT ON (il.transaction_id) il.transaction_id, il.invoice_id
+  FROM invoice_lines il
+  JOIN invoices i ON i.id = il.invoice_id
+  WHERE i.status = 'Issued' AND il.transaction_id IS NOT NULL
+  ORDER BY il.transaction_id, i.created_at DESC
+) billed
+WHERE t.id = billed.transaction_id;
+
+-- Store an invoice and its lines, give it the next number in its series and
+-- lock the transactions it bills
+CREATE OR REPLACE FUNCTION finalize_invoice(p_invoice JSONB, p_lines JSONB, p_series TEXT DEFAULT 'BRS')
+RETURNS invoices AS $$
+DECLARE
+  new_invoice invoices;
+  billed_ids UUID[];
+  already_invoiced TEXT;
+BEGIN
+  IF jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'An invoice needs at least one line';
+  END IF;
+
+  SELECT COALESCE(array_agg((line->>'transaction_id')::UUID), '{}')
+  INTO billed_ids
+  FROM jsonb_array_elements(p_lines) AS line
+  WHERE line->>'transaction_id' IS NOT NULL;
+
+  -- Row locks stop two invoices being saved for the same deliveries at once
+  PERFORM 1 FROM transactions WHERE id = ANY(billed_ids) FOR UPDATE;
+
+  SELECT string_agg(t.dc_no || ' (' || i.invoice_number || ')', ', ' ORDER BY t.date, t.dc_no)
+  INTO already_invoiced
+  FROM transactions t
+  JOIN invoices i ON i.id = t.invoice_id
+  WHERE t.id = ANY(billed_ids);
+
+  IF already_invoiced IS NOT NULL THEN
+    RAISE EXCEPTION 'Already invoiced: %', already_invoiced;
+  END IF;
+
+  new_invoice := jsonb_populate_record(NULL::invoices, p_invoice);
+
+  new_invoice.id := uuid_generate_v4();
+  new_invoice.series := p_series;
+  new_invoice.financial_year := financial_year_label(new_invoice.invoice_date);
+  new_invoice.sequence_number := next_document_number(p_series, new_invoice.financial_year);
+  new_invoice.invoice_number := p_series || '/' || new_invoice.financial_year || '/' || LPAD(new_invoice.sequence_number::TEXT, 4, '0');
+  new_invoice.status := 'Issued';
+  new_invoice.cancelled_at := NULL;
+  new_invoice.created_at := NOW();
+
+  INSERT INTO invoices SELECT (new_invoice).*;
+
+  INSERT INTO invoice_lines
+  SELECT (jsonb_populate_record(
+    NULL::invoice_lines,
+    line || jsonb_build_object('id', uuid_generate_v4(), 'invoice_id', new_invoice.id)
+  )).*
+  FROM jsonb_array_elements(p_lines) AS line;
+
+  UPDATE transactions SET invoice_id = new_invoice.id WHERE id = ANY(billed_ids);
+
+  RETURN new_invoice;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Cancelling an invoice makes its deliveries billable again
+CREATE OR REPLACE FUNCTION release_cancelled_invoice_transactions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'Cancelled' AND OLD.status = 'Issued' THEN
+    UPDATE transactions SET invoice_id = NULL WHERE invoice_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER invoices_release_cancelled_transactions
+  AFTER UPDATE OF status ON invoices
+  FOR EACH ROW EXECUTE FUNCTION release_cancelled_invoice_transactions();
+
+-- Invoiced transactions are read-only apart from the invoice link itself
+CREATE OR REPLACE FUNCTION prevent_changing_invoiced_transaction()
+RETURNS TRIGGER AS $$
+DECLARE
+  locked_by TEXT;
+BEGIN
+  IF OLD.invoice_id IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (to_jsonb(NEW) - 'invoice_id') = (to_jsonb(OLD) - 'invoice_id') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT invoice_number INTO locked_by FROM invoices WHERE id = OLD.invoice_id;
+  RAISE EXCEPTION 'DC % is on invoice % and cannot be changed. Cancel the invoice first.', OLD.dc_no, locked_by;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER transactions_prevent_changing_invoiced
+  BEFORE UPDATE OR DELETE ON transactions
+  FOR EACH ROW EXECUTE FUNCTION prevent_changing_invoiced_transaction();
@@ -0,0 +1,51 @@
+-- Transaction Movements Migration
+-- Castings also leave a lot without being worked on: rejected, returned to the
+-- client unprocessed, or scrapped. These reduce the lot balance like a
+-- delivery but carry no rate or amount and can never be put on an invoice.
+
+ALTER TABLE transactions DROP CONSTRAINT transactions_transaction_type_check;
+
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_transaction_type_check
+CHECK (transaction_type IN ('Received', 'Delivered', 'Rejected', 'Returned Unprocessed', 'Scrapped'));
+
+ALTER TABLE transactions
+ADD CONSTRAINT transactions_unbilled_movements_check
+CHECK (
+  transaction_type IN ('Received', 'Delivered')
+  OR (rate_applied IS NULL AND billed_amount IS NULL AND invoice_id IS NULL)
+);
+
+-- The summary now splits what left each lot by movement
+DROP FUNCTION get_balance_summary(UUID);
+
+CREATE OR REPLACE FUNCTION get_balance_summary(client_id UUID)
+RETURNS TABLE (
+  component TEXT,
+  lot_no TEXT,
+  total_in DECIMAL,
+  total_out DECIMAL,
+  total_delivered DECIMAL,
+  total_rejected DECIMAL,
+  total_returned_unprocessed DECIMAL,
+  total_scrapped DECIMAL,
+  balance DECIMAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    t.component,
+    t.lot_no,
+    COALESCE(SUM(t.qty_in), 0) as total_in,
+    COALESCE(SUM(t.qty_out), 0) as total_out,
+    COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Delivered'), 0) as total_delivered,
+    COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Rejected'), 0) as total_rejected,
+    COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Returned Unprocessed'), 0) as total_returned_unprocessed,
+    COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Scrapped'), 0) as total_scrapped,
+    COALESCE(SUM(t.qty_in), 0) - COALESCE(SUM(t.qty_out), 0) as balance
+  FROM transactions t
+  WHERE t.client_id = get_balance_summary.client_id
+  GROUP BY t.component, t.lot_no
+  ORDER BY t.component, t.lot_no;
+END;
+$$ LANGUAGE plpgsql;
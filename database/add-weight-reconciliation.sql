@@ -0,0 +1,78 @@
+-- Weight Reconciliation Migration
+-- Fettling and shot blasting take sand and flash off a casting, so a lot
+-- always goes out lighter than it came in. The balance summary now compares
+-- the weight per piece received with the weight per piece delivered, and a
+-- lot is flagged when the loss is above the tolerance for its component, or
+-- the company default when the component has none.
+
+ALTER TABLE company_profile ADD COLUMN weight_loss_tolerance_percent DECIMAL(5,2) NOT NULL DEFAULT 5;
+
+CREATE TABLE weight_loss_tolerances (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  component TEXT NOT NULL UNIQUE,
+  tolerance_percent DECIMAL(5,2) NOT NULL CHECK (tolerance_percent >= 0 AND tolerance_percent <= 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE weight_loss_tolerances ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Authenticated users can manage weight_loss_tolerances" ON weight_loss_tolerances FOR ALL USING (auth.role() = 'authenticated');
+
+-- Only weighed rows count towards the per-piece weights, so a lot with some
+-- entries left unweighed still compares like with like. Rejected, returned
+-- and scrapped pieces were not worked on and are left out.
+DROP FUNCTION get_balance_summary(UUID);
+
+CREATE OR REPLACE FUNCTION get_balance_summary(client_id UUID)
+RETURNS TABLE (
+  component TEXT,
+  lot_no TEXT,
+  total_in DECIMAL,
+  total_out DECIMAL,
+  total_delivered DECIMAL,
+  total_rejected DECIMAL,
+  total_returned_unprocessed DECIMAL,
+  total_scrapped DECIMAL,
+  balance DECIMAL,
+  received_kg DECIMAL,
+  delivered_kg DECIMAL,
+  weight_loss_percent DECIMAL
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    s.component,
+    s.lot_no,
+    s.total_in,
+    s.total_out,
+    s.total_delivered,
+    s.total_rejected,
+    s.total_returned_unprocessed,
+    s.total_scrapped,
+    s.total_in - s.total_out as balance,
+    s.received_kg,
+    s.delivered_kg,
+    CASE
+      WHEN s.received_weighed_qty > 0 AND s.delivered_weighed_qty > 0 AND s.received_kg > 0 THEN
+        ROUND((1 - (s.delivered_kg / s.delivered_weighed_qty) / (s.received_kg / s.received_weighed_qty)) * 100, 2)
+    END as weight_loss_percent
+  FROM (
+    SELECT
+      t.component,
+      t.lot_no,
+      COALESCE(SUM(t.qty_in), 0) as total_in,
+      COALESCE(SUM(t.qty_out), 0) as total_out,
+      COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Delivered'), 0) as total_delivered,
+      COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Rejected'), 0) as total_rejected,
+      COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Returned Unprocessed'), 0) as total_returned_unprocessed,
+      COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Scrapped'), 0) as total_scrapped,
+      COALESCE(SUM(t.weight_kg) FILTER (WHERE t.transaction_type = 'Received'), 0) as received_kg,
+      COALESCE(SUM(t.weight_kg) FILTER (WHERE t.transaction_type = 'Delivered'), 0) as delivered_kg,
+      COALESCE(SUM(t.qty_in) FILTER (WHERE t.transaction_type = 'Received' AND t.weight_kg IS NOT NULL), 0) as received_weighed_qty,
+      COALESCE(SUM(t.qty_out) FILTER (WHERE t.transaction_type = 'Delivered' AND t.weight_kg IS NOT NULL), 0) as delivered_weighed_qty
+    FROM transactions t
+    WHERE t.client_id = get_balance_summary.client_id
+    GROUP BY t.component, t.lot_no
+  ) s
+  ORDER BY s.component, s.lot_no;
+END;
+$$ LANGUAGE plpgsql;
@@ -7,6 +7,14 @@ import { ClientDashboard } from './components/ClientDashboard'
 import { RateMaster } from './components/RateMaster'
 import { Analytics } from './components/Analytics'
 import { Billing } from './components/Billing'
+import { InvoiceList } from './components/InvoiceList'
+import { InvoiceDetail } from './components/InvoiceDetail'
+import { AdjustmentNoteDetail } from './components/AdjustmentNoteDetail'
+import { ClientLedger } from './components/ClientLedger'
+import { WeightReconciliation } from './components/WeightReconciliation'
+import { WipBoard } from './components/WipBoard'
+import { CompanySettings } from './components/CompanySettings'
+import { MonthEndBilling } from './components/MonthEndBilling'
 import { ProtectedRoute } from './components/ProtectedRoute'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
 import { useRealtimeSubscription } from './hooks/useRealtimeSubscription'
@@ -64,6 +72,45 @@ function Navigation() {
             <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600 rounded-full"></div>
           )}
         </Link>
+        <Link
+          to="/wip"
+          className={`relative px-2 lg:px-3 py-2 text-xs lg:text-sm font-medium transition-all duration-200 ${location.pathname === '/wip'
+              ? 'text-blue-700'
+              : 'text-gray-600 hover:text-blue-600'
+            }`}
+        >
+          <span className="hidden sm:inline">Work in Progress</span>
+          <span className="sm:hidden">WIP</span>
+          {location.pathname === '/wip' && (
+            <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600 rounded-full"></div>
+          )}
+        </Link>
+        <Link
+          to="/invoices"
+          className={`relative px-2 lg:px-3 py-2 text-xs lg:text-sm font-medium transition-all duration-200 ${(location.pathname.startsWith('/invoices') || location.pathname.startsWith('/notes'))
+              ? 'text-blue-700'
+              : 'text-gray-600 hover:text-blue-600'
+            }`}
+        >
+          <span className="hidden sm:inline">Invoices</span>
+          <span className="sm:hidden">Bills</span>
+          {(location.pathname.startsWith('/invoices') || location.pathname.startsWith('/notes')) && (
+            <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600 rounded-full"></div>
+          )}
+        </Link>
+        <Link
+          to="/settings"
+          className={`relative px-2 lg:px-3 py-2 text-xs lg:text-sm font-medium transition-all duration-200 ${location.pathname === '/settings'
+              ? 'text-blue-700'
+              : 'text-gray-600 hover:text-blue-600'
+            }`}
+        >
+          <span className="hidden sm:inline">Settings</span>
+          <span className="sm:hidden">Setup</span>
+          {location.pathname === '/settings' && (
+            <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-blue-600 rounded-full"></div>
+          )}
+        </Link>
       </nav>
       
       {/* User Menu */}
@@ -118,6 +165,14 @@ function AppContent() {
           <Route path="/analytics" element={<Analytics />} />
           <Route path="/rates" element={<RateMaster />} />
           <Route path="/billing" element={<Billing />} />
+          <Route path="/invoices" element={<InvoiceList />} />
+          <Route path="/invoices/month-end" element={<MonthEndBilling />} />
+          <Route path="/invoices/:invoiceId" element={<InvoiceDetail />} />
+          <Route path="/notes/:noteId" element={<AdjustmentNoteDetail />} />
+          <Route path="/ledger" element={<ClientLedger />} />
+          <Route path="/weight-reconciliation" element={<WeightReconciliation />} />
+          <Route path="/wip" element={<WipBoard />} />
+          <Route path="/settings" element={<CompanySettings />} />
         </Routes>
       </main>
 
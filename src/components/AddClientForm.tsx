@@ -15,10 +15,18 @@ import { Input } from './ui/input'
 import { Label } from './ui/label'
 import { useCreateClient } from '../hooks/useClients'
 import { handleError, showSuccessToast } from '../lib/errorHandling'
+import { GstinSummary } from './GstinSummary'
+import { normalizeGstin, validateGstin } from '../lib/gstin'
 
 const clientSchema = z.object({
   name: z.string().min(1, 'Company name is required'),
-  gst_number: z.string().optional(),
+  gst_number: z.string().optional().superRefine((value, ctx) => {
+    if (!value) return
+    const result = validateGstin(value)
+    if (!result.valid) {
+      ctx.addIssue({ code: 'custom', message: result.error })
+    }
+  }),
   address: z.string().optional(),
 })
 
@@ -45,7 +53,7 @@ export function AddClientForm({ open, onOpenChange }: AddClientFormProps) {
     try {
       await createClient.mutateAsync({
         name: data.name,
-        gst_number: data.gst_number || null,
+        gst_number: data.gst_number ? normalizeGstin(data.gst_number) : null,
         address: data.address || null,
       })
       onOpenChange(false)
@@ -93,6 +101,10 @@ export function AddClientForm({ open, onOpenChange }: AddClientFormProps) {
               placeholder="Enter GST number (optional)"
               {...form.register('gst_number')}
             />
+            {form.formState.errors.gst_number && (
+              <p className="text-sm text-red-600">{form.formState.errors.gst_number.message}</p>
+            )}
+            <GstinSummary value={form.watch('gst_number')} />
           </div>
 
           <div className="space-y-2">
@@ -21,12 +21,13 @@ import {
 import { useClients } from '../hooks/useClients'
 import { useAllUniqueComponents } from '../hooks/useRates'
 import { handleError } from '../lib/errorHandling'
-import type { Rate, WorkType, Unit } from '../types'
+import { getDefaultSacCode, isValidSacCode, toDateString } from '../lib/billing'
+import type { Rate, RateInput, WorkType, Unit } from '../types'
 
 interface AddRateModalProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  onSave: (rateData: Omit<Rate, 'id' | 'created_at'>) => Promise<void>
+  onSave: (rateData: RateInput) => Promise<void>
   isLoading?: boolean
   editingRate?: Rate | null
 }
@@ -38,12 +39,14 @@ export function AddRateModal({
   isLoading = false,
   editingRate 
 }: AddRateModalProps) {
-  const [formData, setFormData] = useState<Omit<Rate, 'id' | 'created_at'>>({
+  const [formData, setFormData] = useState<RateInput>({
     client_id: null,
     component: '',
     work_type: 'Shot Blasting',
     unit: 'Per Piece',
     rate: 0,
+    sac_code: getDefaultSacCode('Shot Blasting'),
+    effective_from: toDateString(new Date()),
   })
 
 
@@ -61,6 +64,9 @@ export function AddRateModal({
         work_type: editingRate.work_type,
         unit: editingRate.unit,
         rate: editingRate.rate,
+        sac_code: editingRate.sac_code || getDefaultSacCode(editingRate.work_type),
+        // A change made today starts a new version unless the date is set back
+        effective_from: toDateString(new Date()),
       })
       // Custom component handling is automatic based on whether the component is in uniqueComponents
     } else {
@@ -70,6 +76,8 @@ export function AddRateModal({
         work_type: 'Shot Blasting',
         unit: 'Per Piece',
         rate: 0,
+        sac_code: getDefaultSacCode('Shot Blasting'),
+        effective_from: toDateString(new Date()),
       })
       // Custom component state is no longer needed
     }
@@ -85,6 +93,14 @@ export function AddRateModal({
       handleError(new Error('Rate must be greater than 0'), 'validation')
       return
     }
+    if (!formData.sac_code || !isValidSacCode(formData.sac_code)) {
+      handleError(new Error('SAC/HSN code must be 4, 6 or 8 digits'), 'validation')
+      return
+    }
+    if (!formData.effective_from) {
+      handleError(new Error('Effective date is required'), 'validation')
+      return
+    }
 
     try {
       await onSave(formData)
@@ -102,6 +118,8 @@ export function AddRateModal({
         work_type: 'Shot Blasting',
         unit: 'Per Piece',
         rate: 0,
+        sac_code: getDefaultSacCode('Shot Blasting'),
+        effective_from: toDateString(new Date()),
       })
       // Custom component state is no longer needed
     }
@@ -196,7 +214,14 @@ export function AddRateModal({
                 <Select
                   value={formData.work_type}
                   onValueChange={(value: WorkType) =>
-                    setFormData({ ...formData, work_type: value })
+                    setFormData({
+                      ...formData,
+                      work_type: value,
+                      // Follow the work type unless a custom code was entered
+                      sac_code: formData.sac_code === getDefaultSacCode(formData.work_type)
+                        ? getDefaultSacCode(value)
+                        : formData.sac_code,
+                    })
                   }
                 >
                   <SelectTrigger>
@@ -246,6 +271,50 @@ export function AddRateModal({
                 }
               />
             </div>
+
+            {/* SAC / HSN */}
+            <div className="space-y-2">
+              <Label htmlFor="sacCode">SAC / HSN Code</Label>
+              <Input
+                id="sacCode"
+                inputMode="numeric"
+                maxLength={8}
+                placeholder={getDefaultSacCode(formData.work_type)}
+                value={formData.sac_code || ''}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    sac_code: e.target.value.replace(/\D/g, ''),
+                  })
+                }
+              />
+              <p className="text-xs text-gray-500">
+                Printed on invoice lines for this rate. Default for {formData.work_type}: {getDefaultSacCode(formData.work_type)}
+              </p>
+            </div>
+
+            {/* Effective From */}
+            <div className="space-y-2">
+              <Label htmlFor="effectiveFrom">Effective From</Label>
+              <Input
+                id="effectiveFrom"
+                type="date"
+                value={formData.effective_from}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    effective_from: e.target.value,
+                  })
+                }
+              />
+              {editingRate && (
+                <p className="text-xs text-gray-500">
+                  {formData.effective_from > editingRate.effective_from
+                    ? `Saves a new version; deliveries before this date keep ₹${editingRate.rate.toLocaleString()}.`
+                    : `Corrects the SAC code or start of the version in force since ${new Date(editingRate.effective_from).toLocaleDateString('en-IN')}; a new price needs a later date.`}
+                </p>
+              )}
+            </div>
           </div>
 
           <DialogFooter className="gap-3 pt-6 border-t border-gray-100 mt-6">
@@ -0,0 +1,130 @@
+import { useState } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, Ban, Download, FileText, Printer } from 'lucide-react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { LoadingState } from './ui/loading'
+import { EmptyState } from './ui/empty-state'
+import { InvoicePreview } from './InvoicePreview'
+import { ConfirmationDialog } from './ConfirmationDialog'
+import { useAdjustmentNote, useCancelAdjustmentNote } from '../hooks/useAdjustmentNotes'
+import { useInvoice } from '../hooks/useInvoices'
+import { useCompanyProfile } from '../hooks/useCompanyProfile'
+import { ExportService } from '../services/exportService'
+import { buildAdjustmentNotePrintable, getCompanyLogoUrl } from '../lib/billing'
+import { handleError, showSuccessToast } from '../lib/errorHandling'
+
+export function AdjustmentNoteDetail() {
+  const navigate = useNavigate()
+  const { noteId = '' } = useParams()
+  const { data: note, isLoading, error } = useAdjustmentNote(noteId)
+  const { data: invoice, isLoading: isInvoiceLoading } = useInvoice(note?.invoice_id || '')
+  const { data: companyProfile } = useCompanyProfile()
+  const cancelNote = useCancelAdjustmentNote()
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false)
+
+  if (isLoading || isInvoiceLoading) {
+    return <LoadingState message="Loading note..." size="lg" className="h-64" />
+  }
+
+  if (error || !note || !invoice) {
+    return (
+      <EmptyState
+        icon={<FileText className="w-8 h-8" />}
+        title="Note Not Found"
+        description="This credit or debit note could not be loaded. It may have been removed or the link is incorrect."
+        action={{
+          label: "Back to Invoices",
+          onClick: () => navigate('/invoices'),
+          variant: "outline"
+        }}
+      />
+    )
+  }
+
+  const title = note.note_type === 'Credit' ? 'CREDIT NOTE' : 'DEBIT NOTE'
+  const printable = buildAdjustmentNotePrintable(note, invoice)
+  const reference = `${invoice.invoice_number} dated ${new Date(invoice.invoice_date).toLocaleDateString('en-IN')}`
+
+  const handleDownload = async () => {
+    try {
+      await ExportService.exportInvoiceToPDF(printable, { title, reference })
+    } catch (error) {
+      handleError(error, 'exporting note')
+    }
+  }
+
+  const confirmCancelNote = async () => {
+    try {
+      await cancelNote.mutateAsync(note.id)
+      showSuccessToast(`${note.note_type} note ${note.note_number} cancelled`)
+    } catch (error) {
+      handleError(error, 'cancelling note')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 print:hidden">
+        <div className="flex items-center space-x-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate(`/invoices/${invoice.id}`)}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back</span>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-3">
+              <span className="font-mono">{note.note_number}</span>
+              <Badge variant={note.status === 'Issued' ? 'default' : 'destructive'}>
+                {note.status}
+              </Badge>
+            </h1>
+            <p className="text-gray-600">
+              {note.note_type} note against{' '}
+              <Link to={`/invoices/${invoice.id}`} className="font-mono text-blue-600 hover:underline">
+                {invoice.invoice_number}
+              </Link>
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          {note.status === 'Issued' && (
+            <Button
+              variant="outline"
+              onClick={() => setIsCancelDialogOpen(true)}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Ban className="w-4 h-4 mr-2" />
+              Cancel Note
+            </Button>
+          )}
+          <Button variant="outline" onClick={handleDownload}>
+            <Download className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+          <Button onClick={() => window.print()} className="bg-blue-600 hover:bg-blue-700 text-white">
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <InvoicePreview invoice={printable} title={title} reference={reference} logoUrl={getCompanyLogoUrl(companyProfile)} />
+
+      <ConfirmationDialog
+        open={isCancelDialogOpen}
+        onOpenChange={setIsCancelDialogOpen}
+        title={`Cancel ${note.note_type} Note`}
+        description={`Cancel ${note.note_number}? Its number stays reserved and the invoice returns to its previous value. This cannot be undone.`}
+        confirmText="Cancel Note"
+        cancelText="Keep Note"
+        variant="destructive"
+        onConfirm={confirmCancelNote}
+        isLoading={cancelNote.isPending}
+      />
+    </div>
+  )
+}
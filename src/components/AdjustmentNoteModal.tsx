@@ -0,0 +1,302 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { useCreateAdjustmentNote } from '../hooks/useAdjustmentNotes'
+import {
+  calculateBillingTotals,
+  formatCurrencyAmount,
+  getInvoiceTaxSettings,
+  getTaxLines,
+  roundCurrency,
+  toDateString
+} from '../lib/billing'
+import { handleError, showSuccessToast, ValidationError } from '../lib/errorHandling'
+import type { AdjustmentNote, AdjustmentNoteLineDraft, AdjustmentNoteType, InvoiceWithLines } from '../types'
+
+interface AdjustmentNoteModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  invoice: InvoiceWithLines
+  noteType: AdjustmentNoteType
+  // Value of the invoice not yet covered by earlier credit notes or payments
+  creditableAmount: number
+  onCreated?: (note: AdjustmentNote) => void
+}
+
+export function AdjustmentNoteModal({
+  open,
+  onOpenChange,
+  invoice,
+  noteType,
+  creditableAmount,
+  onCreated
+}: AdjustmentNoteModalProps) {
+  const [noteDate, setNoteDate] = useState(toDateString(new Date()))
+  const [reason, setReason] = useState('')
+  const [lineAmounts, setLineAmounts] = useState<Record<string, string>>({})
+  const [otherDescription, setOtherDescription] = useState('')
+  const [otherAmount, setOtherAmount] = useState('')
+  const [currentType, setCurrentType] = useState<AdjustmentNoteType>(noteType)
+
+  const createNote = useCreateAdjustmentNote()
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (open) {
+      setNoteDate(toDateString(new Date()))
+      setReason('')
+      setLineAmounts({})
+      setOtherDescription('')
+      setOtherAmount('')
+      setCurrentType(noteType)
+    }
+  }, [open, noteType])
+
+  // Notes are taxed at the invoice's GST rate, so exempt charges are not adjusted line by line
+  const adjustableLines = useMemo(
+    () => invoice.lines.filter(line => line.tax_treatment !== 'Exempt'),
+    [invoice.lines]
+  )
+
+  const noteLines = useMemo(() => {
+    const lines: AdjustmentNoteLineDraft[] = adjustableLines
+      .filter(line => parseFloat(lineAmounts[line.id]) > 0)
+      .map(line => ({
+        invoice_line_id: line.id,
+        line_no: 0,
+        description: line.description,
+        quantity: line.quantity,
+        rate: line.rate,
+        amount: roundCurrency(parseFloat(lineAmounts[line.id])),
+        sac_code: line.sac_code
+      }))
+
+    if (otherDescription.trim() && parseFloat(otherAmount) > 0) {
+      lines.push({
+        invoice_line_id: null,
+        line_no: 0,
+        description: otherDescription.trim(),
+        quantity: 0,
+        rate: 0,
+        amount: roundCurrency(parseFloat(otherAmount)),
+        // Charged under the invoice's main service
+        sac_code: invoice.lines[0]?.sac_code ?? null
+      })
+    }
+
+    return lines.map((line, index) => ({ ...line, line_no: index + 1 }))
+  }, [adjustableLines, invoice.lines, lineAmounts, otherDescription, otherAmount])
+
+  const totals = useMemo(
+    () => calculateBillingTotals(noteLines, getInvoiceTaxSettings(invoice)),
+    [noteLines, invoice]
+  )
+
+  const taxLines = getTaxLines({
+    cgst_rate: totals.cgstRate,
+    cgst_amount: totals.cgstAmount,
+    sgst_rate: totals.sgstRate,
+    sgst_amount: totals.sgstAmount,
+    igst_rate: totals.igstRate,
+    igst_amount: totals.igstAmount
+  })
+
+  const formatCurrency = (amount: number) => formatCurrencyAmount(amount, invoice.currency)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      if (!reason.trim()) {
+        throw new ValidationError('Please enter the reason for this note')
+      }
+      if (noteLines.length === 0) {
+        throw new ValidationError('Enter an amount against at least one line')
+      }
+      if (noteDate < invoice.invoice_date) {
+        throw new ValidationError('A note cannot be dated before the invoice it adjusts')
+      }
+      if (currentType === 'Credit' && totals.totalAmount > creditableAmount) {
+        throw new ValidationError(
+          `Credit notes cannot exceed the remaining unpaid invoice value of ${formatCurrency(creditableAmount)}`
+        )
+      }
+
+      const note = await createNote.mutateAsync({
+        note_type: currentType,
+        invoice_id: invoice.id,
+        note_date: noteDate,
+        reason: reason.trim(),
+        taxable_amount: totals.taxableAmount,
+        cgst_rate: totals.cgstRate,
+        cgst_amount: totals.cgstAmount,
+        sgst_rate: totals.sgstRate,
+        sgst_amount: totals.sgstAmount,
+        igst_rate: totals.igstRate,
+        igst_amount: totals.igstAmount,
+        total_tax: totals.totalTax,
+        total_amount: totals.totalAmount,
+        lines: noteLines
+      })
+
+      showSuccessToast(`${currentType} note ${note.note_number} issued`)
+      onOpenChange(false)
+      onCreated?.(note)
+    } catch (error) {
+      handleError(error, `creating ${currentType.toLowerCase()} note`)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Raise {currentType} Note</DialogTitle>
+          <DialogDescription>
+            {currentType === 'Credit'
+              ? `Reduce the amount due on invoice ${invoice.invoice_number}, e.g. for a rate dispute or rejected castings.`
+              : `Charge an additional amount against invoice ${invoice.invoice_number}, e.g. for a rate revision.`}
+            {' '}GST is applied at the invoice's rates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Note Type</Label>
+              <Select value={currentType} onValueChange={(value) => setCurrentType(value as AdjustmentNoteType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="Credit">Credit Note</SelectItem>
+                  <SelectItem value="Debit">Debit Note</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="noteDate">Date</Label>
+              <Input
+                id="noteDate"
+                type="date"
+                value={noteDate}
+                min={invoice.invoice_date}
+                onChange={(e) => setNoteDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reason">Reason *</Label>
+            <Textarea
+              id="reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={currentType === 'Credit' ? 'e.g. 12 castings rejected after shot blasting' : 'e.g. Rate revised from ₹10 to ₹12 per piece'}
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Amount per invoice line (before GST)</Label>
+            <div className="border rounded-lg divide-y max-h-64 overflow-y-auto">
+              {adjustableLines.map(line => (
+                <div key={line.id} className="flex items-center justify-between gap-4 p-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{line.description}</p>
+                    <p className="text-xs text-gray-500">
+                      DC {line.dc_no || '-'} · {line.quantity} × {formatCurrency(line.rate)} = {formatCurrency(line.amount)}
+                    </p>
+                  </div>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    className="w-32"
+                    value={lineAmounts[line.id] || ''}
+                    onChange={(e) => setLineAmounts({ ...lineAmounts, [line.id]: e.target.value })}
+                    placeholder="0.00"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="otherDescription">Other adjustment</Label>
+              <Input
+                id="otherDescription"
+                value={otherDescription}
+                onChange={(e) => setOtherDescription(e.target.value)}
+                placeholder="Description (optional)"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="otherAmount">Amount</Label>
+              <Input
+                id="otherAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={otherAmount}
+                onChange={(e) => setOtherAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="bg-gray-50 p-3 rounded-lg space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span>Taxable Value:</span>
+              <span className="font-medium">{formatCurrency(totals.taxableAmount)}</span>
+            </div>
+            {taxLines.map(tax => (
+              <div key={tax.label} className="flex justify-between text-xs text-gray-600">
+                <span>{tax.label}:</span>
+                <span>{formatCurrency(tax.amount)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-bold border-t pt-1">
+              <span>{currentType} Note Total:</span>
+              <span>{formatCurrency(totals.totalAmount)}</span>
+            </div>
+            {currentType === 'Credit' && (
+              <p className="text-xs text-gray-500">
+                Remaining creditable value: {formatCurrency(creditableAmount)}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createNote.isPending}>
+              {createNote.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Issue {currentType} Note
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -19,6 +19,7 @@ import {
 import { TrendingUp, TrendingDown, Users, Package, Wrench, DollarSign } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { KPICard } from './KPICard'
+import { ReceivablesAgeing } from './ReceivablesAgeing'
 import {
   useClientAnalytics,
   useMonthlyTrends,
@@ -95,6 +96,9 @@ export function Analytics() {
         />
       </div>
 
+      {/* Receivables Ageing */}
+      <ReceivablesAgeing />
+
       {/* Monthly Trends */}
       <Card>
         <CardHeader>
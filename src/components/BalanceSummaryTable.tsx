@@ -1,4 +1,5 @@
 import { motion } from 'framer-motion'
+import { AlertTriangle } from 'lucide-react'
 import {
   Table,
   TableBody,
@@ -8,6 +9,12 @@ import {
   TableRow,
 } from './ui/table'
 import { Card } from './ui/card'
+import { useCompanyProfile } from '../hooks/useCompanyProfile'
+import { useWeightTolerances } from '../hooks/useWeightTolerances'
+import { DEFAULT_WEIGHT_LOSS_TOLERANCE, getLossTolerance } from '../lib/weightReconciliation'
+import { LOT_AGE_BUCKETS, LOT_AGE_STYLES, getLotAgeBucket, getLotAgeDays, getPendingByAge } from '../lib/lotAgeing'
+import { formatStageBreakdown } from '../lib/lotStages'
+import { toDateString } from '../lib/billing'
 import type { BalanceSummaryItem } from '../types'
 
 interface BalanceSummaryTableProps {
@@ -15,6 +22,10 @@ interface BalanceSummaryTableProps {
 }
 
 export function BalanceSummaryTable({ data }: BalanceSummaryTableProps) {
+  const { data: companyProfile } = useCompanyProfile()
+  const { data: tolerances = [] } = useWeightTolerances()
+  const today = toDateString(new Date())
+
   if (data.length === 0) {
     return (
       <Card className="p-8">
@@ -25,8 +36,18 @@ export function BalanceSummaryTable({ data }: BalanceSummaryTableProps) {
     )
   }
 
+  const pendingByAge = getPendingByAge(data, today)
+
   return (
     <Card>
+      <div className="flex flex-wrap items-center gap-2 px-4 pt-4 text-xs">
+        <span className="text-gray-500">Pending by age:</span>
+        {LOT_AGE_BUCKETS.map(bucket => (
+          <span key={bucket} className={`rounded-full px-2.5 py-0.5 font-semibold ${LOT_AGE_STYLES[bucket]}`}>
+            {bucket} days: {pendingByAge[bucket].toLocaleString()} pcs
+          </span>
+        ))}
+      </div>
       <div className="mobile-table-scroll">
         <Table>
         <TableHeader>
@@ -34,30 +55,74 @@ export function BalanceSummaryTable({ data }: BalanceSummaryTableProps) {
             <TableHead>Component</TableHead>
             <TableHead>Lot No</TableHead>
             <TableHead className="text-right">Total In</TableHead>
-            <TableHead className="text-right">Total Out</TableHead>
+            <TableHead className="text-right">Delivered</TableHead>
+            <TableHead className="text-right">Rejected</TableHead>
+            <TableHead className="text-right">Returned Unprocessed</TableHead>
+            <TableHead className="text-right">Scrapped</TableHead>
             <TableHead className="text-right">Balance</TableHead>
+            <TableHead className="text-right">Age</TableHead>
+            <TableHead className="text-right">In (kg)</TableHead>
+            <TableHead className="text-right">Out (kg)</TableHead>
+            <TableHead className="text-right">Loss %</TableHead>
           </TableRow>
         </TableHeader>
         <TableBody>
-          {data.map((item, index) => (
-            <motion.tr
-              key={`${item.component}-${item.lot_no}`}
-              initial={{ opacity: 0, x: -20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ duration: 0.3, delay: index * 0.05 }}
-              className="border-b transition-colors hover:bg-muted/50"
-            >
-              <TableCell className="font-medium">{item.component}</TableCell>
-              <TableCell>{item.lot_no}</TableCell>
-              <TableCell className="text-right">{item.total_in.toLocaleString()}</TableCell>
-              <TableCell className="text-right">{item.total_out.toLocaleString()}</TableCell>
-              <TableCell className={`text-right font-medium ${
-                item.balance < 0 ? 'text-red-600' : 'text-green-600'
-              }`}>
-                {item.balance.toLocaleString()}
-              </TableCell>
-            </motion.tr>
-          ))}
+          {data.map((item, index) => {
+            const tolerance = getLossTolerance(item.component, tolerances, companyProfile?.weight_loss_tolerance_percent ?? DEFAULT_WEIGHT_LOSS_TOLERANCE)
+            const exceedsTolerance = item.weight_loss_percent !== null && item.weight_loss_percent > tolerance
+            // Only material still with us has an age
+            const firstReceived = item.balance > 0 ? item.first_received_date : null
+
+            return (
+              <motion.tr
+                key={`${item.component}-${item.lot_no}`}
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ duration: 0.3, delay: index * 0.05 }}
+                className="border-b transition-colors hover:bg-muted/50"
+              >
+                <TableCell className="font-medium">{item.component}</TableCell>
+                <TableCell>{item.lot_no}</TableCell>
+                <TableCell className="text-right">{item.total_in.toLocaleString()}</TableCell>
+                <TableCell className="text-right">{item.total_delivered.toLocaleString()}</TableCell>
+                <TableCell className="text-right text-red-600">{item.total_rejected ? item.total_rejected.toLocaleString() : '-'}</TableCell>
+                <TableCell className="text-right text-amber-600">{item.total_returned_unprocessed ? item.total_returned_unprocessed.toLocaleString() : '-'}</TableCell>
+                <TableCell className="text-right text-gray-600">{item.total_scrapped ? item.total_scrapped.toLocaleString() : '-'}</TableCell>
+                <TableCell className={`text-right font-medium ${
+                  item.balance < 0 ? 'text-red-600' : 'text-green-600'
+                }`}>
+                  {item.balance > 0 ? (
+                    <span className="underline decoration-dotted cursor-help" title={formatStageBreakdown(item.stages)}>
+                      {item.balance.toLocaleString()}
+                    </span>
+                  ) : item.balance.toLocaleString()}
+                </TableCell>
+                <TableCell className="text-right">
+                  {firstReceived ? (
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-semibold ${LOT_AGE_STYLES[getLotAgeBucket(getLotAgeDays(firstReceived, today))]}`}
+                      title={`First received ${new Date(firstReceived).toLocaleDateString()}`}
+                    >
+                      {getLotAgeDays(firstReceived, today)}d
+                    </span>
+                  ) : '-'}
+                </TableCell>
+                <TableCell className="text-right">{item.received_kg ? item.received_kg.toLocaleString() : '-'}</TableCell>
+                <TableCell className="text-right">{item.delivered_kg ? item.delivered_kg.toLocaleString() : '-'}</TableCell>
+                <TableCell className="text-right">
+                  {item.weight_loss_percent === null ? '-' : (
+                    <span
+                      className={`inline-flex items-center justify-end ${exceedsTolerance ? 'font-semibold text-red-600' : 'text-gray-700'}`}
+                      title={`Tolerance ${tolerance}%`}
+                    >
+                      {exceedsTolerance && <AlertTriangle className="mr-1 h-3 w-3" />}
+                      {item.weight_loss_percent.toFixed(2)}%
+                    </span>
+                  )}
+                </TableCell>
+              </motion.tr>
+            )
+          })}
         </TableBody>
       </Table>
       </div>
@@ -1,7 +1,8 @@
 import { useState, useMemo } from 'react'
-import { ArrowLeft, Printer, Settings, FileText, Download } from 'lucide-react'
-import { useNavigate, useSearchParams } from 'react-router-dom'
+import { ArrowLeft, Printer, Settings, FileText, Download, Save, Loader2, FileJson, Lock } from 'lucide-react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
 import { Button } from './ui/button'
+import { LoadingState } from './ui/loading'
 import { Input } from './ui/input'
 import { Label } from './ui/label'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
@@ -12,178 +13,189 @@ import {
   SelectTrigger,
   SelectValue,
 } from './ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 // import { Textarea } from './ui/textarea'
+import { InvoicePreview } from './InvoicePreview'
+import { InvoiceChargesEditor } from './InvoiceChargesEditor'
+import { ExportService } from '../services/exportService'
 import { useTransactions } from '../hooks/useTransactions'
 import { useClients } from '../hooks/useClients'
-
-interface BillingSettings {
-  invoiceNumber: string
-  cgstRate: number
-  sgstRate: number
-  paymentTerms: string
-  companyName: string
-  companyGst: string
-  companyPhone: string
-  companyEmail: string
-  companyAddress: string
-  bankName: string
-  accountNumber: string
-  ifscCode: string
-  notes: string
-  showLogo: boolean
-  currency: string
-  discountPercent: number
-  showBankDetails: boolean
-  showNotes: boolean
-  invoiceTemplate: 'standard' | 'detailed' | 'minimal'
-}
+import { useClientInvoices, useCreateInvoice } from '../hooks/useInvoices'
+import { useCompanyProfile } from '../hooks/useCompanyProfile'
+import {
+  buildChargeLines,
+  buildInvoiceDraft,
+  buildInvoiceLines,
+  calculateBillingTotals,
+  formatCurrencyAmount,
+  getChargeError,
+  getCompanyLogoUrl,
+  getBillingPeriodRange,
+  getDefaultBillingSettings,
+  getTdsRate,
+  isBillableTransaction,
+  isInvoicedTransaction,
+  PAYMENT_TERMS,
+  TDS_SECTION,
+  toDateString,
+  type BillingPeriod,
+  type BillingSettings
+} from '../lib/billing'
+import { getFinancialYear } from '../lib/financialYear'
+import { isInterStateSupply } from '../lib/gstin'
+import { handleError, showSuccessToast, ValidationError } from '../lib/errorHandling'
+import type { InvoiceCharge } from '../types'
 
 export function Billing() {
   const navigate = useNavigate()
   const [searchParams] = useSearchParams()
   const clientId = searchParams.get('clientId') || ''
   
-  const [selectedPeriod, setSelectedPeriod] = useState<'current-month' | 'last-month' | 'custom'>('current-month')
+  const [selectedPeriod, setSelectedPeriod] = useState<BillingPeriod>('current-month')
   const [customDateRange, setCustomDateRange] = useState({ start: '', end: '' })
-  const [settings, setSettings] = useState<BillingSettings>({
-    invoiceNumber: `INV-${new Date().getFullYear()}-${String(new Date().getMonth() + 1).padStart(2, '0')}-${Date.now().toString().slice(-4)}`,
-    cgstRate: 6,
-    sgstRate: 6,
-    paymentTerms: 'Net 30 days',
-    companyName: 'BRS INDUSTRIES & SHOT-BLASTING',
-    companyGst: '33AFYPR4654L1ZK',
-    companyPhone: '9944913135, 9842211191',
-    companyEmail: 'brsshotblasting11191@gmail.com, brsindustries13135@gmail.com',
-    companyAddress: 'Processing & ShotBlasting Services',
-
-    bankName: 'State Bank of India',
-    accountNumber: 'XXXXXXXXXXXX',
-    ifscCode: 'SBIN0XXXXXX',
-    notes: 'Thank you for your business!',
-    showLogo: true,
-    currency: 'INR',
-    discountPercent: 0,
-    showBankDetails: true,
-    showNotes: true,
-    invoiceTemplate: 'standard'
-  })
+  const { data: companyProfile, isLoading: isProfileLoading } = useCompanyProfile()
+  // Edits made here only apply to the invoice being prepared; the saved
+  // defaults are changed on the Settings page
+  const [settingsOverrides, setSettingsOverrides] = useState<Partial<BillingSettings>>({})
+  const settings = useMemo<BillingSettings>(
+    () => ({ ...getDefaultBillingSettings(companyProfile), ...settingsOverrides }),
+    [companyProfile, settingsOverrides]
+  )
+  const [charges, setCharges] = useState<InvoiceCharge[]>([])
 
   const { data: clients = [] } = useClients()
   const { data: allTransactions = [] } = useTransactions(clientId)
+  const { data: clientInvoices = [] } = useClientInvoices(clientId)
+  const createInvoice = useCreateInvoice()
 
   const client = clients.find(c => c.id === clientId)
 
-  // Filter transactions based on selected period
-  const filteredTransactions = useMemo(() => {
-    let startDate: Date
-    let endDate: Date = new Date()
-
-    switch (selectedPeriod) {
-      case 'current-month':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1)
-        break
-      case 'last-month':
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth() - 1, 1)
-        endDate = new Date(endDate.getFullYear(), endDate.getMonth(), 0)
-        break
-      case 'custom':
-        if (customDateRange.start && customDateRange.end) {
-          startDate = new Date(customDateRange.start)
-          endDate = new Date(customDateRange.end)
-        } else {
-          startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1)
-        }
-        break
-      default:
-        startDate = new Date(endDate.getFullYear(), endDate.getMonth(), 1)
-    }
+  const periodRange = useMemo(
+    () => getBillingPeriodRange(selectedPeriod, customDateRange),
+    [selectedPeriod, customDateRange]
+  )
 
-    return allTransactions.filter(transaction => {
-      const transactionDate = new Date(transaction.date)
-      return transactionDate >= startDate && transactionDate <= endDate && 
-             transaction.transaction_type === 'Delivered' && 
-             transaction.billed_amount && transaction.billed_amount > 0
-    })
-  }, [allTransactions, selectedPeriod, customDateRange])
+  // Deliveries in the selected period; those already on an invoice are shown
+  // separately and never billed again
+  const periodTransactions = useMemo(() => {
+    return allTransactions.filter(transaction =>
+      transaction.date >= periodRange.start && transaction.date <= periodRange.end &&
+      isBillableTransaction(transaction)
+    )
+  }, [allTransactions, periodRange])
+
+  const filteredTransactions = useMemo(
+    () => periodTransactions.filter(transaction => !isInvoicedTransaction(transaction)),
+    [periodTransactions]
+  )
+
+  const invoicedTransactions = useMemo(
+    () => periodTransactions.filter(isInvoicedTransaction),
+    [periodTransactions]
+  )
+
+  const invoiceNumbers = useMemo(
+    () => new Map(clientInvoices.map(invoice => [invoice.id, invoice.invoice_number])),
+    [clientInvoices]
+  )
+
+  const invoiceDate = toDateString(new Date())
+
+  // Delivery lines first, then any charges added by hand
+  const invoiceLines = useMemo(() => {
+    const transactionLines = buildInvoiceLines(filteredTransactions)
+    return [...transactionLines, ...buildChargeLines(charges, transactionLines.length + 1, invoiceDate)]
+  }, [filteredTransactions, charges, invoiceDate])
+
+  const interState = isInterStateSupply(settings.companyGst, client?.gst_number)
+  const tdsRate = settings.tdsRate ?? getTdsRate(client?.gst_number)
 
   // Calculate billing summary with custom GST rates and discount
   const billingSummary = useMemo(() => {
-    const totalAmount = filteredTransactions.reduce((sum, t) => sum + (t.billed_amount || 0), 0)
-    const totalQuantity = filteredTransactions.reduce((sum, t) => sum + (t.qty_out || 0), 0)
-    const totalWeight = filteredTransactions.reduce((sum, t) => sum + (t.weight_kg || 0), 0)
-    const transactionCount = filteredTransactions.length
-
-    // Apply discount
-    const discountAmount = totalAmount * (settings.discountPercent / 100)
-    const subtotalAfterDiscount = totalAmount - discountAmount
-
-    // GST Calculations with custom rates on discounted amount
-    const cgstRate = settings.cgstRate / 100
-    const sgstRate = settings.sgstRate / 100
-    
-    const cgstAmount = subtotalAfterDiscount * cgstRate
-    const sgstAmount = subtotalAfterDiscount * sgstRate
-    const totalGstAmount = cgstAmount + sgstAmount
-    const totalAmountWithGst = subtotalAfterDiscount + totalGstAmount
-
-    return {
-      totalAmount,
-      totalQuantity,
-      totalWeight,
-      transactionCount,
-      discountAmount,
-      subtotalAfterDiscount,
-      cgstAmount,
-      sgstAmount,
-      totalGstAmount,
-      totalAmountWithGst
-    }
-  }, [filteredTransactions, settings.cgstRate, settings.sgstRate, settings.discountPercent])
+    return calculateBillingTotals(invoiceLines, {
+      discountPercent: settings.discountPercent,
+      cgstRate: settings.cgstRate,
+      sgstRate: settings.sgstRate,
+      interState,
+      roundOff: settings.roundOff,
+      tdsRate
+    })
+  }, [invoiceLines, settings.cgstRate, settings.sgstRate, settings.discountPercent, interState, settings.roundOff, tdsRate])
 
-  const formatCurrency = (amount: number) => {
-    const symbol = settings.currency === 'INR' ? '₹' : settings.currency === 'USD' ? '$' : '€'
-    return `${symbol}${amount.toLocaleString('en-IN', { minimumFractionDigits: 2 })}`
-  }
+  const invoiceDraft = useMemo(
+    () => buildInvoiceDraft({ clientId, client, lines: invoiceLines, settings, period: periodRange, invoiceDate }),
+    [clientId, client, invoiceLines, settings, periodRange, invoiceDate]
+  )
 
-  const formatDate = (date: string) => {
-    return new Date(date).toLocaleDateString('en-IN', {
-      day: '2-digit',
-      month: '2-digit',
-      year: 'numeric'
-    })
+  const formatCurrency = (amount: number) => formatCurrencyAmount(amount, settings.currency)
+
+
+  const handlePrint = () => {
+    window.print()
   }
 
-  const getPeriodLabel = () => {
-    switch (selectedPeriod) {
-      case 'current-month':
-        return new Date().toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })
-      case 'last-month':
-        const lastMonth = new Date()
-        lastMonth.setMonth(lastMonth.getMonth() - 1)
-        return lastMonth.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })
-      case 'custom':
-        return customDateRange.start && customDateRange.end 
-          ? `${formatDate(customDateRange.start)} - ${formatDate(customDateRange.end)}` 
-          : 'Custom Period'
-      default:
-        return 'Current Month'
+  const handleDownload = async () => {
+    try {
+      await ExportService.exportInvoiceToPDF(invoiceDraft, {
+        logoUrl: settings.showLogo ? getCompanyLogoUrl(companyProfile) : null
+      })
+    } catch (error) {
+      handleError(error, 'exporting invoice')
     }
   }
 
-  const handlePrint = () => {
-    window.print()
+  // Null when the draft can be issued
+  const getDraftError = (): string | null => {
+    if (invoiceLines.length === 0) return 'There are no uninvoiced deliveries or charges to bill'
+    return charges.map(getChargeError).find(Boolean) || null
   }
 
-  const handleDownload = () => {
-    // This would typically integrate with a PDF generation library
-    // For now, we'll trigger the print dialog
-    window.print()
+  const handleSaveInvoice = async () => {
+    const draftError = getDraftError()
+    if (draftError) {
+      handleError(new ValidationError(draftError), 'saving invoice')
+      return
+    }
+
+    try {
+      const invoice = await createInvoice.mutateAsync(invoiceDraft)
+      showSuccessToast(`Invoice ${invoice.invoice_number} saved`)
+      navigate(`/invoices/${invoice.id}`)
+    } catch (error) {
+      handleError(error, 'saving invoice')
+    }
   }
 
-  const getDueDate = () => {
-    const days = parseInt(settings.paymentTerms.match(/\d+/)?.[0] || '30')
-    return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toLocaleDateString('en-IN')
+  // E-invoices are only generated for issued invoices, so the draft is checked
+  // against the schema first and saved (allocating its number) before download
+  const handleExportEInvoice = async () => {
+    const draftError = getDraftError()
+    if (draftError) {
+      handleError(new ValidationError(draftError), 'exporting e-invoice')
+      return
+    }
+
+    try {
+      ExportService.checkEInvoice(invoiceDraft)
+      const invoice = await createInvoice.mutateAsync(invoiceDraft)
+      await ExportService.exportInvoiceToEInvoiceJSON({ ...invoice, lines: invoiceDraft.lines })
+      showSuccessToast(`Invoice ${invoice.invoice_number} saved and e-invoice JSON downloaded`)
+      navigate(`/invoices/${invoice.id}`)
+    } catch (error) {
+      handleError(error, 'exporting e-invoice')
+    }
+  }
+
+  if (isProfileLoading) {
+    return <LoadingState message="Loading company settings..." size="lg" className="h-64" />
   }
 
   if (!client) {
@@ -253,10 +265,12 @@ export function Billing() {
                     <Label htmlFor="invoiceNumber">Invoice Number</Label>
                     <Input
                       id="invoiceNumber"
-                      value={settings.invoiceNumber}
-                      onChange={(e) => setSettings({ ...settings, invoiceNumber: e.target.value })}
-                      placeholder="Enter invoice number"
+                      value={invoiceDraft.invoice_number}
+                      disabled
                     />
+                    <p className="text-xs text-gray-500">
+                      The next number in the {getFinancialYear(invoiceDate).label} series is assigned when the invoice is saved
+                    </p>
                   </div>
 
                   <div className="space-y-2">
@@ -298,23 +312,21 @@ export function Billing() {
 
                   <div className="space-y-2">
                     <Label htmlFor="paymentTerms">Payment Terms</Label>
-                    <Select value={settings.paymentTerms} onValueChange={(value) => setSettings({ ...settings, paymentTerms: value })}>
+                    <Select value={settings.paymentTerms} onValueChange={(value) => setSettingsOverrides(prev => ({ ...prev, paymentTerms: value }))}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        <SelectItem value="Net 15 days">Net 15 days</SelectItem>
-                        <SelectItem value="Net 30 days">Net 30 days</SelectItem>
-                        <SelectItem value="Net 45 days">Net 45 days</SelectItem>
-                        <SelectItem value="Due on Receipt">Due on Receipt</SelectItem>
-                        <SelectItem value="Cash on Delivery">Cash on Delivery</SelectItem>
+                        {PAYMENT_TERMS.map(terms => (
+                          <SelectItem key={terms} value={terms}>{terms}</SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
 
                   <div className="space-y-2">
                     <Label htmlFor="currency">Currency</Label>
-                    <Select value={settings.currency} onValueChange={(value) => setSettings({ ...settings, currency: value })}>
+                    <Select value={settings.currency} onValueChange={(value) => setSettingsOverrides(prev => ({ ...prev, currency: value }))}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
@@ -343,7 +355,7 @@ export function Billing() {
                         type="number"
                         step="0.1"
                         value={settings.cgstRate}
-                        onChange={(e) => setSettings({ ...settings, cgstRate: parseFloat(e.target.value) || 0 })}
+                        onChange={(e) => setSettingsOverrides(prev => ({ ...prev, cgstRate: parseFloat(e.target.value) || 0 }))}
                         placeholder="6"
                       />
                     </div>
@@ -354,7 +366,7 @@ export function Billing() {
                         type="number"
                         step="0.1"
                         value={settings.sgstRate}
-                        onChange={(e) => setSettings({ ...settings, sgstRate: parseFloat(e.target.value) || 0 })}
+                        onChange={(e) => setSettingsOverrides(prev => ({ ...prev, sgstRate: parseFloat(e.target.value) || 0 }))}
                         placeholder="6"
                       />
                     </div>
@@ -367,20 +379,65 @@ export function Billing() {
                       type="number"
                       step="0.1"
                       value={settings.discountPercent}
-                      onChange={(e) => setSettings({ ...settings, discountPercent: parseFloat(e.target.value) || 0 })}
+                      onChange={(e) => setSettingsOverrides(prev => ({ ...prev, discountPercent: parseFloat(e.target.value) || 0 }))}
                       placeholder="0"
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <Label htmlFor="tdsRate">TDS u/s {TDS_SECTION} (%)</Label>
+                    <Input
+                      id="tdsRate"
+                      type="number"
+                      step="0.1"
+                      value={settings.tdsRate ?? ''}
+                      // An empty field goes back to the rate worked out from the client's PAN
+                      onChange={(e) => setSettingsOverrides(prev => ({
+                        ...prev,
+                        tdsRate: e.target.value === '' ? null : parseFloat(e.target.value) || 0
+                      }))}
+                      placeholder={`${tdsRate} (from PAN)`}
+                    />
+                    <p className="text-xs text-gray-500">
+                      1% for individuals and HUFs, 2% for others; 0 if the client does not deduct TDS. Leave empty to follow the client's PAN.
+                    </p>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id="roundOff"
+                      checked={settings.roundOff}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSettingsOverrides(prev => ({ ...prev, roundOff: e.target.checked }))}
+                      className="rounded"
+                    />
+                    <Label htmlFor="roundOff">Round Off to Nearest Rupee</Label>
+                  </div>
+
                   <div className="bg-blue-50 p-3 rounded-lg space-y-1">
                     <p className="text-sm text-blue-800">
                       <strong>Total GST:</strong> {settings.cgstRate + settings.sgstRate}%
                     </p>
+                    <p className="text-sm text-blue-800">
+                      <strong>Supply:</strong> {interState
+                        ? `Inter-state, charged as IGST ${billingSummary.igstRate}%`
+                        : `Intra-state, charged as CGST ${settings.cgstRate}% + SGST ${settings.sgstRate}%`}
+                    </p>
                     {settings.discountPercent > 0 && (
                       <p className="text-sm text-green-800">
                         <strong>Discount:</strong> {settings.discountPercent}%
                       </p>
                     )}
+                    {billingSummary.roundOff !== 0 && (
+                      <p className="text-sm text-blue-800">
+                        <strong>Round Off:</strong> {billingSummary.roundOff < 0 ? '-' : '+'}{formatCurrency(Math.abs(billingSummary.roundOff))}
+                      </p>
+                    )}
+                    {billingSummary.tdsAmount > 0 && (
+                      <p className="text-sm text-blue-800">
+                        <strong>Expected TDS:</strong> {formatCurrency(billingSummary.tdsAmount)} • <strong>Net Receivable:</strong> {formatCurrency(billingSummary.netReceivable)}
+                      </p>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -389,6 +446,10 @@ export function Billing() {
               <Card className="lg:col-span-2">
                 <CardHeader>
                   <CardTitle>Company Information</CardTitle>
+                  <p className="text-sm text-gray-600">
+                    Changes here apply to this invoice only. Saved defaults are edited in{' '}
+                    <Link to="/settings" className="text-blue-600 hover:underline">Settings</Link>.
+                  </p>
                 </CardHeader>
                 <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div className="space-y-2">
@@ -396,7 +457,7 @@ export function Billing() {
                     <Input
                       id="companyName"
                       value={settings.companyName}
-                      onChange={(e) => setSettings({ ...settings, companyName: e.target.value })}
+                      onChange={(e) => setSettingsOverrides(prev => ({ ...prev, companyName: e.target.value }))}
                       placeholder="Company Name"
                     />
                   </div>
@@ -405,7 +466,7 @@ export function Billing() {
                     <Input
                       id="companyGst"
                       value={settings.companyGst}
-                      onChange={(e) => setSettings({ ...settings, companyGst: e.target.value })}
+                      onChange={(e) => setSettingsOverrides(prev => ({ ...prev, companyGst: e.target.value }))}
                       placeholder="GST Number"
                     />
                   </div>
@@ -414,7 +475,7 @@ export function Billing() {
                     <Input
                       id="companyPhone"
                       value={settings.companyPhone}
-                      onChange={(e) => setSettings({ ...settings, companyPhone: e.target.value })}
+                      onChange={(e) => setSettingsOverrides(prev => ({ ...prev, companyPhone: e.target.value }))}
                       placeholder="Phone Number"
                     />
                   </div>
@@ -423,7 +484,7 @@ export function Billing() {
                     <Input
                       id="companyEmail"
                       value={settings.companyEmail}
-                      onChange={(e) => setSettings({ ...settings, companyEmail: e.target.value })}
+                      onChange={(e) => setSettingsOverrides(prev => ({ ...prev, companyEmail: e.target.value }))}
                       placeholder="Email Address"
                     />
                   </div>
@@ -433,7 +494,7 @@ export function Billing() {
                     <textarea
                       id="companyAddress"
                       value={settings.companyAddress}
-                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setSettings({ ...settings, companyAddress: e.target.value })}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setSettingsOverrides(prev => ({ ...prev, companyAddress: e.target.value }))}
                       placeholder="Complete company address"
                       rows={2}
                       className="flex min-h-[80px] w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
@@ -442,6 +503,69 @@ export function Billing() {
                 </CardContent>
               </Card>
             </div>
+
+            {/* Deliveries in the selected period */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Deliveries in Period</CardTitle>
+                <p className="text-sm text-gray-600">
+                  {filteredTransactions.length} to be invoiced • {invoicedTransactions.length} already invoiced
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {periodTransactions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No billable deliveries in the selected period.</p>
+                ) : (
+                  [
+                    { key: 'pending', title: 'To be invoiced', rows: filteredTransactions },
+                    { key: 'invoiced', title: 'Already invoiced', rows: invoicedTransactions }
+                  ].filter(group => group.rows.length > 0).map(group => (
+                    <div key={group.key} className="space-y-2">
+                      <h3 className="flex items-center text-sm font-semibold text-gray-700">
+                        {group.key === 'invoiced' && <Lock className="w-4 h-4 mr-2 text-gray-500" />}
+                        {group.title}
+                      </h3>
+                      <div className="mobile-table-scroll">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Date</TableHead>
+                              <TableHead>DC No</TableHead>
+                              <TableHead>Component</TableHead>
+                              <TableHead>Lot No</TableHead>
+                              <TableHead className="text-right">Qty Out</TableHead>
+                              <TableHead className="text-right">Amount</TableHead>
+                              {group.key === 'invoiced' && <TableHead>Invoice</TableHead>}
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {group.rows.map(transaction => (
+                              <TableRow key={transaction.id} className={group.key === 'invoiced' ? 'text-gray-500' : undefined}>
+                                <TableCell>{new Date(transaction.date).toLocaleDateString('en-IN')}</TableCell>
+                                <TableCell className="font-medium">{transaction.dc_no}</TableCell>
+                                <TableCell>{transaction.component}</TableCell>
+                                <TableCell>{transaction.lot_no}</TableCell>
+                                <TableCell className="text-right">{(transaction.qty_out || 0).toLocaleString()}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(transaction.billed_amount || 0)}</TableCell>
+                                {group.key === 'invoiced' && transaction.invoice_id && (
+                                  <TableCell>
+                                    <Link to={`/invoices/${transaction.invoice_id}`} className="font-mono text-blue-600 hover:underline">
+                                      {invoiceNumbers.get(transaction.invoice_id) || 'View invoice'}
+                                    </Link>
+                                  </TableCell>
+                                )}
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </CardContent>
+            </Card>
+
+            <InvoiceChargesEditor charges={charges} onChange={setCharges} formatCurrency={formatCurrency} />
           </TabsContent>
 
           <TabsContent value="customization" className="space-y-6">
@@ -454,7 +578,7 @@ export function Billing() {
                 <CardContent className="space-y-4">
                   <div className="space-y-2">
                     <Label>Invoice Template</Label>
-                    <Select value={settings.invoiceTemplate} onValueChange={(value: any) => setSettings({ ...settings, invoiceTemplate: value })}>
+                    <Select value={settings.invoiceTemplate} onValueChange={(value: any) => setSettingsOverrides(prev => ({ ...prev, invoiceTemplate: value }))}>
                       <SelectTrigger>
                         <SelectValue />
                       </SelectTrigger>
@@ -472,7 +596,7 @@ export function Billing() {
                         type="checkbox"
                         id="showLogo"
                         checked={settings.showLogo}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSettings({ ...settings, showLogo: e.target.checked })}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSettingsOverrides(prev => ({ ...prev, showLogo: e.target.checked }))}
                         className="rounded"
                       />
                       <Label htmlFor="showLogo">Show Company Logo</Label>
@@ -483,7 +607,7 @@ export function Billing() {
                         type="checkbox"
                         id="showBankDetails"
                         checked={settings.showBankDetails}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSettings({ ...settings, showBankDetails: e.target.checked })}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSettingsOverrides(prev => ({ ...prev, showBankDetails: e.target.checked }))}
                         className="rounded"
                       />
                       <Label htmlFor="showBankDetails">Show Bank Details</Label>
@@ -494,7 +618,7 @@ export function Billing() {
                         type="checkbox"
                         id="showNotes"
                         checked={settings.showNotes}
-                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSettings({ ...settings, showNotes: e.target.checked })}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSettingsOverrides(prev => ({ ...prev, showNotes: e.target.checked }))}
                         className="rounded"
                       />
                       <Label htmlFor="showNotes">Show Notes Section</Label>
@@ -514,7 +638,7 @@ export function Billing() {
                     <Input
                       id="bankName"
                       value={settings.bankName}
-                      onChange={(e) => setSettings({ ...settings, bankName: e.target.value })}
+                      onChange={(e) => setSettingsOverrides(prev => ({ ...prev, bankName: e.target.value }))}
                       placeholder="Bank Name"
                     />
                   </div>
@@ -523,7 +647,7 @@ export function Billing() {
                     <Input
                       id="accountNumber"
                       value={settings.accountNumber}
-                      onChange={(e) => setSettings({ ...settings, accountNumber: e.target.value })}
+                      onChange={(e) => setSettingsOverrides(prev => ({ ...prev, accountNumber: e.target.value }))}
                       placeholder="Account Number"
                     />
                   </div>
@@ -532,7 +656,7 @@ export function Billing() {
                     <Input
                       id="ifscCode"
                       value={settings.ifscCode}
-                      onChange={(e) => setSettings({ ...settings, ifscCode: e.target.value })}
+                      onChange={(e) => setSettingsOverrides(prev => ({ ...prev, ifscCode: e.target.value }))}
                       placeholder="IFSC Code"
                     />
                   </div>
@@ -550,7 +674,7 @@ export function Billing() {
                     <textarea
                       id="notes"
                       value={settings.notes}
-                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setSettings({ ...settings, notes: e.target.value })}
+                      onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setSettingsOverrides(prev => ({ ...prev, notes: e.target.value }))}
                       placeholder="Thank you for your business! Payment terms and conditions..."
                       rows={3}
                       className="flex min-h-[80px] w-full rounded-md border border-gray-300 bg-white px-3 py-2 text-sm placeholder:text-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
@@ -566,8 +690,8 @@ export function Billing() {
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 bg-white p-4 rounded-lg border print:hidden">
               <div className="text-sm text-gray-600">
                 <p className="font-medium">Invoice ready for {client.name}</p>
-                <p>{billingSummary.transactionCount} transactions • {formatCurrency(billingSummary.totalAmountWithGst)} total</p>
-                <p className="text-xs text-gray-500">Due: {getDueDate()}</p>
+                <p>{filteredTransactions.length} transactions{charges.length > 0 && ` + ${charges.length} charges`} • {formatCurrency(billingSummary.totalAmount)} total</p>
+                <p className="text-xs text-gray-500">Due: {new Date(invoiceDraft.due_date).toLocaleDateString('en-IN')}</p>
               </div>
               <div className="flex gap-2">
                 <Button onClick={handlePrint} className="bg-blue-600 hover:bg-blue-700 text-white">
@@ -578,182 +702,31 @@ export function Billing() {
                   <Download className="w-4 h-4 mr-2" />
                   Download PDF
                 </Button>
+                <Button
+                  onClick={handleSaveInvoice}
+                  disabled={createInvoice.isPending}
+                  className="bg-green-600 hover:bg-green-700 text-white"
+                >
+                  {createInvoice.isPending ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <Save className="w-4 h-4 mr-2" />
+                  )}
+                  Save Invoice
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={handleExportEInvoice}
+                  disabled={createInvoice.isPending}
+                >
+                  <FileJson className="w-4 h-4 mr-2" />
+                  Save & Export E-Invoice
+                </Button>
               </div>
             </div>
 
             {/* Invoice Preview */}
-            <div className="bg-white print:shadow-none p-8 print:p-6 shadow-lg rounded-lg" id="invoice-content">
-              {/* Header */}
-              <div className="border-b-2 border-gray-900 pb-6 mb-8 print:mb-6">
-                <div className="flex justify-between items-start">
-                  <div className="flex items-start space-x-4">
-                    {settings.showLogo && (
-                      <img 
-                        src="/brs.jpeg" 
-                        alt="Company Logo" 
-                        className="w-16 h-16 object-contain"
-                      />
-                    )}
-                    <div>
-                      <h1 className="text-3xl font-bold text-gray-900 mb-2">{settings.companyName}</h1>
-                      <div className="text-sm text-gray-600 space-y-1">
-                        <p>{settings.companyAddress}</p>
-                        <p>GST: {settings.companyGst}</p>
-                        <p>Phone: {settings.companyPhone}</p>
-                        <p>Email: {settings.companyEmail}</p>
-                      </div>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <h2 className="text-2xl font-bold text-gray-900 mb-2">INVOICE</h2>
-                    <div className="text-sm space-y-1">
-                      <p><span className="font-semibold">Invoice #:</span> {settings.invoiceNumber}</p>
-                      <p><span className="font-semibold">Date:</span> {new Date().toLocaleDateString('en-IN')}</p>
-                      <p><span className="font-semibold">Due Date:</span> {getDueDate()}</p>
-                      <p><span className="font-semibold">Period:</span> {getPeriodLabel()}</p>
-                    </div>
-                  </div>
-                </div>
-              </div>
-
-              {/* Client Info and Summary */}
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
-                <div>
-                  <h3 className="text-lg font-semibold text-gray-900 mb-3 border-b border-gray-300 pb-1">BILL TO:</h3>
-                  <div className="space-y-1 text-sm">
-                    <p className="font-semibold text-lg">{client.name}</p>
-                    {client.gst_number && <p><span className="font-medium">GST:</span> {client.gst_number}</p>}
-                    {client.address && <p><span className="font-medium">Address:</span> {client.address}</p>}
-                  </div>
-                </div>
-                <div>
-                  <h3 className="text-lg font-semibold text-gray-900 mb-3 border-b border-gray-300 pb-1">INVOICE SUMMARY:</h3>
-                  <div className="space-y-2 text-sm">
-                    <div className="flex justify-between">
-                      <span>Total Transactions:</span>
-                      <span className="font-medium">{billingSummary.transactionCount}</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Total Quantity:</span>
-                      <span className="font-medium">{billingSummary.totalQuantity.toLocaleString()} units</span>
-                    </div>
-                    <div className="flex justify-between">
-                      <span>Total Weight:</span>
-                      <span className="font-medium">{billingSummary.totalWeight.toLocaleString()} kg</span>
-                    </div>
-                  </div>
-                </div>
-              </div>
-
-              {/* Transaction Details Table */}
-              {settings.invoiceTemplate !== 'minimal' && (
-                <div className="mb-8">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-4 border-b border-gray-300 pb-1">TRANSACTION DETAILS:</h3>
-                  <div className="overflow-x-auto">
-                    <table className="w-full text-sm border-collapse">
-                      <thead>
-                        <tr className="border-b-2 border-gray-300">
-                          <th className="text-left py-2 px-1">Date</th>
-                          <th className="text-left py-2 px-1">Description</th>
-                          <th className="text-right py-2 px-1">Qty</th>
-                          <th className="text-right py-2 px-1">Weight (kg)</th>
-                          <th className="text-right py-2 px-1">Rate</th>
-                          <th className="text-right py-2 px-1">Amount</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {filteredTransactions.map((transaction) => (
-                          <tr key={transaction.id} className="border-b border-gray-200">
-                            <td className="py-2 px-1">{formatDate(transaction.date)}</td>
-                            <td className="py-2 px-1">Processing Service</td>
-                            <td className="text-right py-2 px-1">{transaction.qty_out || 0}</td>
-                            <td className="text-right py-2 px-1">{transaction.weight_kg?.toFixed(2) || '0.00'}</td>
-                            <td className="text-right py-2 px-1">{formatCurrency((transaction.billed_amount || 0) / (transaction.qty_out || 1))}</td>
-                            <td className="text-right py-2 px-1">{formatCurrency(transaction.billed_amount || 0)}</td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                </div>
-              )}
-
-              {/* Billing Summary */}
-              <div className="flex justify-end mb-8">
-                <div className="w-full max-w-md">
-                  <div className="bg-gray-50 p-4 rounded-lg space-y-2 text-sm">
-                    <div className="flex justify-between">
-                      <span>Subtotal:</span>
-                      <span className="font-medium">{formatCurrency(billingSummary.totalAmount)}</span>
-                    </div>
-                    {settings.discountPercent > 0 && (
-                      <div className="flex justify-between text-green-600">
-                        <span>Discount ({settings.discountPercent}%):</span>
-                        <span>-{formatCurrency(billingSummary.discountAmount)}</span>
-                      </div>
-                    )}
-                    <div className="flex justify-between text-xs text-gray-600">
-                      <span>CGST ({settings.cgstRate}%):</span>
-                      <span>{formatCurrency(billingSummary.cgstAmount)}</span>
-                    </div>
-                    <div className="flex justify-between text-xs text-gray-600">
-                      <span>SGST ({settings.sgstRate}%):</span>
-                      <span>{formatCurrency(billingSummary.sgstAmount)}</span>
-                    </div>
-                    <div className="border-t pt-2 mt-2">
-                      <div className="flex justify-between font-bold text-lg">
-                        <span>Total Amount:</span>
-                        <span>{formatCurrency(billingSummary.totalAmountWithGst)}</span>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-
-              {/* Bank Details */}
-              {settings.showBankDetails && (
-                <div className="mb-8">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-3 border-b border-gray-300 pb-1">BANK DETAILS:</h3>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
-                    <div>
-                      <p className="font-medium">Bank Name:</p>
-                      <p>{settings.bankName}</p>
-                    </div>
-                    <div>
-                      <p className="font-medium">Account Number:</p>
-                      <p>{settings.accountNumber}</p>
-                    </div>
-                    <div>
-                      <p className="font-medium">IFSC Code:</p>
-                      <p>{settings.ifscCode}</p>
-                    </div>
-                  </div>
-                </div>
-              )}
-
-              {/* Notes */}
-              {settings.showNotes && settings.notes && (
-                <div className="mb-8">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-3 border-b border-gray-300 pb-1">NOTES:</h3>
-                  <p className="text-sm text-gray-600 whitespace-pre-line">{settings.notes}</p>
-                </div>
-              )}
-
-              {/* Payment Terms */}
-              <div className="border-t pt-4">
-                <div className="flex justify-between items-center text-sm">
-                  <div>
-                    <p className="font-medium">Payment Terms: {settings.paymentTerms}</p>
-                    <p className="text-gray-600">Thank you for your business!</p>
-                  </div>
-                  <div className="text-right">
-                    <div className="border-t border-gray-400 pt-2 mt-8 w-32">
-                      <p className="text-xs text-gray-600">Authorized Signature</p>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </div>
+            <InvoicePreview invoice={invoiceDraft} showLogo={settings.showLogo} logoUrl={getCompanyLogoUrl(companyProfile)} />
           </TabsContent>
         </Tabs>
       </div>
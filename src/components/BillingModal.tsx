@@ -13,6 +13,10 @@ import {
 import { Button } from './ui/button'
 import { useTransactions } from '../hooks/useTransactions'
 import { useClients } from '../hooks/useClients'
+import { useCompanyProfile } from '../hooks/useCompanyProfile'
+import { calculateBillingTotals, getCompanyLogoUrl, getDueDate, getTaxLines, isBillableTransaction, isInvoicedTransaction, toDateString } from '../lib/billing'
+import { isInterStateSupply } from '../lib/gstin'
+import { amountInWords } from '../lib/amountInWords'
 
 interface BillingModalProps {
   open: boolean
@@ -30,6 +34,7 @@ export function BillingModal({ open, onOpenChange, clientId, dateRange }: Billin
 
   const { data: clients = [] } = useClients()
   const { data: allTransactions = [] } = useTransactions(clientId)
+  const { data: companyProfile } = useCompanyProfile()
 
   const client = clients.find(c => c.id === clientId)
 
@@ -61,8 +66,7 @@ export function BillingModal({ open, onOpenChange, clientId, dateRange }: Billin
     return allTransactions.filter(transaction => {
       const transactionDate = new Date(transaction.date)
       return transactionDate >= startDate && transactionDate <= endDate &&
-        transaction.transaction_type === 'Delivered' &&
-        transaction.billed_amount && transaction.billed_amount > 0
+        isBillableTransaction(transaction) && !isInvoicedTransaction(transaction)
     })
   }, [allTransactions, selectedPeriod, dateRange])
 
@@ -92,15 +96,19 @@ export function BillingModal({ open, onOpenChange, clientId, dateRange }: Billin
       return acc
     }, {} as Record<string, { quantity: number; weight: number; amount: number; transactions: number }>)
 
-    // GST Calculations (6% CGST + 6% SGST = 12% total)
-    const cgstRate = 0.06 // 6%
-    const sgstRate = 0.06 // 6%
-    const totalGstRate = cgstRate + sgstRate // 12%
-
-    const cgstAmount = totalAmount * cgstRate
-    const sgstAmount = totalAmount * sgstRate
-    const totalGstAmount = cgstAmount + sgstAmount
-    const totalAmountWithGst = totalAmount + totalGstAmount
+    // GST at the default rates from the company profile (CGST + SGST, or the
+    // combined rate as IGST for clients registered in another state), rounded
+    // like an invoice would be
+    const tax = calculateBillingTotals(
+      filteredTransactions.map(t => ({ amount: t.billed_amount || 0 })),
+      {
+        discountPercent: 0,
+        cgstRate: companyProfile?.cgst_rate ?? 6,
+        sgstRate: companyProfile?.sgst_rate ?? 6,
+        interState: isInterStateSupply(companyProfile?.gst_number, client?.gst_number),
+        roundOff: companyProfile?.round_off_invoices ?? true
+      }
+    )
 
     return {
       totalAmount, // Amount before tax
@@ -110,15 +118,18 @@ export function BillingModal({ open, onOpenChange, clientId, dateRange }: Billin
       avgRate,
       componentSummary,
       // GST Details
-      cgstAmount,
-      sgstAmount,
-      totalGstAmount,
-      totalAmountWithGst,
-      cgstRate,
-      sgstRate,
-      totalGstRate
+      taxLines: getTaxLines({
+        cgst_rate: tax.cgstRate,
+        cgst_amount: tax.cgstAmount,
+        sgst_rate: tax.sgstRate,
+        sgst_amount: tax.sgstAmount,
+        igst_rate: tax.igstRate,
+        igst_amount: tax.igstAmount
+      }),
+      totalGstAmount: tax.totalTax,
+      totalAmountWithGst: tax.totalAmount
     }
-  }, [filteredTransactions])
+  }, [filteredTransactions, client, companyProfile])
 
   const formatCurrency = (amount: number) => {
     return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2 })}`
@@ -147,6 +158,8 @@ export function BillingModal({ open, onOpenChange, clientId, dateRange }: Billin
     }
   }
 
+  const paymentTerms = companyProfile?.payment_terms || 'Net 30 days'
+
   const handlePrint = () => {
     window.print()
   }
@@ -172,17 +185,17 @@ export function BillingModal({ open, onOpenChange, clientId, dateRange }: Billin
               <div className="flex justify-between items-start">
                 <div className="flex items-start space-x-4">
                   <img
-                    src="/brs.jpeg"
-                    alt="BRS Industries Logo"
+                    src={getCompanyLogoUrl(companyProfile)}
+                    alt="Company Logo"
                     className="w-16 h-16 object-contain"
                   />
                   <div>
-                    <h1 className="text-3xl font-bold text-gray-900 mb-2">BRS INDUSTRIES & SHOT-BLASTING</h1>
+                    <h1 className="text-3xl font-bold text-gray-900 mb-2">{companyProfile?.company_name}</h1>
                     <div className="text-sm text-gray-600 space-y-1">
-                      <p>Processing & ShotBlasting Services</p>
-                      <p>GST: 33AFYPR4654L1ZK</p>
-                      <p>Phone: 9944913135, 9842211191</p>
-                      <p>Email: brsshotblasting11191@gmail.com, brsindustries13135@gmail.com</p>
+                      {companyProfile?.address && <p>{companyProfile.address}</p>}
+                      {companyProfile?.gst_number && <p>GST: {companyProfile.gst_number}</p>}
+                      {companyProfile?.phone && <p>Phone: {companyProfile.phone}</p>}
+                      {companyProfile?.email && <p>Email: {companyProfile.email}</p>}
                     </div>
                   </div>
                 </div>
@@ -227,18 +240,17 @@ export function BillingModal({ open, onOpenChange, clientId, dateRange }: Billin
                       <span>Subtotal (Before Tax):</span>
                       <span className="font-medium">{formatCurrency(billingSummary.totalAmount)}</span>
                     </div>
-                    <div className="flex justify-between text-xs text-gray-600">
-                      <span>CGST (6%):</span>
-                      <span>{formatCurrency(billingSummary.cgstAmount)}</span>
-                    </div>
-                    <div className="flex justify-between text-xs text-gray-600">
-                      <span>SGST (6%):</span>
-                      <span>{formatCurrency(billingSummary.sgstAmount)}</span>
-                    </div>
+                    {billingSummary.taxLines.map(taxLine => (
+                      <div key={taxLine.label} className="flex justify-between text-xs text-gray-600">
+                        <span>{taxLine.label}:</span>
+                        <span>{formatCurrency(taxLine.amount)}</span>
+                      </div>
+                    ))}
                     <div className="flex justify-between border-t pt-1 mt-1">
                       <span className="font-semibold">Total Amount (Inc. GST):</span>
                       <span className="font-bold text-lg">{formatCurrency(billingSummary.totalAmountWithGst)}</span>
                     </div>
+                    <p className="text-xs italic text-gray-600 text-right">{amountInWords(billingSummary.totalAmountWithGst)}</p>
                   </div>
                 </div>
               </div>
@@ -332,8 +344,8 @@ export function BillingModal({ open, onOpenChange, clientId, dateRange }: Billin
             <div className="border-t-2 border-gray-900 pt-6">
               <div className="flex justify-between items-end mb-8">
                 <div className="text-sm text-gray-600">
-                  <p className="mb-2"><span className="font-semibold">Payment Terms:</span> Next 30 days</p>
-                  <p><span className="font-semibold">Due Date:</span> {new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toLocaleDateString('en-IN')}</p>
+                  <p className="mb-2"><span className="font-semibold">Payment Terms:</span> {paymentTerms}</p>
+                  <p><span className="font-semibold">Due Date:</span> {formatDate(getDueDate(toDateString(new Date()), paymentTerms))}</p>
                 </div>
                 <div className="text-right">
                   <div className="bg-gray-100 p-4 rounded border">
@@ -342,6 +354,9 @@ export function BillingModal({ open, onOpenChange, clientId, dateRange }: Billin
                     <div className="text-xs text-gray-500 mt-1">
                       Subtotal: {formatCurrency(billingSummary.totalAmount)} + GST: {formatCurrency(billingSummary.totalGstAmount)}
                     </div>
+                    <div className="text-xs italic text-gray-600 mt-1 max-w-xs">
+                      {amountInWords(billingSummary.totalAmountWithGst)}
+                    </div>
                   </div>
                 </div>
               </div>
@@ -350,7 +365,7 @@ export function BillingModal({ open, onOpenChange, clientId, dateRange }: Billin
 
               <div className="flex justify-between items-end border-t pt-6 mt-8">
                 <div className="text-sm text-gray-600">
-                  <p>Thank you for your business!</p>
+                  <p>{companyProfile?.invoice_notes || 'Thank you for your business!'}</p>
                   <p className="mt-2">For any queries, please contact us at the above details.</p>
                 </div>
                 <div className="text-right">
@@ -0,0 +1,385 @@
+import { useState } from 'react'
+import { Loader2, Plus, Trash2 } from 'lucide-react'
+import { DcNumberInput } from './DcNumberInput'
+import { DialogFooter } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { useCreateChallan } from '../hooks/useChallans'
+import { useBalanceSummary } from '../hooks/useTransactions'
+import { useUniqueComponents } from '../hooks/useRates'
+import { ratesService } from '../services/rates'
+import { getDefaultSacCode, toDateString } from '../lib/billing'
+import { buildChallanLines, getChallanLineError } from '../lib/deliveryChallan'
+import { handleError, showSuccessToast } from '../lib/errorHandling'
+import { getLineAvailability } from '../lib/lotBalance'
+import { TRANSACTION_TYPES, isOutward } from '../lib/transactionTypes'
+import type { ChallanLineDraft, TransactionType, Unit, WorkType } from '../types'
+
+interface ChallanEntryFormProps {
+  clientId: string
+  onSaved: () => void
+  onCancel: () => void
+}
+
+const emptyLine = (previous?: ChallanLineDraft): ChallanLineDraft => ({
+  component: '',
+  lot_no: '',
+  quantity: null,
+  weight_kg: null,
+  // A DC is usually one kind of job, so new lines start like the last one
+  work_type: previous?.work_type ?? null,
+  unit: previous?.unit ?? null,
+  rate_applied: null,
+  sac_code: null,
+})
+
+const parseNumber = (value: string) => value === '' ? null : parseFloat(value)
+
+// All the lines of one DC entered together and saved with a single header
+export function ChallanEntryForm({ clientId, onSaved, onCancel }: ChallanEntryFormProps) {
+  const [date, setDate] = useState(() => toDateString(new Date()))
+  const [dcNo, setDcNo] = useState('')
+  const [autoNumber, setAutoNumber] = useState(true)
+  const [transactionType, setTransactionType] = useState<TransactionType>('Received')
+  const [vehicleNo, setVehicleNo] = useState('')
+  const [lines, setLines] = useState<ChallanLineDraft[]>([emptyLine()])
+  const [showErrors, setShowErrors] = useState(false)
+  const [overrideReason, setOverrideReason] = useState('')
+  const createChallan = useCreateChallan()
+  const { data: uniqueComponents = [] } = useUniqueComponents(clientId)
+  const { data: balanceSummary } = useBalanceSummary(clientId)
+
+  const isDelivered = transactionType === 'Delivered'
+  const allocateDcNo = isOutward(transactionType) && autoNumber
+
+  const updateLine = (index: number, updates: Partial<ChallanLineDraft>) => {
+    setLines(current => current.map((line, i) => i === index ? { ...line, ...updates } : line))
+  }
+
+  const addLine = () => {
+    setLines(current => [...current, emptyLine(current[current.length - 1])])
+  }
+
+  const removeLine = (index: number) => {
+    setLines(current => current.filter((_, i) => i !== index))
+  }
+
+  // Same lookup as a single Delivered entry, run once the line has a
+  // component, work type and unit
+  const lookupRate = async (index: number, line: ChallanLineDraft, rateDate: string = date) => {
+    if (!isDelivered || !rateDate || !line.component.trim() || !line.work_type || !line.unit) return
+
+    try {
+      const rate = await ratesService.getRateForTransaction(clientId, line.component.trim(), line.work_type, line.unit, rateDate)
+      if (rate) {
+        updateLine(index, { rate_applied: rate.rate, sac_code: rate.sac_code || getDefaultSacCode(line.work_type) })
+      } else {
+        handleError(new Error(`No rate configured for ${line.component} - ${line.work_type} - ${line.unit}. Please set up rates in Rate Master.`), 'rate lookup')
+      }
+    } catch (error) {
+      handleError(error, 'looking up rate')
+    }
+  }
+
+  // Rates are versioned by date, so a new DC date can change every line's rate
+  const handleDateChange = (value: string) => {
+    setDate(value)
+    lines.forEach((line, index) => lookupRate(index, line, value))
+  }
+
+  const lineErrors = lines.map((line, index) => getChallanLineError(line, index, lines))
+
+  // Nothing can leave a lot beyond what is left of it unless overridden
+  const lineAvailability = isOutward(transactionType) && balanceSummary ? getLineAvailability(balanceSummary, lines) : null
+  const overDelivered = lines.map((line, index) =>
+    !!lineAvailability && !!line.component.trim() && !!line.lot_no.trim() && (line.quantity || 0) > lineAvailability[index]
+  )
+  const hasOverDelivery = overDelivered.some(Boolean)
+  const headerError = !date ? 'Date is required' : !allocateDcNo && !dcNo.trim() ? 'DC Number is required' : null
+
+  const totalQuantity = lines.reduce((sum, line) => sum + (line.quantity || 0), 0)
+  const totalWeight = lines.reduce((sum, line) => sum + (line.weight_kg || 0), 0)
+  const totalAmount = lines.reduce((sum, line) => sum + (line.quantity || 0) * (line.rate_applied || 0), 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setShowErrors(true)
+
+    if (headerError || lines.length === 0 || lineErrors.some(Boolean)) return
+
+    if (isOutward(transactionType) && !balanceSummary) {
+      handleError(new Error('Lot balances are still loading. Please try again in a moment.'), 'validation')
+      return
+    }
+
+    if (hasOverDelivery && !overrideReason.trim()) {
+      handleError(new Error('Some lines take out more than is left in their lot. Reduce them, or give a reason to override.'), 'validation')
+      return
+    }
+
+    try {
+      const challan = await createChallan.mutateAsync({
+        challan: {
+          client_id: clientId,
+          // Left blank for the database to allocate the next outward number
+          dc_no: allocateDcNo ? '' : dcNo.trim(),
+          dc_date: date,
+          transaction_type: transactionType,
+          vehicle_no: vehicleNo.trim().toUpperCase() || null,
+          notes: null,
+        },
+        // Only the lines that go over their lot carry, and log, the reason
+        lines: buildChallanLines(lines, transactionType).map((line, index) =>
+          overDelivered[index] ? { ...line, balance_override_reason: overrideReason.trim() } : line
+        ),
+      })
+      showSuccessToast(`DC ${challan.dc_no} saved with ${lines.length} ${lines.length === 1 ? 'line' : 'lines'}`)
+      onSaved()
+    } catch (error) {
+      handleError(error, 'saving delivery challan')
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* DC Header */}
+      <div className="space-y-4">
+        <div className="flex items-center space-x-3 pb-2 border-b border-gray-100">
+          <div className="w-2 h-2 bg-gray-600 rounded-full"></div>
+          <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">DC Details</h4>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="dc-date">Date</Label>
+            <Input id="dc-date" type="date" value={date} onChange={(e) => handleDateChange(e.target.value)} />
+          </div>
+          <DcNumberInput
+            id="dc-number"
+            value={dcNo}
+            onChange={setDcNo}
+            clientId={clientId}
+            transactionType={transactionType}
+            date={date}
+            autoNumber={autoNumber}
+            onAutoNumberChange={setAutoNumber}
+            allowExisting={false}
+          />
+          <div className="space-y-2">
+            <Label>Transaction Type</Label>
+            <Select value={transactionType} onValueChange={(value: TransactionType) => setTransactionType(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TRANSACTION_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dc-vehicle">Vehicle Number</Label>
+            <Input
+              id="dc-vehicle"
+              placeholder="e.g. TN 38 AB 1234"
+              value={vehicleNo}
+              onChange={(e) => setVehicleNo(e.target.value)}
+            />
+          </div>
+        </div>
+        {showErrors && headerError && <p className="text-sm text-red-600">{headerError}</p>}
+      </div>
+
+      {/* DC Lines */}
+      <div className="space-y-4">
+        <div className="flex items-center justify-between pb-2 border-b border-gray-100">
+          <div className="flex items-center space-x-3">
+            <div className="w-2 h-2 bg-green-600 rounded-full"></div>
+            <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Components & Lots</h4>
+          </div>
+          <Button type="button" variant="outline" size="sm" onClick={addLine}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add Line
+          </Button>
+        </div>
+
+        <datalist id="dc-components">
+          {uniqueComponents.map(comp => (
+            <option key={comp} value={comp} />
+          ))}
+        </datalist>
+
+        <div className="space-y-3">
+          {lines.map((line, index) => (
+            <div key={index} className="border rounded-lg p-3 space-y-3">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div className="space-y-1 col-span-2">
+                  <Label htmlFor={`line-component-${index}`}>Component</Label>
+                  <Input
+                    id={`line-component-${index}`}
+                    list="dc-components"
+                    placeholder="Select or enter component"
+                    value={line.component}
+                    onChange={(e) => updateLine(index, { component: e.target.value })}
+                    onBlur={() => lookupRate(index, line)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`line-lot-${index}`}>Lot No</Label>
+                  <Input
+                    id={`line-lot-${index}`}
+                    value={line.lot_no}
+                    onChange={(e) => updateLine(index, { lot_no: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`line-quantity-${index}`}>Quantity</Label>
+                  <Input
+                    id={`line-quantity-${index}`}
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={line.quantity ?? ''}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value === '' ? null : parseInt(e.target.value) || null })}
+                  />
+                  {lineAvailability && line.component.trim() && line.lot_no.trim() && (
+                    <p className={`text-xs ${overDelivered[index] ? 'text-red-600' : 'text-gray-500'}`}>
+                      {Math.max(lineAvailability[index], 0).toLocaleString()} available
+                    </p>
+                  )}
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`line-weight-${index}`}>Weight (KG)</Label>
+                  <Input
+                    id={`line-weight-${index}`}
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    value={line.weight_kg ?? ''}
+                    onChange={(e) => updateLine(index, { weight_kg: parseNumber(e.target.value) })}
+                  />
+                </div>
+                {isDelivered && (
+                  <>
+                    <div className="space-y-1">
+                      <Label>Work Type</Label>
+                      <Select
+                        value={line.work_type || ''}
+                        onValueChange={(value: WorkType) => {
+                          updateLine(index, { work_type: value })
+                          lookupRate(index, { ...line, work_type: value })
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Work type" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Fettling">Fettling</SelectItem>
+                          <SelectItem value="Shot Blasting">Shot Blasting</SelectItem>
+                          <SelectItem value="Both">Both</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Unit</Label>
+                      <Select
+                        value={line.unit || ''}
+                        onValueChange={(value: Unit) => {
+                          updateLine(index, { unit: value })
+                          lookupRate(index, { ...line, unit: value })
+                        }}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Unit" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Per Piece">Per Piece</SelectItem>
+                          <SelectItem value="Per Kg">Per Kg</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`line-rate-${index}`}>
+                        Rate
+                        {line.sac_code && <span className="ml-2 text-xs font-normal text-gray-500">SAC {line.sac_code}</span>}
+                      </Label>
+                      <Input
+                        id={`line-rate-${index}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={line.rate_applied ?? ''}
+                        onChange={(e) => updateLine(index, { rate_applied: parseNumber(e.target.value) })}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+              <div className="flex items-center justify-between text-sm">
+                {showErrors && lineErrors[index] ? <p className="text-red-600">{lineErrors[index]}</p> : <span />}
+                <div className="flex items-center gap-2">
+                  {isDelivered && (
+                    <span className="font-medium">₹{((line.quantity || 0) * (line.rate_applied || 0)).toLocaleString()}</span>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeLine(index)}
+                    disabled={lines.length === 1}
+                    aria-label={`Remove line ${index + 1}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-sm text-gray-600 text-right">
+          {lines.length} {lines.length === 1 ? 'line' : 'lines'} • {totalQuantity.toLocaleString()} pcs • {totalWeight.toLocaleString()} kg
+          {isDelivered && <> • <span className="font-semibold">₹{totalAmount.toLocaleString()}</span></>}
+        </p>
+
+        {hasOverDelivery && (
+          <div className="space-y-2 rounded-lg border border-red-200 bg-red-50 p-3">
+            <Label htmlFor="dc-override-reason">
+              Lines in red deliver more than is left in their lot. To save them anyway, give the reason for the correction.
+            </Label>
+            <Input
+              id="dc-override-reason"
+              placeholder="Reason, e.g. receipt entered short on client DC 1234"
+              value={overrideReason}
+              onChange={(e) => setOverrideReason(e.target.value)}
+            />
+            <p className="text-xs text-gray-600">Overrides are logged with your name.</p>
+          </div>
+        )}
+      </div>
+
+      <DialogFooter className="gap-3 pt-6 border-t border-gray-100">
+        <Button type="button" variant="outline" onClick={onCancel} className="rounded-lg px-6">
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          disabled={createChallan.isPending}
+          className="rounded-lg px-6 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white shadow-lg hover:shadow-xl transition-all duration-200"
+        >
+          {createChallan.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save DC
+        </Button>
+      </DialogFooter>
+    </form>
+  )
+}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
-import { Plus, Package, Truck, Scale, DollarSign, MoreHorizontal, Edit, Trash2, ChevronLeft, ChevronRight, Calendar } from 'lucide-react'
+import { useNavigate } from 'react-router-dom'
+import { Plus, Package, Truck, Scale, DollarSign, MoreHorizontal, Edit, Trash2, ChevronLeft, ChevronRight, Calendar, BookOpen, Wallet, Weight } from 'lucide-react'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Button } from './ui/button'
 import {
@@ -26,18 +27,24 @@ import { ConfirmationDialog } from './ConfirmationDialog'
 import { LoadingState, CardLoading } from './ui/loading'
 import { EmptyState, TableEmptyState } from './ui/empty-state'
 import { GlobalSearch } from './GlobalSearch'
+import { OldestPendingMaterial } from './OldestPendingMaterial'
 import { SearchTrigger } from './SearchTrigger'
 import { ExportDialog } from './ExportDialog'
 import { ExportButton } from './ExportButton'
 import { BillingModal } from './BillingModal'
+import { DeliveryChallanDialog } from './DeliveryChallanDialog'
 import { useClients } from '../hooks/useClients'
 import { useClientKPIs, useBalanceSummary, useTransactions, useDeleteTransaction } from '../hooks/useTransactions'
+import { useClientAccount } from '../hooks/usePayments'
+import { useClientChallans } from '../hooks/useChallans'
 import type { Transaction, Client } from '../types'
 import { BalanceSummaryTable } from './BalanceSummaryTable'
 import { TransactionLogTable } from './TransactionLogTable'
 import { handleError, showSuccessToast } from '../lib/errorHandling'
+import { getMinimumReceipt } from '../lib/lotBalance'
 
 export function ClientDashboard() {
+  const navigate = useNavigate()
   const [activeClientId, setActiveClientId] = useState<string>('')
   const [isTransactionFormOpen, setIsTransactionFormOpen] = useState(false)
   const [isAddClientFormOpen, setIsAddClientFormOpen] = useState(false)
@@ -50,6 +57,9 @@ export function ClientDashboard() {
   const [isSearchOpen, setIsSearchOpen] = useState(false)
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false)
   const [isBillingModalOpen, setIsBillingModalOpen] = useState(false)
+  const [challanDelivery, setChallanDelivery] = useState<Transaction | null>(null)
+  // Grouped by DC, the whole month is shown so no DC is split across pages
+  const [groupByDc, setGroupByDc] = useState(false)
   
   // Pagination and filtering state
   const [currentPage, setCurrentPage] = useState(1)
@@ -66,8 +76,10 @@ export function ClientDashboard() {
   }
 
   const { data: kpis, isLoading: kpisLoading, error: kpisError } = useClientKPIs(activeClientId)
+  const { data: account } = useClientAccount(activeClientId)
   const { data: balanceSummary = [], isLoading: balanceLoading, error: balanceError } = useBalanceSummary(activeClientId)
   const { data: transactions = [], isLoading: transactionsLoading, error: transactionsError } = useTransactions(activeClientId)
+  const { data: challans = [] } = useClientChallans(activeClientId)
   const deleteTransaction = useDeleteTransaction()
 
   const activeClient = clients.find(c => c.id === activeClientId)
@@ -150,6 +162,16 @@ export function ClientDashboard() {
 
   const confirmDeleteTransaction = async () => {
     if (transactionToDelete) {
+      const transaction = transactions.find(t => t.id === transactionToDelete)
+      const minimumReceipt = transaction ? getMinimumReceipt(balanceSummary, transaction) : 0
+      if (transaction && minimumReceipt > 0) {
+        handleError(new Error(
+          `${minimumReceipt.toLocaleString()} pcs of lot ${transaction.lot_no} have already gone out, so this receipt cannot be deleted. ` +
+          'Correct the outward entries first.'
+        ), 'validation')
+        return
+      }
+
       try {
         await deleteTransaction.mutateAsync(transactionToDelete)
         setTransactionToDelete(null)
@@ -238,6 +260,8 @@ export function ClientDashboard() {
         </div>
       </div>
 
+      <OldestPendingMaterial onSelectClient={setActiveClientId} />
+
       <Tabs value={activeClientId} onValueChange={setActiveClientId} className="w-full">
         <div className="border-b border-border bg-gradient-to-r from-gray-50 to-slate-50">
           <TabsList className="h-auto bg-transparent p-0 w-full justify-start">
@@ -348,13 +372,13 @@ export function ClientDashboard() {
 
                 {/* KPI Cards */}
                 {kpisLoading ? (
-                  <CardLoading count={4} />
+                  <CardLoading count={5} />
                 ) : kpisError ? (
                   <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-center">
                     <p className="text-red-600 text-sm">Failed to load KPI data</p>
                   </div>
                 ) : (
-                  <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 lg:gap-6">
+                  <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 lg:gap-6">
                     <KPICard
                       title="Total Received"
                       value={kpis?.totalReceived || 0}
@@ -387,6 +411,14 @@ export function ClientDashboard() {
                       color="purple"
                       compact={true}
                     />
+                    <KPICard
+                      title="Outstanding Receivable"
+                      value={account?.outstanding || 0}
+                      icon={<Wallet className="w-4 h-4 lg:w-5 lg:h-5" />}
+                      prefix="₹"
+                      color={(account?.outstanding || 0) > 0 ? 'red' : 'green'}
+                      compact={true}
+                    />
                   </div>
                 )}
 
@@ -436,6 +468,24 @@ export function ClientDashboard() {
                         <span className="hidden xs:inline">Billing</span>
                         <span className="xs:hidden">Generate Bill</span>
                       </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/ledger?clientId=${client.id}`)}
+                        className="bg-white hover:bg-gray-50 border-purple-200 text-purple-700 hover:text-purple-800 text-xs sm:text-sm"
+                      >
+                        <BookOpen className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                        Ledger
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/weight-reconciliation?clientId=${client.id}`)}
+                        className="bg-white hover:bg-gray-50 border-orange-200 text-orange-700 hover:text-orange-800 text-xs sm:text-sm"
+                      >
+                        <Weight className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                        Weight
+                      </Button>
                       {/* <ExportButton 
                         onClick={() => setIsExportDialogOpen(true)}
                         variant="outline"
@@ -486,23 +536,45 @@ export function ClientDashboard() {
                     </div>
 
                     <div className="flex items-center space-x-4">
-                      {/* Items per page */}
-                      <div className="flex items-center space-x-2">
-                        <span className="text-sm text-gray-600">Show:</span>
-                        <Select value={itemsPerPage.toString()} onValueChange={(value) => setItemsPerPage(Number(value))}>
-                          <SelectTrigger className="w-20 h-8">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="10">10</SelectItem>
-                            <SelectItem value="25">25</SelectItem>
-                            <SelectItem value="50">50</SelectItem>
-                          </SelectContent>
-                        </Select>
+                      {/* Row or DC view */}
+                      <div className="flex items-center space-x-1">
+                        <Button
+                          variant={groupByDc ? 'outline' : 'default'}
+                          size="sm"
+                          onClick={() => setGroupByDc(false)}
+                          className="h-8"
+                        >
+                          Rows
+                        </Button>
+                        <Button
+                          variant={groupByDc ? 'default' : 'outline'}
+                          size="sm"
+                          onClick={() => setGroupByDc(true)}
+                          className="h-8"
+                        >
+                          By DC
+                        </Button>
                       </div>
 
+                      {/* Items per page */}
+                      {!groupByDc && (
+                        <div className="flex items-center space-x-2">
+                          <span className="text-sm text-gray-600">Show:</span>
+                          <Select value={itemsPerPage.toString()} onValueChange={(value) => setItemsPerPage(Number(value))}>
+                            <SelectTrigger className="w-20 h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="10">10</SelectItem>
+                              <SelectItem value="25">25</SelectItem>
+                              <SelectItem value="50">50</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
                       {/* Pagination Info */}
-                      {filteredTransactions.length > 0 && (
+                      {!groupByDc && filteredTransactions.length > 0 && (
                         <div className="text-sm text-gray-600">
                           {startIndex + 1}-{Math.min(endIndex, filteredTransactions.length)} of {filteredTransactions.length}
                         </div>
@@ -536,13 +608,16 @@ export function ClientDashboard() {
                   ) : (
                     <>
                       <TransactionLogTable 
-                        data={paginatedTransactions} 
+                        data={groupByDc ? filteredTransactions : paginatedTransactions} 
                         onEdit={handleEditTransaction}
                         onDelete={handleDeleteTransaction}
+                        onPrintChallan={setChallanDelivery}
+                        groupByDc={groupByDc}
+                        challans={challans}
                       />
                       
                       {/* Pagination Controls */}
-                      {totalPages > 1 && (
+                      {!groupByDc && totalPages > 1 && (
                         <div className="flex items-center justify-between mt-4">
                           <div className="text-sm text-gray-600">
                             Page {currentPage} of {totalPages}
@@ -688,6 +763,16 @@ export function ClientDashboard() {
         defaultClientId={activeClientId}
       />
 
+      {/* Outward Delivery Challan */}
+      <DeliveryChallanDialog
+        open={!!challanDelivery}
+        onOpenChange={(open) => !open && setChallanDelivery(null)}
+        delivery={challanDelivery}
+        transactions={transactions}
+        challans={challans}
+        client={activeClient}
+      />
+
       {/* Billing Modal */}
       {activeClientId && (
         <BillingModal
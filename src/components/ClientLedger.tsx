@@ -0,0 +1,279 @@
+import { useState } from 'react'
+import { Link, useNavigate, useSearchParams } from 'react-router-dom'
+import { ArrowLeft, BookOpen, Plus, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { LoadingState } from './ui/loading'
+import { EmptyState, TableEmptyState } from './ui/empty-state'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import { KPICard } from './KPICard'
+import { PaymentModal } from './PaymentModal'
+import { ConfirmationDialog } from './ConfirmationDialog'
+import { useClients } from '../hooks/useClients'
+import { useClientAccount, useDeletePayment } from '../hooks/usePayments'
+import { formatCurrencyAmount } from '../lib/billing'
+import { handleError, showSuccessToast } from '../lib/errorHandling'
+
+export function ClientLedger() {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const clientId = searchParams.get('clientId') || ''
+
+  const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false)
+  const [paymentToDelete, setPaymentToDelete] = useState<string | null>(null)
+
+  const { data: clients = [] } = useClients()
+  const { data: account, isLoading, error } = useClientAccount(clientId)
+  const deletePayment = useDeletePayment()
+
+  const client = clients.find(c => c.id === clientId)
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('en-IN', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric'
+  })
+
+  const confirmDeletePayment = async () => {
+    if (!paymentToDelete) return
+
+    try {
+      await deletePayment.mutateAsync(paymentToDelete)
+      showSuccessToast('Payment deleted')
+    } catch (error) {
+      handleError(error, 'deleting payment')
+    } finally {
+      setPaymentToDelete(null)
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingState message="Loading ledger..." size="lg" className="h-64" />
+  }
+
+  if (error || !account || !client) {
+    return (
+      <EmptyState
+        icon={<BookOpen className="w-8 h-8" />}
+        title="Ledger Not Available"
+        description="The client ledger could not be loaded. Open it from a client on the dashboard."
+        action={{
+          label: "Back to Dashboard",
+          onClick: () => navigate('/dashboard'),
+          variant: "outline"
+        }}
+      />
+    )
+  }
+
+  const openInvoices = account.invoices.filter(item => item.outstanding > 0)
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center space-x-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back</span>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Client Ledger</h1>
+            <p className="text-gray-600">{client.name}</p>
+          </div>
+        </div>
+        <Button onClick={() => setIsPaymentModalOpen(true)} className="bg-green-600 hover:bg-green-700 text-white">
+          <Plus className="w-4 h-4 mr-2" />
+          Record Payment
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 lg:gap-6">
+        <KPICard title="Invoiced (after notes)" value={account.totalInvoiced} prefix="₹" color="purple" compact={true} />
+        <KPICard title="Received" value={account.totalReceived} prefix="₹" color="green" compact={true} />
+        <KPICard title="TDS Deducted" value={account.totalTds} prefix="₹" color="blue" compact={true} />
+        <KPICard
+          title="Outstanding"
+          value={account.outstanding}
+          prefix="₹"
+          color={account.outstanding > 0 ? 'red' : 'green'}
+          compact={true}
+        />
+      </div>
+
+      {/* Ledger */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Ledger</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {account.ledger.length === 0 ? (
+            <TableEmptyState
+              title="No Entries Yet"
+              description="Invoices, notes and payments for this client will appear here."
+            />
+          ) : (
+            <div className="mobile-table-scroll">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Reference</TableHead>
+                    <TableHead>Particulars</TableHead>
+                    <TableHead className="text-right">Debit</TableHead>
+                    <TableHead className="text-right">Credit</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {account.ledger.map((entry, index) => (
+                    <TableRow key={`${entry.type}-${entry.reference}-${index}`}>
+                      <TableCell>{formatDate(entry.date)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{entry.type}</Badge>
+                      </TableCell>
+                      <TableCell className="font-mono">
+                        {entry.link ? (
+                          <Link to={entry.link} className="text-blue-600 hover:underline">{entry.reference}</Link>
+                        ) : entry.reference}
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">{entry.description}</TableCell>
+                      <TableCell className="text-right">{entry.debit > 0 ? formatCurrencyAmount(entry.debit) : ''}</TableCell>
+                      <TableCell className="text-right text-green-700">{entry.credit > 0 ? formatCurrencyAmount(entry.credit) : ''}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrencyAmount(Math.abs(entry.balance))} {entry.balance < 0 ? 'Cr' : 'Dr'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Open invoices */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Open Invoices</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {openInvoices.length === 0 ? (
+              <p className="text-sm text-gray-500">All invoices are settled.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">Outstanding</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {openInvoices.map(item => (
+                    <TableRow key={item.invoice.id}>
+                      <TableCell>
+                        <Link to={`/invoices/${item.invoice.id}`} className="font-mono text-blue-600 hover:underline">
+                          {item.invoice.invoice_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell>{formatDate(item.invoice.due_date)}</TableCell>
+                      <TableCell className="text-right">{formatCurrencyAmount(item.adjusted_value)}</TableCell>
+                      <TableCell className="text-right font-medium text-red-600">{formatCurrencyAmount(item.outstanding)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            {account.unallocated > 0 && (
+              <p className="text-sm text-orange-600 mt-4">
+                {formatCurrencyAmount(account.unallocated)} received has not been allocated to any invoice.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Payments */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Payments</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {account.payments.length === 0 ? (
+              <p className="text-sm text-gray-500">No payments recorded yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Mode</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="text-right">TDS</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...account.payments]
+                    .sort((a, b) => b.payment_date.localeCompare(a.payment_date))
+                    .map(payment => (
+                      <TableRow key={payment.id}>
+                        <TableCell>{formatDate(payment.payment_date)}</TableCell>
+                        <TableCell>
+                          <div>{payment.mode}</div>
+                          {payment.reference && <div className="text-xs text-gray-500 font-mono">{payment.reference}</div>}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrencyAmount(payment.amount)}</TableCell>
+                        <TableCell className="text-right">{payment.tds_amount > 0 ? formatCurrencyAmount(payment.tds_amount) : '-'}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setPaymentToDelete(payment.id)}
+                            className="text-red-600 hover:text-red-700"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <PaymentModal
+        open={isPaymentModalOpen}
+        onOpenChange={setIsPaymentModalOpen}
+        clientId={clientId}
+        openInvoices={openInvoices}
+      />
+
+      <ConfirmationDialog
+        open={!!paymentToDelete}
+        onOpenChange={(open) => !open && setPaymentToDelete(null)}
+        title="Delete Payment"
+        description="Delete this payment and its invoice allocations? The invoices will show as outstanding again."
+        confirmText="Delete Payment"
+        variant="destructive"
+        onConfirm={confirmDeletePayment}
+        isLoading={deletePayment.isPending}
+      />
+    </div>
+  )
+}
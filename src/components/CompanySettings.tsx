@@ -0,0 +1,377 @@
+import React, { useRef } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Building2, ImageUp, Loader2, RotateCcw, Save } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { LoadingState } from './ui/loading'
+import { EmptyState } from './ui/empty-state'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { GstinSummary } from './GstinSummary'
+import { DcNumberingReport } from './DcNumberingReport'
+import { useCompanyProfile, useUpdateCompanyProfile, useUploadCompanyLogo } from '../hooks/useCompanyProfile'
+import { getCompanyLogoUrl, PAYMENT_TERMS } from '../lib/billing'
+import { normalizeGstin, validateGstin } from '../lib/gstin'
+import { getFinancialYear } from '../lib/financialYear'
+import { handleError, showSuccessToast } from '../lib/errorHandling'
+import type { CompanyProfile } from '../types'
+
+const profileSchema = z.object({
+  company_name: z.string().min(1, 'Company name is required'),
+  gst_number: z.string().optional().superRefine((value, ctx) => {
+    if (!value) return
+    const result = validateGstin(value)
+    if (!result.valid) {
+      ctx.addIssue({ code: 'custom', message: result.error })
+    }
+  }),
+  address: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().optional(),
+  bank_name: z.string().optional(),
+  account_number: z.string().optional(),
+  ifsc_code: z.string().optional().refine(
+    value => !value || /^[A-Z]{4}0[A-Z0-9]{6}$/.test(value.trim().toUpperCase()),
+    'IFSC must be 11 characters, e.g. SBIN0001234'
+  ),
+  payment_terms: z.string().min(1),
+  cgst_rate: z.number().min(0, 'Rate cannot be negative').max(50),
+  sgst_rate: z.number().min(0, 'Rate cannot be negative').max(50),
+  invoice_notes: z.string().optional(),
+  round_off_invoices: z.boolean(),
+  dc_series: z.string().trim().regex(/^[A-Za-z0-9-]{1,10}$/, 'Use up to 10 letters, digits or hyphens'),
+  weight_loss_tolerance_percent: z.number().min(0, 'Tolerance cannot be negative').max(100),
+})
+
+type ProfileFormData = z.infer<typeof profileSchema>
+
+function toFormData(profile: CompanyProfile): ProfileFormData {
+  return {
+    company_name: profile.company_name,
+    gst_number: profile.gst_number || '',
+    address: profile.address || '',
+    phone: profile.phone || '',
+    email: profile.email || '',
+    bank_name: profile.bank_name || '',
+    account_number: profile.account_number || '',
+    ifsc_code: profile.ifsc_code || '',
+    payment_terms: profile.payment_terms,
+    cgst_rate: profile.cgst_rate,
+    sgst_rate: profile.sgst_rate,
+    invoice_notes: profile.invoice_notes || '',
+    round_off_invoices: profile.round_off_invoices,
+    dc_series: profile.dc_series,
+    weight_loss_tolerance_percent: profile.weight_loss_tolerance_percent,
+  }
+}
+
+export function CompanySettings() {
+  const logoInputRef = useRef<HTMLInputElement>(null)
+
+  const { data: profile, isLoading, error } = useCompanyProfile()
+  const updateProfile = useUpdateCompanyProfile()
+  const uploadLogo = useUploadCompanyLogo()
+
+  const form = useForm<ProfileFormData>({
+    resolver: zodResolver(profileSchema),
+  })
+
+  // Load the saved profile into the form
+  React.useEffect(() => {
+    if (profile) {
+      form.reset(toFormData(profile))
+    }
+  }, [profile, form])
+
+  const onSubmit = async (data: ProfileFormData) => {
+    try {
+      await updateProfile.mutateAsync({
+        company_name: data.company_name.trim(),
+        gst_number: data.gst_number ? normalizeGstin(data.gst_number) : null,
+        address: data.address || null,
+        phone: data.phone || null,
+        email: data.email || null,
+        bank_name: data.bank_name || null,
+        account_number: data.account_number || null,
+        ifsc_code: data.ifsc_code ? data.ifsc_code.trim().toUpperCase() : null,
+        payment_terms: data.payment_terms,
+        cgst_rate: data.cgst_rate,
+        sgst_rate: data.sgst_rate,
+        invoice_notes: data.invoice_notes || null,
+        round_off_invoices: data.round_off_invoices,
+        dc_series: data.dc_series.toUpperCase(),
+        weight_loss_tolerance_percent: data.weight_loss_tolerance_percent,
+      })
+      showSuccessToast('Company settings saved')
+    } catch (error) {
+      handleError(error, 'saving company settings')
+    }
+  }
+
+  const handleLogoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      await uploadLogo.mutateAsync(file)
+      showSuccessToast('Logo uploaded')
+    } catch (error) {
+      handleError(error, 'uploading logo')
+    }
+  }
+
+  const handleResetLogo = async () => {
+    try {
+      await updateProfile.mutateAsync({ logo_url: null })
+      showSuccessToast('Logo reset to the default')
+    } catch (error) {
+      handleError(error, 'resetting logo')
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingState message="Loading company settings..." size="lg" className="h-64" />
+  }
+
+  if (error || !profile) {
+    return (
+      <EmptyState
+        icon={<Building2 className="w-8 h-8" />}
+        title="Settings Not Available"
+        description="The company profile could not be loaded. Check that the company profile migration has been run."
+      />
+    )
+  }
+
+  const fieldError = (name: keyof ProfileFormData) => {
+    const message = form.formState.errors[name]?.message
+    return message ? <p className="text-sm text-red-600">{message}</p> : null
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Company Settings</h1>
+          <p className="text-gray-600">Business details and billing defaults used on invoices and reports</p>
+        </div>
+        <Button
+          onClick={form.handleSubmit(onSubmit)}
+          disabled={updateProfile.isPending}
+          className="bg-green-600 hover:bg-green-700 text-white"
+        >
+          {updateProfile.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Save className="w-4 h-4 mr-2" />
+          )}
+          Save Settings
+        </Button>
+      </div>
+
+      <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Company details */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Company Information</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="company_name">Company Name *</Label>
+              <Input id="company_name" {...form.register('company_name')} />
+              {fieldError('company_name')}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="gst_number">GSTIN</Label>
+              <Input id="gst_number" {...form.register('gst_number')} />
+              {fieldError('gst_number')}
+              <GstinSummary value={form.watch('gst_number')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="phone">Phone Numbers</Label>
+              <Input id="phone" placeholder="Separate multiple numbers with commas" {...form.register('phone')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email">Email Addresses</Label>
+              <Input id="email" placeholder="Separate multiple addresses with commas" {...form.register('email')} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="address">Address</Label>
+              <Textarea id="address" rows={2} {...form.register('address')} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Logo */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Logo</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center space-x-4">
+              <img
+                src={getCompanyLogoUrl(profile)}
+                alt="Company Logo"
+                className="w-20 h-20 object-contain rounded-lg border bg-white"
+              />
+              <p className="text-sm text-gray-600">
+                Printed on invoices and credit / debit notes. PNG or JPEG, up to 1 MB.
+              </p>
+            </div>
+            <input
+              ref={logoInputRef}
+              type="file"
+              accept="image/png,image/jpeg"
+              className="hidden"
+              onChange={handleLogoSelected}
+            />
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => logoInputRef.current?.click()}
+                disabled={uploadLogo.isPending}
+              >
+                {uploadLogo.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <ImageUp className="w-4 h-4 mr-2" />
+                )}
+                Upload Logo
+              </Button>
+              {profile.logo_url && (
+                <Button type="button" variant="outline" onClick={handleResetLogo} disabled={updateProfile.isPending}>
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Use Default
+                </Button>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Bank details */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Bank Details</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bank_name">Bank Name</Label>
+              <Input id="bank_name" {...form.register('bank_name')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="account_number">Account Number</Label>
+              <Input id="account_number" {...form.register('account_number')} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ifsc_code">IFSC Code</Label>
+              <Input id="ifsc_code" {...form.register('ifsc_code')} />
+              {fieldError('ifsc_code')}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Billing defaults */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Billing Defaults</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Payment Terms</Label>
+              <Select
+                value={form.watch('payment_terms')}
+                onValueChange={(value) => form.setValue('payment_terms', value, { shouldDirty: true })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_TERMS.map(terms => (
+                    <SelectItem key={terms} value={terms}>{terms}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="cgst_rate">CGST Rate (%)</Label>
+              <Input id="cgst_rate" type="number" step="0.1" {...form.register('cgst_rate', { valueAsNumber: true })} />
+              {fieldError('cgst_rate')}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sgst_rate">SGST Rate (%)</Label>
+              <Input id="sgst_rate" type="number" step="0.1" {...form.register('sgst_rate', { valueAsNumber: true })} />
+              {fieldError('sgst_rate')}
+            </div>
+            <div className="flex items-center space-x-2 md:col-span-3">
+              <input
+                type="checkbox"
+                id="round_off_invoices"
+                className="rounded"
+                {...form.register('round_off_invoices')}
+              />
+              <Label htmlFor="round_off_invoices">Round invoice totals to the nearest rupee</Label>
+            </div>
+            <div className="space-y-2 md:col-span-3">
+              <Label htmlFor="invoice_notes">Invoice Notes</Label>
+              <Textarea id="invoice_notes" rows={3} {...form.register('invoice_notes')} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Delivery challans */}
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Delivery Challans</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="dc_series">Outward DC Prefix</Label>
+              <Input id="dc_series" className="font-mono" {...form.register('dc_series')} />
+              {fieldError('dc_series')}
+            </div>
+            <p className="text-sm text-gray-600 md:col-span-2 md:self-end">
+              Delivered entries are numbered {form.watch('dc_series')?.toUpperCase() || 'DC'}/{getFinancialYear().label}/0001
+              onwards, starting again each financial year. Inward DCs keep the client's number.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Weight Reconciliation</CardTitle>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="weight_loss_tolerance_percent">Default Loss Tolerance (%)</Label>
+              <Input
+                id="weight_loss_tolerance_percent"
+                type="number"
+                step="0.1"
+                {...form.register('weight_loss_tolerance_percent', { valueAsNumber: true })}
+              />
+              {fieldError('weight_loss_tolerance_percent')}
+            </div>
+            <p className="text-sm text-gray-600 md:col-span-2 md:self-end">
+              Lots that lose more weight per piece than this are flagged in the balance summary. Components can have
+              their own tolerance in a client's weight reconciliation.
+            </p>
+          </CardContent>
+        </Card>
+      </form>
+
+      <DcNumberingReport series={profile.dc_series} />
+    </div>
+  )
+}
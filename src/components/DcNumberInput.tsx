@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react'
+import { AlertTriangle, Info } from 'lucide-react'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { useClients } from '../hooks/useClients'
+import { useCompanyProfile } from '../hooks/useCompanyProfile'
+import { useClientChallans, useNextDcNumber, useOutwardChallans } from '../hooks/useChallans'
+import { getFinancialYear } from '../lib/financialYear'
+import { isOutward } from '../lib/transactionTypes'
+import type { TransactionType } from '../types'
+
+interface DcNumberInputProps {
+  id: string
+  value: string
+  onChange: (value: string) => void
+  clientId: string
+  transactionType: TransactionType
+  date: string
+  // Outward DCs only: leave the number for the database to allocate. Without
+  // a handler the number is always typed, as when editing a saved row.
+  autoNumber: boolean
+  onAutoNumberChange?: (autoNumber: boolean) => void
+  // Single entries may add a line to a DC already entered; a full DC may not
+  allowExisting: boolean
+  // The DC of the row being edited, which is not a duplicate of itself
+  currentDcId?: string | null
+  error?: string
+}
+
+// DC number field with the next outward number and duplicate warnings
+export function DcNumberInput({
+  id,
+  value,
+  onChange,
+  clientId,
+  transactionType,
+  date,
+  autoNumber,
+  onAutoNumberChange,
+  allowExisting,
+  currentDcId,
+  error,
+}: DcNumberInputProps) {
+  const [checkedNumber, setCheckedNumber] = useState(value)
+  const { data: companyProfile } = useCompanyProfile()
+  const { data: clients = [] } = useClients()
+  const { data: clientChallans = [] } = useClientChallans(clientId)
+
+  const outward = isOutward(transactionType)
+  const isAuto = outward && autoNumber
+  const { data: nextNumber } = useNextDcNumber(
+    isAuto ? companyProfile?.dc_series || '' : '',
+    date ? getFinancialYear(date).label : ''
+  )
+  const { data: outwardChallans = [] } = useOutwardChallans(outward && !autoNumber ? checkedNumber : '')
+
+  // Look numbers up once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setCheckedNumber(value), 300)
+    return () => clearTimeout(timeout)
+  }, [value])
+
+  const existing = !isAuto && checkedNumber.trim()
+    ? clientChallans.find(challan =>
+        challan.id !== currentDcId &&
+        challan.transaction_type === transactionType &&
+        challan.dc_no.toUpperCase() === checkedNumber.trim().toUpperCase()
+      )
+    : undefined
+  const issuedElsewhere = outwardChallans.find(challan => challan.client_id !== clientId)
+  const issuedTo = issuedElsewhere && clients.find(client => client.id === issuedElsewhere.client_id)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id}>DC Number</Label>
+        {outward && onAutoNumberChange && (
+          <button
+            type="button"
+            className="text-xs text-blue-600 hover:underline"
+            onClick={() => onAutoNumberChange(!autoNumber)}
+          >
+            {autoNumber ? 'Enter manually' : 'Use next number'}
+          </button>
+        )}
+      </div>
+      {isAuto ? (
+        <Input id={id} value={nextNumber ? `${nextNumber} (next)` : 'Next number'} disabled className="font-mono" />
+      ) : (
+        <Input
+          id={id}
+          placeholder="Enter DC number"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+        />
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {isAuto && (
+        <p className="text-xs text-gray-500">The number is taken when the DC is saved</p>
+      )}
+      {issuedElsewhere && (
+        <p className="flex items-center text-sm text-red-600">
+          <AlertTriangle className="w-4 h-4 mr-1 shrink-0" />
+          DC {issuedElsewhere.dc_no} was already issued to {issuedTo?.name || 'another client'}
+        </p>
+      )}
+      {existing && (
+        <p className={`flex items-center text-sm ${allowExisting ? 'text-blue-600' : 'text-red-600'}`}>
+          {allowExisting ? <Info className="w-4 h-4 mr-1 shrink-0" /> : <AlertTriangle className="w-4 h-4 mr-1 shrink-0" />}
+          {allowExisting
+            ? `Adds a line to DC ${existing.dc_no} of ${new Date(existing.dc_date).toLocaleDateString()}`
+            : `DC ${existing.dc_no} has already been entered for this client`}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+import { useEffect, useState } from 'react'
+import { AlertTriangle, CheckCircle, Loader2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { LoadingState } from './ui/loading'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { useClients } from '../hooks/useClients'
+import { useDcNumberingReport, useSetDcLastNumber } from '../hooks/useChallans'
+import { formatDocumentNumber, getFinancialYear, getRecentFinancialYears } from '../lib/financialYear'
+import { handleError, showSuccessToast } from '../lib/errorHandling'
+
+interface DcNumberingReportProps {
+  series: string
+}
+
+export function DcNumberingReport({ series }: DcNumberingReportProps) {
+  const [financialYear, setFinancialYear] = useState(getFinancialYear().label)
+  const [lastNumber, setLastNumber] = useState('')
+  const { data: report, isLoading } = useDcNumberingReport(series, financialYear)
+  const { data: clients = [] } = useClients()
+  const setDcLastNumber = useSetDcLastNumber()
+
+  useEffect(() => {
+    if (report) {
+      setLastNumber(String(report.last_number))
+    }
+  }, [report])
+
+  const hasIssues = !!report && (report.missing_numbers.length > 0 || report.duplicates.length > 0)
+  const getClientName = (clientId: string) => clients.find(client => client.id === clientId)?.name || 'Unknown client'
+
+  const handleSaveLastNumber = async () => {
+    try {
+      await setDcLastNumber.mutateAsync({ series, financialYear, lastNumber: parseInt(lastNumber) })
+      showSuccessToast(`The next outward DC will be ${formatDocumentNumber(series, financialYear, parseInt(lastNumber) + 1)}`)
+    } catch (error) {
+      handleError(error, 'updating DC numbering')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Outward DC Numbering</CardTitle>
+        <Select value={financialYear} onValueChange={setFinancialYear}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {getRecentFinancialYears().map(year => (
+              <SelectItem key={year.label} value={year.label}>
+                FY {year.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !report ? (
+          <LoadingState message="Checking DC numbers..." />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Numbers Allocated</p>
+                <p className="text-xl font-bold">{report.last_number}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">DCs in Series</p>
+                <p className="text-xl font-bold text-green-600">{report.numbered_count}</p>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="dc_last_number" className="text-gray-500 font-normal">Last Number Used</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="dc_last_number"
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={lastNumber}
+                    onChange={(e) => setLastNumber(e.target.value)}
+                    className="h-8"
+                  />
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={handleSaveLastNumber}
+                    disabled={setDcLastNumber.isPending || lastNumber === '' || parseInt(lastNumber) === report.last_number}
+                  >
+                    {setDcLastNumber.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    Set
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Next: <span className="font-mono">{formatDocumentNumber(series, financialYear, report.last_number + 1)}</span>
+                </p>
+              </div>
+            </div>
+
+            {!hasIssues && (
+              <div className="flex items-center space-x-2 text-sm text-green-700 bg-green-50 p-3 rounded-lg">
+                <CheckCircle className="w-4 h-4" />
+                <span>
+                  {report.last_number === 0
+                    ? `No outward DCs have been numbered in FY ${report.financial_year} yet`
+                    : `All ${report.last_number} numbers in FY ${report.financial_year} are accounted for`}
+                </span>
+              </div>
+            )}
+
+            {report.missing_numbers.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2 text-sm font-medium text-red-700">
+                  <AlertTriangle className="w-4 h-4" />
+                  <span>Gaps in the sequence ({report.missing_numbers.length})</span>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Numbers skipped when the count was moved on, or whose DC was deleted afterwards.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  {report.missing_numbers.map(number => (
+                    <Badge key={number} variant="destructive" className="font-mono">
+                      {number}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {report.duplicates.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2 text-sm font-medium text-red-700">
+                  <AlertTriangle className="w-4 h-4" />
+                  <span>Numbers sent to more than one client ({report.duplicates.length})</span>
+                </div>
+                <div className="space-y-1 text-sm">
+                  {report.duplicates.map(duplicate => duplicate.challans.map(challan => (
+                    <div key={challan.id} className="flex justify-between border-b border-gray-100 py-1">
+                      <span className="font-mono">{duplicate.dc_no}</span>
+                      <span className="text-gray-600">{getClientName(challan.client_id)}</span>
+                      <span className="text-gray-500">{new Date(challan.dc_date).toLocaleDateString('en-IN')}</span>
+                    </div>
+                  )))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
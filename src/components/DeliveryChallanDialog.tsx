@@ -0,0 +1,160 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Download, Loader2, Truck } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { useCompanyProfile } from '../hooks/useCompanyProfile'
+import { useUpdateChallan } from '../hooks/useChallans'
+import { ExportService } from '../services/exportService'
+import { getCompanyLogoUrl } from '../lib/billing'
+import { buildDeliveryChallan, getChallanTransactions } from '../lib/deliveryChallan'
+import { handleError, showSuccessToast } from '../lib/errorHandling'
+import type { Challan, Client, PaperSize, Transaction } from '../types'
+
+interface DeliveryChallanDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Any Delivered transaction on the challan; the others are found by DC number
+  delivery: Transaction | null
+  transactions: Transaction[]
+  challans: Challan[]
+  client: Client | undefined
+}
+
+export function DeliveryChallanDialog({ open, onOpenChange, delivery, transactions, challans, client }: DeliveryChallanDialogProps) {
+  const [vehicleNo, setVehicleNo] = useState('')
+  const [paperSize, setPaperSize] = useState<PaperSize>('a4')
+  const [isGenerating, setIsGenerating] = useState(false)
+  const { data: companyProfile } = useCompanyProfile()
+  const updateChallan = useUpdateChallan()
+
+  const challan = delivery?.dc_id ? challans.find(c => c.id === delivery.dc_id) : undefined
+
+  useEffect(() => {
+    if (open) {
+      setVehicleNo(challan?.vehicle_no || '')
+    }
+  }, [open, challan?.vehicle_no])
+
+  const deliveries = useMemo(
+    () => delivery ? getChallanTransactions(transactions, delivery) : [],
+    [transactions, delivery]
+  )
+
+  const totalQuantity = deliveries.reduce((sum, t) => sum + (t.qty_out || 0), 0)
+  const totalWeight = deliveries.reduce((sum, t) => sum + (t.weight_kg || 0), 0)
+
+  const handleDownload = async () => {
+    if (!client || deliveries.length === 0) return
+
+    setIsGenerating(true)
+    try {
+      const printable = buildDeliveryChallan(deliveries, client, companyProfile, vehicleNo)
+
+      // The vehicle is kept on the DC header for reprints
+      if (challan && printable.vehicle_no !== challan.vehicle_no) {
+        await updateChallan.mutateAsync({ id: challan.id, updates: { vehicle_no: printable.vehicle_no } })
+      }
+
+      await ExportService.exportDeliveryChallanToPDF(printable, {
+        paperSize,
+        logoUrl: getCompanyLogoUrl(companyProfile)
+      })
+      showSuccessToast(`Delivery challan ${printable.dc_no} downloaded`)
+      onOpenChange(false)
+    } catch (error) {
+      handleError(error, 'generating delivery challan')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Truck className="w-5 h-5" />
+            <span>Delivery Challan {delivery?.dc_no}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Outward challan for the processed material returned to {client?.name}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="border rounded-lg divide-y max-h-56 overflow-y-auto text-sm">
+            {deliveries.map(t => (
+              <div key={t.id} className="flex items-center justify-between gap-4 p-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{t.component}</p>
+                  <p className="text-xs text-gray-500">Lot {t.lot_no}{t.work_type && ` · ${t.work_type}`}</p>
+                </div>
+                <div className="text-right whitespace-nowrap">
+                  <p>{(t.qty_out || 0).toLocaleString()} pcs</p>
+                  <p className="text-xs text-gray-500">{t.weight_kg ? `${t.weight_kg.toLocaleString()} kg` : '-'}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+          <p className="text-sm text-gray-600 text-right">
+            {deliveries.length} items • {totalQuantity.toLocaleString()} pcs • {totalWeight.toLocaleString()} kg
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vehicleNo">Vehicle Number</Label>
+              <Input
+                id="vehicleNo"
+                value={vehicleNo}
+                onChange={(e) => setVehicleNo(e.target.value)}
+                placeholder="e.g. TN 38 AB 1234"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Paper Size</Label>
+              <Select value={paperSize} onValueChange={(value: PaperSize) => setPaperSize(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="a4">A4</SelectItem>
+                  <SelectItem value="a5">A5</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isGenerating}>
+            Cancel
+          </Button>
+          <Button onClick={handleDownload} disabled={isGenerating || deliveries.length === 0 || !client}>
+            {isGenerating ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="w-4 h-4 mr-2" />
+            )}
+            Download PDF
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
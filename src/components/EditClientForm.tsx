@@ -15,11 +15,20 @@ import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Label } from './ui/label'
 import { useUpdateClient } from '../hooks/useClients'
+import { GstinSummary } from './GstinSummary'
+import { handleError } from '../lib/errorHandling'
+import { normalizeGstin, validateGstin } from '../lib/gstin'
 import type { Client } from '../types'
 
 const clientSchema = z.object({
   name: z.string().min(1, 'Company name is required'),
-  gst_number: z.string().optional(),
+  gst_number: z.string().optional().superRefine((value, ctx) => {
+    if (!value) return
+    const result = validateGstin(value)
+    if (!result.valid) {
+      ctx.addIssue({ code: 'custom', message: result.error })
+    }
+  }),
   address: z.string().optional(),
 })
 
@@ -62,13 +71,13 @@ export function EditClientForm({ open, onOpenChange, client }: EditClientFormPro
         id: client.id,
         updates: {
           name: data.name,
-          gst_number: data.gst_number || null,
+          gst_number: data.gst_number ? normalizeGstin(data.gst_number) : null,
           address: data.address || null,
         }
       })
       onOpenChange(false)
     } catch (error) {
-      console.error('Failed to update client:', error)
+      handleError(error, 'updating client')
     }
   }
 
@@ -109,6 +118,10 @@ export function EditClientForm({ open, onOpenChange, client }: EditClientFormPro
               placeholder="Enter GST number (optional)"
               {...form.register('gst_number')}
             />
+            {form.formState.errors.gst_number && (
+              <p className="text-sm text-red-600">{form.formState.errors.gst_number.message}</p>
+            )}
+            <GstinSummary value={form.watch('gst_number')} />
           </div>
 
           <div className="space-y-2">
@@ -0,0 +1,26 @@
+import { CheckCircle } from 'lucide-react'
+import { validateGstin } from '../lib/gstin'
+
+interface GstinSummaryProps {
+  value?: string
+}
+
+// Decoded state and PAN for a valid GSTIN, shown under the GST number field
+export function GstinSummary({ value }: GstinSummaryProps) {
+  if (!value) return null
+
+  const result = validateGstin(value)
+  if (!result.valid) return null
+
+  const { details } = result
+
+  return (
+    <div className="flex items-start space-x-2 text-xs text-green-800 bg-green-50 p-2 rounded-md">
+      <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+      <div className="space-y-0.5">
+        <p><span className="font-medium">State:</span> {details.stateName} ({details.stateCode})</p>
+        <p><span className="font-medium">PAN:</span> {details.pan} · {details.panHolderType}</p>
+      </div>
+    </div>
+  )
+}
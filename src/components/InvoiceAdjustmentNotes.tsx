@@ -0,0 +1,114 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { MinusCircle, PlusCircle } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import { AdjustmentNoteModal } from './AdjustmentNoteModal'
+import { useInvoiceAdjustmentNotes } from '../hooks/useAdjustmentNotes'
+import { useClientAccount } from '../hooks/usePayments'
+import { formatCurrencyAmount, getAdjustedInvoiceValue, roundCurrency } from '../lib/billing'
+import type { AdjustmentNoteType, InvoiceWithLines } from '../types'
+
+interface InvoiceAdjustmentNotesProps {
+  invoice: InvoiceWithLines
+}
+
+export function InvoiceAdjustmentNotes({ invoice }: InvoiceAdjustmentNotesProps) {
+  const [modalType, setModalType] = useState<AdjustmentNoteType | null>(null)
+  const { data: notes = [] } = useInvoiceAdjustmentNotes(invoice.id)
+  const { data: account } = useClientAccount(invoice.client_id)
+
+  const formatCurrency = (amount: number) => formatCurrencyAmount(amount, invoice.currency)
+
+  const credited = roundCurrency(notes
+    .filter(note => note.note_type === 'Credit' && note.status === 'Issued')
+    .reduce((sum, note) => sum + note.total_amount, 0))
+  const adjustedValue = getAdjustedInvoiceValue(invoice, notes)
+  // Payments already allocated to the invoice cannot be credited back
+  const allocated = account?.invoices.find(item => item.invoice.id === invoice.id)?.allocated ?? 0
+  const creditableAmount = roundCurrency(Math.min(invoice.total_amount - credited, adjustedValue - allocated))
+
+  return (
+    <Card className="print:hidden">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Credit & Debit Notes</CardTitle>
+        {invoice.status === 'Issued' && (
+          <div className="flex items-center space-x-2">
+            <Button size="sm" variant="outline" onClick={() => setModalType('Credit')}>
+              <MinusCircle className="w-4 h-4 mr-2" />
+              Credit Note
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setModalType('Debit')}>
+              <PlusCircle className="w-4 h-4 mr-2" />
+              Debit Note
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {notes.length === 0 ? (
+          <p className="text-sm text-gray-500">No notes have been raised against this invoice.</p>
+        ) : (
+          <div className="mobile-table-scroll">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {notes.map(note => (
+                  <TableRow key={note.id}>
+                    <TableCell>
+                      <Link to={`/notes/${note.id}`} className="font-mono text-blue-600 hover:underline">
+                        {note.note_number}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{new Date(note.note_date).toLocaleDateString('en-IN')}</TableCell>
+                    <TableCell className="max-w-xs truncate">{note.reason}</TableCell>
+                    <TableCell className={`text-right font-medium ${note.note_type === 'Credit' ? 'text-green-600' : 'text-red-600'}`}>
+                      {note.note_type === 'Credit' ? '-' : '+'}{formatCurrency(note.total_amount)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={note.status === 'Issued' ? 'default' : 'destructive'}>
+                        {note.status}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex justify-between text-sm border-t pt-3">
+          <span className="text-gray-600">Invoice value after notes</span>
+          <span className="font-bold">{formatCurrency(adjustedValue)}</span>
+        </div>
+      </CardContent>
+
+      {modalType && (
+        <AdjustmentNoteModal
+          open={!!modalType}
+          onOpenChange={(open) => !open && setModalType(null)}
+          invoice={invoice}
+          noteType={modalType}
+          creditableAmount={Math.max(creditableAmount, 0)}
+        />
+      )}
+    </Card>
+  )
+}
@@ -0,0 +1,152 @@
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { CHARGE_PRESETS, getChargeAmount, getChargeError } from '../lib/billing'
+import type { InvoiceCharge, LineTaxTreatment } from '../types'
+
+interface InvoiceChargesEditorProps {
+  charges: InvoiceCharge[]
+  onChange: (charges: InvoiceCharge[]) => void
+  formatCurrency: (amount: number) => string
+}
+
+export function InvoiceChargesEditor({ charges, onChange, formatCurrency }: InvoiceChargesEditorProps) {
+  const addCharge = (charge: Pick<InvoiceCharge, 'description' | 'sac_code'>) => {
+    onChange([...charges, { ...charge, quantity: 1, rate: 0, tax_treatment: 'Taxable' }])
+  }
+
+  const updateCharge = (index: number, updates: Partial<InvoiceCharge>) => {
+    onChange(charges.map((charge, i) => i === index ? { ...charge, ...updates } : charge))
+  }
+
+  const removeCharge = (index: number) => {
+    onChange(charges.filter((_, i) => i !== index))
+  }
+
+  const chargesTotal = charges.reduce((sum, charge) => sum + getChargeAmount(charge), 0)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Additional Charges</CardTitle>
+        <p className="text-sm text-gray-600">
+          Transport, loading, packing or minimum lot charges billed with the deliveries
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {CHARGE_PRESETS.map(preset => (
+            <Button key={preset.description} type="button" variant="outline" size="sm" onClick={() => addCharge(preset)}>
+              <Plus className="w-4 h-4 mr-1" />
+              {preset.description}
+            </Button>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={() => addCharge({ description: '', sac_code: '' })}>
+            <Plus className="w-4 h-4 mr-1" />
+            Other Charge
+          </Button>
+        </div>
+
+        {charges.length === 0 ? (
+          <p className="text-sm text-gray-500">No additional charges on this invoice.</p>
+        ) : (
+          <div className="space-y-3">
+            {charges.map((charge, index) => {
+              const error = getChargeError(charge)
+
+              return (
+                <div key={index} className="border rounded-lg p-3 space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+                    <div className="space-y-1 md:col-span-2">
+                      <Label htmlFor={`charge-description-${index}`}>Description</Label>
+                      <Input
+                        id={`charge-description-${index}`}
+                        value={charge.description}
+                        onChange={(e) => updateCharge(index, { description: e.target.value })}
+                        placeholder="e.g. Transport Charges"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`charge-sac-${index}`}>SAC</Label>
+                      <Input
+                        id={`charge-sac-${index}`}
+                        value={charge.sac_code}
+                        onChange={(e) => updateCharge(index, { sac_code: e.target.value })}
+                        placeholder="996511"
+                        className="font-mono"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`charge-quantity-${index}`}>Qty</Label>
+                      <Input
+                        id={`charge-quantity-${index}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={charge.quantity}
+                        onChange={(e) => updateCharge(index, { quantity: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor={`charge-rate-${index}`}>Rate</Label>
+                      <Input
+                        id={`charge-rate-${index}`}
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={charge.rate}
+                        onChange={(e) => updateCharge(index, { rate: parseFloat(e.target.value) || 0 })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label>GST</Label>
+                      <Select
+                        value={charge.tax_treatment}
+                        onValueChange={(value: LineTaxTreatment) => updateCharge(index, { tax_treatment: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="Taxable">Invoice rate</SelectItem>
+                          <SelectItem value="Exempt">Exempt</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between text-sm">
+                    {error ? <p className="text-red-600">{error}</p> : <span />}
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{formatCurrency(getChargeAmount(charge))}</span>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeCharge(index)}
+                        aria-label={`Remove ${charge.description || 'charge'}`}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+            <p className="text-sm text-right text-gray-700">
+              Charges total: <span className="font-semibold">{formatCurrency(chargesTotal)}</span>
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
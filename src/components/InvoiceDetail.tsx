@@ -0,0 +1,172 @@
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, Ban, Download, FileJson, FileSpreadsheet, FileText, Printer } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { LoadingState } from './ui/loading'
+import { EmptyState } from './ui/empty-state'
+import { InvoicePreview } from './InvoicePreview'
+import { ConfirmationDialog } from './ConfirmationDialog'
+import { InvoiceAdjustmentNotes } from './InvoiceAdjustmentNotes'
+import { useCancelInvoice, useInvoice } from '../hooks/useInvoices'
+import { useCompanyProfile } from '../hooks/useCompanyProfile'
+import { ExportService } from '../services/exportService'
+import { getCompanyLogoUrl } from '../lib/billing'
+import { handleError, showSuccessToast } from '../lib/errorHandling'
+
+export function InvoiceDetail() {
+  const navigate = useNavigate()
+  const { invoiceId = '' } = useParams()
+  const { data: invoice, isLoading, error } = useInvoice(invoiceId)
+  const { data: companyProfile } = useCompanyProfile()
+  const cancelInvoice = useCancelInvoice()
+  const [isCancelDialogOpen, setIsCancelDialogOpen] = useState(false)
+
+  if (isLoading) {
+    return <LoadingState message="Loading invoice..." size="lg" className="h-64" />
+  }
+
+  if (error || !invoice) {
+    return (
+      <EmptyState
+        icon={<FileText className="w-8 h-8" />}
+        title="Invoice Not Found"
+        description="This invoice could not be loaded. It may have been removed or the link is incorrect."
+        action={{
+          label: "Back to Invoices",
+          onClick: () => navigate('/invoices'),
+          variant: "outline"
+        }}
+      />
+    )
+  }
+
+  const linkedTransactions = invoice.lines.filter(line => line.transaction_id).length
+
+  const handleExport = async (format: 'xlsx' | 'pdf' | 'json') => {
+    try {
+      if (format === 'xlsx') {
+        await ExportService.exportInvoiceToExcel(invoice)
+      } else if (format === 'json') {
+        await ExportService.exportInvoiceToEInvoiceJSON(invoice)
+      } else {
+        await ExportService.exportInvoiceToPDF(invoice)
+      }
+    } catch (error) {
+      handleError(error, 'exporting invoice')
+    }
+  }
+
+  const confirmCancelInvoice = async () => {
+    try {
+      await cancelInvoice.mutateAsync(invoice.id)
+      showSuccessToast(`Invoice ${invoice.invoice_number} cancelled`)
+    } catch (error) {
+      handleError(error, 'cancelling invoice')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 print:hidden">
+        <div className="flex items-center space-x-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/invoices')}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back</span>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 flex items-center space-x-3">
+              <span className="font-mono">{invoice.invoice_number}</span>
+              <Badge variant={invoice.status === 'Issued' ? 'default' : 'destructive'}>
+                {invoice.status}
+              </Badge>
+            </h1>
+            <p className="text-gray-600">{invoice.client_name}</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          {invoice.status === 'Issued' && (
+            <Button
+              variant="outline"
+              onClick={() => setIsCancelDialogOpen(true)}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Ban className="w-4 h-4 mr-2" />
+              Cancel Invoice
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleExport('xlsx')}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            Excel
+          </Button>
+          <Button variant="outline" onClick={() => handleExport('pdf')}>
+            <Download className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+          {invoice.status === 'Issued' && (
+            <Button variant="outline" onClick={() => handleExport('json')}>
+              <FileJson className="w-4 h-4 mr-2" />
+              E-Invoice
+            </Button>
+          )}
+          <Button onClick={() => window.print()} className="bg-blue-600 hover:bg-blue-700 text-white">
+            <Printer className="w-4 h-4 mr-2" />
+            Reprint Invoice
+          </Button>
+        </div>
+      </div>
+
+      {/* Audit Trail */}
+      <Card className="print:hidden">
+        <CardHeader>
+          <CardTitle>Audit Details</CardTitle>
+        </CardHeader>
+        <CardContent className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Issued On</p>
+            <p className="font-medium">{new Date(invoice.created_at).toLocaleString('en-IN')}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Invoice Lines</p>
+            <p className="font-medium">{invoice.lines.length}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Linked Transactions</p>
+            <p className="font-medium">{linkedTransactions}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Template</p>
+            <p className="font-medium capitalize">{invoice.template}</p>
+          </div>
+          {invoice.cancelled_at && (
+            <div>
+              <p className="text-gray-500">Cancelled On</p>
+              <p className="font-medium text-red-600">{new Date(invoice.cancelled_at).toLocaleString('en-IN')}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <InvoiceAdjustmentNotes invoice={invoice} />
+
+      <InvoicePreview invoice={invoice} logoUrl={getCompanyLogoUrl(companyProfile)} />
+
+      <ConfirmationDialog
+        open={isCancelDialogOpen}
+        onOpenChange={setIsCancelDialogOpen}
+        title="Cancel Invoice"
+        description={`Cancel invoice ${invoice.invoice_number}? The number stays reserved and will be listed as cancelled in the numbering report. This cannot be undone.`}
+        confirmText="Cancel Invoice"
+        cancelText="Keep Invoice"
+        variant="destructive"
+        onConfirm={confirmCancelInvoice}
+        isLoading={cancelInvoice.isPending}
+      />
+    </div>
+  )
+}
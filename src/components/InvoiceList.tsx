@@ -0,0 +1,158 @@
+import { useState } from 'react'
+import { motion } from 'framer-motion'
+import { useNavigate } from 'react-router-dom'
+import { CalendarCheck, Eye, FileText } from 'lucide-react'
+import { Button } from './ui/button'
+import { LoadingState } from './ui/loading'
+import { EmptyState, TableEmptyState } from './ui/empty-state'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { InvoiceNumberingReport } from './InvoiceNumberingReport'
+import { useInvoices } from '../hooks/useInvoices'
+import { useClients } from '../hooks/useClients'
+import { formatCurrencyAmount, formatPeriodLabel } from '../lib/billing'
+
+export function InvoiceList() {
+  const navigate = useNavigate()
+  const [clientFilter, setClientFilter] = useState('all')
+
+  const { data: clients = [] } = useClients()
+  const { data: invoices = [], isLoading, error } = useInvoices()
+
+  const filteredInvoices = clientFilter === 'all'
+    ? invoices
+    : invoices.filter(invoice => invoice.client_id === clientFilter)
+
+  if (isLoading) {
+    return <LoadingState message="Loading invoices..." size="lg" className="h-64" />
+  }
+
+  if (error) {
+    return (
+      <EmptyState
+        icon={<FileText className="w-8 h-8" />}
+        title="Failed to Load Invoices"
+        description="There was an error loading the issued invoices. Please try refreshing the page."
+        action={{
+          label: "Refresh Page",
+          onClick: () => window.location.reload(),
+          variant: "outline"
+        }}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Invoices</h1>
+          <p className="text-muted-foreground">
+            Every invoice issued from the billing page, exactly as it was printed
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => navigate('/invoices/month-end')}>
+            <CalendarCheck className="w-4 h-4 mr-2" />
+            Month-End Run
+          </Button>
+          <Select value={clientFilter} onValueChange={setClientFilter}>
+            <SelectTrigger className="w-full sm:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Clients</SelectItem>
+              {clients.map(client => (
+                <SelectItem key={client.id} value={client.id}>
+                  {client.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Issued Invoices</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="mobile-table-scroll">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice #</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead className="text-right">Taxable</TableHead>
+                  <TableHead className="text-right">GST</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredInvoices.map((invoice, index) => (
+                  <motion.tr
+                    key={invoice.id}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ duration: 0.3, delay: index * 0.02 }}
+                    className="border-b transition-colors hover:bg-muted/50"
+                  >
+                    <TableCell className="font-mono font-medium">{invoice.invoice_number}</TableCell>
+                    <TableCell>{new Date(invoice.invoice_date).toLocaleDateString('en-IN')}</TableCell>
+                    <TableCell>{invoice.client_name}</TableCell>
+                    <TableCell>{formatPeriodLabel({ start: invoice.period_start, end: invoice.period_end })}</TableCell>
+                    <TableCell className="text-right">{formatCurrencyAmount(invoice.taxable_amount, invoice.currency)}</TableCell>
+                    <TableCell className="text-right">{formatCurrencyAmount(invoice.total_tax, invoice.currency)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrencyAmount(invoice.total_amount, invoice.currency)}</TableCell>
+                    <TableCell>
+                      <Badge variant={invoice.status === 'Issued' ? 'default' : 'destructive'}>
+                        {invoice.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => navigate(`/invoices/${invoice.id}`)}
+                      >
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </motion.tr>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          {filteredInvoices.length === 0 && (
+            <TableEmptyState
+              title="No Invoices Yet"
+              description="Invoices saved from the billing page will appear here."
+            />
+          )}
+        </CardContent>
+      </Card>
+
+      <InvoiceNumberingReport />
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+import { useState } from 'react'
+import { AlertTriangle, CheckCircle } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { LoadingState } from './ui/loading'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { useInvoiceNumberingReport } from '../hooks/useInvoices'
+import { getFinancialYear, getRecentFinancialYears } from '../lib/financialYear'
+
+export function InvoiceNumberingReport() {
+  const [financialYear, setFinancialYear] = useState(getFinancialYear().label)
+  const { data: report, isLoading } = useInvoiceNumberingReport(financialYear)
+
+  const hasIssues = !!report && (report.missing_numbers.length > 0 || report.cancelled.length > 0)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Numbering Report</CardTitle>
+        <Select value={financialYear} onValueChange={setFinancialYear}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {getRecentFinancialYears().map(year => (
+              <SelectItem key={year.label} value={year.label}>
+                FY {year.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !report ? (
+          <LoadingState message="Checking invoice numbers..." />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Numbers Allocated</p>
+                <p className="text-xl font-bold">{report.last_number}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Issued</p>
+                <p className="text-xl font-bold text-green-600">{report.issued_count}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Cancelled</p>
+                <p className="text-xl font-bold text-red-600">{report.cancelled.length}</p>
+              </div>
+            </div>
+
+            {!hasIssues && (
+              <div className="flex items-center space-x-2 text-sm text-green-700 bg-green-50 p-3 rounded-lg">
+                <CheckCircle className="w-4 h-4" />
+                <span>
+                  {report.last_number === 0
+                    ? `No invoices have been numbered in FY ${report.financial_year} yet`
+                    : `All ${report.last_number} numbers in FY ${report.financial_year} are accounted for`}
+                </span>
+              </div>
+            )}
+
+            {report.missing_numbers.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center space-x-2 text-sm font-medium text-red-700">
+                  <AlertTriangle className="w-4 h-4" />
+                  <span>Gaps in the sequence ({report.missing_numbers.length})</span>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {report.missing_numbers.map(number => (
+                    <Badge key={number} variant="destructive" className="font-mono">
+                      {number}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {report.cancelled.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">Cancelled numbers</p>
+                <div className="space-y-1 text-sm">
+                  {report.cancelled.map(invoice => (
+                    <div key={invoice.id} className="flex justify-between border-b border-gray-100 py-1">
+                      <Link to={`/invoices/${invoice.id}`} className="font-mono text-blue-600 hover:underline">
+                        {invoice.invoice_number}
+                      </Link>
+                      <span className="text-gray-600">{invoice.client_name}</span>
+                      <span className="text-gray-500">
+                        {invoice.cancelled_at && new Date(invoice.cancelled_at).toLocaleDateString('en-IN')}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
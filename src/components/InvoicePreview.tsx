@@ -0,0 +1,290 @@
+import { DEFAULT_LOGO_URL, formatCurrencyAmount, formatPeriodLabel, getHsnSummary, getLineDescription, getTaxLines, getTdsLabel } from '../lib/billing'
+import { amountInWords } from '../lib/amountInWords'
+import type { InvoiceDraft } from '../types'
+
+interface InvoicePreviewProps {
+  invoice: InvoiceDraft
+  showLogo?: boolean
+  logoUrl?: string
+  // Credit and debit notes print in the same layout with their own title and
+  // the invoice they adjust in place of the due date and period
+  title?: string
+  reference?: string
+}
+
+export function InvoicePreview({ invoice, showLogo = true, logoUrl = DEFAULT_LOGO_URL, title = 'INVOICE', reference }: InvoicePreviewProps) {
+  const formatCurrency = (amount: number) => formatCurrencyAmount(amount, invoice.currency)
+
+  const formatDate = (date: string) => {
+    return new Date(date).toLocaleDateString('en-IN', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    })
+  }
+
+  const transactionLines = invoice.lines.filter(line => line.line_type !== 'Charge')
+  const totalQuantity = transactionLines.reduce((sum, line) => sum + line.quantity, 0)
+  const totalWeight = invoice.lines.reduce((sum, line) => sum + (line.weight_kg || 0), 0)
+  const taxLines = getTaxLines(invoice)
+  const interState = invoice.igst_rate > 0
+  const hsnSummary = getHsnSummary(invoice)
+
+  return (
+    <div className="bg-white print:shadow-none p-8 print:p-6 shadow-lg rounded-lg" id="invoice-content">
+      {/* Header */}
+      <div className="border-b-2 border-gray-900 pb-6 mb-8 print:mb-6">
+        <div className="flex justify-between items-start">
+          <div className="flex items-start space-x-4">
+            {showLogo && (
+              <img
+                src={logoUrl}
+                alt="Company Logo"
+                className="w-16 h-16 object-contain"
+              />
+            )}
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">{invoice.company_name}</h1>
+              <div className="text-sm text-gray-600 space-y-1">
+                <p>{invoice.company_address}</p>
+                <p>GST: {invoice.company_gst}</p>
+                <p>Phone: {invoice.company_phone}</p>
+                <p>Email: {invoice.company_email}</p>
+              </div>
+            </div>
+          </div>
+          <div className="text-right">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">{title}</h2>
+            <div className="text-sm space-y-1">
+              <p><span className="font-semibold">{reference ? 'Number' : 'Invoice #'}:</span> {invoice.invoice_number}</p>
+              <p><span className="font-semibold">Date:</span> {formatDate(invoice.invoice_date)}</p>
+              {reference ? (
+                <p><span className="font-semibold">Against:</span> {reference}</p>
+              ) : (
+                <>
+                  <p><span className="font-semibold">Due Date:</span> {formatDate(invoice.due_date)}</p>
+                  <p><span className="font-semibold">Period:</span> {formatPeriodLabel({ start: invoice.period_start, end: invoice.period_end })}</p>
+                </>
+              )}
+              {invoice.status === 'Cancelled' && (
+                <p className="font-bold text-red-600">CANCELLED</p>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Client Info and Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-8">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3 border-b border-gray-300 pb-1">BILL TO:</h3>
+          <div className="space-y-1 text-sm">
+            <p className="font-semibold text-lg">{invoice.client_name}</p>
+            {invoice.client_gst_number && <p><span className="font-medium">GST:</span> {invoice.client_gst_number}</p>}
+            {invoice.place_of_supply && <p><span className="font-medium">Place of Supply:</span> {invoice.place_of_supply}</p>}
+            {invoice.client_address && <p><span className="font-medium">Address:</span> {invoice.client_address}</p>}
+          </div>
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-3 border-b border-gray-300 pb-1">INVOICE SUMMARY:</h3>
+          <div className="space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Total Transactions:</span>
+              <span className="font-medium">{transactionLines.length}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Total Quantity:</span>
+              <span className="font-medium">{totalQuantity.toLocaleString()} units</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Total Weight:</span>
+              <span className="font-medium">{totalWeight.toLocaleString()} kg</span>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Transaction Details Table */}
+      {invoice.template !== 'minimal' && (
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 border-b border-gray-300 pb-1">TRANSACTION DETAILS:</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b-2 border-gray-300">
+                  <th className="text-left py-2 px-1">Date</th>
+                  {invoice.template === 'detailed' && (
+                    <>
+                      <th className="text-left py-2 px-1">DC No</th>
+                      <th className="text-left py-2 px-1">Lot No</th>
+                    </>
+                  )}
+                  <th className="text-left py-2 px-1">Description</th>
+                  <th className="text-left py-2 px-1">SAC</th>
+                  <th className="text-right py-2 px-1">Qty</th>
+                  <th className="text-right py-2 px-1">Weight (kg)</th>
+                  <th className="text-right py-2 px-1">Rate</th>
+                  <th className="text-right py-2 px-1">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoice.lines.map((line) => (
+                  <tr key={line.line_no} className="border-b border-gray-200">
+                    <td className="py-2 px-1">{formatDate(line.date)}</td>
+                    {invoice.template === 'detailed' && (
+                      <>
+                        <td className="py-2 px-1">{line.dc_no || '-'}</td>
+                        <td className="py-2 px-1">{line.lot_no || '-'}</td>
+                      </>
+                    )}
+                    <td className="py-2 px-1">{getLineDescription(line)}</td>
+                    <td className="py-2 px-1 font-mono text-xs">{line.sac_code || '-'}</td>
+                    <td className="text-right py-2 px-1">{line.quantity}</td>
+                    <td className="text-right py-2 px-1">{line.line_type === 'Charge' ? '-' : line.weight_kg?.toFixed(2) || '0.00'}</td>
+                    <td className="text-right py-2 px-1">{formatCurrency(line.rate)}</td>
+                    <td className="text-right py-2 px-1">{formatCurrency(line.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Billing Summary */}
+      <div className="flex justify-end mb-8">
+        <div className="w-full max-w-md">
+          <div className="bg-gray-50 p-4 rounded-lg space-y-2 text-sm">
+            <div className="flex justify-between">
+              <span>Subtotal:</span>
+              <span className="font-medium">{formatCurrency(invoice.subtotal)}</span>
+            </div>
+            {invoice.discount_percent > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Discount ({invoice.discount_percent}%):</span>
+                <span>-{formatCurrency(invoice.discount_amount)}</span>
+              </div>
+            )}
+            {invoice.exempt_amount > 0 && (
+              <div className="flex justify-between">
+                <span>Exempt Value:</span>
+                <span>{formatCurrency(invoice.exempt_amount)}</span>
+              </div>
+            )}
+            {taxLines.map(tax => (
+              <div key={tax.label} className="flex justify-between text-xs text-gray-600">
+                <span>{tax.label}:</span>
+                <span>{formatCurrency(tax.amount)}</span>
+              </div>
+            ))}
+            {invoice.round_off !== 0 && (
+              <div className="flex justify-between text-xs text-gray-600">
+                <span>Round Off:</span>
+                <span>{invoice.round_off < 0 ? '-' : '+'}{formatCurrency(Math.abs(invoice.round_off))}</span>
+              </div>
+            )}
+            <div className="border-t pt-2 mt-2">
+              <div className="flex justify-between font-bold text-lg">
+                <span>Total Amount:</span>
+                <span>{formatCurrency(invoice.total_amount)}</span>
+              </div>
+              <p className="text-xs italic text-gray-600 mt-1">{amountInWords(invoice.total_amount, invoice.currency)}</p>
+            </div>
+            {invoice.tds_amount > 0 && (
+              <div className="border-t pt-2 mt-2 space-y-1">
+                <div className="flex justify-between text-xs text-gray-600">
+                  <span>{getTdsLabel(invoice.tds_rate)}:</span>
+                  <span>-{formatCurrency(invoice.tds_amount)}</span>
+                </div>
+                <div className="flex justify-between font-medium">
+                  <span>Net Receivable:</span>
+                  <span>{formatCurrency(invoice.net_receivable)}</span>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* HSN/SAC-wise Tax Summary */}
+      {hsnSummary.length > 0 && (
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-3 border-b border-gray-300 pb-1">HSN/SAC-WISE TAX SUMMARY:</h3>
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr className="border-b-2 border-gray-300">
+                <th className="text-left py-2 px-1">SAC</th>
+                <th className="text-right py-2 px-1">Taxable Value</th>
+                {taxLines.map(tax => (
+                  <th key={tax.label} className="text-right py-2 px-1">{tax.label}</th>
+                ))}
+                <th className="text-right py-2 px-1">Total Tax</th>
+              </tr>
+            </thead>
+            <tbody>
+              {hsnSummary.map(row => (
+                <tr key={row.sac_code} className="border-b border-gray-200">
+                  <td className="py-2 px-1 font-mono">{row.sac_code}</td>
+                  <td className="text-right py-2 px-1">{formatCurrency(row.taxable_amount)}</td>
+                  {interState ? (
+                    <td className="text-right py-2 px-1">{formatCurrency(row.igst_amount)}</td>
+                  ) : (
+                    <>
+                      <td className="text-right py-2 px-1">{formatCurrency(row.cgst_amount)}</td>
+                      <td className="text-right py-2 px-1">{formatCurrency(row.sgst_amount)}</td>
+                    </>
+                  )}
+                  <td className="text-right py-2 px-1">{formatCurrency(row.total_tax)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Bank Details */}
+      {invoice.bank_name && (
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-3 border-b border-gray-300 pb-1">BANK DETAILS:</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <div>
+              <p className="font-medium">Bank Name:</p>
+              <p>{invoice.bank_name}</p>
+            </div>
+            <div>
+              <p className="font-medium">Account Number:</p>
+              <p>{invoice.account_number}</p>
+            </div>
+            <div>
+              <p className="font-medium">IFSC Code:</p>
+              <p>{invoice.ifsc_code}</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Notes */}
+      {invoice.notes && (
+        <div className="mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-3 border-b border-gray-300 pb-1">NOTES:</h3>
+          <p className="text-sm text-gray-600 whitespace-pre-line">{invoice.notes}</p>
+        </div>
+      )}
+
+      {/* Payment Terms */}
+      <div className="border-t pt-4">
+        <div className="flex justify-between items-center text-sm">
+          <div>
+            <p className="font-medium">Payment Terms: {invoice.payment_terms}</p>
+            <p className="text-gray-600">Thank you for your business!</p>
+          </div>
+          <div className="text-right">
+            <div className="border-t border-gray-400 pt-2 mt-8 w-32">
+              <p className="text-xs text-gray-600">Authorized Signature</p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
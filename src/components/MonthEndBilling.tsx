@@ -0,0 +1,352 @@
+import { useMemo, useState } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { ArrowLeft, CalendarCheck, FileArchive, Loader2, PlayCircle } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { LoadingState } from './ui/loading'
+import { TableEmptyState } from './ui/empty-state'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import { ConfirmationDialog } from './ConfirmationDialog'
+import { useClients } from '../hooks/useClients'
+import { useAllTransactions } from '../hooks/useTransactions'
+import { useCompanyProfile } from '../hooks/useCompanyProfile'
+import { useCreateInvoices } from '../hooks/useInvoices'
+import {
+  buildInvoiceDraft,
+  buildInvoiceLines,
+  formatCurrencyAmount,
+  formatPeriodLabel,
+  getDefaultBillingSettings,
+  getMonthRange,
+  isBillableTransaction,
+  isInvoicedTransaction,
+  roundCurrency,
+  toDateString
+} from '../lib/billing'
+import { ExportService } from '../services/exportService'
+import { handleError, showSuccessToast, showWarningToast } from '../lib/errorHandling'
+import type { Client, InvoiceBatchResult, InvoiceDraft } from '../types'
+
+interface MonthEndRow {
+  client: Client
+  draft: InvoiceDraft
+  // Deliveries in the month that are already on an invoice
+  invoicedCount: number
+}
+
+function getPreviousMonth(): string {
+  const today = new Date()
+  return toDateString(new Date(today.getFullYear(), today.getMonth() - 1, 1)).slice(0, 7)
+}
+
+export function MonthEndBilling() {
+  const navigate = useNavigate()
+  const [month, setMonth] = useState(getPreviousMonth)
+  const [invoiceDate, setInvoiceDate] = useState(toDateString(new Date()))
+  // Clients left out of this run; everyone with something to bill is included by default
+  const [excludedClients, setExcludedClients] = useState<Set<string>>(new Set())
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false)
+  const [result, setResult] = useState<InvoiceBatchResult | null>(null)
+  const [isDownloading, setIsDownloading] = useState(false)
+
+  const { data: clients = [], isLoading: isClientsLoading } = useClients()
+  const { data: transactions = [], isLoading: isTransactionsLoading } = useAllTransactions()
+  const { data: companyProfile, isLoading: isProfileLoading } = useCompanyProfile()
+  const createInvoices = useCreateInvoices()
+
+  const period = useMemo(() => getMonthRange(month), [month])
+  const periodLabel = formatPeriodLabel(period)
+
+  // One draft per client with billable deliveries in the month, built exactly as
+  // the billing page would with the saved company defaults
+  const rows = useMemo<MonthEndRow[]>(() => {
+    const settings = getDefaultBillingSettings(companyProfile)
+
+    return clients
+      .map(client => {
+        const delivered = transactions.filter(transaction =>
+          transaction.client_id === client.id &&
+          transaction.date >= period.start && transaction.date <= period.end &&
+          isBillableTransaction(transaction)
+        )
+        const pending = delivered.filter(transaction => !isInvoicedTransaction(transaction))
+
+        return {
+          client,
+          draft: buildInvoiceDraft({
+            clientId: client.id,
+            client,
+            lines: buildInvoiceLines(pending),
+            settings,
+            period,
+            invoiceDate
+          }),
+          invoicedCount: delivered.length - pending.length
+        }
+      })
+      .filter(row => row.draft.lines.length > 0 || row.invoicedCount > 0)
+  }, [clients, transactions, companyProfile, period, invoiceDate])
+
+  const selectedRows = rows.filter(row => row.draft.lines.length > 0 && !excludedClients.has(row.client.id))
+  const selectedTotal = roundCurrency(selectedRows.reduce((sum, row) => sum + row.draft.total_amount, 0))
+
+  const toggleClient = (clientId: string) => {
+    setExcludedClients(current => {
+      const next = new Set(current)
+      if (next.has(clientId)) {
+        next.delete(clientId)
+      } else {
+        next.add(clientId)
+      }
+      return next
+    })
+  }
+
+  const downloadZip = async (batch: InvoiceBatchResult) => {
+    setIsDownloading(true)
+    try {
+      await ExportService.exportInvoicesToZip(batch.created, periodLabel)
+    } catch (error) {
+      handleError(error, 'downloading invoices')
+    } finally {
+      setIsDownloading(false)
+    }
+  }
+
+  const handleRun = async () => {
+    try {
+      const batch = await createInvoices.mutateAsync(selectedRows.map(row => row.draft))
+      setResult(batch)
+      setIsConfirmOpen(false)
+
+      if (batch.failed.length > 0) {
+        showWarningToast(`${batch.created.length} invoices issued, ${batch.failed.length} failed`)
+      } else {
+        showSuccessToast(`${batch.created.length} invoices issued for ${periodLabel}`)
+      }
+
+      if (batch.created.length > 0) {
+        await downloadZip(batch)
+      }
+    } catch (error) {
+      setIsConfirmOpen(false)
+      handleError(error, 'running month-end invoicing')
+    }
+  }
+
+  if (isClientsLoading || isTransactionsLoading || isProfileLoading) {
+    return <LoadingState message="Loading deliveries..." size="lg" className="h-64" />
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center space-x-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/invoices')}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back</span>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Month-End Invoicing</h1>
+            <p className="text-gray-600">Issue invoices for every client with uninvoiced deliveries in one run</p>
+          </div>
+        </div>
+        <Button
+          onClick={() => setIsConfirmOpen(true)}
+          disabled={selectedRows.length === 0 || createInvoices.isPending}
+          className="bg-green-600 hover:bg-green-700 text-white"
+        >
+          <PlayCircle className="w-4 h-4 mr-2" />
+          Issue {selectedRows.length} Invoice{selectedRows.length === 1 ? '' : 's'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="month">Billing Month</Label>
+            <Input
+              id="month"
+              type="month"
+              value={month}
+              onChange={(e) => {
+                if (!e.target.value) return
+                setMonth(e.target.value)
+                setResult(null)
+              }}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoiceDate">Invoice Date</Label>
+            <Input
+              id="invoiceDate"
+              type="date"
+              value={invoiceDate}
+              onChange={(e) => e.target.value && setInvoiceDate(e.target.value)}
+            />
+          </div>
+          <div className="text-sm text-gray-600 self-end space-y-1">
+            <p>Tax, payment terms and bank details come from the saved <Link to="/settings" className="text-blue-600 hover:underline">company settings</Link>.</p>
+            <p>For discounts or other changes, bill the client from its own billing page.</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+              <CardTitle className="flex items-center space-x-2">
+                <CalendarCheck className="w-5 h-5 text-green-600" />
+                <span>Run Result</span>
+              </CardTitle>
+              <Button
+                variant="outline"
+                onClick={() => downloadZip(result)}
+                disabled={result.created.length === 0 || isDownloading}
+              >
+                {isDownloading ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <FileArchive className="w-4 h-4 mr-2" />
+                )}
+                Download ZIP
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {result.created.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {result.created.map(invoice => (
+                  <Link key={invoice.id} to={`/invoices/${invoice.id}`}>
+                    <Badge variant="outline" className="font-mono hover:bg-gray-100">
+                      {invoice.invoice_number} · {invoice.client_name}
+                    </Badge>
+                  </Link>
+                ))}
+              </div>
+            )}
+            {result.failed.map(failure => (
+              <p key={failure.client_id} className="text-sm text-red-600">
+                <span className="font-medium">{failure.client_name}:</span> {failure.error}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Clients to Invoice · {periodLabel}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <TableEmptyState
+              title="Nothing to Invoice"
+              description="No client has billable deliveries in the selected month."
+            />
+          ) : (
+            <div className="mobile-table-scroll">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10"></TableHead>
+                    <TableHead>Client</TableHead>
+                    <TableHead className="text-right">Deliveries</TableHead>
+                    <TableHead className="text-right">Taxable</TableHead>
+                    <TableHead className="text-right">GST</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Expected TDS</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(({ client, draft, invoicedCount }) => {
+                    const hasLines = draft.lines.length > 0
+
+                    return (
+                      <TableRow key={client.id} className={hasLines ? undefined : 'text-gray-500'}>
+                        <TableCell>
+                          <input
+                            type="checkbox"
+                            aria-label={`Include ${client.name}`}
+                            checked={hasLines && !excludedClients.has(client.id)}
+                            disabled={!hasLines || createInvoices.isPending}
+                            onChange={() => toggleClient(client.id)}
+                            className="rounded border-gray-300"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Link to={`/billing?clientId=${client.id}`} className="font-medium text-blue-600 hover:underline">
+                            {client.name}
+                          </Link>
+                          <div className="text-xs text-gray-500">
+                            {client.gst_number || 'Unregistered'}
+                            {draft.igst_rate > 0 && ' · IGST'}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {draft.lines.length}
+                          {invoicedCount > 0 && (
+                            <div className="text-xs text-gray-500">{invoicedCount} already invoiced</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{hasLines ? formatCurrencyAmount(draft.taxable_amount) : '-'}</TableCell>
+                        <TableCell className="text-right">{hasLines ? formatCurrencyAmount(draft.total_tax) : '-'}</TableCell>
+                        <TableCell className="text-right font-medium">{hasLines ? formatCurrencyAmount(draft.total_amount) : '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {hasLines && draft.tds_amount > 0 ? formatCurrencyAmount(draft.tds_amount) : '-'}
+                          {hasLines && draft.tds_amount > 0 && (
+                            <div className="text-xs text-gray-500">{draft.tds_rate}%</div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                  <TableRow className="bg-gray-50 font-semibold">
+                    <TableCell></TableCell>
+                    <TableCell>{selectedRows.length} selected</TableCell>
+                    <TableCell className="text-right">{selectedRows.reduce((sum, row) => sum + row.draft.lines.length, 0)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrencyAmount(roundCurrency(selectedRows.reduce((sum, row) => sum + row.draft.taxable_amount, 0)))}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrencyAmount(roundCurrency(selectedRows.reduce((sum, row) => sum + row.draft.total_tax, 0)))}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrencyAmount(selectedTotal)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrencyAmount(roundCurrency(selectedRows.reduce((sum, row) => sum + row.draft.tds_amount, 0)))}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ConfirmationDialog
+        open={isConfirmOpen}
+        onOpenChange={setIsConfirmOpen}
+        title="Issue Month-End Invoices"
+        description={`Issue ${selectedRows.length} invoices for ${periodLabel} totalling ${formatCurrencyAmount(selectedTotal)}, dated ${new Date(`${invoiceDate}T00:00:00`).toLocaleDateString('en-IN')}? Each one takes the next number in the series and its deliveries are locked. A ZIP of the PDFs downloads when the run finishes.`}
+        confirmText="Issue Invoices"
+        onConfirm={handleRun}
+        isLoading={createInvoices.isPending}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect } from 'react'
+import { Loader2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { useMoveLotStage } from '../hooks/useLotStages'
+import { LOT_STAGES, WIP_STAGES } from '../lib/lotStages'
+import { handleError, showSuccessToast } from '../lib/errorHandling'
+import type { LotStage, WipStage } from '../types'
+
+export interface StageCard {
+  component: string
+  lot_no: string
+  stage: LotStage
+  quantity: number
+}
+
+interface MoveLotStageModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  clientId: string
+  card: StageCard | null
+}
+
+export function MoveLotStageModal({ open, onOpenChange, clientId, card }: MoveLotStageModalProps) {
+  const [toStage, setToStage] = useState<WipStage>('Fettling')
+  const [quantity, setQuantity] = useState('')
+  const [notes, setNotes] = useState('')
+
+  const moveLotStage = useMoveLotStage()
+
+  // Default to the next stage with the whole card selected
+  useEffect(() => {
+    if (open && card) {
+      const next = LOT_STAGES[LOT_STAGES.indexOf(card.stage) + 1]
+      setToStage((next ?? WIP_STAGES[0]) as WipStage)
+      setQuantity(card.quantity.toString())
+      setNotes('')
+    }
+  }, [open, card])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!card) return
+
+    try {
+      await moveLotStage.mutateAsync({
+        client_id: clientId,
+        component: card.component,
+        lot_no: card.lot_no,
+        from_stage: card.stage === 'Not Started' ? null : card.stage,
+        to_stage: toStage,
+        quantity: parseInt(quantity) || 0,
+        notes: notes.trim() || null
+      })
+
+      showSuccessToast(`Moved ${quantity} pcs of lot ${card.lot_no} to ${toStage}`)
+      onOpenChange(false)
+    } catch (error) {
+      handleError(error, 'moving lot stage')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Move Lot {card?.lot_no}</DialogTitle>
+          <DialogDescription>
+            {card && `${card.component} · ${card.quantity.toLocaleString()} pcs in ${card.stage}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Move To *</Label>
+              <Select value={toStage} onValueChange={(value) => setToStage(value as WipStage)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WIP_STAGES.filter(stage => stage !== card?.stage).map(stage => (
+                    <SelectItem key={stage} value={stage}>{stage}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="stageQuantity">Quantity (pcs) *</Label>
+              <Input
+                id="stageQuantity"
+                type="number"
+                min="1"
+                max={card?.quantity}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="stageNotes">Notes</Label>
+            <Input
+              id="stageNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={moveLotStage.isPending}>
+              {moveLotStage.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
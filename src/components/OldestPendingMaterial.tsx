@@ -0,0 +1,82 @@
+import { Hourglass } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { LoadingState } from './ui/loading'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import { useOldestPendingLots } from '../hooks/useTransactions'
+import { toDateString } from '../lib/billing'
+import { LOT_AGE_STYLES, getLotAgeBucket, getLotAgeDays } from '../lib/lotAgeing'
+
+interface OldestPendingMaterialProps {
+  onSelectClient: (clientId: string) => void
+}
+
+// Open lots of every client, longest waiting first, so production can pick
+// up what has been in the yard the longest
+export function OldestPendingMaterial({ onSelectClient }: OldestPendingMaterialProps) {
+  const { data: lots = [], isLoading, error } = useOldestPendingLots(8)
+  const today = toDateString(new Date())
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2 text-base">
+          <Hourglass className="w-4 h-4 text-orange-600" />
+          <span>Oldest Pending Material</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingState message="Loading pending material..." />
+        ) : error ? (
+          <p className="text-sm text-red-600">Failed to load pending material</p>
+        ) : lots.length === 0 ? (
+          <p className="text-sm text-gray-500">No material is waiting to be processed.</p>
+        ) : (
+          <div className="mobile-table-scroll">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Component</TableHead>
+                  <TableHead>Lot No</TableHead>
+                  <TableHead className="text-right">Pending</TableHead>
+                  <TableHead>Received</TableHead>
+                  <TableHead className="text-right">Age</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lots.map(lot => (
+                  <TableRow
+                    key={`${lot.client_id}-${lot.component}-${lot.lot_no}`}
+                    className="cursor-pointer"
+                    onClick={() => onSelectClient(lot.client_id)}
+                  >
+                    <TableCell className="font-medium">{lot.client_name}</TableCell>
+                    <TableCell>{lot.component}</TableCell>
+                    <TableCell>{lot.lot_no}</TableCell>
+                    <TableCell className="text-right">{lot.balance.toLocaleString()} pcs</TableCell>
+                    <TableCell>{lot.first_received_date ? new Date(lot.first_received_date).toLocaleDateString() : '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {lot.first_received_date ? (
+                        <span className={`rounded-full px-2 py-0.5 text-xs font-semibold ${LOT_AGE_STYLES[getLotAgeBucket(getLotAgeDays(lot.first_received_date, today))]}`}>
+                          {getLotAgeDays(lot.first_received_date, today)} days
+                        </span>
+                      ) : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
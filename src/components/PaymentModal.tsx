@@ -0,0 +1,261 @@
+import { useState, useEffect } from 'react'
+import { Loader2, Wand2 } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { useCreatePayment } from '../hooks/usePayments'
+import { formatCurrencyAmount, roundCurrency, toDateString } from '../lib/billing'
+import { allocateOldestFirst } from '../lib/receivables'
+import { handleError, showSuccessToast, ValidationError } from '../lib/errorHandling'
+import type { InvoiceOutstanding, PaymentMode } from '../types'
+
+const PAYMENT_MODES: PaymentMode[] = ['NEFT', 'RTGS', 'IMPS', 'UPI', 'Cheque', 'Cash', 'Other']
+
+interface PaymentModalProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  clientId: string
+  openInvoices: InvoiceOutstanding[]
+}
+
+export function PaymentModal({ open, onOpenChange, clientId, openInvoices }: PaymentModalProps) {
+  const [paymentDate, setPaymentDate] = useState(toDateString(new Date()))
+  const [mode, setMode] = useState<PaymentMode>('NEFT')
+  const [reference, setReference] = useState('')
+  const [amount, setAmount] = useState('')
+  const [tdsAmount, setTdsAmount] = useState('')
+  const [notes, setNotes] = useState('')
+  const [allocations, setAllocations] = useState<Record<string, string>>({})
+
+  const createPayment = useCreatePayment()
+
+  // Reset form when modal opens
+  useEffect(() => {
+    if (open) {
+      setPaymentDate(toDateString(new Date()))
+      setMode('NEFT')
+      setReference('')
+      setAmount('')
+      setTdsAmount('')
+      setNotes('')
+      setAllocations({})
+    }
+  }, [open])
+
+  // Cash received plus TDS is what the payment settles
+  const settledAmount = roundCurrency((parseFloat(amount) || 0) + (parseFloat(tdsAmount) || 0))
+  const allocatedAmount = roundCurrency(
+    Object.values(allocations).reduce((sum, value) => sum + (parseFloat(value) || 0), 0)
+  )
+
+  const handleAutoAllocate = () => {
+    const result = allocateOldestFirst(openInvoices, settledAmount)
+    setAllocations(Object.fromEntries(
+      Object.entries(result).map(([invoiceId, share]) => [invoiceId, share.toFixed(2)])
+    ))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      if (settledAmount <= 0) {
+        throw new ValidationError('Enter the amount received or the TDS deducted')
+      }
+      if (allocatedAmount > settledAmount) {
+        throw new ValidationError('Allocations cannot be more than the amount received plus TDS')
+      }
+
+      const invoiceAllocations = openInvoices
+        .filter(item => parseFloat(allocations[item.invoice.id]) > 0)
+        .map(item => ({
+          invoice_id: item.invoice.id,
+          amount: roundCurrency(parseFloat(allocations[item.invoice.id]))
+        }))
+
+      const overAllocated = openInvoices.find(item =>
+        (parseFloat(allocations[item.invoice.id]) || 0) > item.outstanding
+      )
+      if (overAllocated) {
+        throw new ValidationError(`Invoice ${overAllocated.invoice.invoice_number} only has ${formatCurrencyAmount(overAllocated.outstanding)} outstanding`)
+      }
+
+      await createPayment.mutateAsync({
+        client_id: clientId,
+        payment_date: paymentDate,
+        mode,
+        reference: reference.trim() || null,
+        amount: roundCurrency(parseFloat(amount) || 0),
+        tds_amount: roundCurrency(parseFloat(tdsAmount) || 0),
+        notes: notes.trim() || null,
+        allocations: invoiceAllocations
+      })
+
+      showSuccessToast(`Payment of ${formatCurrencyAmount(settledAmount)} recorded`)
+      onOpenChange(false)
+    } catch (error) {
+      handleError(error, 'recording payment')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[650px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Record Payment</DialogTitle>
+          <DialogDescription>
+            Enter the amount received and any TDS the client deducted, then allocate it against open invoices.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="paymentDate">Date *</Label>
+              <Input
+                id="paymentDate"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Mode *</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as PaymentMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_MODES.map(paymentMode => (
+                    <SelectItem key={paymentMode} value={paymentMode}>{paymentMode}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reference">Reference</Label>
+            <Input
+              id="reference"
+              value={reference}
+              onChange={(e) => setReference(e.target.value)}
+              placeholder="UTR / cheque number"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="amount">Amount Received (₹)</Label>
+              <Input
+                id="amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="tdsAmount">TDS Deducted (₹)</Label>
+              <Input
+                id="tdsAmount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={tdsAmount}
+                onChange={(e) => setTdsAmount(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="paymentNotes">Notes</Label>
+            <Input
+              id="paymentNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Allocate to Invoices</Label>
+              <Button
+                type="button"
+                size="sm"
+                variant="outline"
+                onClick={handleAutoAllocate}
+                disabled={settledAmount <= 0 || openInvoices.length === 0}
+              >
+                <Wand2 className="w-4 h-4 mr-2" />
+                Oldest First
+              </Button>
+            </div>
+            {openInvoices.length === 0 ? (
+              <p className="text-sm text-gray-500">No open invoices. The payment will be kept as an advance.</p>
+            ) : (
+              <div className="border rounded-lg divide-y max-h-56 overflow-y-auto">
+                {openInvoices.map(item => (
+                  <div key={item.invoice.id} className="flex items-center justify-between gap-4 p-2 text-sm">
+                    <div>
+                      <p className="font-mono font-medium">{item.invoice.invoice_number}</p>
+                      <p className="text-xs text-gray-500">
+                        {new Date(item.invoice.invoice_date).toLocaleDateString('en-IN')} · Outstanding {formatCurrencyAmount(item.outstanding)}
+                      </p>
+                    </div>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={item.outstanding}
+                      className="w-32"
+                      value={allocations[item.invoice.id] || ''}
+                      onChange={(e) => setAllocations({ ...allocations, [item.invoice.id]: e.target.value })}
+                      placeholder="0.00"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-between text-sm bg-gray-50 p-2 rounded">
+              <span>Allocated {formatCurrencyAmount(allocatedAmount)} of {formatCurrencyAmount(settledAmount)}</span>
+              {settledAmount - allocatedAmount > 0 && (
+                <span className="text-orange-600">Unallocated {formatCurrencyAmount(roundCurrency(settledAmount - allocatedAmount))}</span>
+              )}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={createPayment.isPending}>
+              {createPayment.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record Payment
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
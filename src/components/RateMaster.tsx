@@ -1,6 +1,6 @@
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
 import { motion } from 'framer-motion'
-import { Plus, Edit, Trash2 } from 'lucide-react'
+import { Plus, Edit, Trash2, History, TrendingUp, TrendingDown, Undo2 } from 'lucide-react'
 import { Button } from './ui/button'
 import { ConfirmationDialog } from './ConfirmationDialog'
 import { LoadingState } from './ui/loading'
@@ -15,18 +15,28 @@ import {
 } from './ui/table'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
 import { AddRateModal } from './AddRateModal'
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { ratesService } from '../services/rates'
 import { useClients } from '../hooks/useClients'
 import { handleError, showSuccessToast } from '../lib/errorHandling'
-import type { Rate } from '../types'
+import { getDefaultSacCode } from '../lib/billing'
+import { buildRateTimeline, getPreviousVersion } from '../lib/rateHistory'
+import type { Rate, RateInput } from '../types'
 
 export function RateMaster() {
   const [isAddRateModalOpen, setIsAddRateModalOpen] = useState(false)
   const [editingRate, setEditingRate] = useState<Rate | null>(null)
-  const [rateToDelete, setRateToDelete] = useState<string | null>(null)
+  const [rateToDelete, setRateToDelete] = useState<Rate | null>(null)
   const [isDeleteRateDialogOpen, setIsDeleteRateDialogOpen] = useState(false)
+  const [historyComponent, setHistoryComponent] = useState('')
   
   const queryClient = useQueryClient()
   const { data: clients = [] } = useClients()
@@ -34,7 +44,20 @@ export function RateMaster() {
     queryKey: ['rates'],
     queryFn: ratesService.getAll,
   })
+  const { data: rateHistory = [] } = useQuery({
+    queryKey: ['rates', 'history'],
+    queryFn: ratesService.getHistory,
+  })
 
+  const historyComponents = useMemo(
+    () => [...new Set(rateHistory.map(rate => rate.component))].sort(),
+    [rateHistory]
+  )
+  const selectedHistoryComponent = historyComponent || historyComponents[0] || ''
+  const timeline = useMemo(
+    () => buildRateTimeline(rateHistory, selectedHistoryComponent),
+    [rateHistory, selectedHistoryComponent]
+  )
 
   const createRateMutation = useMutation({
     mutationFn: ratesService.create,
@@ -48,7 +71,7 @@ export function RateMaster() {
   })
 
   const updateRateMutation = useMutation({
-    mutationFn: ({ id, updates }: { id: string; updates: Partial<Rate> }) =>
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<RateInput> }) =>
       ratesService.update(id, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['rates'] })
@@ -64,7 +87,6 @@ export function RateMaster() {
     mutationFn: ratesService.delete,
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['rates'] })
-      showSuccessToast('Rate deleted successfully')
     },
     onError: (error) => {
       handleError(error, 'deleting rate')
@@ -81,7 +103,7 @@ export function RateMaster() {
     setIsAddRateModalOpen(true)
   }
 
-  const handleSaveRate = async (rateData: Omit<Rate, 'id' | 'created_at'>) => {
+  const handleSaveRate = async (rateData: RateInput) => {
     if (editingRate) {
       // Update existing rate
       await updateRateMutation.mutateAsync({ id: editingRate.id, updates: rateData })
@@ -96,15 +118,21 @@ export function RateMaster() {
     setEditingRate(null)
   }
 
-  const handleDelete = async (id: string) => {
-    setRateToDelete(id)
+  const handleDelete = async (rate: Rate) => {
+    setRateToDelete(rate)
     setIsDeleteRateDialogOpen(true)
   }
 
+  // Deleting a revised rate only removes its latest version
+  const previousVersion = rateToDelete ? getPreviousVersion(rateHistory, rateToDelete) : null
+
   const confirmDeleteRate = async () => {
     if (rateToDelete) {
       try {
-        await deleteRateMutation.mutateAsync(rateToDelete)
+        await deleteRateMutation.mutateAsync(rateToDelete.id)
+        showSuccessToast(previousVersion
+          ? `Reverted to ₹${previousVersion.rate.toLocaleString()}`
+          : 'Rate deleted successfully')
         setRateToDelete(null)
       } catch (error) {
         // Error handling is done in mutation onError
@@ -164,6 +192,8 @@ export function RateMaster() {
                 <TableHead>Component</TableHead>
                 <TableHead>Work Type</TableHead>
                 <TableHead>Unit</TableHead>
+                <TableHead>SAC</TableHead>
+                <TableHead>Since</TableHead>
                 <TableHead className="text-right">Rate (₹)</TableHead>
                 <TableHead className="text-right">Actions</TableHead>
               </TableRow>
@@ -188,11 +218,25 @@ export function RateMaster() {
                   <TableCell className="font-medium">{rate.component}</TableCell>
                   <TableCell>{rate.work_type}</TableCell>
                   <TableCell>{rate.unit}</TableCell>
+                  <TableCell className="font-mono text-sm">
+                    {rate.sac_code || <span className="text-gray-400">{getDefaultSacCode(rate.work_type)}</span>}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-600">
+                    {new Date(rate.effective_from).toLocaleDateString('en-IN')}
+                  </TableCell>
                   <TableCell className="text-right font-medium">
                     ₹{rate.rate.toLocaleString()}
                   </TableCell>
                   <TableCell className="text-right">
                     <div className="flex justify-end space-x-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setHistoryComponent(rate.component)}
+                        title="Show rate history"
+                      >
+                        <History className="w-4 h-4" />
+                      </Button>
                       <Button
                         size="sm"
                         variant="outline"
@@ -203,10 +247,13 @@ export function RateMaster() {
                       <Button
                         size="sm"
                         variant="destructive"
-                        onClick={() => handleDelete(rate.id)}
+                        onClick={() => handleDelete(rate)}
                         disabled={deleteRateMutation.isPending}
+                        title={getPreviousVersion(rateHistory, rate) ? 'Revert to previous rate' : 'Delete rate'}
                       >
-                        <Trash2 className="w-4 h-4" />
+                        {getPreviousVersion(rateHistory, rate)
+                          ? <Undo2 className="w-4 h-4" />
+                          : <Trash2 className="w-4 h-4" />}
                       </Button>
                     </div>
                   </TableCell>
@@ -228,6 +275,59 @@ export function RateMaster() {
         </CardContent>
       </Card>
 
+      {historyComponents.length > 0 && (
+        <Card>
+          <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 space-y-0">
+            <CardTitle className="flex items-center space-x-2">
+              <History className="w-5 h-5" />
+              <span>Rate History</span>
+            </CardTitle>
+            <div className="w-full sm:w-64">
+              <Select value={selectedHistoryComponent} onValueChange={setHistoryComponent}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select component" />
+                </SelectTrigger>
+                <SelectContent>
+                  {historyComponents.map(component => (
+                    <SelectItem key={component} value={component}>{component}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+              {timeline.map(({ rate, previous_rate }) => (
+                <li key={rate.id} className="ml-4">
+                  <div className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${
+                    rate.effective_to ? 'bg-gray-300' : 'bg-blue-600'
+                  }`} />
+                  <p className="text-xs text-gray-500">
+                    {new Date(rate.effective_from).toLocaleDateString('en-IN')}
+                    {' – '}
+                    {rate.effective_to ? new Date(rate.effective_to).toLocaleDateString('en-IN') : 'Current'}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">₹{rate.rate.toLocaleString()}</span>
+                    {previous_rate !== null && previous_rate !== rate.rate && (
+                      <span className={`flex items-center text-xs ${rate.rate > previous_rate ? 'text-red-600' : 'text-green-600'}`}>
+                        {rate.rate > previous_rate
+                          ? <TrendingUp className="w-3 h-3 mr-1" />
+                          : <TrendingDown className="w-3 h-3 mr-1" />}
+                        from ₹{previous_rate.toLocaleString()}
+                      </span>
+                    )}
+                    <span className="text-sm text-gray-600">
+                      {getClientName(rate.client_id)} · {rate.work_type} · {rate.unit}
+                    </span>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Add/Edit Rate Modal */}
       <AddRateModal
         open={isAddRateModalOpen}
@@ -241,9 +341,11 @@ export function RateMaster() {
       <ConfirmationDialog
         open={isDeleteRateDialogOpen}
         onOpenChange={setIsDeleteRateDialogOpen}
-        title="Delete Rate"
-        description="Are you sure you want to delete this rate? This will affect future transaction calculations."
-        confirmText="Delete Rate"
+        title={previousVersion ? 'Revert to Previous Rate' : 'Delete Rate'}
+        description={previousVersion
+          ? `This removes the ₹${rateToDelete?.rate.toLocaleString()} version from ${rateToDelete ? new Date(rateToDelete.effective_from).toLocaleDateString('en-IN') : ''} and makes ₹${previousVersion.rate.toLocaleString()} current again. This will affect future transaction calculations.`
+          : 'Are you sure you want to delete this rate? This will affect future transaction calculations.'}
+        confirmText={previousVersion ? 'Revert Rate' : 'Delete Rate'}
         variant="destructive"
         onConfirm={confirmDeleteRate}
         isLoading={deleteRateMutation.isPending}
@@ -0,0 +1,164 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Clock, Download, FileSpreadsheet, FileText } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { LoadingState } from './ui/loading'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from './ui/dropdown-menu'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import { useReceivablesAgeing } from '../hooks/usePayments'
+import { formatCurrencyAmount, toDateString } from '../lib/billing'
+import { AGEING_BUCKETS } from '../lib/receivables'
+import { ExportService } from '../services/exportService'
+import { handleError, showSuccessToast } from '../lib/errorHandling'
+import type { AgeingBucket } from '../types'
+
+const BUCKET_STYLES: Record<AgeingBucket, string> = {
+  'Not Due': 'text-gray-600',
+  '0-30': 'text-gray-900',
+  '31-60': 'text-orange-600',
+  '61-90': 'text-red-600',
+  '90+': 'text-red-700 font-semibold'
+}
+
+export function ReceivablesAgeing() {
+  const [asOf, setAsOf] = useState(toDateString(new Date()))
+  const { data: report, isLoading, error } = useReceivablesAgeing(asOf)
+
+  const formatAmount = (amount: number) => amount === 0 ? '-' : formatCurrencyAmount(amount)
+
+  const handleExport = async (format: 'xlsx' | 'csv' | 'pdf') => {
+    if (!report) return
+
+    try {
+      if (format === 'xlsx') {
+        await ExportService.exportAgeingToExcel(report)
+      } else if (format === 'csv') {
+        await ExportService.exportAgeingToCSV(report)
+      } else {
+        await ExportService.exportAgeingToPDF(report)
+      }
+      showSuccessToast('Ageing report exported')
+    } catch (error) {
+      handleError(error, 'exporting ageing report')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <CardTitle className="flex items-center space-x-2">
+            <Clock className="w-5 h-5 text-red-600" />
+            <span>Receivables Ageing</span>
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">As on</span>
+            <Input
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              className="w-40"
+            />
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" disabled={!report || report.clients.length === 0}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Excel (.xlsx)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('csv')}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport('pdf')}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  PDF
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingState message="Loading ageing report..." />
+        ) : error || !report ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-center">
+            <p className="text-red-600 text-sm">Failed to load receivables ageing</p>
+          </div>
+        ) : report.clients.length === 0 ? (
+          <p className="text-sm text-gray-500">No receivables outstanding on this date.</p>
+        ) : (
+          <div className="mobile-table-scroll">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Client</TableHead>
+                  {AGEING_BUCKETS.map(bucket => (
+                    <TableHead key={bucket} className="text-right">
+                      {bucket === 'Not Due' ? bucket : `${bucket} days`}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">On Account</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.clients.map(client => (
+                  <TableRow key={client.client_id}>
+                    <TableCell>
+                      <Link to={`/ledger?clientId=${client.client_id}`} className="font-medium text-blue-600 hover:underline">
+                        {client.client_name}
+                      </Link>
+                      <div className="text-xs text-gray-500">
+                        {client.invoices.length} open invoice{client.invoices.length === 1 ? '' : 's'}
+                      </div>
+                    </TableCell>
+                    {AGEING_BUCKETS.map(bucket => (
+                      <TableCell key={bucket} className={`text-right ${client.buckets[bucket] > 0 ? BUCKET_STYLES[bucket] : 'text-gray-400'}`}>
+                        {formatAmount(client.buckets[bucket])}
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right text-green-700">
+                      {client.unallocated > 0 ? `-${formatCurrencyAmount(client.unallocated)}` : '-'}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrencyAmount(client.outstanding)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="bg-gray-50 font-semibold">
+                  <TableCell>Total</TableCell>
+                  {AGEING_BUCKETS.map(bucket => (
+                    <TableCell key={bucket} className="text-right">{formatAmount(report.totals[bucket])}</TableCell>
+                  ))}
+                  <TableCell className="text-right text-green-700">
+                    {report.totals.unallocated > 0 ? `-${formatCurrencyAmount(report.totals.unallocated)}` : '-'}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrencyAmount(report.totals.outstanding)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
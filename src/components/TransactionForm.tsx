@@ -22,19 +22,25 @@ import {
   SelectTrigger,
   SelectValue,
 } from './ui/select'
-import { useCreateTransaction, useUpdateTransaction } from '../hooks/useTransactions'
+import { ChallanEntryForm } from './ChallanEntryForm'
+import { DcNumberInput } from './DcNumberInput'
+import { useBalanceSummary, useCreateTransaction, useUpdateTransaction } from '../hooks/useTransactions'
 import { useUniqueComponents } from '../hooks/useRates'
 import { ratesService } from '../services/rates'
 import { handleError, showSuccessToast } from '../lib/errorHandling'
+import { getDefaultSacCode } from '../lib/billing'
+import { getAvailableQuantity, getMinimumReceipt } from '../lib/lotBalance'
+import { TRANSACTION_TYPES, isOutward } from '../lib/transactionTypes'
 import type { Transaction, TransactionType, WorkType, Unit } from '../types'
 
 const transactionSchema = z.object({
   client_id: z.string().min(1, 'Client is required'),
   date: z.string().min(1, 'Date is required'),
-  dc_no: z.string().min(1, 'DC Number is required'),
+  // Required unless an outward number is being allocated; checked on submit
+  dc_no: z.string(),
   component: z.string().min(1, 'Component is required'),
   lot_no: z.string().min(1, 'Lot Number is required'),
-  transaction_type: z.enum(['Received', 'Delivered']),
+  transaction_type: z.enum(['Received', 'Delivered', 'Rejected', 'Returned Unprocessed', 'Scrapped']),
   qty_in: z.number().nullable(),
   qty_out: z.number().nullable(),
   weight_kg: z.number().nullable(),
@@ -42,10 +48,15 @@ const transactionSchema = z.object({
   unit: z.enum(['Per Piece', 'Per Kg']).nullable(),
   rate_applied: z.number().nullable(),
   billed_amount: z.number().nullable(),
+  sac_code: z.string().nullable(),
+  balance_override_reason: z.string().nullable(),
 })
 
 type TransactionFormData = z.infer<typeof transactionSchema>
 
+// A single row, or every component and lot of one DC at once
+type EntryMode = 'single' | 'challan'
+
 interface TransactionFormProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -56,9 +67,13 @@ interface TransactionFormProps {
 
 export function TransactionForm({ open, onOpenChange, clientId, clientName, editingTransaction }: TransactionFormProps) {
   const [isLoadingRate, setIsLoadingRate] = useState(false)
+  const [entryMode, setEntryMode] = useState<EntryMode>('single')
+  const [autoNumber, setAutoNumber] = useState(true)
+  const [overrideBalance, setOverrideBalance] = useState(false)
   const createTransaction = useCreateTransaction()
   const updateTransaction = useUpdateTransaction()
   const { data: uniqueComponents = [] } = useUniqueComponents(clientId)
+  const { data: balanceSummary, isLoading: isBalanceLoading } = useBalanceSummary(clientId)
 
   const isEditing = !!editingTransaction
 
@@ -78,6 +93,8 @@ export function TransactionForm({ open, onOpenChange, clientId, clientName, edit
       unit: null,
       rate_applied: null,
       billed_amount: null,
+      sac_code: null,
+      balance_override_reason: null,
     },
   })
 
@@ -99,6 +116,8 @@ export function TransactionForm({ open, onOpenChange, clientId, clientName, edit
         unit: editingTransaction.unit,
         rate_applied: editingTransaction.rate_applied,
         billed_amount: editingTransaction.billed_amount,
+        sac_code: editingTransaction.sac_code,
+        balance_override_reason: editingTransaction.balance_override_reason,
       })
 
       // Custom component handling is now automatic based on whether the component is in uniqueComponents
@@ -117,29 +136,63 @@ export function TransactionForm({ open, onOpenChange, clientId, clientName, edit
         unit: null,
         rate_applied: null,
         billed_amount: null,
+        sac_code: null,
+        balance_override_reason: null,
       })
       // Custom component state is no longer needed
     }
   }, [editingTransaction, clientId, form, uniqueComponents])
 
+  // Existing rows are always edited one at a time
+  useEffect(() => {
+    if (editingTransaction) {
+      setEntryMode('single')
+    }
+  }, [editingTransaction])
+
+  useEffect(() => {
+    if (open) {
+      setAutoNumber(true)
+      setOverrideBalance(!!editingTransaction?.balance_override_reason)
+    }
+  }, [open, editingTransaction])
+
   const watchedFields = form.watch(['transaction_type', 'component', 'work_type', 'unit', 'qty_out', 'rate_applied'])
   const [transactionType, component, workType, unit, qtyOut, rateApplied] = watchedFields
 
-  // Auto-populate rate when delivered transaction fields change
+  // Nothing can leave a lot beyond what is left of it unless overridden
+  const lotNo = form.watch('lot_no')
+  const availableQuantity = isOutward(transactionType) && component && lotNo && balanceSummary
+    ? getAvailableQuantity(balanceSummary, component, lotNo, editingTransaction)
+    : null
+  const isOverDelivery = availableQuantity !== null && (qtyOut || 0) > availableQuantity
+
+  // A receipt being edited cannot drop below what has already left its lot
+  const minimumReceipt = editingTransaction?.qty_in && balanceSummary
+    ? getMinimumReceipt(balanceSummary, editingTransaction)
+    : 0
+  const keepsReceipt = transactionType === 'Received' &&
+    component === editingTransaction?.component && lotNo === editingTransaction?.lot_no
+  const isUnderReceipt = minimumReceipt > 0 && (keepsReceipt ? qtyOut || 0 : 0) < minimumReceipt
+
+  // Auto-populate rate when delivered transaction fields change; the rate in
+  // force on the transaction date applies
+  const transactionDate = form.watch('date')
   useEffect(() => {
-    if (transactionType === 'Delivered' && component && workType && unit) {
+    if (transactionType === 'Delivered' && transactionDate && component && workType && unit) {
       setIsLoadingRate(true)
-      console.log('Looking up rate for:', { clientId, clientName, component, workType, unit })
+      console.log('Looking up rate for:', { clientId, clientName, component, workType, unit, transactionDate })
 
-      ratesService.getRateForTransaction(clientId, component, workType, unit)
+      ratesService.getRateForTransaction(clientId, component, workType, unit, transactionDate)
         .then((rate) => {
           if (rate) {
             console.log('Found rate:', rate)
-            form.setValue('rate_applied', rate)
+            form.setValue('rate_applied', rate.rate)
+            form.setValue('sac_code', rate.sac_code || getDefaultSacCode(workType))
           } else {
             console.log('No rate found for this combination')
             // Show a warning toast for missing rate
-            handleError(new Error(`No rate configured for ${component} - ${workType} - ${unit}. Please set up rates in Rate Master.`), 'rate lookup')
+            handleError(new Error(`No rate configured for ${component} - ${workType} - ${unit} on ${transactionDate}. Please set up rates in Rate Master.`), 'rate lookup')
           }
         })
         .catch((error) => {
@@ -147,7 +200,7 @@ export function TransactionForm({ open, onOpenChange, clientId, clientName, edit
         })
         .finally(() => setIsLoadingRate(false))
     }
-  }, [clientId, clientName, component, workType, unit, transactionType, form])
+  }, [clientId, clientName, component, workType, unit, transactionType, transactionDate, form])
 
   // Auto-calculate billed amount
   useEffect(() => {
@@ -159,20 +212,58 @@ export function TransactionForm({ open, onOpenChange, clientId, clientName, edit
 
   const onSubmit = async (data: TransactionFormData) => {
     try {
+      // A blank outward number is allocated by the database
+      const allocateDcNo = !isEditing && isOutward(data.transaction_type) && autoNumber
+      if (allocateDcNo) {
+        data.dc_no = ''
+      } else if (!data.dc_no.trim()) {
+        form.setError('dc_no', { message: 'DC Number is required' })
+        return
+      }
+
       // Validation
       if (!data.qty_out || data.qty_out <= 0) {
         handleError(new Error('Quantity must be greater than 0'), 'validation')
         return
       }
 
-      // Set quantities based on transaction type
-      if (data.transaction_type === 'Received') {
-        data.qty_in = data.qty_out || 0
-        data.qty_out = null
+      if (isOutward(data.transaction_type) && isBalanceLoading) {
+        handleError(new Error('Lot balances are still loading. Please try again in a moment.'), 'validation')
+        return
+      }
+
+      if (isUnderReceipt && editingTransaction) {
+        handleError(new Error(
+          `${minimumReceipt.toLocaleString()} pcs of lot ${editingTransaction.lot_no} have already gone out, so this receipt cannot go below that. ` +
+          'Correct the outward entries first.'
+        ), 'validation')
+        return
+      }
+
+      if (isOverDelivery && !(overrideBalance && data.balance_override_reason?.trim())) {
+        handleError(new Error(
+          `Only ${Math.max(availableQuantity || 0, 0).toLocaleString()} pcs of lot ${data.lot_no} are left to deliver. ` +
+          'Reduce the quantity, or override with a reason for a genuine correction.'
+        ), 'validation')
+        return
+      }
+
+      // The reason is only kept, and logged, on an actual override
+      data.balance_override_reason = isOverDelivery ? data.balance_override_reason?.trim() || null : null
+
+      // Only deliveries are billed
+      if (data.transaction_type !== 'Delivered') {
         data.work_type = null
         data.unit = null
         data.rate_applied = null
         data.billed_amount = null
+        data.sac_code = null
+      }
+
+      // Set quantities based on transaction type
+      if (data.transaction_type === 'Received') {
+        data.qty_in = data.qty_out || 0
+        data.qty_out = null
       } else {
         data.qty_in = null
         data.qty_out = data.qty_out || 0
@@ -212,276 +303,347 @@ export function TransactionForm({ open, onOpenChange, clientId, clientName, edit
             </DialogDescription>
           </DialogHeader>
 
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            {/* Client Info Display */}
-            <div className="bg-gradient-to-r from-blue-50 to-blue-100 border border-blue-200 rounded-xl p-4 shadow-sm">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
-                  <span className="text-sm font-semibold text-blue-800">Client:</span>
-                  <span className="text-sm font-medium text-blue-700">{clientName}</span>
-                </div>
-                {isEditing && (
-                  <div className="text-xs text-blue-600 bg-blue-200 px-3 py-1 rounded-full font-medium">
-                    ✏️ Editing Mode
-                  </div>
-                )}
-              </div>
+          {!isEditing && (
+            <div className="grid grid-cols-2 gap-1 p-1 mb-6 bg-gray-100 rounded-lg">
+              <Button
+                type="button"
+                variant={entryMode === 'single' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setEntryMode('single')}
+              >
+                Single Entry
+              </Button>
+              <Button
+                type="button"
+                variant={entryMode === 'challan' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setEntryMode('challan')}
+              >
+                Full DC
+              </Button>
             </div>
-
-            {/* Basic Information */}
-            <div className="space-y-4">
-              <div className="flex items-center space-x-3 pb-2 border-b border-gray-100">
-                <div className="w-2 h-2 bg-gray-600 rounded-full"></div>
-                <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Basic Information</h4>
+          )}
+
+          {entryMode === 'challan' && !isEditing ? (
+            <ChallanEntryForm
+              clientId={clientId}
+              onSaved={() => onOpenChange(false)}
+              onCancel={() => handleOpenChange(false)}
+            />
+          ) : (
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              {/* Client Info Display */}
+              <div className="bg-gradient-to-r from-blue-50 to-blue-100 border border-blue-200 rounded-xl p-4 shadow-sm">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <div className="w-2 h-2 bg-blue-600 rounded-full"></div>
+                    <span className="text-sm font-semibold text-blue-800">Client:</span>
+                    <span className="text-sm font-medium text-blue-700">{clientName}</span>
+                  </div>
+                  {isEditing && (
+                    <div className="text-xs text-blue-600 bg-blue-200 px-3 py-1 rounded-full font-medium">
+                      ✏️ Editing Mode
+                    </div>
+                  )}
+                </div>
               </div>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="date">Date</Label>
-                  <Input
-                    id="date"
-                    type="date"
-                    {...form.register('date')}
-                  />
-                  {form.formState.errors.date && (
-                    <p className="text-sm text-red-600">{form.formState.errors.date.message}</p>
-                  )}
+              {/* Basic Information */}
+              <div className="space-y-4">
+                <div className="flex items-center space-x-3 pb-2 border-b border-gray-100">
+                  <div className="w-2 h-2 bg-gray-600 rounded-full"></div>
+                  <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Basic Information</h4>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="dc_no">DC Number</Label>
-                  <Input
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="date">Date</Label>
+                    <Input
+                      id="date"
+                      type="date"
+                      {...form.register('date')}
+                    />
+                    {form.formState.errors.date && (
+                      <p className="text-sm text-red-600">{form.formState.errors.date.message}</p>
+                    )}
+                  </div>
+
+                  <DcNumberInput
                     id="dc_no"
-                    placeholder="Enter DC number"
-                    {...form.register('dc_no')}
+                    value={form.watch('dc_no')}
+                    onChange={(value) => form.setValue('dc_no', value, { shouldValidate: form.formState.isSubmitted })}
+                    clientId={clientId}
+                    transactionType={transactionType}
+                    date={form.watch('date')}
+                    autoNumber={!isEditing && autoNumber}
+                    onAutoNumberChange={isEditing ? undefined : setAutoNumber}
+                    allowExisting
+                    currentDcId={editingTransaction?.dc_id}
+                    error={form.formState.errors.dc_no?.message}
                   />
-                  {form.formState.errors.dc_no && (
-                    <p className="text-sm text-red-600">{form.formState.errors.dc_no.message}</p>
-                  )}
                 </div>
               </div>
-            </div>
 
-            {/* Product Details */}
-            <div className="space-y-4">
-              <div className="flex items-center space-x-3 pb-2 border-b border-gray-100">
-                <div className="w-2 h-2 bg-green-600 rounded-full"></div>
-                <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Product Details</h4>
-              </div>
+              {/* Product Details */}
+              <div className="space-y-4">
+                <div className="flex items-center space-x-3 pb-2 border-b border-gray-100">
+                  <div className="w-2 h-2 bg-green-600 rounded-full"></div>
+                  <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Product Details</h4>
+                </div>
 
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div className="space-y-2">
-                  <Label htmlFor="component">Component</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                   <div className="space-y-2">
-                    <Select
-                      value={uniqueComponents.includes(component || '') ? component : 'custom'}
-                      onValueChange={(value) => {
-                        if (value === 'custom') {
-                          // Don't change the form value, just show the input
-                          // The input will handle setting the form value
-                        } else {
-                          form.setValue('component', value)
-                        }
-                      }}
-                    >
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select or enter component" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {uniqueComponents.map((comp) => (
-                          <SelectItem key={comp} value={comp}>
-                            {comp}
-                          </SelectItem>
-                        ))}
-                        <SelectItem value="custom">
-                          <span className="text-blue-600">+ Enter custom component</span>
-                        </SelectItem>
-                      </SelectContent>
-                    </Select>
-
-                    {!uniqueComponents.includes(component || '') && (
-                      <Input
-                        placeholder="Enter component name"
-                        value={component || ''}
-                        onChange={(e) => {
-                          form.setValue('component', e.target.value)
+                    <Label htmlFor="component">Component</Label>
+                    <div className="space-y-2">
+                      <Select
+                        value={uniqueComponents.includes(component || '') ? component : 'custom'}
+                        onValueChange={(value) => {
+                          if (value === 'custom') {
+                            // Don't change the form value, just show the input
+                            // The input will handle setting the form value
+                          } else {
+                            form.setValue('component', value)
+                          }
                         }}
-                      />
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select or enter component" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {uniqueComponents.map((comp) => (
+                            <SelectItem key={comp} value={comp}>
+                              {comp}
+                            </SelectItem>
+                          ))}
+                          <SelectItem value="custom">
+                            <span className="text-blue-600">+ Enter custom component</span>
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+
+                      {!uniqueComponents.includes(component || '') && (
+                        <Input
+                          placeholder="Enter component name"
+                          value={component || ''}
+                          onChange={(e) => {
+                            form.setValue('component', e.target.value)
+                          }}
+                        />
+                      )}
+                    </div>
+                    {form.formState.errors.component && (
+                      <p className="text-sm text-red-600">{form.formState.errors.component.message}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="lot_no">Lot Number</Label>
+                    <Input
+                      id="lot_no"
+                      placeholder="Enter lot number"
+                      {...form.register('lot_no')}
+                    />
+                    {form.formState.errors.lot_no && (
+                      <p className="text-sm text-red-600">{form.formState.errors.lot_no.message}</p>
                     )}
                   </div>
-                  {form.formState.errors.component && (
-                    <p className="text-sm text-red-600">{form.formState.errors.component.message}</p>
-                  )}
+                </div>
+              </div>
+
+              {/* Transaction Details */}
+              <div className="space-y-4">
+                <div className="flex items-center space-x-3 pb-2 border-b border-gray-100">
+                  <div className="w-2 h-2 bg-purple-600 rounded-full"></div>
+                  <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Transaction Details</h4>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Transaction Type</Label>
+                  <Select
+                    value={transactionType}
+                    onValueChange={(value: TransactionType) => form.setValue('transaction_type', value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select transaction type" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TRANSACTION_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="lot_no">Lot Number</Label>
+                  <Label htmlFor="quantity">Quantity</Label>
                   <Input
-                    id="lot_no"
-                    placeholder="Enter lot number"
-                    {...form.register('lot_no')}
+                    id="quantity"
+                    type="number"
+                    step="1"
+                    placeholder="Enter quantity"
+                    {...form.register('qty_out', {
+                      setValueAs: (value) => value === '' ? null : parseInt(value) || null
+                    })}
                   />
-                  {form.formState.errors.lot_no && (
-                    <p className="text-sm text-red-600">{form.formState.errors.lot_no.message}</p>
+                  {availableQuantity !== null && (
+                    <p className={`text-sm ${isOverDelivery ? 'text-red-600' : 'text-gray-500'}`}>
+                      {isOverDelivery
+                        ? `Exceeds the ${Math.max(availableQuantity, 0).toLocaleString()} pcs left in lot ${lotNo}`
+                        : `${availableQuantity.toLocaleString()} pcs available in lot ${lotNo}`}
+                    </p>
+                  )}
+                  {isUnderReceipt && (
+                    <p className="text-sm text-red-600">
+                      {minimumReceipt.toLocaleString()} pcs of lot {editingTransaction?.lot_no} have already gone out; the receipt cannot go below that
+                    </p>
                   )}
                 </div>
-              </div>
-            </div>
-
-            {/* Transaction Details */}
-            <div className="space-y-4">
-              <div className="flex items-center space-x-3 pb-2 border-b border-gray-100">
-                <div className="w-2 h-2 bg-purple-600 rounded-full"></div>
-                <h4 className="text-sm font-semibold text-gray-700 uppercase tracking-wide">Transaction Details</h4>
-              </div>
 
-              <div className="space-y-2">
-                <Label>Transaction Type</Label>
-                <Select
-                  value={transactionType}
-                  onValueChange={(value: TransactionType) => form.setValue('transaction_type', value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select transaction type" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="Received">Received</SelectItem>
-                    <SelectItem value="Delivered">Delivered</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+                {isOverDelivery && (
+                  <div className="space-y-2 rounded-lg border border-red-200 bg-red-50 p-3">
+                    <div className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        id="override_balance"
+                        className="rounded"
+                        checked={overrideBalance}
+                        onChange={(e) => setOverrideBalance(e.target.checked)}
+                      />
+                      <Label htmlFor="override_balance">Override the lot balance for a correction</Label>
+                    </div>
+                    {overrideBalance && (
+                      <Input
+                        placeholder="Reason, e.g. receipt entered short on client DC 1234"
+                        {...form.register('balance_override_reason')}
+                      />
+                    )}
+                    <p className="text-xs text-gray-600">Overrides are logged with your name.</p>
+                  </div>
+                )}
 
-              <div className="space-y-2">
-                <Label htmlFor="quantity">Quantity</Label>
-                <Input
-                  id="quantity"
-                  type="number"
-                  step="1"
-                  placeholder="Enter quantity"
-                  {...form.register('qty_out', {
-                    setValueAs: (value) => value === '' ? null : parseInt(value) || null
-                  })}
-                />
+                <div className="space-y-2">
+                  <Label htmlFor="weight">Weight (KG)</Label>
+                  <Input
+                    id="weight"
+                    type="number"
+                    step="0.001"
+                    placeholder="Enter weight in kilograms"
+                    {...form.register('weight_kg', {
+                      setValueAs: (value) => value === '' ? null : parseFloat(value)
+                    })}
+                  />
+                </div>
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="weight">Weight (KG)</Label>
-                <Input
-                  id="weight"
-                  type="number"
-                  step="0.001"
-                  placeholder="Enter weight in kilograms"
-                  {...form.register('weight_kg', {
-                    setValueAs: (value) => value === '' ? null : parseFloat(value)
-                  })}
-                />
-              </div>
-            </div>
+              <AnimatePresence>
+                {transactionType === 'Delivered' && (
+                  <motion.div
+                    initial={{ opacity: 0, height: 0 }}
+                    animate={{ opacity: 1, height: 'auto' }}
+                    exit={{ opacity: 0, height: 0 }}
+                    transition={{ duration: 0.3 }}
+                    className="space-y-4"
+                  >
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>Work Type</Label>
+                        <Select
+                          value={workType || ''}
+                          onValueChange={(value: WorkType) => form.setValue('work_type', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select work type" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="Fettling">Fettling</SelectItem>
+                            <SelectItem value="Shot Blasting">Shot Blasting</SelectItem>
+                            <SelectItem value="Both">Both</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
 
-            <AnimatePresence>
-              {transactionType === 'Delivered' && (
-                <motion.div
-                  initial={{ opacity: 0, height: 0 }}
-                  animate={{ opacity: 1, height: 'auto' }}
-                  exit={{ opacity: 0, height: 0 }}
-                  transition={{ duration: 0.3 }}
-                  className="space-y-4"
-                >
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label>Work Type</Label>
-                      <Select
-                        value={workType || ''}
-                        onValueChange={(value: WorkType) => form.setValue('work_type', value)}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select work type" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="Fettling">Fettling</SelectItem>
-                          <SelectItem value="Shot Blasting">Shot Blasting</SelectItem>
-                          <SelectItem value="Both">Both</SelectItem>
-                        </SelectContent>
-                      </Select>
+                      <div className="space-y-2">
+                        <Label>Unit</Label>
+                        <Select
+                          value={unit || ''}
+                          onValueChange={(value: Unit) => form.setValue('unit', value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select unit" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="Per Piece">Per Piece</SelectItem>
+                            <SelectItem value="Per Kg">Per Kg</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
                     </div>
 
-                    <div className="space-y-2">
-                      <Label>Unit</Label>
-                      <Select
-                        value={unit || ''}
-                        onValueChange={(value: Unit) => form.setValue('unit', value)}
-                      >
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select unit" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="Per Piece">Per Piece</SelectItem>
-                          <SelectItem value="Per Kg">Per Kg</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                  </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="rate">
+                          Rate Applied
+                          {form.watch('sac_code') && (
+                            <span className="ml-2 text-xs font-normal text-gray-500">SAC {form.watch('sac_code')}</span>
+                          )}
+                        </Label>
+                        <div className="relative">
+                          <Input
+                            id="rate"
+                            type="number"
+                            step="0.01"
+                            placeholder="Rate will be auto-populated"
+                            {...form.register('rate_applied', {
+                              setValueAs: (value) => value === '' ? null : parseFloat(value)
+                            })}
+                          />
+                          {isLoadingRate && (
+                            <Loader2 className="absolute right-3 top-3 h-4 w-4 animate-spin" />
+                          )}
+                        </div>
+                      </div>
 
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="rate">Rate Applied</Label>
-                      <div className="relative">
+                      <div className="space-y-2">
+                        <Label htmlFor="billed_amount">Billed Amount</Label>
                         <Input
-                          id="rate"
+                          id="billed_amount"
                           type="number"
                           step="0.01"
-                          placeholder="Rate will be auto-populated"
-                          {...form.register('rate_applied', {
+                          placeholder="Auto-calculated"
+                          {...form.register('billed_amount', {
                             setValueAs: (value) => value === '' ? null : parseFloat(value)
                           })}
+                          readOnly
+                          className="bg-muted"
                         />
-                        {isLoadingRate && (
-                          <Loader2 className="absolute right-3 top-3 h-4 w-4 animate-spin" />
-                        )}
                       </div>
                     </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="billed_amount">Billed Amount</Label>
-                      <Input
-                        id="billed_amount"
-                        type="number"
-                        step="0.01"
-                        placeholder="Auto-calculated"
-                        {...form.register('billed_amount', {
-                          setValueAs: (value) => value === '' ? null : parseFloat(value)
-                        })}
-                        readOnly
-                        className="bg-muted"
-                      />
-                    </div>
-                  </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
-
-            <DialogFooter className="gap-3 pt-6 border-t border-gray-100">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => handleOpenChange(false)}
-                className="rounded-lg px-6"
-              >
-                Cancel
-              </Button>
-              <Button
-                type="submit"
-                disabled={createTransaction.isPending || updateTransaction.isPending}
-                className="rounded-lg px-6 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white shadow-lg hover:shadow-xl transition-all duration-200"
-              >
-                {(createTransaction.isPending || updateTransaction.isPending) && (
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  </motion.div>
                 )}
-                {isEditing ? 'Update Transaction' : 'Add Transaction'}
-              </Button>
-            </DialogFooter>
-          </form>
+              </AnimatePresence>
+
+              <DialogFooter className="gap-3 pt-6 border-t border-gray-100">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleOpenChange(false)}
+                  className="rounded-lg px-6"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={createTransaction.isPending || updateTransaction.isPending}
+                  className="rounded-lg px-6 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white shadow-lg hover:shadow-xl transition-all duration-200"
+                >
+                  {(createTransaction.isPending || updateTransaction.isPending) && (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  )}
+                  {isEditing ? 'Update Transaction' : 'Add Transaction'}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -1,5 +1,7 @@
+import { Fragment } from 'react'
 import { motion } from 'framer-motion'
-import { Edit, Trash2, MoreHorizontal } from 'lucide-react'
+import { Link } from 'react-router-dom'
+import { Edit, Trash2, MoreHorizontal, Lock, Truck, AlertTriangle } from 'lucide-react'
 import {
   Table,
   TableBody,
@@ -17,15 +19,22 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from './ui/dropdown-menu'
-import type { Transaction } from '../types'
+import { isInvoicedTransaction } from '../lib/billing'
+import { groupTransactionsByDc } from '../lib/deliveryChallan'
+import { TRANSACTION_TYPE_COLORS } from '../lib/transactionTypes'
+import type { Challan, Transaction } from '../types'
 
 interface TransactionLogTableProps {
   data: Transaction[]
   onEdit?: (transaction: Transaction) => void
   onDelete?: (transactionId: string) => void
+  onPrintChallan?: (transaction: Transaction) => void
+  // Show each DC as a header row with its lines beneath
+  groupByDc?: boolean
+  challans?: Challan[]
 }
 
-export function TransactionLogTable({ data, onEdit, onDelete }: TransactionLogTableProps) {
+export function TransactionLogTable({ data, onEdit, onDelete, onPrintChallan, groupByDc = false, challans = [] }: TransactionLogTableProps) {
   if (data.length === 0) {
     return (
       <Card className="p-8">
@@ -36,6 +45,106 @@ export function TransactionLogTable({ data, onEdit, onDelete }: TransactionLogTa
     )
   }
 
+  const renderRow = (transaction: Transaction, index: number) => (
+    <motion.tr
+      key={transaction.id}
+      initial={{ opacity: 0, x: -20 }}
+      animate={{ opacity: 1, x: 0 }}
+      transition={{ duration: 0.3, delay: index * 0.02 }}
+      className="border-b transition-colors hover:bg-muted/50"
+    >
+      <TableCell>
+        {!groupByDc && new Date(transaction.date).toLocaleDateString()}
+      </TableCell>
+      <TableCell className="font-medium">{!groupByDc && transaction.dc_no}</TableCell>
+      <TableCell>{transaction.component}</TableCell>
+      <TableCell>{transaction.lot_no}</TableCell>
+      <TableCell>
+        <Badge variant="outline" className={`border-transparent ${TRANSACTION_TYPE_COLORS[transaction.transaction_type].badge}`}>
+          {transaction.transaction_type}
+        </Badge>
+      </TableCell>
+      <TableCell className="text-right">
+        {transaction.qty_in ? transaction.qty_in.toLocaleString() : '-'}
+      </TableCell>
+      <TableCell className="text-right">
+        {transaction.qty_out ? transaction.qty_out.toLocaleString() : '-'}
+        {transaction.balance_override_reason && (
+          <span
+            className="flex items-center justify-end text-xs text-amber-600"
+            title={`Lot balance overridden: ${transaction.balance_override_reason}`}
+          >
+            <AlertTriangle className="mr-1 h-3 w-3" />
+            Override
+          </span>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        {transaction.weight_kg ? `${transaction.weight_kg.toLocaleString()} kg` : '-'}
+      </TableCell>
+      <TableCell>
+        {transaction.work_type || '-'}
+      </TableCell>
+      <TableCell className="text-right">
+        {transaction.rate_applied ? `₹${transaction.rate_applied.toLocaleString()}` : '-'}
+      </TableCell>
+      <TableCell className="text-right font-medium">
+        {transaction.billed_amount ? `₹${transaction.billed_amount.toLocaleString()}` : '-'}
+        {transaction.invoice_id && (
+          <Link
+            to={`/invoices/${transaction.invoice_id}`}
+            className="flex items-center justify-end text-xs font-normal text-blue-600 hover:underline"
+          >
+            <Lock className="mr-1 h-3 w-3" />
+            Invoiced
+          </Link>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" className="h-8 w-8 p-0">
+              <span className="sr-only">Open menu</span>
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {onPrintChallan && transaction.transaction_type === 'Delivered' && (
+              <DropdownMenuItem
+                onClick={() => onPrintChallan(transaction)}
+                className="cursor-pointer"
+              >
+                <Truck className="mr-2 h-4 w-4" />
+                Delivery Challan
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem
+              onClick={() => onEdit?.(transaction)}
+              disabled={isInvoicedTransaction(transaction)}
+              className="cursor-pointer"
+            >
+              <Edit className="mr-2 h-4 w-4" />
+              Edit
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => onDelete?.(transaction.id)}
+              disabled={isInvoicedTransaction(transaction)}
+              className="cursor-pointer text-red-600 focus:text-red-600"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </DropdownMenuItem>
+            {isInvoicedTransaction(transaction) && (
+              <div className="px-2 py-1.5 text-xs text-muted-foreground max-w-48">
+                Billed transactions are locked. Cancel the invoice to change them.
+              </div>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </TableCell>
+    </motion.tr>
+  )
+
   return (
     <Card>
       <div className="mobile-table-scroll">
@@ -57,71 +166,56 @@ export function TransactionLogTable({ data, onEdit, onDelete }: TransactionLogTa
           </TableRow>
         </TableHeader>
         <TableBody>
-          {data.map((transaction, index) => (
-            <motion.tr
-              key={transaction.id}
-              initial={{ opacity: 0, x: -20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ duration: 0.3, delay: index * 0.02 }}
-              className="border-b transition-colors hover:bg-muted/50"
-            >
-              <TableCell>
-                {new Date(transaction.date).toLocaleDateString()}
-              </TableCell>
-              <TableCell className="font-medium">{transaction.dc_no}</TableCell>
-              <TableCell>{transaction.component}</TableCell>
-              <TableCell>{transaction.lot_no}</TableCell>
-              <TableCell>
-                <Badge variant={transaction.transaction_type === 'Received' ? 'default' : 'secondary'}>
-                  {transaction.transaction_type}
-                </Badge>
-              </TableCell>
-              <TableCell className="text-right">
-                {transaction.qty_in ? transaction.qty_in.toLocaleString() : '-'}
-              </TableCell>
-              <TableCell className="text-right">
-                {transaction.qty_out ? transaction.qty_out.toLocaleString() : '-'}
-              </TableCell>
-              <TableCell className="text-right">
-                {transaction.weight_kg ? `${transaction.weight_kg.toLocaleString()} kg` : '-'}
-              </TableCell>
-              <TableCell>
-                {transaction.work_type || '-'}
-              </TableCell>
-              <TableCell className="text-right">
-                {transaction.rate_applied ? `₹${transaction.rate_applied.toLocaleString()}` : '-'}
-              </TableCell>
-              <TableCell className="text-right font-medium">
-                {transaction.billed_amount ? `₹${transaction.billed_amount.toLocaleString()}` : '-'}
-              </TableCell>
-              <TableCell className="text-right">
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button variant="ghost" className="h-8 w-8 p-0">
-                      <span className="sr-only">Open menu</span>
-                      <MoreHorizontal className="h-4 w-4" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end">
-                    <DropdownMenuItem
-                      onClick={() => onEdit?.(transaction)}
-                      className="cursor-pointer"
-                    >
-                      <Edit className="mr-2 h-4 w-4" />
-                      Edit
-                    </DropdownMenuItem>
-                    <DropdownMenuItem
-                      onClick={() => onDelete?.(transaction.id)}
-                      className="cursor-pointer text-red-600 focus:text-red-600"
-                    >
-                      <Trash2 className="mr-2 h-4 w-4" />
-                      Delete
-                    </DropdownMenuItem>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </TableCell>
-            </motion.tr>
-          ))}
+          {groupByDc
+            ? groupTransactionsByDc(data, challans).map(group => {
+                const totalIn = group.transactions.reduce((sum, t) => sum + (t.qty_in || 0), 0)
+                const totalOut = group.transactions.reduce((sum, t) => sum + (t.qty_out || 0), 0)
+                const totalWeight = group.transactions.reduce((sum, t) => sum + (t.weight_kg || 0), 0)
+                const totalBilled = group.transactions.reduce((sum, t) => sum + (t.billed_amount || 0), 0)
+
+                return (
+                  <Fragment key={group.key}>
+                    <TableRow className="bg-gray-50 hover:bg-gray-100">
+                      <TableCell className="font-semibold">
+                        {new Date(group.date).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="font-semibold">{group.dc_no}</TableCell>
+                      <TableCell colSpan={2} className="text-sm text-gray-600">
+                        {group.transactions.length} {group.transactions.length === 1 ? 'line' : 'lines'}
+                        {group.challan?.vehicle_no && ` • ${group.challan.vehicle_no}`}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={`border-transparent ${TRANSACTION_TYPE_COLORS[group.transaction_type].badge}`}>
+                          {group.transaction_type}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right font-semibold">{totalIn ? totalIn.toLocaleString() : '-'}</TableCell>
+                      <TableCell className="text-right font-semibold">{totalOut ? totalOut.toLocaleString() : '-'}</TableCell>
+                      <TableCell className="text-right font-semibold">
+                        {totalWeight ? `${totalWeight.toLocaleString()} kg` : '-'}
+                      </TableCell>
+                      <TableCell colSpan={2} />
+                      <TableCell className="text-right font-semibold">
+                        {totalBilled ? `₹${totalBilled.toLocaleString()}` : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {onPrintChallan && group.transaction_type === 'Delivered' && (
+                          <Button
+                            variant="ghost"
+                            className="h-8 w-8 p-0"
+                            onClick={() => onPrintChallan(group.transactions[0])}
+                            aria-label={`Delivery challan ${group.dc_no}`}
+                          >
+                            <Truck className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {group.transactions.map(renderRow)}
+                  </Fragment>
+                )
+              })
+            : data.map(renderRow)}
         </TableBody>
       </Table>
       </div>
@@ -0,0 +1,280 @@
+import { useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { AlertTriangle, ArrowLeft, FileSpreadsheet, Scale, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { LoadingState } from './ui/loading'
+import { EmptyState, TableEmptyState } from './ui/empty-state'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from './ui/table'
+import { KPICard } from './KPICard'
+import { useClients } from '../hooks/useClients'
+import { useCompanyProfile } from '../hooks/useCompanyProfile'
+import { useBalanceSummary } from '../hooks/useTransactions'
+import { useUniqueComponents } from '../hooks/useRates'
+import { useDeleteWeightTolerance, useSaveWeightTolerance, useWeightTolerances } from '../hooks/useWeightTolerances'
+import { DEFAULT_WEIGHT_LOSS_TOLERANCE, buildWeightReconciliation } from '../lib/weightReconciliation'
+import { ExportService } from '../services/exportService'
+import { handleError, showSuccessToast } from '../lib/errorHandling'
+
+export function WeightReconciliation() {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const clientId = searchParams.get('clientId') || ''
+
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false)
+  const [toleranceComponent, setToleranceComponent] = useState('')
+  const [tolerancePercent, setTolerancePercent] = useState('')
+
+  const { data: clients = [] } = useClients()
+  const { data: companyProfile } = useCompanyProfile()
+  const { data: balanceSummary = [], isLoading, error } = useBalanceSummary(clientId)
+  const { data: tolerances = [] } = useWeightTolerances()
+  const { data: uniqueComponents = [] } = useUniqueComponents(clientId)
+  const saveTolerance = useSaveWeightTolerance()
+  const deleteTolerance = useDeleteWeightTolerance()
+
+  const client = clients.find(c => c.id === clientId)
+  const defaultTolerance = companyProfile?.weight_loss_tolerance_percent ?? DEFAULT_WEIGHT_LOSS_TOLERANCE
+  const report = useMemo(
+    () => buildWeightReconciliation(balanceSummary, tolerances, defaultTolerance),
+    [balanceSummary, tolerances, defaultTolerance]
+  )
+  const lots = showFlaggedOnly ? report.lots.filter(lot => lot.exceeds_tolerance) : report.lots
+
+  const handleExport = async () => {
+    if (!client) return
+
+    try {
+      await ExportService.exportWeightReconciliationToExcel(report, client.name)
+      showSuccessToast('Weight reconciliation exported')
+    } catch (error) {
+      handleError(error, 'exporting weight reconciliation')
+    }
+  }
+
+  const handleSaveTolerance = async () => {
+    try {
+      await saveTolerance.mutateAsync({ component: toleranceComponent, tolerancePercent: parseFloat(tolerancePercent) })
+      showSuccessToast(`Tolerance for ${toleranceComponent.trim()} saved`)
+      setToleranceComponent('')
+      setTolerancePercent('')
+    } catch (error) {
+      handleError(error, 'saving weight tolerance')
+    }
+  }
+
+  const handleDeleteTolerance = async (id: string) => {
+    try {
+      await deleteTolerance.mutateAsync(id)
+      showSuccessToast('Tolerance removed')
+    } catch (error) {
+      handleError(error, 'removing weight tolerance')
+    }
+  }
+
+  if (isLoading) {
+    return <LoadingState message="Loading weight reconciliation..." size="lg" className="h-64" />
+  }
+
+  if (error || !client) {
+    return (
+      <EmptyState
+        icon={<Scale className="w-8 h-8" />}
+        title="Weight Reconciliation Not Available"
+        description="The reconciliation could not be loaded. Open it from a client on the dashboard."
+        action={{
+          label: "Back to Dashboard",
+          onClick: () => navigate('/dashboard'),
+          variant: "outline"
+        }}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div className="flex items-center space-x-4">
+          <Button
+            variant="outline"
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center space-x-2"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            <span>Back</span>
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Weight Reconciliation</h1>
+            <p className="text-gray-600">{client.name}</p>
+          </div>
+        </div>
+        <Button variant="outline" onClick={handleExport} disabled={report.lots.length === 0}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Export Excel
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 lg:gap-6">
+        <KPICard title="Received" value={report.received_kg} suffix=" kg" color="blue" compact={true} />
+        <KPICard title="Delivered" value={report.delivered_kg} suffix=" kg" color="green" compact={true} />
+        <KPICard title="Lots Weighed" value={report.lots.length} color="purple" compact={true} />
+        <KPICard
+          title="Over Tolerance"
+          value={report.flagged_count}
+          suffix=" lots"
+          color={report.flagged_count > 0 ? 'red' : 'green'}
+          compact={true}
+        />
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Lots</CardTitle>
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="flagged_only"
+              className="rounded"
+              checked={showFlaggedOnly}
+              onChange={(e) => setShowFlaggedOnly(e.target.checked)}
+            />
+            <Label htmlFor="flagged_only" className="font-normal">Only lots over tolerance</Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {lots.length === 0 ? (
+            <TableEmptyState
+              title={showFlaggedOnly ? 'No Lots Over Tolerance' : 'No Weighed Lots'}
+              description={showFlaggedOnly
+                ? 'Every weighed lot is within its tolerance.'
+                : 'Lots appear here once their receipts or deliveries have a weight.'}
+            />
+          ) : (
+            <div className="mobile-table-scroll">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Component</TableHead>
+                    <TableHead>Lot No</TableHead>
+                    <TableHead className="text-right">Received (kg)</TableHead>
+                    <TableHead className="text-right">Delivered (kg)</TableHead>
+                    <TableHead className="text-right">Loss %</TableHead>
+                    <TableHead className="text-right">Tolerance</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lots.map(lot => (
+                    <TableRow key={`${lot.component}-${lot.lot_no}`} className={lot.exceeds_tolerance ? 'bg-red-50' : undefined}>
+                      <TableCell className="font-medium">{lot.component}</TableCell>
+                      <TableCell>{lot.lot_no}</TableCell>
+                      <TableCell className="text-right">{lot.received_kg.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{lot.delivered_kg.toLocaleString()}</TableCell>
+                      <TableCell className={`text-right font-medium ${lot.exceeds_tolerance ? 'text-red-600' : ''}`}>
+                        {lot.weight_loss_percent === null ? '-' : `${lot.weight_loss_percent.toFixed(2)}%`}
+                      </TableCell>
+                      <TableCell className="text-right text-gray-600">{lot.tolerance_percent}%</TableCell>
+                      <TableCell>
+                        {lot.weight_loss_percent === null ? (
+                          <Badge variant="outline">Not weighed both ways</Badge>
+                        ) : lot.exceeds_tolerance ? (
+                          <Badge variant="destructive">
+                            <AlertTriangle className="w-3 h-3 mr-1" />
+                            Over tolerance
+                          </Badge>
+                        ) : (
+                          <Badge variant="secondary">Within tolerance</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Loss Tolerances</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Components without their own tolerance are flagged above {defaultTolerance}%, the default in Settings.
+            Tolerances apply to the component for every client.
+          </p>
+
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_10rem_auto] gap-2 items-end">
+            <div className="space-y-1">
+              <Label htmlFor="tolerance_component">Component</Label>
+              <Input
+                id="tolerance_component"
+                list="tolerance-components"
+                placeholder="Component name"
+                value={toleranceComponent}
+                onChange={(e) => setToleranceComponent(e.target.value)}
+              />
+              <datalist id="tolerance-components">
+                {uniqueComponents.map(component => (
+                  <option key={component} value={component} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="tolerance_percent">Tolerance %</Label>
+              <Input
+                id="tolerance_percent"
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={tolerancePercent}
+                onChange={(e) => setTolerancePercent(e.target.value)}
+              />
+            </div>
+            <Button
+              type="button"
+              onClick={handleSaveTolerance}
+              disabled={saveTolerance.isPending || !toleranceComponent.trim() || tolerancePercent === ''}
+            >
+              Save
+            </Button>
+          </div>
+
+          {tolerances.length > 0 && (
+            <div className="space-y-1 text-sm">
+              {tolerances.map(tolerance => (
+                <div key={tolerance.id} className="flex items-center justify-between border-b border-gray-100 py-1">
+                  <span>{tolerance.component}</span>
+                  <div className="flex items-center space-x-3">
+                    <span className="font-medium">{tolerance.tolerance_percent}%</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleDeleteTolerance(tolerance.id)}
+                      disabled={deleteTolerance.isPending}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
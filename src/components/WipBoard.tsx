@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { ArrowRight, Factory } from 'lucide-react'
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { LoadingState } from './ui/loading'
+import { EmptyState } from './ui/empty-state'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from './ui/select'
+import { MoveLotStageModal, type StageCard } from './MoveLotStageModal'
+import { useClients } from '../hooks/useClients'
+import { useBalanceSummary } from '../hooks/useTransactions'
+import { useLotStageMoves } from '../hooks/useLotStages'
+import { LOT_STAGES } from '../lib/lotStages'
+
+// Open lots of one client laid out by where they are on the shop floor
+export function WipBoard() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const clientId = searchParams.get('clientId') || ''
+  const [selectedCard, setSelectedCard] = useState<StageCard | null>(null)
+
+  const { data: clients = [] } = useClients()
+  const { data: balanceSummary = [], isLoading, error } = useBalanceSummary(clientId)
+  const { data: moves = [] } = useLotStageMoves(clientId)
+
+  const columns = useMemo(() => LOT_STAGES.map(stage => ({
+    stage,
+    cards: balanceSummary
+      .filter(item => item.stages[stage] > 0)
+      .map(item => ({ component: item.component, lot_no: item.lot_no, stage, quantity: item.stages[stage] }))
+  })), [balanceSummary])
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Work in Progress</h1>
+          <p className="text-gray-600">Track open lots through fettling, shot blasting and inspection</p>
+        </div>
+        <div className="w-full sm:w-64">
+          <Select value={clientId} onValueChange={(value) => setSearchParams({ clientId: value })}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a client" />
+            </SelectTrigger>
+            <SelectContent>
+              {clients.map(client => (
+                <SelectItem key={client.id} value={client.id}>{client.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!clientId ? (
+        <EmptyState
+          icon={<Factory className="w-8 h-8" />}
+          title="Select a Client"
+          description="Pick a client to see their open lots by stage."
+        />
+      ) : isLoading ? (
+        <LoadingState message="Loading work in progress..." size="lg" className="h-64" />
+      ) : error ? (
+        <p className="text-sm text-red-600">Failed to load work in progress</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+            {columns.map(column => (
+              <div key={column.stage} className="bg-gray-50 rounded-lg p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h2 className="text-sm font-semibold text-gray-700">{column.stage}</h2>
+                  <span className="text-xs text-gray-500">
+                    {column.cards.reduce((sum, card) => sum + card.quantity, 0).toLocaleString()} pcs
+                  </span>
+                </div>
+                {column.cards.length === 0 ? (
+                  <p className="text-xs text-gray-400 text-center py-4">Nothing here</p>
+                ) : (
+                  column.cards.map(card => (
+                    <div key={`${card.component}-${card.lot_no}`} className="bg-white border rounded-md p-3 shadow-sm space-y-2">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">{card.component}</p>
+                        <p className="text-xs text-gray-500">Lot {card.lot_no}</p>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-semibold">{card.quantity.toLocaleString()} pcs</span>
+                        <Button size="sm" variant="outline" onClick={() => setSelectedCard(card)}>
+                          Move
+                          <ArrowRight className="w-3 h-3 ml-1" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">Recent Moves</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {moves.length === 0 ? (
+                <p className="text-sm text-gray-500">No lots have been moved yet.</p>
+              ) : (
+                <div className="divide-y">
+                  {moves.slice(0, 20).map(move => (
+                    <div key={move.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 py-2 text-sm">
+                      <div>
+                        <span className="font-medium">{move.component}</span>
+                        <span className="text-gray-500"> · Lot {move.lot_no} · </span>
+                        <span>{move.quantity.toLocaleString()} pcs {move.from_stage ?? 'Not Started'} → {move.to_stage}</span>
+                        {move.notes && <span className="text-gray-500"> ({move.notes})</span>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {move.moved_by_email || 'Unknown user'} · {new Date(move.created_at).toLocaleString('en-IN')}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <MoveLotStageModal
+        open={!!selectedCard}
+        onOpenChange={(open) => !open && setSelectedCard(null)}
+        clientId={clientId}
+        card={selectedCard}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { adjustmentNotesService } from '../services/adjustmentNotes'
+
+export function useAdjustmentNotes() {
+  return useQuery({
+    queryKey: ['adjustment-notes'],
+    queryFn: adjustmentNotesService.getAll,
+  })
+}
+
+export function useInvoiceAdjustmentNotes(invoiceId: string) {
+  return useQuery({
+    queryKey: ['adjustment-notes', 'invoice', invoiceId],
+    queryFn: () => adjustmentNotesService.getByInvoiceId(invoiceId),
+    enabled: !!invoiceId,
+  })
+}
+
+export function useAdjustmentNote(id: string) {
+  return useQuery({
+    queryKey: ['adjustment-notes', 'detail', id],
+    queryFn: () => adjustmentNotesService.getById(id),
+    enabled: !!id,
+  })
+}
+
+export function useCreateAdjustmentNote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: adjustmentNotesService.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['adjustment-notes'] })
+      queryClient.invalidateQueries({ queryKey: ['receivables'] })
+    },
+  })
+}
+
+export function useCancelAdjustmentNote() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: adjustmentNotesService.cancel,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['adjustment-notes'] })
+      queryClient.invalidateQueries({ queryKey: ['receivables'] })
+    },
+  })
+}
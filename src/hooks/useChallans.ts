@@ -0,0 +1,74 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { challansService } from '../services/challans'
+import type { Challan } from '../types'
+
+export function useClientChallans(clientId: string) {
+  return useQuery({
+    queryKey: ['challans', clientId],
+    queryFn: () => challansService.getByClientId(clientId),
+    enabled: !!clientId,
+  })
+}
+
+export function useCreateChallan() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: challansService.create,
+    onSuccess: (data) => {
+      // Also refreshes the next outward DC number
+      queryClient.invalidateQueries({ queryKey: ['challans'] })
+      queryClient.invalidateQueries({ queryKey: ['transactions', data.client_id] })
+      queryClient.invalidateQueries({ queryKey: ['client-kpis', data.client_id] })
+      queryClient.invalidateQueries({ queryKey: ['balance-summary', data.client_id] })
+    },
+  })
+}
+
+export function useUpdateChallan() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<Pick<Challan, 'vehicle_no' | 'notes'>> }) =>
+      challansService.update(id, updates),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['challans', data.client_id] })
+    },
+  })
+}
+
+export function useOutwardChallans(dcNo: string) {
+  return useQuery({
+    queryKey: ['challans', 'outward', dcNo.trim().toUpperCase()],
+    queryFn: () => challansService.getOutwardByNumber(dcNo),
+    enabled: !!dcNo.trim(),
+  })
+}
+
+export function useNextDcNumber(series: string, financialYear: string) {
+  return useQuery({
+    queryKey: ['challans', 'next-number', series, financialYear],
+    queryFn: () => challansService.getNextNumber(series, financialYear),
+    enabled: !!series && !!financialYear,
+  })
+}
+
+export function useDcNumberingReport(series: string, financialYear: string) {
+  return useQuery({
+    queryKey: ['challans', 'numbering-report', series, financialYear],
+    queryFn: () => challansService.getNumberingReport(series, financialYear),
+    enabled: !!series && !!financialYear,
+  })
+}
+
+export function useSetDcLastNumber() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ series, financialYear, lastNumber }: { series: string; financialYear: string; lastNumber: number }) =>
+      challansService.setLastNumber(series, financialYear, lastNumber),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['challans'] })
+    },
+  })
+}
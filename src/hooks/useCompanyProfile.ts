@@ -0,0 +1,31 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { companyProfileService } from '../services/companyProfile'
+
+export function useCompanyProfile() {
+  return useQuery({
+    queryKey: ['company-profile'],
+    queryFn: companyProfileService.get,
+  })
+}
+
+export function useUpdateCompanyProfile() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: companyProfileService.update,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['company-profile'] })
+    },
+  })
+}
+
+export function useUploadCompanyLogo() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (file: File) => companyProfileService.uploadLogo(file),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['company-profile'] })
+    },
+  })
+}
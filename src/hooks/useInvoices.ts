@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { invoicesService } from '../services/invoices'
+import type { InvoiceDraft } from '../types'
+
+export function useInvoices() {
+  return useQuery({
+    queryKey: ['invoices'],
+    queryFn: invoicesService.getAll,
+  })
+}
+
+export function useClientInvoices(clientId: string) {
+  return useQuery({
+    queryKey: ['invoices', 'client', clientId],
+    queryFn: () => invoicesService.getByClientId(clientId),
+    enabled: !!clientId,
+  })
+}
+
+export function useInvoice(id: string) {
+  return useQuery({
+    queryKey: ['invoices', 'detail', id],
+    queryFn: () => invoicesService.getById(id),
+    enabled: !!id,
+  })
+}
+
+export function useInvoiceNumberingReport(financialYear: string) {
+  return useQuery({
+    queryKey: ['invoices', 'numbering-report', financialYear],
+    queryFn: () => invoicesService.getNumberingReport(financialYear),
+    enabled: !!financialYear,
+  })
+}
+
+export function useCreateInvoice() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: invoicesService.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] })
+      queryClient.invalidateQueries({ queryKey: ['receivables'] })
+      queryClient.invalidateQueries({ queryKey: ['transactions'] })
+      queryClient.invalidateQueries({ queryKey: ['all-transactions'] })
+    },
+  })
+}
+
+export function useCreateInvoices() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (drafts: InvoiceDraft[]) => invoicesService.createMany(drafts),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] })
+      queryClient.invalidateQueries({ queryKey: ['receivables'] })
+      queryClient.invalidateQueries({ queryKey: ['transactions'] })
+      queryClient.invalidateQueries({ queryKey: ['all-transactions'] })
+    },
+  })
+}
+
+export function useCancelInvoice() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: invoicesService.cancel,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['invoices'] })
+      queryClient.invalidateQueries({ queryKey: ['receivables'] })
+      queryClient.invalidateQueries({ queryKey: ['transactions'] })
+      queryClient.invalidateQueries({ queryKey: ['all-transactions'] })
+    },
+  })
+}
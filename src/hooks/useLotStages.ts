@@ -0,0 +1,22 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { lotStagesService } from '../services/lotStages'
+
+export function useLotStageMoves(clientId: string) {
+  return useQuery({
+    queryKey: ['lot-stage-moves', clientId],
+    queryFn: () => lotStagesService.getByClientId(clientId),
+    enabled: !!clientId,
+  })
+}
+
+export function useMoveLotStage() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: lotStagesService.move,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['lot-stage-moves'] })
+      queryClient.invalidateQueries({ queryKey: ['balance-summary'] })
+    },
+  })
+}
@@ -0,0 +1,40 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { paymentsService } from '../services/payments'
+
+export function useClientAccount(clientId: string) {
+  return useQuery({
+    queryKey: ['receivables', clientId],
+    queryFn: () => paymentsService.getClientAccount(clientId),
+    enabled: !!clientId,
+  })
+}
+
+export function useCreatePayment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: paymentsService.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['receivables'] })
+    },
+  })
+}
+
+export function useDeletePayment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: paymentsService.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['receivables'] })
+    },
+  })
+}
+
+export function useReceivablesAgeing(asOf: string) {
+  return useQuery({
+    queryKey: ['receivables', 'ageing', asOf],
+    queryFn: () => paymentsService.getAgeingReport(asOf),
+    enabled: !!asOf,
+  })
+}
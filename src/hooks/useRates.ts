@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { ratesService } from '../services/rates'
-import type { Rate, WorkType, Unit } from '../types'
+import type { RateInput, WorkType, Unit } from '../types'
 
 export function useRates() {
   return useQuery({
@@ -21,12 +21,13 @@ export function useRateForTransaction(
   clientId: string,
   component: string,
   workType: WorkType,
-  unit: Unit
+  unit: Unit,
+  date: string
 ) {
   return useQuery({
-    queryKey: ['rates', 'lookup', clientId, component, workType, unit],
-    queryFn: () => ratesService.getRateForTransaction(clientId, component, workType, unit),
-    enabled: !!(clientId && component && workType && unit),
+    queryKey: ['rates', 'lookup', clientId, component, workType, unit, date],
+    queryFn: () => ratesService.getRateForTransaction(clientId, component, workType, unit, date),
+    enabled: !!(clientId && component && workType && unit && date),
   })
 }
 
@@ -45,7 +46,7 @@ export function useUpdateRate() {
   const queryClient = useQueryClient()
   
   return useMutation({
-    mutationFn: ({ id, updates }: { id: string; updates: Partial<Omit<Rate, 'id' | 'created_at'>> }) =>
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<RateInput> }) =>
       ratesService.update(id, updates),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['rates'] })
@@ -30,6 +30,23 @@ export function useRealtimeSubscription() {
       )
       .subscribe()
 
+    // Subscribe to DC header changes
+    const challansChannel = supabase
+      .channel('challans-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'challans',
+        },
+        (payload) => {
+          console.log('Challan change detected:', payload)
+          queryClient.invalidateQueries({ queryKey: ['challans'] })
+        }
+      )
+      .subscribe()
+
     // Subscribe to rates changes
     const ratesChannel = supabase
       .channel('rates-changes')
@@ -64,11 +81,101 @@ export function useRealtimeSubscription() {
       )
       .subscribe()
 
+    // Subscribe to invoices changes
+    const invoicesChannel = supabase
+      .channel('invoices-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'invoices',
+        },
+        (payload) => {
+          console.log('Invoice change detected:', payload)
+          queryClient.invalidateQueries({ queryKey: ['invoices'] })
+        }
+      )
+      .subscribe()
+
+    // Subscribe to credit / debit note changes
+    const adjustmentNotesChannel = supabase
+      .channel('adjustment-notes-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'adjustment_notes',
+        },
+        (payload) => {
+          console.log('Adjustment note change detected:', payload)
+          queryClient.invalidateQueries({ queryKey: ['adjustment-notes'] })
+        }
+      )
+      .subscribe()
+
+    // Subscribe to payment changes
+    const paymentsChannel = supabase
+      .channel('payments-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'payments',
+        },
+        (payload) => {
+          console.log('Payment change detected:', payload)
+          queryClient.invalidateQueries({ queryKey: ['receivables'] })
+        }
+      )
+      .subscribe()
+
+    const companyProfileChannel = supabase
+      .channel('company-profile-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'company_profile',
+        },
+        (payload) => {
+          console.log('Company profile change detected:', payload)
+          queryClient.invalidateQueries({ queryKey: ['company-profile'] })
+        }
+      )
+      .subscribe()
+
+    const lotStageMovesChannel = supabase
+      .channel('lot-stage-moves-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'lot_stage_moves',
+        },
+        (payload) => {
+          console.log('Lot stage move detected:', payload)
+          queryClient.invalidateQueries({ queryKey: ['lot-stage-moves'] })
+          queryClient.invalidateQueries({ queryKey: ['balance-summary'] })
+        }
+      )
+      .subscribe()
+
     // Cleanup subscriptions on unmount
     return () => {
       supabase.removeChannel(transactionsChannel)
+      supabase.removeChannel(challansChannel)
       supabase.removeChannel(ratesChannel)
       supabase.removeChannel(clientsChannel)
+      supabase.removeChannel(invoicesChannel)
+      supabase.removeChannel(adjustmentNotesChannel)
+      supabase.removeChannel(paymentsChannel)
+      supabase.removeChannel(companyProfileChannel)
+      supabase.removeChannel(lotStageMovesChannel)
     }
   }, [queryClient])
 }
\ No newline at end of file
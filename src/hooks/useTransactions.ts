@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { transactionsService } from '../services/transactions'
-import type { Transaction } from '../types'
+import type { TransactionInput } from '../types'
 
 export function useTransactions(clientId: string) {
   return useQuery({
@@ -33,6 +33,14 @@ export function useBalanceSummary(clientId: string) {
   })
 }
 
+// Kept under balance-summary so transaction changes from any client refresh it
+export function useOldestPendingLots(limit = 10) {
+  return useQuery({
+    queryKey: ['balance-summary', 'oldest-pending', limit],
+    queryFn: () => transactionsService.getOldestPendingLots(limit),
+  })
+}
+
 export function useCreateTransaction() {
   const queryClient = useQueryClient()
   
@@ -42,6 +50,8 @@ export function useCreateTransaction() {
       queryClient.invalidateQueries({ queryKey: ['transactions', data.client_id] })
       queryClient.invalidateQueries({ queryKey: ['client-kpis', data.client_id] })
       queryClient.invalidateQueries({ queryKey: ['balance-summary', data.client_id] })
+      // Also refreshes the next outward DC number
+      queryClient.invalidateQueries({ queryKey: ['challans'] })
     },
   })
 }
@@ -50,12 +60,13 @@ export function useUpdateTransaction() {
   const queryClient = useQueryClient()
   
   return useMutation({
-    mutationFn: ({ id, updates }: { id: string; updates: Partial<Omit<Transaction, 'id' | 'created_at'>> }) =>
+    mutationFn: ({ id, updates }: { id: string; updates: Partial<TransactionInput> }) =>
       transactionsService.update(id, updates),
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['transactions', data.client_id] })
       queryClient.invalidateQueries({ queryKey: ['client-kpis', data.client_id] })
       queryClient.invalidateQueries({ queryKey: ['balance-summary', data.client_id] })
+      queryClient.invalidateQueries({ queryKey: ['challans', data.client_id] })
     },
   })
 }
@@ -69,6 +80,7 @@ export function useDeleteTransaction() {
       queryClient.invalidateQueries({ queryKey: ['transactions'] })
       queryClient.invalidateQueries({ queryKey: ['client-kpis'] })
       queryClient.invalidateQueries({ queryKey: ['balance-summary'] })
+      queryClient.invalidateQueries({ queryKey: ['challans'] })
     },
   })
 }
\ No newline at end of file
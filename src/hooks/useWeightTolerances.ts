@@ -0,0 +1,32 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { weightTolerancesService } from '../services/weightTolerances'
+
+export function useWeightTolerances() {
+  return useQuery({
+    queryKey: ['weight-tolerances'],
+    queryFn: weightTolerancesService.getAll,
+  })
+}
+
+export function useSaveWeightTolerance() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ component, tolerancePercent }: { component: string; tolerancePercent: number }) =>
+      weightTolerancesService.save(component, tolerancePercent),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['weight-tolerances'] })
+    },
+  })
+}
+
+export function useDeleteWeightTolerance() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: weightTolerancesService.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['weight-tolerances'] })
+    },
+  })
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import { amountInWords, numberToIndianWords } from './amountInWords'
+
+describe('amountInWords', () => {
+  it('reads zero as Rupees Zero', () => {
+    expect(amountInWords(0)).toBe('Rupees Zero Only')
+  })
+
+  it('reads exact lakhs and crores without trailing parts', () => {
+    expect(amountInWords(100000)).toBe('Rupees One Lakh Only')
+    expect(amountInWords(10000000)).toBe('Rupees One Crore Only')
+  })
+
+  it('reads rupees and paise together', () => {
+    expect(amountInWords(123456.78)).toBe(
+      'Rupees One Lakh Twenty Three Thousand Four Hundred Fifty Six and Seventy Eight Paise Only'
+    )
+  })
+
+  it('rounds to the nearest paisa without ever reaching 100 paise', () => {
+    expect(amountInWords(0.994)).toBe('Ninety Nine Paise Only')
+    expect(amountInWords(0.995)).toBe('Rupees One Only')
+    expect(amountInWords(99.999)).toBe('Rupees One Hundred Only')
+  })
+
+  it('prefixes negative amounts with Minus', () => {
+    expect(amountInWords(-50)).toBe('Minus Rupees Fifty Only')
+  })
+})
+
+describe('numberToIndianWords', () => {
+  it('groups in crores, lakhs and thousands', () => {
+    expect(numberToIndianWords(12345678)).toBe('One Crore Twenty Three Lakh Forty Five Thousand Six Hundred Seventy Eight')
+  })
+})
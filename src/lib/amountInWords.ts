@@ -0,0 +1,63 @@
+// Grand totals in words as printed on Indian tax invoices, using lakhs and crores
+// e.g. 123456.78 -> "Rupees One Lakh Twenty Three Thousand Four Hundred Fifty Six and Seventy Eight Paise Only"
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine',
+  'Ten', 'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+]
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety']
+
+const CURRENCY_UNITS: Record<string, [string, string]> = {
+  INR: ['Rupees', 'Paise']
+}
+
+function twoDigitsToWords(value: number): string {
+  if (value < 20) return ONES[value]
+  return [TENS[Math.floor(value / 10)], ONES[value % 10]].filter(Boolean).join(' ')
+}
+
+function threeDigitsToWords(value: number): string {
+  const hundreds = Math.floor(value / 100)
+  const rest = value % 100
+  return [
+    hundreds > 0 ? `${ONES[hundreds]} Hundred` : '',
+    rest > 0 ? twoDigitsToWords(rest) : ''
+  ].filter(Boolean).join(' ')
+}
+
+// Whole number in the Indian system; anything above 99 crore is read as "N Crore"
+export function numberToIndianWords(value: number): string {
+  const whole = Math.floor(Math.abs(value))
+  if (whole === 0) return 'Zero'
+
+  const crores = Math.floor(whole / 10000000)
+  const lakhs = Math.floor((whole % 10000000) / 100000)
+  const thousands = Math.floor((whole % 100000) / 1000)
+  const rest = whole % 1000
+
+  return [
+    crores > 0 ? `${numberToIndianWords(crores)} Crore` : '',
+    lakhs > 0 ? `${twoDigitsToWords(lakhs)} Lakh` : '',
+    thousands > 0 ? `${twoDigitsToWords(thousands)} Thousand` : '',
+    rest > 0 ? threeDigitsToWords(rest) : ''
+  ].filter(Boolean).join(' ')
+}
+
+export function amountInWords(amount: number, currency = 'INR'): string {
+  const [major, minor] = CURRENCY_UNITS[currency] || [currency, 'Cents']
+
+  // Work in paise so 0.1 + 0.2 style float noise cannot leak into the words
+  const totalPaise = Math.round(Math.abs(amount) * 100)
+  const rupees = Math.floor(totalPaise / 100)
+  const paise = totalPaise % 100
+
+  const words: string[] = []
+  if (rupees > 0 || paise === 0) {
+    words.push(`${major} ${numberToIndianWords(rupees)}`)
+  }
+  if (paise > 0) {
+    words.push(`${rupees > 0 ? 'and ' : ''}${twoDigitsToWords(paise)} ${minor}`)
+  }
+
+  return `${amount < 0 && totalPaise > 0 ? 'Minus ' : ''}${words.join(' ')} Only`
+}
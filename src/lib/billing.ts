@@ -0,0 +1,569 @@
+import { formatDocumentNumber, getFinancialYear } from './financialYear'
+import { getGstinStateCode, isInterStateSupply } from './gstin'
+import type {
+  AdjustmentNote,
+  AdjustmentNoteWithLines,
+  Client,
+  CompanyProfile,
+  Invoice,
+  InvoiceCharge,
+  InvoiceDraft,
+  InvoiceLineDraft,
+  InvoiceTemplate,
+  Transaction,
+  WorkType
+} from '../types'
+
+// Prefix of the invoice number series, e.g. BRS/25-26/0001
+export const INVOICE_SERIES = 'BRS'
+
+// Logo bundled with the app, used until one is uploaded in Settings
+export const DEFAULT_LOGO_URL = '/brs.jpeg'
+
+// Title line of exported reports
+export function getReportHeading(profile: Pick<CompanyProfile, 'company_name'> | null | undefined): string {
+  return profile?.company_name || 'BRS MANAGEMENT SYSTEM'
+}
+
+export function getCompanyLogoUrl(profile: Pick<CompanyProfile, 'logo_url'> | null | undefined): string {
+  return profile?.logo_url || DEFAULT_LOGO_URL
+}
+
+// SAC used for a work type when its rate has no code of its own
+// (manufacturing services on goods owned by others, heading 9988)
+export const DEFAULT_SAC_CODES: Record<WorkType, string> = {
+  'Fettling': '998860',
+  'Shot Blasting': '998873',
+  'Both': '998898'
+}
+
+// Work contracts: clients deduct TDS under section 194C at 1% when they are an
+// individual or HUF and 2% otherwise
+export const TDS_SECTION = '194C'
+
+// Common charges offered on the billing screen; taxed at the invoice rate as
+// part of the processing service unless marked exempt
+export const CHARGE_PRESETS: Pick<InvoiceCharge, 'description' | 'sac_code'>[] = [
+  { description: 'Transport Charges', sac_code: '996511' },
+  { description: 'Loading / Unloading Charges', sac_code: '996719' },
+  { description: 'Packing Charges', sac_code: '998540' },
+  { description: 'Minimum Lot Charge', sac_code: '998898' }
+]
+
+export const PAYMENT_TERMS = ['Net 15 days', 'Net 30 days', 'Net 45 days', 'Due on Receipt', 'Cash on Delivery']
+
+export type BillingPeriod = 'current-month' | 'last-month' | 'custom'
+
+export interface DateRange {
+  start: string
+  end: string
+}
+
+export interface TaxSettings {
+  discountPercent: number
+  cgstRate: number
+  sgstRate: number
+  // Inter-state supplies are charged IGST at the combined CGST + SGST rate
+  interState: boolean
+  // Round the total to the nearest rupee
+  roundOff?: boolean
+  tdsRate?: number
+}
+
+export interface BillingTotals {
+  subtotal: number
+  discountAmount: number
+  taxableAmount: number
+  exemptAmount: number
+  cgstRate: number
+  cgstAmount: number
+  sgstRate: number
+  sgstAmount: number
+  igstRate: number
+  igstAmount: number
+  totalTax: number
+  roundOff: number
+  totalAmount: number
+  tdsRate: number
+  tdsAmount: number
+  netReceivable: number
+}
+
+export type TaxBreakdown = Pick<Invoice, 'cgst_rate' | 'cgst_amount' | 'sgst_rate' | 'sgst_amount' | 'igst_rate' | 'igst_amount'>
+
+export interface TaxLine {
+  label: string
+  rate: number
+  amount: number
+}
+
+// One row of the HSN/SAC-wise tax summary printed on an invoice
+export interface HsnSummaryRow {
+  sac_code: string
+  taxable_amount: number
+  cgst_amount: number
+  sgst_amount: number
+  igst_amount: number
+  total_tax: number
+}
+
+// Everything on the invoice that is not derived from the transactions; defaults
+// come from the company profile and can be changed per invoice on the billing screen
+export interface BillingSettings {
+  cgstRate: number
+  sgstRate: number
+  paymentTerms: string
+  companyName: string
+  companyGst: string
+  companyPhone: string
+  companyEmail: string
+  companyAddress: string
+  bankName: string
+  accountNumber: string
+  ifscCode: string
+  notes: string
+  showLogo: boolean
+  currency: string
+  discountPercent: number
+  roundOff: boolean
+  // null uses the rate for the client's PAN type
+  tdsRate: number | null
+  showBankDetails: boolean
+  showNotes: boolean
+  invoiceTemplate: InvoiceTemplate
+}
+
+export interface InvoiceDraftParams {
+  clientId: string
+  client: Client | undefined
+  lines: InvoiceLineDraft[]
+  settings: BillingSettings
+  period: DateRange
+  invoiceDate: string
+}
+
+export function roundCurrency(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100
+}
+
+// Format a Date as YYYY-MM-DD in local time (toISOString would shift to UTC)
+export function toDateString(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+export function getBillingPeriodRange(period: BillingPeriod, customRange?: DateRange): DateRange {
+  const today = new Date()
+  const monthStart = toDateString(new Date(today.getFullYear(), today.getMonth(), 1))
+
+  switch (period) {
+    case 'last-month':
+      return {
+        start: toDateString(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+        end: toDateString(new Date(today.getFullYear(), today.getMonth(), 0))
+      }
+    case 'custom':
+      if (customRange?.start && customRange?.end) {
+        return customRange
+      }
+      return { start: monthStart, end: toDateString(today) }
+    case 'current-month':
+    default:
+      return { start: monthStart, end: toDateString(today) }
+  }
+}
+
+// 'YYYY-MM' -> first and last day of that month
+export function getMonthRange(month: string): DateRange {
+  const [year, monthNumber] = month.split('-').map(Number)
+  return {
+    start: toDateString(new Date(year, monthNumber - 1, 1)),
+    end: toDateString(new Date(year, monthNumber, 0))
+  }
+}
+
+export function formatPeriodLabel(range: DateRange): string {
+  const start = new Date(`${range.start}T00:00:00`)
+  const end = new Date(`${range.end}T00:00:00`)
+
+  if (start.getDate() === 1 && start.getFullYear() === end.getFullYear() && start.getMonth() === end.getMonth()) {
+    return start.toLocaleDateString('en-IN', { month: 'long', year: 'numeric' })
+  }
+
+  const format = (date: Date) => date.toLocaleDateString('en-IN', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric'
+  })
+  return `${format(start)} - ${format(end)}`
+}
+
+export function getDueDate(invoiceDate: string, paymentTerms: string): string {
+  const days = parseInt(paymentTerms.match(/\d+/)?.[0] || '30')
+  const date = new Date(`${invoiceDate}T00:00:00`)
+  date.setDate(date.getDate() + days)
+  return toDateString(date)
+}
+
+export function getDefaultSacCode(workType: WorkType | null): string {
+  return DEFAULT_SAC_CODES[workType || 'Both']
+}
+
+// SAC codes are 6 digits; HSN codes may be 4, 6 or 8
+export function isValidSacCode(code: string): boolean {
+  return /^(\d{4}|\d{6}|\d{8})$/.test(code)
+}
+
+export function getWorkTypeLabel(workType: WorkType): string {
+  return workType === 'Both' ? 'Fettling and ShotBlasting' : workType
+}
+
+export function isBillableTransaction(transaction: Transaction): boolean {
+  return transaction.transaction_type === 'Delivered' &&
+    !!transaction.billed_amount && transaction.billed_amount > 0
+}
+
+// Linked to an issued invoice, so it must not be billed again or changed
+export function isInvoicedTransaction(transaction: Transaction): boolean {
+  return !!transaction.invoice_id
+}
+
+// Turn delivered transactions into invoice lines, oldest first
+export function buildInvoiceLines(transactions: Transaction[]): InvoiceLineDraft[] {
+  return [...transactions]
+    .sort((a, b) => a.date.localeCompare(b.date) || a.dc_no.localeCompare(b.dc_no))
+    .map((transaction, index) => {
+      const quantity = transaction.qty_out || 0
+      const amount = transaction.billed_amount || 0
+
+      return {
+        transaction_id: transaction.id,
+        line_no: index + 1,
+        date: transaction.date,
+        dc_no: transaction.dc_no,
+        component: transaction.component,
+        lot_no: transaction.lot_no,
+        description: transaction.work_type
+          ? `${transaction.component} - ${getWorkTypeLabel(transaction.work_type)}`
+          : transaction.component,
+        work_type: transaction.work_type,
+        unit: transaction.unit,
+        quantity,
+        weight_kg: transaction.weight_kg,
+        rate: transaction.rate_applied ?? roundCurrency(amount / (quantity || 1)),
+        amount,
+        sac_code: transaction.sac_code || getDefaultSacCode(transaction.work_type),
+        line_type: 'Transaction',
+        tax_treatment: 'Taxable'
+      }
+    })
+}
+
+// Exempt lines are marked wherever the invoice is printed
+export function getLineDescription(line: Pick<InvoiceLineDraft, 'description' | 'tax_treatment'>): string {
+  return line.tax_treatment === 'Exempt' ? `${line.description} (Exempt)` : line.description
+}
+
+export function getChargeAmount(charge: Pick<InvoiceCharge, 'quantity' | 'rate'>): number {
+  return roundCurrency(charge.quantity * charge.rate)
+}
+
+// Problem with a charge entered on the billing screen, or null when it can be billed
+export function getChargeError(charge: InvoiceCharge): string | null {
+  if (!charge.description.trim()) return 'Enter a description for every charge'
+  if (!isValidSacCode(charge.sac_code.trim())) return `SAC code for "${charge.description}" must be 4, 6 or 8 digits`
+  if (getChargeAmount(charge) <= 0) return `"${charge.description}" needs a quantity and rate above zero`
+  return null
+}
+
+// Charges follow the transaction lines and are dated on the invoice date
+export function buildChargeLines(charges: InvoiceCharge[], firstLineNo: number, date: string): InvoiceLineDraft[] {
+  return charges.map((charge, index) => ({
+    transaction_id: null,
+    line_no: firstLineNo + index,
+    date,
+    dc_no: null,
+    component: charge.description.trim(),
+    lot_no: null,
+    description: charge.description.trim(),
+    work_type: null,
+    unit: null,
+    quantity: charge.quantity,
+    weight_kg: null,
+    rate: charge.rate,
+    amount: getChargeAmount(charge),
+    sac_code: charge.sac_code.trim(),
+    line_type: 'Charge',
+    tax_treatment: charge.tax_treatment
+  }))
+}
+
+export function calculateBillingTotals(
+  lines: (Pick<InvoiceLineDraft, 'amount'> & Partial<Pick<InvoiceLineDraft, 'tax_treatment'>>)[],
+  settings: TaxSettings
+): BillingTotals {
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0))
+  const taxableSubtotal = roundCurrency(lines
+    .filter(line => line.tax_treatment !== 'Exempt')
+    .reduce((sum, line) => sum + line.amount, 0))
+
+  // Discount is applied before tax, to taxable and exempt lines alike
+  const discountAmount = roundCurrency(subtotal * (settings.discountPercent / 100))
+  const taxableAmount = roundCurrency(taxableSubtotal - taxableSubtotal * (settings.discountPercent / 100))
+  const exemptAmount = roundCurrency(subtotal - discountAmount - taxableAmount)
+
+  const cgstRate = settings.interState ? 0 : settings.cgstRate
+  const sgstRate = settings.interState ? 0 : settings.sgstRate
+  const igstRate = settings.interState ? settings.cgstRate + settings.sgstRate : 0
+
+  const cgstAmount = roundCurrency(taxableAmount * (cgstRate / 100))
+  const sgstAmount = roundCurrency(taxableAmount * (sgstRate / 100))
+  const igstAmount = roundCurrency(taxableAmount * (igstRate / 100))
+  const totalTax = roundCurrency(cgstAmount + sgstAmount + igstAmount)
+
+  const grossAmount = roundCurrency(taxableAmount + exemptAmount + totalTax)
+  const totalAmount = settings.roundOff ? Math.round(grossAmount) : grossAmount
+
+  // TDS is deducted on the value excluding GST when the tax is shown separately
+  const tdsRate = settings.tdsRate || 0
+  const tdsAmount = roundCurrency((taxableAmount + exemptAmount) * (tdsRate / 100))
+
+  return {
+    subtotal,
+    discountAmount,
+    taxableAmount,
+    exemptAmount,
+    cgstRate,
+    cgstAmount,
+    sgstRate,
+    sgstAmount,
+    igstRate,
+    igstAmount,
+    totalTax,
+    roundOff: roundCurrency(totalAmount - grossAmount),
+    totalAmount,
+    tdsRate,
+    tdsAmount,
+    netReceivable: roundCurrency(totalAmount - tdsAmount)
+  }
+}
+
+export function getDefaultBillingSettings(profile: CompanyProfile | null | undefined): BillingSettings {
+  return {
+    cgstRate: profile?.cgst_rate ?? 6,
+    sgstRate: profile?.sgst_rate ?? 6,
+    paymentTerms: profile?.payment_terms || 'Net 30 days',
+    companyName: profile?.company_name || '',
+    companyGst: profile?.gst_number || '',
+    companyPhone: profile?.phone || '',
+    companyEmail: profile?.email || '',
+    companyAddress: profile?.address || '',
+    bankName: profile?.bank_name || '',
+    accountNumber: profile?.account_number || '',
+    ifscCode: profile?.ifsc_code || '',
+    notes: profile?.invoice_notes || '',
+    showLogo: true,
+    currency: 'INR',
+    discountPercent: 0,
+    roundOff: profile?.round_off_invoices ?? true,
+    tdsRate: null,
+    showBankDetails: true,
+    showNotes: true,
+    invoiceTemplate: 'standard'
+  }
+}
+
+// Snapshot of everything printed on the invoice, saved as-is when the invoice is issued.
+// The real number is allocated by the database when the invoice is saved.
+export function buildInvoiceDraft({ clientId, client, lines, settings, period, invoiceDate }: InvoiceDraftParams): InvoiceDraft {
+  const totals = calculateBillingTotals(lines, {
+    discountPercent: settings.discountPercent,
+    cgstRate: settings.cgstRate,
+    sgstRate: settings.sgstRate,
+    interState: isInterStateSupply(settings.companyGst, client?.gst_number),
+    roundOff: settings.roundOff,
+    tdsRate: settings.tdsRate ?? getTdsRate(client?.gst_number)
+  })
+
+  return {
+    invoice_number: formatDocumentNumber(INVOICE_SERIES, getFinancialYear(invoiceDate).label, 'DRAFT'),
+    client_id: clientId,
+    invoice_date: invoiceDate,
+    due_date: getDueDate(invoiceDate, settings.paymentTerms),
+    period_start: period.start,
+    period_end: period.end,
+    client_name: client?.name || '',
+    client_gst_number: client?.gst_number || null,
+    client_address: client?.address || null,
+    company_name: settings.companyName,
+    company_gst: settings.companyGst,
+    company_address: settings.companyAddress,
+    company_phone: settings.companyPhone,
+    company_email: settings.companyEmail,
+    bank_name: settings.showBankDetails ? settings.bankName : null,
+    account_number: settings.showBankDetails ? settings.accountNumber : null,
+    ifsc_code: settings.showBankDetails ? settings.ifscCode : null,
+    payment_terms: settings.paymentTerms,
+    currency: settings.currency,
+    notes: settings.showNotes && settings.notes ? settings.notes : null,
+    template: settings.invoiceTemplate,
+    subtotal: totals.subtotal,
+    discount_percent: settings.discountPercent,
+    discount_amount: totals.discountAmount,
+    taxable_amount: totals.taxableAmount,
+    exempt_amount: totals.exemptAmount,
+    cgst_rate: totals.cgstRate,
+    cgst_amount: totals.cgstAmount,
+    sgst_rate: totals.sgstRate,
+    sgst_amount: totals.sgstAmount,
+    igst_rate: totals.igstRate,
+    igst_amount: totals.igstAmount,
+    place_of_supply: getGstinStateCode(client?.gst_number),
+    total_tax: totals.totalTax,
+    round_off: totals.roundOff,
+    tds_rate: totals.tdsRate,
+    tds_amount: totals.tdsAmount,
+    net_receivable: totals.netReceivable,
+    total_amount: totals.totalAmount,
+    status: 'Issued',
+    lines
+  }
+}
+
+// The 194C rate for a client, read from the PAN inside its GSTIN. Unregistered
+// clients are assumed not to deduct.
+export function getTdsRate(clientGstin: string | null | undefined): number {
+  const panHolderType = clientGstin?.trim().toUpperCase()[5]
+  if (!panHolderType) return 0
+  return panHolderType === 'P' || panHolderType === 'H' ? 1 : 2
+}
+
+export function getTdsLabel(rate: number): string {
+  return `Less: TDS u/s ${TDS_SECTION} (${rate}%)`
+}
+
+// Tax settings that reproduce the rates charged on an issued invoice, so notes
+// against it reverse or add GST the same way
+export function getInvoiceTaxSettings(tax: TaxBreakdown): TaxSettings {
+  const interState = tax.igst_rate > 0
+
+  return {
+    discountPercent: 0,
+    cgstRate: interState ? tax.igst_rate / 2 : tax.cgst_rate,
+    sgstRate: interState ? tax.igst_rate / 2 : tax.sgst_rate,
+    interState
+  }
+}
+
+// The tax block printed on an invoice: IGST alone, or CGST and SGST
+export function getTaxLines(tax: TaxBreakdown): TaxLine[] {
+  if (tax.igst_rate > 0) {
+    return [{ label: `IGST (${tax.igst_rate}%)`, rate: tax.igst_rate, amount: tax.igst_amount }]
+  }
+
+  return [
+    { label: `CGST (${tax.cgst_rate}%)`, rate: tax.cgst_rate, amount: tax.cgst_amount },
+    { label: `SGST (${tax.sgst_rate}%)`, rate: tax.sgst_rate, amount: tax.sgst_amount }
+  ]
+}
+
+// Taxable value and GST per SAC code, leaving out exempt lines. The discount is
+// spread in proportion to each code's value and the last row absorbs rounding
+// so the rows add up to the invoice totals.
+export function getHsnSummary(
+  invoice: Pick<InvoiceDraft, 'lines' | 'taxable_amount' | 'cgst_rate' | 'cgst_amount' | 'sgst_rate' | 'sgst_amount' | 'igst_rate' | 'igst_amount' | 'total_tax'>
+): HsnSummaryRow[] {
+  const valueByCode = new Map<string, number>()
+  invoice.lines.filter(line => line.tax_treatment !== 'Exempt').forEach(line => {
+    const code = line.sac_code || getDefaultSacCode(line.work_type)
+    valueByCode.set(code, (valueByCode.get(code) || 0) + line.amount)
+  })
+
+  const codes = [...valueByCode.keys()].sort()
+  const taxableSubtotal = [...valueByCode.values()].reduce((sum, value) => sum + value, 0)
+  const taxableRatio = taxableSubtotal > 0 ? invoice.taxable_amount / taxableSubtotal : 0
+  const used = { taxable_amount: 0, cgst_amount: 0, sgst_amount: 0, igst_amount: 0 }
+
+  return codes.map((code, index) => {
+    const isLast = index === codes.length - 1
+    const taxable = isLast
+      ? roundCurrency(invoice.taxable_amount - used.taxable_amount)
+      : roundCurrency((valueByCode.get(code) || 0) * taxableRatio)
+    const cgst = isLast ? roundCurrency(invoice.cgst_amount - used.cgst_amount) : roundCurrency(taxable * invoice.cgst_rate / 100)
+    const sgst = isLast ? roundCurrency(invoice.sgst_amount - used.sgst_amount) : roundCurrency(taxable * invoice.sgst_rate / 100)
+    const igst = isLast ? roundCurrency(invoice.igst_amount - used.igst_amount) : roundCurrency(taxable * invoice.igst_rate / 100)
+
+    used.taxable_amount += taxable
+    used.cgst_amount += cgst
+    used.sgst_amount += sgst
+    used.igst_amount += igst
+
+    return {
+      sac_code: code,
+      taxable_amount: taxable,
+      cgst_amount: cgst,
+      sgst_amount: sgst,
+      igst_amount: igst,
+      total_tax: roundCurrency(cgst + sgst + igst)
+    }
+  })
+}
+
+export function formatCurrencyAmount(amount: number, currency: string = 'INR'): string {
+  const symbol = currency === 'INR' ? '₹' : currency === 'USD' ? '$' : currency === 'GBP' ? '£' : '€'
+  return `${symbol}${amount.toLocaleString('en-IN', { minimumFractionDigits: 2 })}`
+}
+
+// Credit and debit notes print like an invoice, reusing the company and client
+// snapshot of the invoice they adjust
+export function buildAdjustmentNotePrintable(note: AdjustmentNoteWithLines, invoice: Invoice): InvoiceDraft {
+  return {
+    ...invoice,
+    invoice_number: note.note_number,
+    invoice_date: note.note_date,
+    due_date: note.note_date,
+    notes: note.reason,
+    subtotal: note.taxable_amount,
+    discount_percent: 0,
+    discount_amount: 0,
+    taxable_amount: note.taxable_amount,
+    exempt_amount: 0,
+    cgst_rate: note.cgst_rate,
+    cgst_amount: note.cgst_amount,
+    sgst_rate: note.sgst_rate,
+    sgst_amount: note.sgst_amount,
+    igst_rate: note.igst_rate,
+    igst_amount: note.igst_amount,
+    total_tax: note.total_tax,
+    round_off: 0,
+    tds_rate: 0,
+    tds_amount: 0,
+    net_receivable: note.total_amount,
+    total_amount: note.total_amount,
+    status: note.status,
+    lines: note.lines.map(line => ({
+      transaction_id: null,
+      line_no: line.line_no,
+      date: note.note_date,
+      dc_no: null,
+      component: line.description,
+      lot_no: null,
+      description: line.description,
+      work_type: null,
+      unit: null,
+      quantity: line.quantity,
+      weight_kg: null,
+      rate: line.rate,
+      amount: line.amount,
+      sac_code: line.sac_code,
+      line_type: 'Transaction',
+      tax_treatment: 'Taxable'
+    }))
+  }
+}
+
+// Net value of an invoice after its issued credit and debit notes
+export function getAdjustedInvoiceValue(invoice: Pick<Invoice, 'total_amount'>, notes: Pick<AdjustmentNote, 'note_type' | 'status' | 'total_amount'>[]): number {
+  return roundCurrency(notes
+    .filter(note => note.status === 'Issued')
+    .reduce((total, note) => total + (note.note_type === 'Credit' ? -note.total_amount : note.total_amount), invoice.total_amount))
+}
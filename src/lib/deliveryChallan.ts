@@ -0,0 +1,152 @@
+import type {
+  Challan,
+  ChallanLineDraft,
+  ChallanLineInput,
+  Client,
+  CompanyProfile,
+  DeliveryChallan,
+  Transaction,
+  TransactionType
+} from '../types'
+import { isOutward } from './transactionTypes'
+
+// Printed on every outward challan; the castings stay the client's property
+// throughout, so returning them is not a supply of goods
+export const JOB_WORK_DECLARATION =
+  'The goods listed above were received from you for job work and are returned after processing, ' +
+  'under Section 143 of the CGST Act, 2017 read with Rule 55 of the CGST Rules. This is not a sale.'
+
+export interface ChallanGroup {
+  key: string
+  // Missing only for rows saved before the DC header migration ran
+  challan: Challan | null
+  dc_no: string
+  date: string
+  transaction_type: TransactionType
+  transactions: Transaction[]
+}
+
+// Rows on the same DC share a header; unlinked rows fall back to the typed
+// number, matched the way the database matches it
+export function getChallanKey(transaction: Transaction): string {
+  return transaction.dc_id ||
+    `${transaction.client_id}|${transaction.transaction_type}|${transaction.dc_no.trim().toUpperCase()}`
+}
+
+// Every Delivered transaction of the client entered under the same DC
+export function getChallanTransactions(transactions: Transaction[], delivery: Transaction): Transaction[] {
+  const key = getChallanKey(delivery)
+
+  return transactions
+    .filter(transaction => transaction.transaction_type === 'Delivered' && getChallanKey(transaction) === key)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+}
+
+// Groups in the order their first row appears, lines in entry order
+export function groupTransactionsByDc(transactions: Transaction[], challans: Challan[]): ChallanGroup[] {
+  const challansById = new Map(challans.map(challan => [challan.id, challan]))
+  const groups = new Map<string, ChallanGroup>()
+
+  transactions.forEach(transaction => {
+    const key = getChallanKey(transaction)
+    let group = groups.get(key)
+
+    if (!group) {
+      const challan = (transaction.dc_id && challansById.get(transaction.dc_id)) || null
+      group = {
+        key,
+        challan,
+        dc_no: challan?.dc_no || transaction.dc_no,
+        date: challan?.dc_date || transaction.date,
+        transaction_type: transaction.transaction_type,
+        transactions: []
+      }
+      groups.set(key, group)
+    }
+
+    group.transactions.push(transaction)
+  })
+
+  groups.forEach(group => group.transactions.sort((a, b) => a.created_at.localeCompare(b.created_at)))
+
+  return Array.from(groups.values())
+}
+
+export function getChallanLineError(line: ChallanLineDraft, index: number, lines: ChallanLineDraft[]): string | null {
+  if (!line.component.trim()) return 'Component is required'
+  if (!line.lot_no.trim()) return 'Lot number is required'
+  if (!line.quantity || line.quantity <= 0) return 'Quantity must be greater than 0'
+
+  const isRepeated = lines.some((other, otherIndex) =>
+    otherIndex < index &&
+    other.component.trim() === line.component.trim() &&
+    other.lot_no.trim() === line.lot_no.trim()
+  )
+  if (isRepeated) return 'This component and lot is already on the DC'
+
+  return null
+}
+
+// Only Delivered lines carry billing fields, as with single entries
+export function buildChallanLines(lines: ChallanLineDraft[], transactionType: TransactionType): ChallanLineInput[] {
+  return lines.map(line => {
+    const quantity = line.quantity || 0
+    const common = {
+      component: line.component.trim(),
+      lot_no: line.lot_no.trim(),
+      qty_in: isOutward(transactionType) ? null : quantity,
+      qty_out: isOutward(transactionType) ? quantity : null,
+      weight_kg: line.weight_kg,
+      balance_override_reason: null
+    }
+
+    if (transactionType !== 'Delivered') {
+      return {
+        ...common,
+        work_type: null,
+        unit: null,
+        rate_applied: null,
+        billed_amount: null,
+        sac_code: null
+      }
+    }
+
+    return {
+      ...common,
+      work_type: line.work_type,
+      unit: line.unit,
+      rate_applied: line.rate_applied,
+      billed_amount: line.rate_applied ? quantity * line.rate_applied : null,
+      sac_code: line.sac_code
+    }
+  })
+}
+
+export function buildDeliveryChallan(
+  deliveries: Transaction[],
+  client: Pick<Client, 'name' | 'address' | 'gst_number'>,
+  profile: CompanyProfile | null | undefined,
+  vehicleNo: string
+): DeliveryChallan {
+  const [first] = deliveries
+
+  return {
+    dc_no: first?.dc_no || '',
+    date: first?.date || '',
+    vehicle_no: vehicleNo.trim().toUpperCase() || null,
+    company_name: profile?.company_name || '',
+    company_address: profile?.address || '',
+    company_gst: profile?.gst_number || '',
+    company_phone: profile?.phone || '',
+    client_name: client.name,
+    client_address: client.address,
+    client_gst_number: client.gst_number,
+    lines: deliveries.map(delivery => ({
+      component: delivery.component,
+      lot_no: delivery.lot_no,
+      work_type: delivery.work_type,
+      quantity: delivery.qty_out || 0,
+      weight_kg: delivery.weight_kg
+    }))
+  }
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+import { formatEInvoicePhone } from './eInvoice'
+
+describe('formatEInvoicePhone', () => {
+  it('keeps only the digits of a single number', () => {
+    expect(formatEInvoicePhone('+91 98400-12345')).toBe('919840012345')
+  })
+
+  it('takes the first of several numbers instead of joining them', () => {
+    expect(formatEInvoicePhone('98400 12345, 044-2345678')).toBe('9840012345')
+    expect(formatEInvoicePhone('044-2345678 / 98400 12345')).toBe('0442345678')
+  })
+
+  it('leaves the phone out when there are no digits', () => {
+    expect(formatEInvoicePhone('')).toBeUndefined()
+  })
+})
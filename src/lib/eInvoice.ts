@@ -0,0 +1,297 @@
+import { getDefaultSacCode, roundCurrency } from './billing'
+import { getGstinStateCode, validateGstin } from './gstin'
+import type { InvoiceDraft, Unit } from '../types'
+
+// NIC e-invoice schema (INV-01, version 1.1) as accepted by the Invoice
+// Registration Portal. Only the blocks we fill in are modelled here.
+
+export const E_INVOICE_SCHEMA_VERSION = '1.1'
+
+export interface EInvoiceParty {
+  Gstin: string
+  LglNm: string
+  Addr1: string
+  Loc: string
+  Pin: number
+  Stcd: string
+  Pos?: string
+  Ph?: string
+  Em?: string
+}
+
+export interface EInvoiceItem {
+  SlNo: string
+  PrdDesc: string
+  IsServc: 'Y' | 'N'
+  HsnCd: string
+  Qty: number
+  Unit: string
+  UnitPrice: number
+  TotAmt: number
+  Discount: number
+  AssAmt: number
+  GstRt: number
+  IgstAmt: number
+  CgstAmt: number
+  SgstAmt: number
+  TotItemVal: number
+}
+
+export interface EInvoicePayload {
+  Version: string
+  TranDtls: {
+    TaxSch: 'GST'
+    SupTyp: 'B2B'
+    RegRev: 'N'
+    IgstOnIntra: 'N'
+  }
+  DocDtls: {
+    Typ: 'INV'
+    No: string
+    Dt: string
+  }
+  SellerDtls: EInvoiceParty
+  BuyerDtls: EInvoiceParty
+  ItemList: EInvoiceItem[]
+  ValDtls: {
+    AssVal: number
+    CgstVal: number
+    SgstVal: number
+    IgstVal: number
+    Discount: number
+    OthChrg: number
+    RndOffAmt: number
+    TotInvVal: number
+  }
+}
+
+export interface EInvoiceValidationError {
+  path: string
+  message: string
+}
+
+// NIC unit quantity codes
+const UNIT_CODES: Record<Unit, string> = {
+  'Per Piece': 'NOS',
+  'Per Kg': 'KGS'
+}
+
+// The portal wants location and PIN as separate fields; we only keep a free
+// text address, so take the PIN and the part just before it from there
+export function parseAddress(address: string | null): { line: string; location: string; pin: number | null } {
+  const text = (address || '').trim()
+  const pinMatch = text.match(/\b(\d{3})\s?(\d{3})\b(?!.*\b\d{3}\s?\d{3}\b)/)
+  const pin = pinMatch ? parseInt(pinMatch[1] + pinMatch[2]) : null
+
+  const parts = text
+    .replace(pinMatch?.[0] || '', '')
+    .split(/[,\n]/)
+    .map(part => part.replace(/[-\s]+$/, '').trim())
+    .filter(Boolean)
+
+  return {
+    line: parts.slice(0, -1).join(', ') || parts[0] || '',
+    location: parts[parts.length - 1] || '',
+    pin
+  }
+}
+
+// DD/MM/YYYY as required by DocDtls.Dt
+// The portal takes one number; a field listing several ("98400 12345, 044-2345678")
+// only contributes its first, never the digits of all of them run together
+export function formatEInvoicePhone(phone: string): string | undefined {
+  return phone.split(/[,/;]/)[0].replace(/\D/g, '') || undefined
+}
+
+function formatEInvoiceDate(date: string): string {
+  const [year, month, day] = date.split('-')
+  return `${day}/${month}/${year}`
+}
+
+export function buildEInvoicePayload(invoice: InvoiceDraft): EInvoicePayload {
+  const seller = parseAddress(invoice.company_address)
+  const buyer = parseAddress(invoice.client_address)
+  const gstRate = invoice.cgst_rate + invoice.sgst_rate + invoice.igst_rate
+  const interState = invoice.igst_rate > 0
+
+  // Spread the invoice discount over the lines, leaving the rounding remainder on the last one
+  let discountLeft = invoice.discount_amount
+
+  const items = invoice.lines.map((line, index): EInvoiceItem => {
+    const isLast = index === invoice.lines.length - 1
+    const discount = isLast
+      ? roundCurrency(discountLeft)
+      : roundCurrency(line.amount * (invoice.discount_percent / 100))
+    discountLeft -= discount
+
+    const assessable = roundCurrency(line.amount - discount)
+    const taxable = line.tax_treatment !== 'Exempt'
+    const igst = taxable && interState ? roundCurrency(assessable * (invoice.igst_rate / 100)) : 0
+    const cgst = taxable && !interState ? roundCurrency(assessable * (invoice.cgst_rate / 100)) : 0
+    const sgst = taxable && !interState ? roundCurrency(assessable * (invoice.sgst_rate / 100)) : 0
+
+    return {
+      SlNo: String(line.line_no),
+      PrdDesc: line.description,
+      IsServc: 'Y',
+      // Same fallback as the HSN summary printed on the invoice
+      HsnCd: line.sac_code || getDefaultSacCode(line.work_type),
+      Qty: line.quantity,
+      Unit: line.unit ? UNIT_CODES[line.unit] : 'OTH',
+      UnitPrice: line.rate,
+      TotAmt: line.amount,
+      Discount: discount,
+      AssAmt: assessable,
+      GstRt: taxable ? gstRate : 0,
+      IgstAmt: igst,
+      CgstAmt: cgst,
+      SgstAmt: sgst,
+      TotItemVal: roundCurrency(assessable + igst + cgst + sgst)
+    }
+  })
+
+  const sum = (pick: (item: EInvoiceItem) => number) =>
+    roundCurrency(items.reduce((total, item) => total + pick(item), 0))
+  const itemTotal = sum(item => item.TotItemVal)
+
+  return {
+    Version: E_INVOICE_SCHEMA_VERSION,
+    TranDtls: {
+      TaxSch: 'GST',
+      SupTyp: 'B2B',
+      RegRev: 'N',
+      IgstOnIntra: 'N'
+    },
+    DocDtls: {
+      Typ: 'INV',
+      No: invoice.invoice_number,
+      Dt: formatEInvoiceDate(invoice.invoice_date)
+    },
+    SellerDtls: {
+      Gstin: invoice.company_gst,
+      LglNm: invoice.company_name,
+      Addr1: seller.line,
+      Loc: seller.location,
+      Pin: seller.pin || 0,
+      Stcd: getGstinStateCode(invoice.company_gst) || '',
+      Ph: formatEInvoicePhone(invoice.company_phone),
+      Em: invoice.company_email.split(',')[0].trim() || undefined
+    },
+    BuyerDtls: {
+      Gstin: invoice.client_gst_number || '',
+      LglNm: invoice.client_name,
+      Pos: invoice.place_of_supply || getGstinStateCode(invoice.client_gst_number) || '',
+      Addr1: buyer.line,
+      Loc: buyer.location,
+      Pin: buyer.pin || 0,
+      Stcd: getGstinStateCode(invoice.client_gst_number) || ''
+    },
+    ItemList: items,
+    ValDtls: {
+      AssVal: sum(item => item.AssAmt),
+      CgstVal: sum(item => item.CgstAmt),
+      SgstVal: sum(item => item.SgstAmt),
+      IgstVal: sum(item => item.IgstAmt),
+      Discount: 0,
+      OthChrg: 0,
+      // Per-line tax rounding can differ from the invoice totals by a few paise
+      RndOffAmt: roundCurrency(invoice.total_amount - itemTotal),
+      TotInvVal: invoice.total_amount
+    }
+  }
+}
+
+// Local checks mirroring the constraints in the NIC JSON schema, so the
+// portal does not reject the upload
+export function validateEInvoicePayload(payload: EInvoicePayload): EInvoiceValidationError[] {
+  const errors: EInvoiceValidationError[] = []
+  const fail = (path: string, message: string) => errors.push({ path, message })
+
+  const checkText = (path: string, value: string | undefined, min: number, max: number) => {
+    if (!value || value.length < min || value.length > max) {
+      fail(path, `must be ${min}-${max} characters`)
+    }
+  }
+
+  const checkAmount = (path: string, value: number, min = 0) => {
+    if (!Number.isFinite(value) || value < min || value > 999999999999.99) {
+      fail(path, 'must be a valid amount')
+    } else if (Math.abs(value * 100 - Math.round(value * 100)) > 1e-6) {
+      fail(path, 'must have at most 2 decimal places')
+    }
+  }
+
+  const checkParty = (path: string, party: EInvoiceParty) => {
+    const gstin = validateGstin(party.Gstin || '')
+    if (!gstin.valid) fail(`${path}.Gstin`, gstin.error)
+    checkText(`${path}.LglNm`, party.LglNm, 3, 100)
+    checkText(`${path}.Addr1`, party.Addr1, 1, 100)
+    checkText(`${path}.Loc`, party.Loc, 3, 50)
+    if (!Number.isInteger(party.Pin) || party.Pin < 100000 || party.Pin > 999999) {
+      fail(`${path}.Pin`, 'must be a 6 digit PIN code (add it to the address)')
+    }
+    if (!/^\d{2}$/.test(party.Stcd)) fail(`${path}.Stcd`, 'must be a 2 digit state code')
+    if (party.Em && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(party.Em)) fail(`${path}.Em`, 'must be a valid email')
+    if (party.Ph && (party.Ph.length < 6 || party.Ph.length > 12)) fail(`${path}.Ph`, 'must be 6-12 digits')
+  }
+
+  if (payload.Version !== E_INVOICE_SCHEMA_VERSION) fail('Version', `must be ${E_INVOICE_SCHEMA_VERSION}`)
+
+  if (!/^[A-Z1-9][A-Z0-9/-]{0,15}$/.test(payload.DocDtls.No)) {
+    fail('DocDtls.No', 'must be 1-16 characters of A-Z, 0-9, / and -, not starting with 0')
+  }
+  if (!/^\d{2}\/\d{2}\/\d{4}$/.test(payload.DocDtls.Dt)) fail('DocDtls.Dt', 'must be DD/MM/YYYY')
+
+  checkParty('SellerDtls', payload.SellerDtls)
+  checkParty('BuyerDtls', payload.BuyerDtls)
+  if (!/^\d{2}$/.test(payload.BuyerDtls.Pos || '')) fail('BuyerDtls.Pos', 'must be a 2 digit state code')
+
+  if (payload.ItemList.length === 0 || payload.ItemList.length > 1000) {
+    fail('ItemList', 'must have between 1 and 1000 items')
+  }
+
+  const serialNumbers = new Set<string>()
+  payload.ItemList.forEach((item, index) => {
+    const path = `ItemList[${index}]`
+
+    if (serialNumbers.has(item.SlNo)) fail(`${path}.SlNo`, 'must be unique')
+    serialNumbers.add(item.SlNo)
+
+    checkText(`${path}.PrdDesc`, item.PrdDesc, 3, 300)
+    if (!/^\d{4}$|^\d{6}$|^\d{8}$/.test(item.HsnCd)) fail(`${path}.HsnCd`, 'must be a 4, 6 or 8 digit HSN/SAC code')
+    if (item.IsServc === 'Y' && !item.HsnCd.startsWith('99')) fail(`${path}.HsnCd`, 'services must use a SAC code starting with 99')
+    if (![0, 0.1, 0.25, 1, 1.5, 3, 5, 6, 7.5, 12, 18, 28].includes(item.GstRt)) fail(`${path}.GstRt`, `${item.GstRt}% is not a valid GST rate`)
+
+    checkAmount(`${path}.UnitPrice`, item.UnitPrice)
+    checkAmount(`${path}.TotAmt`, item.TotAmt)
+    checkAmount(`${path}.Discount`, item.Discount)
+    checkAmount(`${path}.AssAmt`, item.AssAmt)
+    checkAmount(`${path}.TotItemVal`, item.TotItemVal)
+
+    if (Math.abs(item.TotAmt - item.Discount - item.AssAmt) > 1) {
+      fail(`${path}.AssAmt`, 'must equal TotAmt minus Discount')
+    }
+    if (Math.abs(item.AssAmt + item.IgstAmt + item.CgstAmt + item.SgstAmt - item.TotItemVal) > 1) {
+      fail(`${path}.TotItemVal`, 'must equal AssAmt plus taxes')
+    }
+    if (item.IgstAmt > 0 && (item.CgstAmt > 0 || item.SgstAmt > 0)) {
+      fail(path, 'cannot charge IGST together with CGST/SGST')
+    }
+  })
+
+  const interState = payload.SellerDtls.Stcd !== payload.BuyerDtls.Pos
+  if (interState && (payload.ValDtls.CgstVal > 0 || payload.ValDtls.SgstVal > 0)) {
+    fail('ValDtls', 'inter-state supply must be charged IGST, not CGST/SGST')
+  }
+  if (!interState && payload.ValDtls.IgstVal > 0) {
+    fail('ValDtls', 'intra-state supply must be charged CGST/SGST, not IGST')
+  }
+
+  const { ValDtls } = payload
+  const total = ValDtls.AssVal + ValDtls.CgstVal + ValDtls.SgstVal + ValDtls.IgstVal +
+    ValDtls.OthChrg - ValDtls.Discount + ValDtls.RndOffAmt
+  if (Math.abs(total - ValDtls.TotInvVal) > 1) fail('ValDtls.TotInvVal', 'does not add up to the value details')
+  if (Math.abs(ValDtls.RndOffAmt) > 99.99) fail('ValDtls.RndOffAmt', 'must be within ±99.99')
+
+  return errors
+}
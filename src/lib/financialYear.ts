@@ -0,0 +1,36 @@
+// Indian financial years run April to March and are labelled like '25-26'
+
+export interface FinancialYear {
+  label: string
+  start: string
+  end: string
+}
+
+export function getFinancialYear(date: string | Date = new Date()): FinancialYear {
+  const value = typeof date === 'string' ? new Date(`${date}T00:00:00`) : date
+  const startYear = value.getMonth() >= 3 ? value.getFullYear() : value.getFullYear() - 1
+  const shortYear = (year: number) => String(year % 100).padStart(2, '0')
+
+  return {
+    label: `${shortYear(startYear)}-${shortYear(startYear + 1)}`,
+    start: `${startYear}-04-01`,
+    end: `${startYear + 1}-03-31`
+  }
+}
+
+// The current financial year followed by the `count - 1` before it
+export function getRecentFinancialYears(count = 5): FinancialYear[] {
+  const today = new Date()
+  const current = getFinancialYear(today)
+  const startYear = parseInt(current.start.slice(0, 4))
+
+  return Array.from({ length: count }, (_, index) =>
+    getFinancialYear(`${startYear - index}-04-01`)
+  )
+}
+
+// Mirrors the numbering done by the database, e.g. BRS/25-26/0001
+export function formatDocumentNumber(series: string, financialYear: string, sequence: number | string): string {
+  const number = typeof sequence === 'number' ? String(sequence).padStart(4, '0') : sequence
+  return `${series}/${financialYear}/${number}`
+}
@@ -0,0 +1,167 @@
+import { ValidationError } from './errorHandling'
+
+// GSTIN layout (15 characters):
+//   1-2   state code
+//   3-12  PAN of the taxpayer
+//   13    entity number for the same PAN within the state (1-9, then A-Z)
+//   14    'Z' by default
+//   15    check digit (mod 36 over the first 14 characters)
+
+const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/
+const CHECKSUM_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ'
+
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '25': 'Daman and Diu',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '28': 'Andhra Pradesh (Old)',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+  '99': 'Centre Jurisdiction'
+}
+
+// Fourth character of a PAN
+const PAN_HOLDER_TYPES: Record<string, string> = {
+  P: 'Individual',
+  C: 'Company',
+  H: 'Hindu Undivided Family',
+  F: 'Firm / LLP',
+  A: 'Association of Persons',
+  T: 'Trust',
+  B: 'Body of Individuals',
+  L: 'Local Authority',
+  J: 'Artificial Juridical Person',
+  G: 'Government'
+}
+
+export interface GstinDetails {
+  gstin: string
+  stateCode: string
+  stateName: string
+  pan: string
+  panHolderType: string
+  entityNumber: string
+}
+
+export type GstinValidationResult =
+  | { valid: true; details: GstinDetails }
+  | { valid: false; error: string }
+
+export function normalizeGstin(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase()
+}
+
+export function getStateName(stateCode: string | null | undefined): string | null {
+  return stateCode ? GST_STATES[stateCode] || null : null
+}
+
+export function computeGstinCheckDigit(first14: string): string {
+  let sum = 0
+
+  for (let index = 0; index < 14; index++) {
+    const value = CHECKSUM_CHARACTERS.indexOf(first14[index])
+    const product = value * (index % 2 === 0 ? 1 : 2)
+    sum += Math.floor(product / 36) + (product % 36)
+  }
+
+  return CHECKSUM_CHARACTERS[(36 - (sum % 36)) % 36]
+}
+
+export function validateGstin(value: string): GstinValidationResult {
+  const gstin = normalizeGstin(value)
+
+  if (gstin.length !== 15) {
+    return { valid: false, error: `GSTIN must be 15 characters (got ${gstin.length})` }
+  }
+
+  if (!GSTIN_PATTERN.test(gstin)) {
+    return { valid: false, error: 'GSTIN format is invalid. Expected e.g. 33ABCDE1234F1Z5' }
+  }
+
+  const stateCode = gstin.slice(0, 2)
+  const stateName = getStateName(stateCode)
+  if (!stateName) {
+    return { valid: false, error: `GSTIN state code ${stateCode} is not a valid state` }
+  }
+
+  const pan = gstin.slice(2, 12)
+  const panHolderType = PAN_HOLDER_TYPES[pan[3]]
+  if (!panHolderType) {
+    return { valid: false, error: `PAN ${pan} inside the GSTIN has an unknown holder type "${pan[3]}"` }
+  }
+
+  const expectedCheckDigit = computeGstinCheckDigit(gstin.slice(0, 14))
+  if (gstin[14] !== expectedCheckDigit) {
+    return { valid: false, error: 'GSTIN check digit does not match. Please check for typos' }
+  }
+
+  return {
+    valid: true,
+    details: {
+      gstin,
+      stateCode,
+      stateName,
+      pan,
+      panHolderType,
+      entityNumber: gstin[12]
+    }
+  }
+}
+
+// For the service layer: returns the normalised GSTIN or throws a ValidationError
+export function assertValidGstin(value: string | null | undefined): string | null {
+  if (!value || !value.trim()) return null
+
+  const result = validateGstin(value)
+  if (!result.valid) {
+    throw new ValidationError(result.error, 'INVALID_GSTIN')
+  }
+  return result.details.gstin
+}
+
+// GSTINs start with the two digit code of the state the taxpayer is registered in
+export function getGstinStateCode(gstin: string | null | undefined): string | null {
+  const code = gstin?.trim().slice(0, 2)
+  return code && /^\d{2}$/.test(code) ? code : null
+}
+
+// A supply is inter-state when the client is registered in a different state.
+// Unregistered clients are billed as local supplies.
+export function isInterStateSupply(companyGstin: string | null | undefined, clientGstin: string | null | undefined): boolean {
+  const companyState = getGstinStateCode(companyGstin)
+  const clientState = getGstinStateCode(clientGstin)
+  return !!companyState && !!clientState && companyState !== clientState
+}
@@ -0,0 +1,38 @@
+import type { BalanceSummaryItem, LotAgeBucket } from '../types'
+
+export const LOT_AGE_BUCKETS: LotAgeBucket[] = ['0-7', '8-15', '16-30', '30+']
+
+// Highlighting for each bucket, from fresh to overdue for processing
+export const LOT_AGE_STYLES: Record<LotAgeBucket, string> = {
+  '0-7': 'bg-green-100 text-green-800',
+  '8-15': 'bg-yellow-100 text-yellow-800',
+  '16-30': 'bg-orange-100 text-orange-800',
+  '30+': 'bg-red-100 text-red-800'
+}
+
+// Whole days the lot has been with us, counting the day it arrived as day 0
+export function getLotAgeDays(firstReceivedDate: string, asOf: string): number {
+  const received = Date.parse(`${firstReceivedDate}T00:00:00Z`)
+  const reference = Date.parse(`${asOf}T00:00:00Z`)
+  return Math.max(Math.round((reference - received) / 86400000), 0)
+}
+
+export function getLotAgeBucket(days: number): LotAgeBucket {
+  if (days <= 7) return '0-7'
+  if (days <= 15) return '8-15'
+  if (days <= 30) return '16-30'
+  return '30+'
+}
+
+// Pieces still with us in each bucket; lots without a receipt are left out
+export function getPendingByAge(balanceSummary: BalanceSummaryItem[], asOf: string): Record<LotAgeBucket, number> {
+  const totals: Record<LotAgeBucket, number> = { '0-7': 0, '8-15': 0, '16-30': 0, '30+': 0 }
+
+  balanceSummary.forEach(item => {
+    if (item.balance > 0 && item.first_received_date) {
+      totals[getLotAgeBucket(getLotAgeDays(item.first_received_date, asOf))] += item.balance
+    }
+  })
+
+  return totals
+}
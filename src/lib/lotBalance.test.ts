@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { getMinimumReceipt } from './lotBalance'
+import type { BalanceSummaryItem, Transaction } from '../types'
+
+const summary = [
+  { component: 'Housing', lot_no: 'L1', balance: 30 },
+  { component: 'Housing', lot_no: 'L2', balance: 120 }
+] as BalanceSummaryItem[]
+
+const receipt = (lotNo: string, qtyIn: number) =>
+  ({ component: 'Housing', lot_no: lotNo, qty_in: qtyIn, qty_out: null }) as Transaction
+
+describe('getMinimumReceipt', () => {
+  it('keeps what has already gone out of the lot', () => {
+    // 100 in, 70 out
+    expect(getMinimumReceipt(summary, receipt('L1', 100))).toBe(70)
+  })
+
+  it('lets a receipt go when other receipts cover the outward entries', () => {
+    expect(getMinimumReceipt(summary, receipt('L2', 100))).toBe(0)
+  })
+
+  it('has no minimum for a row that brought nothing in', () => {
+    expect(getMinimumReceipt(summary, receipt('L1', 0))).toBe(0)
+  })
+})
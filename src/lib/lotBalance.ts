@@ -0,0 +1,45 @@
+import type { BalanceSummaryItem, Transaction } from '../types'
+
+// What is still with us for a component and lot. A row being edited gives
+// back what it already took, so its own quantity is not counted twice.
+export function getAvailableQuantity(
+  balanceSummary: BalanceSummaryItem[],
+  component: string,
+  lotNo: string,
+  editingTransaction?: Transaction | null
+): number {
+  const item = balanceSummary.find(balance => balance.component === component && balance.lot_no === lotNo)
+  let available = item?.balance || 0
+
+  if (editingTransaction && editingTransaction.component === component && editingTransaction.lot_no === lotNo) {
+    available += (editingTransaction.qty_out || 0) - (editingTransaction.qty_in || 0)
+  }
+
+  return available
+}
+
+// How low a receipt can go before more of its lot has gone out than came in;
+// 0 when it could be removed altogether
+export function getMinimumReceipt(balanceSummary: BalanceSummaryItem[], receipt: Transaction): number {
+  const item = balanceSummary.find(balance => balance.component === receipt.component && balance.lot_no === receipt.lot_no)
+  return Math.max((receipt.qty_in || 0) - (item?.balance || 0), 0)
+}
+
+// Available quantity for each line of a DC, after the earlier lines on the
+// same DC have taken theirs
+export function getLineAvailability(
+  balanceSummary: BalanceSummaryItem[],
+  lines: { component: string; lot_no: string; quantity: number | null }[]
+): number[] {
+  const taken = new Map<string, number>()
+
+  return lines.map(line => {
+    const component = line.component.trim()
+    const lotNo = line.lot_no.trim()
+    const key = `${component}|${lotNo}`
+    const available = getAvailableQuantity(balanceSummary, component, lotNo) - (taken.get(key) || 0)
+
+    taken.set(key, (taken.get(key) || 0) + (line.quantity || 0))
+    return available
+  })
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { getStageBreakdown } from './lotStages'
+
+const receipt = (date: string, qty: number) => ({ date, created_at: `${date}T06:00:00Z`, qty_in: qty, qty_out: null })
+const delivery = (date: string, qty: number) => ({ date, created_at: `${date}T06:00:00Z`, qty_in: null, qty_out: qty })
+const move = (date: string, from: 'Fettling' | null, to: 'Fettling' | 'Inspection', quantity: number) => ({
+  created_at: `${date}T08:00:00Z`, from_stage: from, to_stage: to, quantity
+})
+
+describe('getStageBreakdown', () => {
+  it('leaves a lot without moves all Not Started', () => {
+    expect(getStageBreakdown({ balance: 40 }, [], [])['Not Started']).toBe(40)
+  })
+
+  it('applies deliveries made before a move to the stock at that time', () => {
+    const stages = getStageBreakdown(
+      { balance: 50 },
+      [receipt('2026-01-01', 100), delivery('2026-01-02', 50)],
+      [move('2026-01-03', null, 'Fettling', 50)]
+    )
+
+    expect(stages['Fettling']).toBe(50)
+    expect(stages['Not Started']).toBe(0)
+  })
+
+  it('takes later deliveries from the furthest stage first', () => {
+    const stages = getStageBreakdown(
+      { balance: 70 },
+      [receipt('2026-01-01', 100), delivery('2026-01-04', 30)],
+      [move('2026-01-02', null, 'Fettling', 60), move('2026-01-03', 'Fettling', 'Inspection', 40)]
+    )
+
+    expect(stages).toEqual({
+      'Not Started': 40,
+      'Fettling': 20,
+      'Shot Blasting': 0,
+      'Inspection': 10,
+      'Ready for Dispatch': 0
+    })
+  })
+})
@@ -0,0 +1,83 @@
+import { toDateString } from './billing'
+import type { BalanceSummaryItem, LotStage, LotStageMove, StageBreakdown, Transaction, WipStage } from '../types'
+
+export type StageTransaction = Pick<Transaction, 'date' | 'created_at' | 'qty_in' | 'qty_out'>
+export type StageMove = Pick<LotStageMove, 'from_stage' | 'to_stage' | 'quantity' | 'created_at'>
+
+export const WIP_STAGES: WipStage[] = ['Fettling', 'Shot Blasting', 'Inspection', 'Ready for Dispatch']
+
+export const LOT_STAGES: LotStage[] = ['Not Started', ...WIP_STAGES]
+
+export function getLotKey(lot: { component: string; lot_no: string }): string {
+  return `${lot.component}|${lot.lot_no}`
+}
+
+// Replays the lot's receipts, outward movements and stage moves in the order
+// they happened (by day, then by when they were entered; same as
+// check_lot_stage_move in add-lot-stages.sql). Receipts arrive Not Started and
+// pieces leaving the lot are taken from the furthest stage first, as dispatch
+// normally clears Ready for Dispatch before anything earlier. A lot with no
+// moves is simply all Not Started.
+export function getStageBreakdown(
+  item: Pick<BalanceSummaryItem, 'balance'>,
+  transactions: StageTransaction[],
+  moves: StageMove[]
+): StageBreakdown {
+  const stages: StageBreakdown = {
+    'Not Started': 0,
+    'Fettling': 0,
+    'Shot Blasting': 0,
+    'Inspection': 0,
+    'Ready for Dispatch': 0
+  }
+
+  if (moves.length === 0) {
+    stages['Not Started'] = item.balance
+    return stages
+  }
+
+  const events = [
+    ...transactions.map(transaction => ({ day: transaction.date, at: transaction.created_at, transaction, move: null })),
+    ...moves.map(move => ({ day: toDateString(new Date(move.created_at)), at: move.created_at, transaction: null, move }))
+  ].sort((a, b) => a.day.localeCompare(b.day) || a.at.localeCompare(b.at))
+
+  events.forEach(({ transaction, move }) => {
+    if (move) {
+      stages[move.from_stage ?? 'Not Started'] -= move.quantity
+      stages[move.to_stage] += move.quantity
+      return
+    }
+
+    stages['Not Started'] += transaction?.qty_in || 0
+
+    let remainingOut = transaction?.qty_out || 0
+    for (const stage of [...LOT_STAGES].reverse()) {
+      const taken = Math.min(Math.max(stages[stage], 0), remainingOut)
+      stages[stage] -= taken
+      remainingOut -= taken
+    }
+    // Anything sent beyond the balance (an override) stays owed against Not Started
+    stages['Not Started'] -= remainingOut
+  })
+
+  return stages
+}
+
+// One line per stage holding pieces, e.g. for a tooltip
+export function formatStageBreakdown(stages: StageBreakdown): string {
+  return LOT_STAGES
+    .filter(stage => stages[stage] > 0)
+    .map(stage => `${stage}: ${stages[stage].toLocaleString()} pcs`)
+    .join('\n')
+}
+
+export function groupByLot<T extends { component: string; lot_no: string }>(rows: T[]): Map<string, T[]> {
+  const grouped = new Map<string, T[]>()
+
+  rows.forEach(row => {
+    const key = getLotKey(row)
+    grouped.set(key, [...(grouped.get(key) || []), row])
+  })
+
+  return grouped
+}
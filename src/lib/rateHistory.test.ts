@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { buildRateTimeline, getPreviousVersion } from './rateHistory'
+import type { Rate } from '../types'
+
+const version = (id: string, rate: number, from: string, to: string | null, clientId: string | null = null): Rate => ({
+  id,
+  client_id: clientId,
+  component: 'Housing',
+  work_type: 'Fettling',
+  unit: 'Per Piece',
+  rate,
+  sac_code: null,
+  effective_from: from,
+  effective_to: to,
+  created_at: `${from}T00:00:00Z`
+})
+
+const history = [
+  version('1', 10, '2025-01-01', '2025-06-30'),
+  version('2', 12, '2025-07-01', null),
+  version('3', 9, '2025-03-01', null, 'client-a')
+]
+
+describe('buildRateTimeline', () => {
+  it('lists versions newest first with the price each one replaced', () => {
+    expect(buildRateTimeline(history, 'Housing').map(entry => [entry.rate.id, entry.previous_rate])).toEqual([
+      ['2', 10],
+      ['3', null],
+      ['1', null]
+    ])
+  })
+})
+
+describe('getPreviousVersion', () => {
+  it('finds the version a revised rate reverts to', () => {
+    expect(getPreviousVersion(history, history[1])?.id).toBe('1')
+  })
+
+  it('returns null for a rate that was never revised', () => {
+    expect(getPreviousVersion(history, history[2])).toBeNull()
+  })
+})
@@ -0,0 +1,36 @@
+import type { Rate } from '../types'
+
+export interface RateTimelineEntry {
+  rate: Rate
+  // Price of the version this one replaced, null for the first version
+  previous_rate: number | null
+}
+
+function getRateKey(rate: Pick<Rate, 'client_id' | 'work_type' | 'unit'>): string {
+  return `${rate.client_id ?? 'default'}|${rate.work_type}|${rate.unit}`
+}
+
+// Every version of a component's rates, newest first, each with the price it replaced
+export function buildRateTimeline(history: Rate[], component: string): RateTimelineEntry[] {
+  const versions = history
+    .filter(rate => rate.component === component)
+    .sort((a, b) => a.effective_from.localeCompare(b.effective_from))
+
+  const lastRate = new Map<string, number>()
+  const entries = versions.map(rate => {
+    const key = getRateKey(rate)
+    const entry = { rate, previous_rate: lastRate.get(key) ?? null }
+    lastRate.set(key, rate.rate)
+    return entry
+  })
+
+  return entries.reverse()
+}
+
+// The version a rate goes back to when its current version is deleted
+export function getPreviousVersion(history: Rate[], rate: Rate): Rate | null {
+  return history
+    .filter(version => version.id !== rate.id && version.component === rate.component && getRateKey(version) === getRateKey(rate))
+    .filter(version => version.effective_from < rate.effective_from)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0] ?? null
+}
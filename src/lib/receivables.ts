@@ -0,0 +1,220 @@
+import { getAdjustedInvoiceValue, roundCurrency } from './billing'
+import type {
+  AdjustmentNote,
+  AgeingBucket,
+  AgeingInvoice,
+  Client,
+  ClientAccount,
+  ClientAgeing,
+  Invoice,
+  InvoiceOutstanding,
+  LedgerEntry,
+  Payment,
+  PaymentAllocation,
+  ReceivablesAgeingReport
+} from '../types'
+
+// Same-day entries are listed in the order the documents are usually raised
+const ENTRY_ORDER: Record<LedgerEntry['type'], number> = {
+  'Invoice': 0,
+  'Debit Note': 1,
+  'Credit Note': 2,
+  'Payment': 3,
+  'TDS': 4
+}
+
+export function buildClientAccount(
+  invoices: Invoice[],
+  notes: AdjustmentNote[],
+  payments: Payment[],
+  allocations: PaymentAllocation[]
+): ClientAccount {
+  const issuedInvoices = invoices.filter(invoice => invoice.status === 'Issued')
+  const issuedNotes = notes.filter(note => note.status === 'Issued')
+
+  const entries: Omit<LedgerEntry, 'balance'>[] = []
+
+  issuedInvoices.forEach(invoice => entries.push({
+    date: invoice.invoice_date,
+    type: 'Invoice',
+    reference: invoice.invoice_number,
+    description: `Invoice for ${invoice.period_start} to ${invoice.period_end}`,
+    debit: invoice.total_amount,
+    credit: 0,
+    link: `/invoices/${invoice.id}`
+  }))
+
+  issuedNotes.forEach(note => entries.push({
+    date: note.note_date,
+    type: note.note_type === 'Credit' ? 'Credit Note' : 'Debit Note',
+    reference: note.note_number,
+    description: note.reason,
+    debit: note.note_type === 'Debit' ? note.total_amount : 0,
+    credit: note.note_type === 'Credit' ? note.total_amount : 0,
+    link: `/notes/${note.id}`
+  }))
+
+  payments.forEach(payment => {
+    if (payment.amount > 0) {
+      entries.push({
+        date: payment.payment_date,
+        type: 'Payment',
+        reference: payment.reference || payment.mode,
+        description: `Received by ${payment.mode}`,
+        debit: 0,
+        credit: payment.amount,
+        link: null
+      })
+    }
+    if (payment.tds_amount > 0) {
+      entries.push({
+        date: payment.payment_date,
+        type: 'TDS',
+        reference: payment.reference || payment.mode,
+        description: 'TDS deducted by client',
+        debit: 0,
+        credit: payment.tds_amount,
+        link: null
+      })
+    }
+  })
+
+  entries.sort((a, b) => a.date.localeCompare(b.date) || ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type])
+
+  let balance = 0
+  const ledger = entries.map(entry => {
+    balance = roundCurrency(balance + entry.debit - entry.credit)
+    return { ...entry, balance }
+  })
+
+  const invoiceOutstanding: InvoiceOutstanding[] = issuedInvoices
+    .map(invoice => {
+      const adjustedValue = getAdjustedInvoiceValue(invoice, issuedNotes.filter(note => note.invoice_id === invoice.id))
+      const allocated = roundCurrency(allocations
+        .filter(allocation => allocation.invoice_id === invoice.id)
+        .reduce((sum, allocation) => sum + allocation.amount, 0))
+
+      return {
+        invoice,
+        adjusted_value: adjustedValue,
+        allocated,
+        outstanding: roundCurrency(adjustedValue - allocated)
+      }
+    })
+    .sort((a, b) => a.invoice.invoice_date.localeCompare(b.invoice.invoice_date))
+
+  const totalInvoiced = roundCurrency(invoiceOutstanding.reduce((sum, item) => sum + item.adjusted_value, 0))
+  const totalReceived = roundCurrency(payments.reduce((sum, payment) => sum + payment.amount, 0))
+  const totalTds = roundCurrency(payments.reduce((sum, payment) => sum + payment.tds_amount, 0))
+  const totalAllocated = roundCurrency(allocations.reduce((sum, allocation) => sum + allocation.amount, 0))
+
+  return {
+    ledger,
+    invoices: invoiceOutstanding,
+    payments: payments.map(payment => ({
+      ...payment,
+      allocations: allocations.filter(allocation => allocation.payment_id === payment.id)
+    })),
+    totalInvoiced,
+    totalReceived,
+    totalTds,
+    outstanding: roundCurrency(totalInvoiced - totalReceived - totalTds),
+    unallocated: roundCurrency(totalReceived + totalTds - totalAllocated)
+  }
+}
+
+// Spread an amount over open invoices, oldest first
+export function allocateOldestFirst(invoices: InvoiceOutstanding[], amount: number): Record<string, number> {
+  const allocation: Record<string, number> = {}
+  let remaining = amount
+
+  for (const item of invoices) {
+    if (remaining <= 0) break
+    if (item.outstanding <= 0) continue
+
+    const share = roundCurrency(Math.min(item.outstanding, remaining))
+    allocation[item.invoice.id] = share
+    remaining = roundCurrency(remaining - share)
+  }
+
+  return allocation
+}
+
+export const AGEING_BUCKETS: AgeingBucket[] = ['Not Due', '0-30', '31-60', '61-90', '90+']
+
+// Whole days from the due date to the as-of date; negative while not yet due
+export function getDaysOverdue(dueDate: string, asOf: string): number {
+  const due = Date.parse(`${dueDate}T00:00:00Z`)
+  const reference = Date.parse(`${asOf}T00:00:00Z`)
+  return Math.round((reference - due) / 86400000)
+}
+
+export function getAgeingBucket(daysOverdue: number): AgeingBucket {
+  if (daysOverdue < 0) return 'Not Due'
+  if (daysOverdue <= 30) return '0-30'
+  if (daysOverdue <= 60) return '31-60'
+  if (daysOverdue <= 90) return '61-90'
+  return '90+'
+}
+
+function emptyBuckets(): Record<AgeingBucket, number> {
+  return { 'Not Due': 0, '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 }
+}
+
+// Buckets each client's open invoices by how far past the due date they are
+export function buildAgeingReport(
+  accounts: { client: Pick<Client, 'id' | 'name'>, account: ClientAccount }[],
+  asOf: string
+): ReceivablesAgeingReport {
+  const clients: ClientAgeing[] = accounts
+    .map(({ client, account }) => {
+      const invoices: AgeingInvoice[] = account.invoices
+        .filter(item => item.outstanding > 0)
+        .map(item => {
+          const daysOverdue = getDaysOverdue(item.invoice.due_date, asOf)
+          return {
+            invoice_id: item.invoice.id,
+            invoice_number: item.invoice.invoice_number,
+            invoice_date: item.invoice.invoice_date,
+            due_date: item.invoice.due_date,
+            days_overdue: daysOverdue,
+            bucket: getAgeingBucket(daysOverdue),
+            outstanding: item.outstanding
+          }
+        })
+        .sort((a, b) => b.days_overdue - a.days_overdue)
+
+      const buckets = emptyBuckets()
+      invoices.forEach(invoice => {
+        buckets[invoice.bucket] = roundCurrency(buckets[invoice.bucket] + invoice.outstanding)
+      })
+
+      return {
+        client_id: client.id,
+        client_name: client.name,
+        buckets,
+        unallocated: account.unallocated,
+        outstanding: account.outstanding,
+        invoices
+      }
+    })
+    .filter(client => client.invoices.length > 0 || client.outstanding !== 0)
+    // Clients with the oldest money outstanding first
+    .sort((a, b) =>
+      b.buckets['90+'] - a.buckets['90+'] ||
+      b.buckets['61-90'] - a.buckets['61-90'] ||
+      b.buckets['31-60'] - a.buckets['31-60'] ||
+      b.outstanding - a.outstanding
+    )
+
+  const totals = { ...emptyBuckets(), unallocated: 0, outstanding: 0 }
+  clients.forEach(client => {
+    AGEING_BUCKETS.forEach(bucket => {
+      totals[bucket] = roundCurrency(totals[bucket] + client.buckets[bucket])
+    })
+    totals.unallocated = roundCurrency(totals.unallocated + client.unallocated)
+    totals.outstanding = roundCurrency(totals.outstanding + client.outstanding)
+  })
+
+  return { as_of: asOf, clients, totals }
+}
@@ -0,0 +1,51 @@
+import type { Transaction, TransactionType } from '../types'
+
+export const TRANSACTION_TYPES: TransactionType[] = [
+  'Received',
+  'Delivered',
+  'Rejected',
+  'Returned Unprocessed',
+  'Scrapped'
+]
+
+// Badge classes for the log and the matching row fill in PDF exports
+export const TRANSACTION_TYPE_COLORS: Record<TransactionType, { badge: string; fill: [number, number, number] }> = {
+  'Received': { badge: 'bg-blue-100 text-blue-800', fill: [219, 234, 254] },
+  'Delivered': { badge: 'bg-green-100 text-green-800', fill: [220, 252, 231] },
+  'Rejected': { badge: 'bg-red-100 text-red-800', fill: [254, 226, 226] },
+  'Returned Unprocessed': { badge: 'bg-amber-100 text-amber-800', fill: [254, 243, 199] },
+  'Scrapped': { badge: 'bg-gray-200 text-gray-800', fill: [229, 231, 235] }
+}
+
+// Only Received brings castings in; every other movement takes them out
+export function isOutward(type: TransactionType): boolean {
+  return type !== 'Received'
+}
+
+export interface MovementTotals {
+  received: number
+  delivered: number
+  rejected: number
+  returnedUnprocessed: number
+  scrapped: number
+  balance: number
+}
+
+export function getMovementTotals(
+  transactions: Pick<Transaction, 'transaction_type' | 'qty_in' | 'qty_out'>[]
+): MovementTotals {
+  const totals: MovementTotals = { received: 0, delivered: 0, rejected: 0, returnedUnprocessed: 0, scrapped: 0, balance: 0 }
+
+  transactions.forEach(transaction => {
+    const qtyOut = transaction.qty_out || 0
+
+    totals.received += transaction.qty_in || 0
+    if (transaction.transaction_type === 'Delivered') totals.delivered += qtyOut
+    if (transaction.transaction_type === 'Rejected') totals.rejected += qtyOut
+    if (transaction.transaction_type === 'Returned Unprocessed') totals.returnedUnprocessed += qtyOut
+    if (transaction.transaction_type === 'Scrapped') totals.scrapped += qtyOut
+    totals.balance += (transaction.qty_in || 0) - qtyOut
+  })
+
+  return totals
+}
@@ -0,0 +1,54 @@
+import type { BalanceSummaryItem, WeightLossTolerance, WeightReconciliationReport } from '../types'
+
+// Same as the company_profile column default
+export const DEFAULT_WEIGHT_LOSS_TOLERANCE = 5
+
+// Loss as a share of the weight per piece received; matches get_balance_summary
+export function getWeightLossPercent(
+  receivedKg: number,
+  receivedPieces: number,
+  deliveredKg: number,
+  deliveredPieces: number
+): number | null {
+  if (receivedPieces <= 0 || deliveredPieces <= 0 || receivedKg <= 0) return null
+
+  const loss = (1 - (deliveredKg / deliveredPieces) / (receivedKg / receivedPieces)) * 100
+  return Math.round(loss * 100) / 100
+}
+
+export function getLossTolerance(
+  component: string,
+  tolerances: WeightLossTolerance[],
+  defaultTolerance: number
+): number {
+  return tolerances.find(tolerance => tolerance.component === component)?.tolerance_percent ?? defaultTolerance
+}
+
+export function buildWeightReconciliation(
+  balanceSummary: BalanceSummaryItem[],
+  tolerances: WeightLossTolerance[],
+  defaultTolerance: number
+): WeightReconciliationReport {
+  // Lots with no weight on either side have nothing to reconcile
+  const lots = balanceSummary
+    .filter(item => item.received_kg > 0 || item.delivered_kg > 0)
+    .map(item => {
+      const tolerancePercent = getLossTolerance(item.component, tolerances, defaultTolerance)
+      return {
+        component: item.component,
+        lot_no: item.lot_no,
+        received_kg: item.received_kg,
+        delivered_kg: item.delivered_kg,
+        weight_loss_percent: item.weight_loss_percent,
+        tolerance_percent: tolerancePercent,
+        exceeds_tolerance: item.weight_loss_percent !== null && item.weight_loss_percent > tolerancePercent
+      }
+    })
+
+  return {
+    lots,
+    received_kg: lots.reduce((sum, lot) => sum + lot.received_kg, 0),
+    delivered_kg: lots.reduce((sum, lot) => sum + lot.delivered_kg, 0),
+    flagged_count: lots.filter(lot => lot.exceeds_tolerance).length
+  }
+}
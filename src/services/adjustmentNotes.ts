@@ -0,0 +1,84 @@
+import { supabase } from '../lib/supabase'
+import type { AdjustmentNote, AdjustmentNoteDraft, AdjustmentNoteWithLines } from '../types'
+
+export const adjustmentNotesService = {
+  async getAll(): Promise<AdjustmentNote[]> {
+    const { data, error } = await supabase
+      .from('adjustment_notes')
+      .select('*')
+      .order('note_date', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  },
+
+  async getByInvoiceId(invoiceId: string): Promise<AdjustmentNote[]> {
+    const { data, error } = await supabase
+      .from('adjustment_notes')
+      .select('*')
+      .eq('invoice_id', invoiceId)
+      .order('note_date')
+      .order('created_at')
+
+    if (error) throw error
+    return data || []
+  },
+
+  async getByClientId(clientId: string): Promise<AdjustmentNote[]> {
+    const { data, error } = await supabase
+      .from('adjustment_notes')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('note_date', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  },
+
+  async getById(id: string): Promise<AdjustmentNoteWithLines> {
+    const { data: note, error } = await supabase
+      .from('adjustment_notes')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) throw error
+
+    const { data: lines, error: linesError } = await supabase
+      .from('adjustment_note_lines')
+      .select('*')
+      .eq('note_id', id)
+      .order('line_no')
+
+    if (linesError) throw linesError
+    return { ...note, lines: lines || [] }
+  },
+
+  // Allocates the next CN/DN number and stores the note with its lines in one transaction
+  async create(draft: AdjustmentNoteDraft): Promise<AdjustmentNote> {
+    const { lines, ...noteData } = draft
+
+    const { data, error } = await supabase
+      .rpc('finalize_adjustment_note', {
+        p_note: noteData,
+        p_lines: lines
+      })
+
+    if (error) throw error
+    return data
+  },
+
+  async cancel(id: string): Promise<AdjustmentNote> {
+    const { data, error } = await supabase
+      .from('adjustment_notes')
+      .update({ status: 'Cancelled', cancelled_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'Issued')
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+}
@@ -203,12 +203,12 @@ export const analyticsService = {
     
     data?.forEach(transaction => {
       stats.total_received += transaction.qty_in || 0
-      stats.total_delivered += transaction.qty_out || 0
       stats.total_billed += transaction.billed_amount || 0
       
       if (transaction.transaction_type === 'Received') {
         stats.received_transactions += 1
-      } else {
+      } else if (transaction.transaction_type === 'Delivered') {
+        stats.total_delivered += transaction.qty_out || 0
         stats.delivered_transactions += 1
       }
     })
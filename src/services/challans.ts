@@ -0,0 +1,146 @@
+import { supabase } from '../lib/supabase'
+import { ValidationError } from '../lib/errorHandling'
+import { formatDocumentNumber, getFinancialYear } from '../lib/financialYear'
+import type { Challan, ChallanInput, ChallanLineInput, DcNumberingReport, DuplicateDcNumber } from '../types'
+
+async function getLastNumber(series: string, financialYear: string): Promise<number> {
+  const { data, error } = await supabase
+    .from('number_sequences')
+    .select('last_number')
+    .eq('series', series)
+    .eq('financial_year', financialYear)
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.last_number || 0
+}
+
+export const challansService = {
+  async getByClientId(clientId: string): Promise<Challan[]> {
+    const { data, error } = await supabase
+      .from('challans')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('dc_date', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  },
+
+  // Outward DCs already carrying this number, for any client
+  async getOutwardByNumber(dcNo: string): Promise<Challan[]> {
+    const { data, error } = await supabase
+      .from('challans')
+      .select('*')
+      .neq('transaction_type', 'Received')
+      .ilike('dc_no', dcNo.trim())
+
+    if (error) throw error
+    return data || []
+  },
+
+  // What the next outward DC will be numbered; the number itself is only
+  // taken when the DC is saved
+  async getNextNumber(series: string, financialYear: string): Promise<string> {
+    const lastNumber = await getLastNumber(series, financialYear)
+    return formatDocumentNumber(series, financialYear, lastNumber + 1)
+  },
+
+  // Carry on from a paper DC book, e.g. start this year's series at 0150
+  async setLastNumber(series: string, financialYear: string, lastNumber: number): Promise<void> {
+    const { data: highest, error: highestError } = await supabase
+      .from('challans')
+      .select('sequence_number')
+      .eq('series', series)
+      .eq('financial_year', financialYear)
+      .order('sequence_number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (highestError) throw highestError
+
+    if (!Number.isInteger(lastNumber) || lastNumber < (highest?.sequence_number || 0)) {
+      throw new ValidationError(
+        `${formatDocumentNumber(series, financialYear, highest?.sequence_number || 0)} has already been used; the series cannot go back past it`,
+        'DC_SEQUENCE_IN_USE'
+      )
+    }
+
+    const { error } = await supabase
+      .from('number_sequences')
+      .upsert({ series, financial_year: financialYear, last_number: lastNumber, updated_at: new Date().toISOString() })
+
+    if (error) throw error
+  },
+
+  async getNumberingReport(series: string, financialYear: string): Promise<DcNumberingReport> {
+    const lastNumber = await getLastNumber(series, financialYear)
+    const { start, end } = getFinancialYear(`20${financialYear.slice(0, 2)}-04-01`)
+
+    const { data: challans, error } = await supabase
+      .from('challans')
+      .select('*')
+      .neq('transaction_type', 'Received')
+      .gte('dc_date', start)
+      .lte('dc_date', end)
+      .order('dc_date')
+
+    if (error) throw error
+
+    const numbered = (challans || []).filter(challan =>
+      challan.series === series && challan.financial_year === financialYear
+    )
+    const usedNumbers = new Set(numbered.map(challan => challan.sequence_number))
+    const missingNumbers: string[] = []
+
+    for (let number = 1; number <= lastNumber; number++) {
+      if (!usedNumbers.has(number)) {
+        missingNumbers.push(formatDocumentNumber(series, financialYear, number))
+      }
+    }
+
+    // Typed numbers are checked too; older rows may predate the database check
+    const byNumber = new Map<string, Challan[]>()
+    for (const challan of challans || []) {
+      const key = challan.dc_no.toUpperCase()
+      byNumber.set(key, [...(byNumber.get(key) || []), challan])
+    }
+    const duplicates: DuplicateDcNumber[] = Array.from(byNumber.values())
+      .filter(group => new Set(group.map(challan => challan.client_id)).size > 1)
+      .map(group => ({ dc_no: group[0].dc_no, challans: group }))
+
+    return {
+      series,
+      financial_year: financialYear,
+      last_number: lastNumber,
+      numbered_count: numbered.length,
+      missing_numbers: missingNumbers,
+      duplicates
+    }
+  },
+
+  // Header and lines are saved in one database transaction; a DC number the
+  // client already has is rejected, and a blank outward number is allocated
+  async create({ challan, lines }: { challan: ChallanInput; lines: ChallanLineInput[] }): Promise<Challan> {
+    const { data, error } = await supabase
+      .rpc('create_challan', {
+        p_challan: challan,
+        p_lines: lines
+      })
+
+    if (error) throw error
+    return data
+  },
+
+  async update(id: string, updates: Partial<Pick<Challan, 'vehicle_no' | 'notes'>>): Promise<Challan> {
+    const { data, error } = await supabase
+      .from('challans')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+}
@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase'
+import { assertValidGstin } from '../lib/gstin'
 import type { Client } from '../types'
 
 export const clientsService = {
@@ -26,7 +27,7 @@ export const clientsService = {
   async create(client: Omit<Client, 'id' | 'created_at'>): Promise<Client> {
     const { data, error } = await supabase
       .from('clients')
-      .insert(client)
+      .insert({ ...client, gst_number: assertValidGstin(client.gst_number) })
       .select()
       .single()
     
@@ -35,6 +36,10 @@ export const clientsService = {
   },
 
   async update(id: string, updates: Partial<Omit<Client, 'id' | 'created_at'>>): Promise<Client> {
+    if (updates.gst_number !== undefined) {
+      updates = { ...updates, gst_number: assertValidGstin(updates.gst_number) }
+    }
+
     const { data, error } = await supabase
       .from('clients')
       .update(updates)
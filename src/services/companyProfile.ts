@@ -0,0 +1,64 @@
+import { supabase } from '../lib/supabase'
+import { assertValidGstin } from '../lib/gstin'
+import { ValidationError } from '../lib/errorHandling'
+import type { CompanyProfile, CompanyProfileUpdate } from '../types'
+
+const PROFILE_ID = 1
+const LOGO_BUCKET = 'company-assets'
+const MAX_LOGO_BYTES = 1024 * 1024
+
+// jsPDF can only embed PNG and JPEG, so nothing else is accepted for the logo
+const LOGO_TYPES: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg'
+}
+
+export const companyProfileService = {
+  async get(): Promise<CompanyProfile> {
+    const { data, error } = await supabase
+      .from('company_profile')
+      .select('*')
+      .eq('id', PROFILE_ID)
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  async update(updates: CompanyProfileUpdate): Promise<CompanyProfile> {
+    if (updates.gst_number !== undefined) {
+      updates = { ...updates, gst_number: assertValidGstin(updates.gst_number) }
+    }
+
+    const { data, error } = await supabase
+      .from('company_profile')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', PROFILE_ID)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  // Uploads under a new name each time so cached copies of the old logo are not reused
+  async uploadLogo(file: File): Promise<CompanyProfile> {
+    const extension = LOGO_TYPES[file.type]
+    if (!extension) {
+      throw new ValidationError('The logo must be a PNG or JPEG image', 'INVALID_LOGO_TYPE')
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      throw new ValidationError('The logo must be smaller than 1 MB', 'LOGO_TOO_LARGE')
+    }
+
+    const path = `logo-${Date.now()}.${extension}`
+    const { error } = await supabase.storage
+      .from(LOGO_BUCKET)
+      .upload(path, file, { contentType: file.type })
+
+    if (error) throw error
+
+    const { data } = supabase.storage.from(LOGO_BUCKET).getPublicUrl(path)
+    return this.update({ logo_url: data.publicUrl })
+  }
+}
@@ -0,0 +1,234 @@
+import jsPDF from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import { DEFAULT_LOGO_URL, getWorkTypeLabel } from '../lib/billing'
+import { JOB_WORK_DECLARATION } from '../lib/deliveryChallan'
+import { getGstinStateCode, getStateName } from '../lib/gstin'
+import { InvoicePdfService } from './invoicePdf'
+import type { DeliveryChallan, PaperSize } from '../types'
+
+export interface DeliveryChallanPdfOptions {
+  paperSize?: PaperSize
+  // Image URL or data URL; null leaves the logo out
+  logoUrl?: string | null
+}
+
+type AutoTableDoc = jsPDF & { lastAutoTable?: { finalY: number } }
+
+const HEADER_COLOR: [number, number, number] = [66, 139, 202]
+const TEXT_MUTED: [number, number, number] = [90, 90, 90]
+
+// A5 challans use a narrower margin and slightly smaller type
+const LAYOUT: Record<PaperSize, { margin: number; scale: number }> = {
+  a4: { margin: 14, scale: 1 },
+  a5: { margin: 9, scale: 0.85 }
+}
+
+export class DeliveryChallanPdfService {
+  private static formatDate(date: string): string {
+    return new Date(date).toLocaleDateString('en-IN', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    })
+  }
+
+  private static getFinalY(doc: jsPDF, fallback: number): number {
+    return (doc as AutoTableDoc).lastAutoTable?.finalY ?? fallback
+  }
+
+  private static drawHeader(doc: jsPDF, challan: DeliveryChallan, margin: number, scale: number, logo: string | null): number {
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const right = pageWidth - margin
+    const logoSize = 18 * scale
+    const leftWidth = pageWidth * 0.55 - margin
+    let textX = margin
+
+    if (logo) {
+      try {
+        doc.addImage(logo, margin, margin, logoSize, logoSize)
+        textX = margin + logoSize + 4
+      } catch {
+        // Unsupported image formats are skipped
+      }
+    }
+
+    // Company block
+    doc.setTextColor(0)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(14 * scale)
+    const nameLines: string[] = doc.splitTextToSize(challan.company_name, leftWidth - (textX - margin))
+    doc.text(nameLines, textX, margin + 5)
+    let leftY = margin + 5 + nameLines.length * 6 * scale
+
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8.5 * scale)
+    doc.setTextColor(...TEXT_MUTED)
+    const companyDetails = [
+      challan.company_address,
+      challan.company_gst ? `GSTIN: ${challan.company_gst}` : '',
+      challan.company_phone ? `Phone: ${challan.company_phone}` : ''
+    ].filter(Boolean)
+    companyDetails.forEach(detail => {
+      const lines: string[] = doc.splitTextToSize(detail, leftWidth - (textX - margin))
+      doc.text(lines, textX, leftY)
+      leftY += lines.length * 4 * scale
+    })
+
+    // Document block
+    doc.setTextColor(0)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(15 * scale)
+    doc.text('DELIVERY CHALLAN', right, margin + 5, { align: 'right' })
+    doc.setFont('helvetica', 'italic')
+    doc.setFontSize(8.5 * scale)
+    doc.text('Returned after job work', right, margin + 10, { align: 'right' })
+
+    doc.setFontSize(9 * scale)
+    const details: [string, string][] = [
+      ['DC No', challan.dc_no],
+      ['Date', this.formatDate(challan.date)],
+      ['Vehicle No', challan.vehicle_no || '-']
+    ]
+
+    let rightY = margin + 16
+    details.forEach(([label, value]) => {
+      doc.setFont('helvetica', 'normal')
+      doc.text(value, right, rightY, { align: 'right' })
+      doc.setFont('helvetica', 'bold')
+      doc.text(`${label}:`, right - doc.getTextWidth(value) - 2, rightY, { align: 'right' })
+      rightY += 5 * scale
+    })
+
+    const y = Math.max(leftY, rightY, logo ? margin + logoSize + 2 : 0) + 2
+    doc.setDrawColor(30)
+    doc.setLineWidth(0.6)
+    doc.line(margin, y, right, y)
+    doc.setLineWidth(0.2)
+
+    return y + 7
+  }
+
+  private static drawConsignee(doc: jsPDF, challan: DeliveryChallan, y: number, margin: number, scale: number): number {
+    const width = doc.internal.pageSize.getWidth() - margin * 2
+    const state = getStateName(getGstinStateCode(challan.client_gst_number))
+
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(10 * scale)
+    doc.text('CONSIGNEE:', margin, y)
+
+    doc.setFontSize(11 * scale)
+    const nameLines: string[] = doc.splitTextToSize(challan.client_name, width)
+    doc.text(nameLines, margin, y + 6 * scale)
+    y += 6 * scale + nameLines.length * 5 * scale
+
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8.5 * scale)
+    const details = [
+      `GSTIN: ${challan.client_gst_number || 'Unregistered'}`,
+      state ? `State: ${state}` : '',
+      challan.client_address ? `Address: ${challan.client_address}` : ''
+    ].filter(Boolean)
+    details.forEach(detail => {
+      const lines: string[] = doc.splitTextToSize(detail, width)
+      doc.text(lines, margin, y)
+      y += lines.length * 4 * scale
+    })
+
+    return y + 4
+  }
+
+  private static drawItems(doc: jsPDF, challan: DeliveryChallan, y: number, margin: number, scale: number): number {
+    const totalQuantity = challan.lines.reduce((sum, line) => sum + line.quantity, 0)
+    const totalWeight = challan.lines.reduce((sum, line) => sum + (line.weight_kg || 0), 0)
+
+    autoTable(doc, {
+      head: [['#', 'Component', 'Lot No', 'Work Done', 'Qty (Nos)', 'Weight (kg)']],
+      body: challan.lines.map((line, index) => [
+        (index + 1).toString(),
+        line.component,
+        line.lot_no || '-',
+        line.work_type ? getWorkTypeLabel(line.work_type) : '-',
+        line.quantity.toLocaleString('en-IN'),
+        line.weight_kg ? line.weight_kg.toFixed(2) : '-'
+      ]),
+      foot: [['', 'Total', '', '', totalQuantity.toLocaleString('en-IN'), totalWeight.toFixed(2)]],
+      startY: y,
+      margin: { left: margin, right: margin, bottom: 20 },
+      showHead: 'everyPage',
+      showFoot: 'lastPage',
+      rowPageBreak: 'avoid',
+      styles: { fontSize: 8.5 * scale, cellPadding: 1.5 },
+      headStyles: { fillColor: HEADER_COLOR },
+      footStyles: { fillColor: [240, 240, 240], textColor: 0, fontStyle: 'bold' },
+      columnStyles: { 0: { cellWidth: 8 }, 4: { halign: 'right' }, 5: { halign: 'right' } }
+    })
+
+    return this.getFinalY(doc, y) + 8
+  }
+
+  private static drawDeclarationAndSignatures(doc: jsPDF, challan: DeliveryChallan, y: number, margin: number, scale: number): void {
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pageHeight = doc.internal.pageSize.getHeight()
+    const right = pageWidth - margin
+
+    doc.setFontSize(8 * scale)
+    const declaration: string[] = doc.splitTextToSize(JOB_WORK_DECLARATION, pageWidth - margin * 2)
+    if (y + declaration.length * 4 + 40 > pageHeight - 15) {
+      doc.addPage()
+      y = margin + 6
+    }
+
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(9 * scale)
+    doc.text('Declaration', margin, y)
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8 * scale)
+    doc.text(declaration, margin, y + 5)
+    y += 5 + declaration.length * 4 + 8
+
+    // Signature block
+    doc.setFontSize(8.5 * scale)
+    doc.setTextColor(...TEXT_MUTED)
+    doc.text('Received the above goods in good condition', margin, y)
+    doc.text(`For ${challan.company_name}`, right, y, { align: 'right' })
+
+    doc.setDrawColor(120)
+    doc.line(margin, y + 18, margin + 50, y + 18)
+    doc.line(right - 50, y + 18, right, y + 18)
+    doc.setFontSize(7.5 * scale)
+    doc.text("Receiver's Signature & Seal", margin, y + 22)
+    doc.text('Authorised Signatory', right, y + 22, { align: 'right' })
+    doc.setTextColor(0)
+  }
+
+  private static drawFooters(doc: jsPDF, challan: DeliveryChallan, margin: number): void {
+    const pageCount = doc.getNumberOfPages()
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pageHeight = doc.internal.pageSize.getHeight()
+
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page)
+      doc.setFontSize(7)
+      doc.setTextColor(...TEXT_MUTED)
+      doc.text(`DC ${challan.dc_no}`, margin, pageHeight - 8)
+      doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 8, { align: 'right' })
+      doc.setTextColor(0)
+    }
+  }
+
+  static async render(challan: DeliveryChallan, options: DeliveryChallanPdfOptions = {}): Promise<jsPDF> {
+    const paperSize = options.paperSize || 'a4'
+    const { margin, scale } = LAYOUT[paperSize]
+    const doc = new jsPDF({ unit: 'mm', format: paperSize })
+    const logoUrl = options.logoUrl === undefined ? DEFAULT_LOGO_URL : options.logoUrl
+    const logo = logoUrl ? await InvoicePdfService.loadImage(logoUrl) : null
+
+    let y = this.drawHeader(doc, challan, margin, scale, logo)
+    y = this.drawConsignee(doc, challan, y, margin, scale)
+    y = this.drawItems(doc, challan, y, margin, scale)
+    this.drawDeclarationAndSignatures(doc, challan, y, margin, scale)
+    this.drawFooters(doc, challan, margin)
+
+    return doc
+  }
+}
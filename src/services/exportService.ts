@@ -1,7 +1,16 @@
 import * as XLSX from 'xlsx'
 import jsPDF from 'jspdf'
+import JSZip from 'jszip'
 import autoTable from 'jspdf-autotable'
-import type { Client, Transaction, BalanceSummaryItem } from '../types'
+import { formatPeriodLabel, getCompanyLogoUrl, getHsnSummary, getLineDescription, getReportHeading, getTaxLines, getTdsLabel, roundCurrency } from '../lib/billing'
+import { buildEInvoicePayload, validateEInvoicePayload, type EInvoicePayload } from '../lib/eInvoice'
+import { ValidationError } from '../lib/errorHandling'
+import { AGEING_BUCKETS } from '../lib/receivables'
+import { TRANSACTION_TYPE_COLORS, getMovementTotals } from '../lib/transactionTypes'
+import { InvoicePdfService, type InvoicePdfOptions } from './invoicePdf'
+import { DeliveryChallanPdfService, type DeliveryChallanPdfOptions } from './deliveryChallanPdf'
+import { companyProfileService } from './companyProfile'
+import type { CompanyProfile, Client, Transaction, BalanceSummaryItem, InvoiceDraft, ReceivablesAgeingReport, DeliveryChallan, WeightReconciliationReport } from '../types'
 
 export interface ExportData {
   clients: Client[]
@@ -11,6 +20,8 @@ export interface ExportData {
     start: string
     end: string
   }
+  // Loaded from the company profile when not passed in
+  company?: CompanyProfile | null
 }
 
 export interface ExportOptions {
@@ -38,6 +49,20 @@ export class ExportService {
     })
   }
 
+  // A report still exports with the app name if the profile cannot be loaded
+  private static async loadCompanyProfile(): Promise<CompanyProfile | null> {
+    try {
+      return await companyProfileService.get()
+    } catch {
+      return null
+    }
+  }
+
+  private static async withCompany(data: ExportData): Promise<ExportData> {
+    if (data.company !== undefined) return data
+    return { ...data, company: await this.loadCompanyProfile() }
+  }
+
   private static getClientName(clientId: string, clients: Client[]): string {
     const client = clients.find(c => c.id === clientId)
     return client?.name || 'Unknown Client'
@@ -45,6 +70,7 @@ export class ExportService {
 
   // Excel Export Methods
   static async exportToExcel(data: ExportData, options: ExportOptions): Promise<void> {
+    data = await this.withCompany(data)
     const workbook = XLSX.utils.book_new()
 
     switch (options.reportType) {
@@ -80,7 +106,7 @@ export class ExportService {
     const summaryData = []
 
     // Header
-    summaryData.push(['BRS MANAGEMENT SYSTEM - CLIENT SUMMARY REPORT'])
+    summaryData.push([`${getReportHeading(data.company)} - CLIENT SUMMARY REPORT`])
     summaryData.push(['Generated on:', new Date().toLocaleString('en-IN')])
     summaryData.push([]) // Empty row
 
@@ -89,13 +115,7 @@ export class ExportService {
 
     data.clients.forEach(client => {
       const clientTransactions = data.transactions.filter(t => t.client_id === client.id)
-      const totalReceived = clientTransactions
-        .filter(t => t.transaction_type === 'Received')
-        .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-      const totalDelivered = clientTransactions
-        .filter(t => t.transaction_type === 'Delivered')
-        .reduce((sum, t) => sum + (t.qty_out || 0), 0)
-      const currentBalance = totalReceived - totalDelivered
+      const { received: totalReceived, delivered: totalDelivered, balance: currentBalance } = getMovementTotals(clientTransactions)
       const totalBilled = clientTransactions
         .reduce((sum, t) => sum + (t.billed_amount || 0), 0)
 
@@ -111,12 +131,7 @@ export class ExportService {
     })
 
     // Add totals row
-    const grandTotalReceived = data.transactions
-      .filter(t => t.transaction_type === 'Received')
-      .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-    const grandTotalDelivered = data.transactions
-      .filter(t => t.transaction_type === 'Delivered')
-      .reduce((sum, t) => sum + (t.qty_out || 0), 0)
+    const { received: grandTotalReceived, delivered: grandTotalDelivered, balance: grandTotalBalance } = getMovementTotals(data.transactions)
     const grandTotalBilled = data.transactions
       .reduce((sum, t) => sum + (t.billed_amount || 0), 0)
 
@@ -127,7 +142,7 @@ export class ExportService {
       data.transactions.length,
       grandTotalReceived,
       grandTotalDelivered,
-      grandTotalReceived - grandTotalDelivered,
+      grandTotalBalance,
       this.formatCurrency(grandTotalBilled)
     ])
 
@@ -139,7 +154,7 @@ export class ExportService {
       data.transactions.some(t => t.client_id === c.id)
     ).length])
     summaryData.push(['Avg Transactions per Client:', Math.round(data.transactions.length / data.clients.length)])
-    summaryData.push(['Total Outstanding Balance:', `${grandTotalReceived - grandTotalDelivered} units`])
+    summaryData.push(['Total Outstanding Balance:', `${grandTotalBalance} units`])
 
     const worksheet = XLSX.utils.aoa_to_sheet(summaryData)
     
@@ -196,7 +211,7 @@ export class ExportService {
     // Column headers
     transactionData.push([
       'DATE', 'CLIENT', 'DC NO', 'COMPONENT', 'LOT NO', 'TYPE', 
-      'QTY IN', 'QTY OUT', 'WORK TYPE', 'UNIT', 'RATE', 'BILLED AMOUNT'
+      'QTY IN', 'QTY OUT', 'WORK TYPE', 'UNIT', 'SAC', 'RATE', 'BILLED AMOUNT'
     ])
 
     // Transaction data
@@ -212,6 +227,7 @@ export class ExportService {
         transaction.qty_out || '',
         transaction.work_type || '',
         transaction.unit || '',
+        transaction.sac_code || '',
         transaction.rate_applied ? this.formatCurrency(transaction.rate_applied) : '',
         transaction.billed_amount ? this.formatCurrency(transaction.billed_amount) : ''
       ])
@@ -219,19 +235,14 @@ export class ExportService {
 
     // Summary
     const totalBilled = transactions.reduce((sum, t) => sum + (t.billed_amount || 0), 0)
-    const totalReceived = transactions
-      .filter(t => t.transaction_type === 'Received')
-      .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-    const totalDelivered = transactions
-      .filter(t => t.transaction_type === 'Delivered')
-      .reduce((sum, t) => sum + (t.qty_out || 0), 0)
+    const { received: totalReceived, delivered: totalDelivered, balance: totalBalance } = getMovementTotals(transactions)
 
     transactionData.push([]) // Empty row
     transactionData.push(['SUMMARY'])
     transactionData.push(['Total Transactions:', transactions.length])
     transactionData.push(['Total Received:', totalReceived, 'units'])
     transactionData.push(['Total Delivered:', totalDelivered, 'units'])
-    transactionData.push(['Current Balance:', totalReceived - totalDelivered, 'units'])
+    transactionData.push(['Current Balance:', totalBalance, 'units'])
     transactionData.push(['Total Billed:', this.formatCurrency(totalBilled)])
 
     const worksheet = XLSX.utils.aoa_to_sheet(transactionData)
@@ -248,6 +259,7 @@ export class ExportService {
       { width: 10 }, // Qty Out
       { width: 15 }, // Work Type
       { width: 10 }, // Unit
+      { width: 10 }, // SAC
       { width: 12 }, // Rate
       { width: 15 }  // Billed Amount
     ]
@@ -339,14 +351,17 @@ export class ExportService {
     balanceData.push([]) // Empty row
 
     // Column headers
-    balanceData.push(['COMPONENT', 'RECEIVED', 'DELIVERED', 'BALANCE'])
+    balanceData.push(['COMPONENT', 'RECEIVED', 'DELIVERED', 'REJECTED', 'RETURNED UNPROCESSED', 'SCRAPPED', 'BALANCE'])
 
     // Balance data
     data.balanceSummary.forEach(item => {
       balanceData.push([
         item.component,
         item.total_in,
-        item.total_out,
+        item.total_delivered,
+        item.total_rejected,
+        item.total_returned_unprocessed,
+        item.total_scrapped,
         item.balance
       ])
     })
@@ -358,6 +373,9 @@ export class ExportService {
       { width: 25 }, // Component
       { width: 12 }, // Received
       { width: 12 }, // Delivered
+      { width: 12 }, // Rejected
+      { width: 22 }, // Returned Unprocessed
+      { width: 12 }, // Scrapped
       { width: 12 }  // Balance
     ]
 
@@ -366,6 +384,7 @@ export class ExportService {
 
   // CSV Export Methods
   static async exportToCSV(data: ExportData, options: ExportOptions): Promise<void> {
+    data = await this.withCompany(data)
     let csvContent = ''
     let filename = ''
 
@@ -414,6 +433,7 @@ export class ExportService {
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
+    URL.revokeObjectURL(url)
   }
 
   private static createTransactionsCSV(data: ExportData, options: ExportOptions): { content: string, filename: string } {
@@ -433,7 +453,7 @@ export class ExportService {
 
     const headers = [
       'Date', 'Client', 'DC No', 'Component', 'Lot No', 'Type',
-      'Qty In', 'Qty Out', 'Work Type', 'Unit', 'Rate', 'Billed Amount'
+      'Qty In', 'Qty Out', 'Work Type', 'Unit', 'SAC', 'Rate', 'Billed Amount'
     ]
 
     const rows = transactions.map(transaction => [
@@ -447,6 +467,7 @@ export class ExportService {
       transaction.qty_out || '',
       transaction.work_type || '',
       transaction.unit || '',
+      transaction.sac_code || '',
       transaction.rate_applied || '',
       transaction.billed_amount || ''
     ])
@@ -472,13 +493,7 @@ export class ExportService {
 
     const rows = data.clients.map(client => {
       const clientTransactions = data.transactions.filter(t => t.client_id === client.id)
-      const totalReceived = clientTransactions
-        .filter(t => t.transaction_type === 'Received')
-        .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-      const totalDelivered = clientTransactions
-        .filter(t => t.transaction_type === 'Delivered')
-        .reduce((sum, t) => sum + (t.qty_out || 0), 0)
-      const currentBalance = totalReceived - totalDelivered
+      const { received: totalReceived, delivered: totalDelivered, balance: currentBalance } = getMovementTotals(clientTransactions)
       const totalBilled = clientTransactions
         .reduce((sum, t) => sum + (t.billed_amount || 0), 0)
 
@@ -513,24 +528,19 @@ export class ExportService {
     
     data.clients.forEach(client => {
       const clientTransactions = data.transactions.filter(t => t.client_id === client.id)
-      const totalReceived = clientTransactions
-        .filter(t => t.transaction_type === 'Received')
-        .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-      const totalDelivered = clientTransactions
-        .filter(t => t.transaction_type === 'Delivered')
-        .reduce((sum, t) => sum + (t.qty_out || 0), 0)
+      const { received: totalReceived, delivered: totalDelivered, balance: totalBalance } = getMovementTotals(clientTransactions)
       const totalBilled = clientTransactions
         .reduce((sum, t) => sum + (t.billed_amount || 0), 0)
 
-      csvContent += `"${client.name}","${client.gst_number || 'N/A'}",${clientTransactions.length},${totalReceived},${totalDelivered},${totalReceived - totalDelivered},${totalBilled}\n`
+      csvContent += `"${client.name}","${client.gst_number || 'N/A'}",${clientTransactions.length},${totalReceived},${totalDelivered},${totalBalance},${totalBilled}\n`
     })
 
     csvContent += '\n\nTRANSACTION DETAILS\n'
-    csvContent += 'Date,Client,DC No,Component,Lot No,Type,Qty In,Qty Out,Work Type,Unit,Rate,Billed Amount\n'
+    csvContent += 'Date,Client,DC No,Component,Lot No,Type,Qty In,Qty Out,Work Type,Unit,SAC,Rate,Billed Amount\n'
     
     data.transactions.forEach(transaction => {
       const client = data.clients.find(c => c.id === transaction.client_id)
-      csvContent += `"${this.formatDate(transaction.date)}","${client?.name || 'Unknown'}","${transaction.dc_no}","${transaction.component}","${transaction.lot_no}","${transaction.transaction_type}","${transaction.qty_in || ''}","${transaction.qty_out || ''}","${transaction.work_type || ''}","${transaction.unit || ''}","${transaction.rate_applied || ''}","${transaction.billed_amount || ''}"\n`
+      csvContent += `"${this.formatDate(transaction.date)}","${client?.name || 'Unknown'}","${transaction.dc_no}","${transaction.component}","${transaction.lot_no}","${transaction.transaction_type}","${transaction.qty_in || ''}","${transaction.qty_out || ''}","${transaction.work_type || ''}","${transaction.unit || ''}","${transaction.sac_code || ''}","${transaction.rate_applied || ''}","${transaction.billed_amount || ''}"\n`
     })
 
     const timestamp = new Date().toISOString().split('T')[0]
@@ -596,13 +606,16 @@ export class ExportService {
   }
 
   private static createBalanceCSV(data: ExportData, options: ExportOptions): { content: string, filename: string } {
-    const headers = ['Component', 'Lot No', 'Total In', 'Total Out', 'Balance']
+    const headers = ['Component', 'Lot No', 'Total In', 'Delivered', 'Rejected', 'Returned Unprocessed', 'Scrapped', 'Balance']
 
     const rows = data.balanceSummary.map(item => [
       item.component,
       item.lot_no,
       item.total_in,
-      item.total_out,
+      item.total_delivered,
+      item.total_rejected,
+      item.total_returned_unprocessed,
+      item.total_scrapped,
       item.balance
     ])
 
@@ -624,7 +637,7 @@ export class ExportService {
     let csvContent = ''
     
     // Header
-    csvContent += 'BRS MANAGEMENT SYSTEM - COMPREHENSIVE REPORT\n'
+    csvContent += `${getReportHeading(data.company)} - COMPREHENSIVE REPORT\n`
     csvContent += `Generated on: ${new Date().toLocaleString('en-IN')}\n\n`
 
     // Client Summary
@@ -633,24 +646,19 @@ export class ExportService {
     
     data.clients.forEach((client, index) => {
       const clientTransactions = data.transactions.filter(t => t.client_id === client.id)
-      const totalReceived = clientTransactions
-        .filter(t => t.transaction_type === 'Received')
-        .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-      const totalDelivered = clientTransactions
-        .filter(t => t.transaction_type === 'Delivered')
-        .reduce((sum, t) => sum + (t.qty_out || 0), 0)
+      const { received: totalReceived, delivered: totalDelivered, balance: totalBalance } = getMovementTotals(clientTransactions)
       const totalBilled = clientTransactions
         .reduce((sum, t) => sum + (t.billed_amount || 0), 0)
 
-      csvContent += `${index + 1},"${client.name}","${client.gst_number || 'N/A'}",${clientTransactions.length},${totalReceived},${totalDelivered},${totalReceived - totalDelivered},${totalBilled}\n`
+      csvContent += `${index + 1},"${client.name}","${client.gst_number || 'N/A'}",${clientTransactions.length},${totalReceived},${totalDelivered},${totalBalance},${totalBilled}\n`
     })
 
     csvContent += '\n\nTRANSACTION DETAILS\n'
-    csvContent += 'S.No,Date,Client,DC No,Component,Lot No,Type,Qty In,Qty Out,Work Type,Unit,Rate,Billed Amount\n'
+    csvContent += 'S.No,Date,Client,DC No,Component,Lot No,Type,Qty In,Qty Out,Work Type,Unit,SAC,Rate,Billed Amount\n'
     
     data.transactions.forEach((transaction, index) => {
       const client = data.clients.find(c => c.id === transaction.client_id)
-      csvContent += `${index + 1},"${this.formatDate(transaction.date)}","${client?.name || 'Unknown'}","${transaction.dc_no}","${transaction.component}","${transaction.lot_no}","${transaction.transaction_type}","${transaction.qty_in || ''}","${transaction.qty_out || ''}","${transaction.work_type || ''}","${transaction.unit || ''}","${transaction.rate_applied || ''}","${transaction.billed_amount || ''}"\n`
+      csvContent += `${index + 1},"${this.formatDate(transaction.date)}","${client?.name || 'Unknown'}","${transaction.dc_no}","${transaction.component}","${transaction.lot_no}","${transaction.transaction_type}","${transaction.qty_in || ''}","${transaction.qty_out || ''}","${transaction.work_type || ''}","${transaction.unit || ''}","${transaction.sac_code || ''}","${transaction.rate_applied || ''}","${transaction.billed_amount || ''}"\n`
     })
 
     const timestamp = new Date().toISOString().split('T')[0]
@@ -664,6 +672,7 @@ export class ExportService {
 
   // PDF Export Methods
   static async exportToPDF(data: ExportData, options: ExportOptions): Promise<void> {
+    data = await this.withCompany(data)
     const doc = new jsPDF()
 
     switch (options.reportType) {
@@ -702,7 +711,7 @@ export class ExportService {
   private static createSummaryPDF(doc: jsPDF, data: ExportData) {
     // Header
     doc.setFontSize(18)
-    doc.text('BRS MANAGEMENT SYSTEM', 20, 20)
+    doc.text(getReportHeading(data.company), 20, 20)
     doc.setFontSize(14)
     doc.text('Client Summary Report', 20, 30)
     doc.setFontSize(10)
@@ -711,12 +720,7 @@ export class ExportService {
     // Prepare table data
     const tableData = data.clients.map(client => {
       const clientTransactions = data.transactions.filter(t => t.client_id === client.id)
-      const totalReceived = clientTransactions
-        .filter(t => t.transaction_type === 'Received')
-        .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-      const totalDelivered = clientTransactions
-        .filter(t => t.transaction_type === 'Delivered')
-        .reduce((sum, t) => sum + (t.qty_out || 0), 0)
+      const { received: totalReceived, delivered: totalDelivered, balance: totalBalance } = getMovementTotals(clientTransactions)
       const totalBilled = clientTransactions
         .reduce((sum, t) => sum + (t.billed_amount || 0), 0)
 
@@ -726,7 +730,7 @@ export class ExportService {
         clientTransactions.length.toString(),
         totalReceived.toString(),
         totalDelivered.toString(),
-        (totalReceived - totalDelivered).toString(),
+        totalBalance.toString(),
         this.formatCurrency(totalBilled)
       ]
     })
@@ -751,7 +755,7 @@ export class ExportService {
 
     // Header
     doc.setFontSize(18)
-    doc.text('BRS MANAGEMENT SYSTEM', 20, 20)
+    doc.text(getReportHeading(data.company), 20, 20)
     doc.setFontSize(14)
     const clientName = options.clientId ? 
       this.getClientName(options.clientId, data.clients) : 
@@ -777,7 +781,13 @@ export class ExportService {
       body: tableData,
       startY: 50,
       styles: { fontSize: 7 },
-      headStyles: { fillColor: [66, 139, 202] }
+      headStyles: { fillColor: [66, 139, 202] },
+      // Tint each row by its movement so rejections and scrap stand out
+      didParseCell: (cell) => {
+        if (cell.section === 'body') {
+          cell.cell.styles.fillColor = TRANSACTION_TYPE_COLORS[transactions[cell.row.index].transaction_type].fill
+        }
+      }
     })
 
     if (transactions.length > 50) {
@@ -789,7 +799,7 @@ export class ExportService {
   private static createDetailedPDF(doc: jsPDF, data: ExportData) {
     // Header
     doc.setFontSize(18)
-    doc.text('BRS MANAGEMENT SYSTEM', 20, 20)
+    doc.text(getReportHeading(data.company), 20, 20)
     doc.setFontSize(14)
     doc.text('Detailed Business Report', 20, 30)
     doc.setFontSize(10)
@@ -820,12 +830,7 @@ export class ExportService {
     // Client Summary Table
     const clientTableData = data.clients.slice(0, 20).map(client => {
       const clientTransactions = data.transactions.filter(t => t.client_id === client.id)
-      const totalReceived = clientTransactions
-        .filter(t => t.transaction_type === 'Received')
-        .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-      const totalDelivered = clientTransactions
-        .filter(t => t.transaction_type === 'Delivered')
-        .reduce((sum, t) => sum + (t.qty_out || 0), 0)
+      const { received: totalReceived, delivered: totalDelivered } = getMovementTotals(clientTransactions)
       const totalBilled = clientTransactions
         .reduce((sum, t) => sum + (t.billed_amount || 0), 0)
 
@@ -881,7 +886,7 @@ export class ExportService {
 
     // Header
     doc.setFontSize(18)
-    doc.text('BRS MANAGEMENT SYSTEM', 20, 20)
+    doc.text(getReportHeading(data.company), 20, 20)
     doc.setFontSize(14)
     doc.text('Component Analysis Report', 20, 30)
     doc.setFontSize(10)
@@ -921,7 +926,7 @@ export class ExportService {
   private static createBalancePDF(doc: jsPDF, data: ExportData, options: ExportOptions) {
     // Header
     doc.setFontSize(18)
-    doc.text('BRS MANAGEMENT SYSTEM', 20, 20)
+    doc.text(getReportHeading(data.company), 20, 20)
     doc.setFontSize(14)
     const clientName = options.clientId ? 
       this.getClientName(options.clientId, data.clients) : 
@@ -937,7 +942,10 @@ export class ExportService {
         item.component,
         item.lot_no,
         item.total_in.toString(),
-        item.total_out.toString(),
+        item.total_delivered.toString(),
+        item.total_rejected.toString(),
+        item.total_returned_unprocessed.toString(),
+        item.total_scrapped.toString(),
         item.balance.toString(),
         status
       ]
@@ -945,7 +953,7 @@ export class ExportService {
 
     // Create table
     autoTable(doc, {
-      head: [['Component', 'Lot No', 'Total In', 'Total Out', 'Balance', 'Status']],
+      head: [['Component', 'Lot No', 'Total In', 'Delivered', 'Rejected', 'Returned', 'Scrapped', 'Balance', 'Status']],
       body: tableData,
       startY: 50,
       styles: { fontSize: 8 },
@@ -961,7 +969,7 @@ export class ExportService {
   private static createTemplatePDF(doc: jsPDF, data: ExportData, options: ExportOptions) {
     // Header
     doc.setFontSize(18)
-    doc.text('BRS MANAGEMENT SYSTEM', 20, 20)
+    doc.text(getReportHeading(data.company), 20, 20)
     doc.setFontSize(14)
     const clientName = options.clientId ? 
       this.getClientName(options.clientId, data.clients) : 
@@ -983,19 +991,14 @@ export class ExportService {
     ).length
     const totalTransactions = data.transactions.length
     const totalBilled = data.transactions.reduce((sum, t) => sum + (t.billed_amount || 0), 0)
-    const totalReceived = data.transactions
-      .filter(t => t.transaction_type === 'Received')
-      .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-    const totalDelivered = data.transactions
-      .filter(t => t.transaction_type === 'Delivered')
-      .reduce((sum, t) => sum + (t.qty_out || 0), 0)
+    const { received: totalReceived, delivered: totalDelivered, balance: totalBalance } = getMovementTotals(data.transactions)
 
     doc.setFontSize(10)
     doc.text(`Total Clients: ${totalClients} (${activeClients} active)`, 20, currentY)
     doc.text(`Total Transactions: ${totalTransactions}`, 20, currentY + 10)
     doc.text(`Total Received: ${totalReceived} units`, 20, currentY + 20)
     doc.text(`Total Delivered: ${totalDelivered} units`, 20, currentY + 30)
-    doc.text(`Current Balance: ${totalReceived - totalDelivered} units`, 20, currentY + 40)
+    doc.text(`Current Balance: ${totalBalance} units`, 20, currentY + 40)
     doc.text(`Total Billed: ${this.formatCurrency(totalBilled)}`, 20, currentY + 50)
 
     currentY += 70
@@ -1054,8 +1057,416 @@ export class ExportService {
         body: transactionTableData,
         startY: 30,
         styles: { fontSize: 8 },
-        headStyles: { fillColor: [66, 139, 202] }
+        headStyles: { fillColor: [66, 139, 202] },
+        didParseCell: (cell) => {
+          if (cell.section === 'body') {
+            cell.cell.styles.fillColor = TRANSACTION_TYPE_COLORS[recentTransactions[cell.row.index].transaction_type].fill
+          }
+        }
       })
     }
   }
-}
\ No newline at end of file
+
+  // Invoice Export Methods
+  private static getInvoiceFilename(invoice: InvoiceDraft, extension: string): string {
+    return `BRS_Invoice_${invoice.invoice_number.replace(/[^a-zA-Z0-9]/g, '_')}.${extension}`
+  }
+
+  // Subtotal, discount, the CGST/SGST or IGST block and the grand total
+  private static getInvoiceTotalRows(invoice: InvoiceDraft): [string, number][] {
+    const rows: [string, number][] = [['Subtotal', invoice.subtotal]]
+
+    if (invoice.discount_amount > 0) {
+      rows.push([`Discount (${invoice.discount_percent}%)`, -invoice.discount_amount])
+    }
+    rows.push(['Taxable Value', invoice.taxable_amount])
+    if (invoice.exempt_amount > 0) {
+      rows.push(['Exempt Value', invoice.exempt_amount])
+    }
+    getTaxLines(invoice).forEach(tax => rows.push([tax.label, tax.amount]))
+    if (invoice.round_off !== 0) {
+      rows.push(['Round Off', invoice.round_off])
+    }
+    rows.push(['Total Amount', invoice.total_amount])
+    if (invoice.tds_amount > 0) {
+      rows.push([getTdsLabel(invoice.tds_rate), -invoice.tds_amount])
+      rows.push(['Net Receivable', invoice.net_receivable])
+    }
+
+    return rows
+  }
+
+  static async exportInvoiceToExcel(invoice: InvoiceDraft): Promise<void> {
+    const workbook = XLSX.utils.book_new()
+    const invoiceData: (string | number)[][] = []
+
+    // Header
+    invoiceData.push([invoice.company_name])
+    invoiceData.push(['GSTIN:', invoice.company_gst])
+    invoiceData.push([])
+    invoiceData.push(['INVOICE', invoice.invoice_number])
+    invoiceData.push(['Date:', this.formatDate(invoice.invoice_date)])
+    invoiceData.push(['Due Date:', this.formatDate(invoice.due_date)])
+    invoiceData.push(['Period:', formatPeriodLabel({ start: invoice.period_start, end: invoice.period_end })])
+    invoiceData.push([])
+    invoiceData.push(['BILL TO:', invoice.client_name])
+    invoiceData.push(['GSTIN:', invoice.client_gst_number || 'Unregistered'])
+    if (invoice.place_of_supply) {
+      invoiceData.push(['Place of Supply:', invoice.place_of_supply])
+    }
+    invoiceData.push([])
+
+    // Lines
+    invoiceData.push(['S.NO', 'DATE', 'DC NO', 'DESCRIPTION', 'SAC', 'QTY', 'WEIGHT (KG)', 'RATE', 'AMOUNT'])
+    invoice.lines.forEach(line => {
+      invoiceData.push([
+        line.line_no,
+        this.formatDate(line.date),
+        line.dc_no || '',
+        getLineDescription(line),
+        line.sac_code || '',
+        line.quantity,
+        line.line_type === 'Charge' ? '' : line.weight_kg || 0,
+        line.rate,
+        line.amount
+      ])
+    })
+    invoiceData.push([])
+
+    // Totals and tax block
+    this.getInvoiceTotalRows(invoice).forEach(([label, amount]) => {
+      invoiceData.push(['', '', '', '', '', '', '', label, amount])
+    })
+    invoiceData.push([])
+
+    // HSN/SAC-wise tax summary
+    invoiceData.push(['SAC', 'TAXABLE VALUE', 'CGST', 'SGST', 'IGST', 'TOTAL TAX'])
+    getHsnSummary(invoice).forEach(row => {
+      invoiceData.push([row.sac_code, row.taxable_amount, row.cgst_amount, row.sgst_amount, row.igst_amount, row.total_tax])
+    })
+
+    const worksheet = XLSX.utils.aoa_to_sheet(invoiceData)
+
+    // Set column widths
+    worksheet['!cols'] = [
+      { width: 16 }, // S.No / labels
+      { width: 18 }, // Date
+      { width: 12 }, // DC No
+      { width: 40 }, // Description
+      { width: 10 }, // SAC
+      { width: 10 }, // Qty
+      { width: 12 }, // Weight
+      { width: 18 }, // Rate / total labels
+      { width: 15 }  // Amount
+    ]
+
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Invoice')
+    XLSX.writeFile(workbook, this.getInvoiceFilename(invoice, 'xlsx'))
+  }
+
+  // Uses the logo from the company profile unless the caller picks one (or null for none)
+  static async exportInvoiceToPDF(invoice: InvoiceDraft, options: InvoicePdfOptions = {}): Promise<void> {
+    const logoUrl = options.logoUrl === undefined
+      ? getCompanyLogoUrl(await this.loadCompanyProfile())
+      : options.logoUrl
+    const doc = await InvoicePdfService.render(invoice, { ...options, logoUrl })
+    doc.save(this.getInvoiceFilename(invoice, 'pdf'))
+  }
+
+  static async exportDeliveryChallanToPDF(challan: DeliveryChallan, options: DeliveryChallanPdfOptions = {}): Promise<void> {
+    const logoUrl = options.logoUrl === undefined
+      ? getCompanyLogoUrl(await this.loadCompanyProfile())
+      : options.logoUrl
+    const doc = await DeliveryChallanPdfService.render(challan, { ...options, logoUrl })
+    doc.save(`BRS_DC_${challan.dc_no.replace(/[^a-zA-Z0-9]/g, '_')}.pdf`)
+  }
+
+  // One row per invoice with its tax split, plus a total row
+  private static createInvoiceSummarySheet(invoices: InvoiceDraft[], title: string): XLSX.WorkSheet {
+    const headers = ['INVOICE NO', 'DATE', 'DUE DATE', 'CLIENT', 'GSTIN', 'PLACE OF SUPPLY', 'LINES', 'TAXABLE', 'CGST', 'SGST', 'IGST', 'TOTAL TAX', 'ROUND OFF', 'TOTAL', 'TDS', 'NET RECEIVABLE']
+    const rows = invoices.map(invoice => [
+      invoice.invoice_number,
+      this.formatDate(invoice.invoice_date),
+      this.formatDate(invoice.due_date),
+      invoice.client_name,
+      invoice.client_gst_number || 'Unregistered',
+      invoice.place_of_supply || '',
+      invoice.lines.length,
+      invoice.taxable_amount,
+      invoice.cgst_amount,
+      invoice.sgst_amount,
+      invoice.igst_amount,
+      invoice.total_tax,
+      invoice.round_off,
+      invoice.total_amount,
+      invoice.tds_amount,
+      invoice.net_receivable
+    ])
+    const sum = (field: 'taxable_amount' | 'cgst_amount' | 'sgst_amount' | 'igst_amount' | 'total_tax' | 'round_off' | 'total_amount' | 'tds_amount' | 'net_receivable') =>
+      roundCurrency(invoices.reduce((total, invoice) => total + invoice[field], 0))
+
+    const sheet = XLSX.utils.aoa_to_sheet([
+      [title],
+      ['Generated on:', new Date().toLocaleString('en-IN')],
+      [],
+      headers,
+      ...rows,
+      [
+        'TOTAL', '', '', `${invoices.length} invoices`, '', '', '',
+        sum('taxable_amount'), sum('cgst_amount'), sum('sgst_amount'), sum('igst_amount'), sum('total_tax'),
+        sum('round_off'), sum('total_amount'), sum('tds_amount'), sum('net_receivable')
+      ]
+    ])
+    sheet['!cols'] = [
+      { width: 18 }, { width: 12 }, { width: 12 }, { width: 30 }, { width: 18 }, { width: 10 }, { width: 8 },
+      { width: 14 }, { width: 12 }, { width: 12 }, { width: 12 }, { width: 12 },
+      { width: 10 }, { width: 14 }, { width: 12 }, { width: 16 }
+    ]
+    return sheet
+  }
+
+  // Month-end run: every invoice as a PDF plus a summary workbook, in one ZIP
+  static async exportInvoicesToZip(invoices: InvoiceDraft[], name: string): Promise<void> {
+    const company = await this.loadCompanyProfile()
+    // Load the logo once rather than once per invoice
+    const logo = await InvoicePdfService.loadImage(getCompanyLogoUrl(company))
+    const zip = new JSZip()
+
+    for (const invoice of invoices) {
+      const doc = await InvoicePdfService.render(invoice, { logoUrl: logo })
+      zip.file(this.getInvoiceFilename(invoice, 'pdf'), doc.output('arraybuffer'))
+    }
+
+    const workbook = XLSX.utils.book_new()
+    const title = `${getReportHeading(company)} - INVOICES ${name.toUpperCase()}`
+    XLSX.utils.book_append_sheet(workbook, this.createInvoiceSummarySheet(invoices, title), 'Summary')
+    zip.file('Summary.xlsx', XLSX.write(workbook, { bookType: 'xlsx', type: 'array' }))
+
+    const blob = await zip.generateAsync({ type: 'blob' })
+    const link = document.createElement('a')
+    const url = URL.createObjectURL(blob)
+    link.setAttribute('href', url)
+    link.setAttribute('download', `BRS_Invoices_${name.replace(/[^a-zA-Z0-9]/g, '_')}.zip`)
+    link.style.visibility = 'hidden'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  // Builds the NIC e-invoice payload and throws if the schema would reject it
+  static checkEInvoice(invoice: InvoiceDraft): EInvoicePayload {
+    const payload = buildEInvoicePayload(invoice)
+    const errors = validateEInvoicePayload(payload)
+
+    if (errors.length > 0) {
+      const summary = errors.slice(0, 3).map(error => `${error.path} ${error.message}`).join('; ')
+      const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : ''
+      throw new ValidationError(`E-invoice JSON is not valid: ${summary}${more}`, 'INVALID_E_INVOICE', errors)
+    }
+
+    return payload
+  }
+
+  // NIC e-invoice JSON for upload to the IRP
+  static async exportInvoiceToEInvoiceJSON(invoice: InvoiceDraft): Promise<void> {
+    const payload = this.checkEInvoice(invoice)
+
+    // The portal accepts a list of documents in one upload
+    const blob = new Blob([JSON.stringify([payload], null, 2)], { type: 'application/json' })
+    const link = document.createElement('a')
+    const url = URL.createObjectURL(blob)
+    link.setAttribute('href', url)
+    link.setAttribute('download', this.getInvoiceFilename(invoice, 'json').replace('BRS_Invoice_', 'BRS_EInvoice_'))
+    link.style.visibility = 'hidden'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  // Receivables Ageing Export Methods
+  private static getAgeingFilename(report: ReceivablesAgeingReport, extension: string): string {
+    return `BRS_Receivables_Ageing_${report.as_of}.${extension}`
+  }
+
+  private static getAgeingHeaders(): string[] {
+    return ['Client', ...AGEING_BUCKETS.map(bucket => bucket === 'Not Due' ? bucket : `${bucket} Days`), 'On Account', 'Outstanding']
+  }
+
+  // One row per client plus the grand total
+  private static getAgeingRows(report: ReceivablesAgeingReport): (string | number)[][] {
+    const rows: (string | number)[][] = report.clients.map(client => [
+      client.client_name,
+      ...AGEING_BUCKETS.map(bucket => client.buckets[bucket]),
+      -client.unallocated,
+      client.outstanding
+    ])
+
+    rows.push([
+      'TOTAL',
+      ...AGEING_BUCKETS.map(bucket => report.totals[bucket]),
+      -report.totals.unallocated,
+      report.totals.outstanding
+    ])
+
+    return rows
+  }
+
+  private static getAgeingInvoiceRows(report: ReceivablesAgeingReport): (string | number)[][] {
+    return report.clients.flatMap(client => client.invoices.map(invoice => [
+      client.client_name,
+      invoice.invoice_number,
+      this.formatDate(invoice.invoice_date),
+      this.formatDate(invoice.due_date),
+      Math.max(invoice.days_overdue, 0),
+      invoice.bucket,
+      invoice.outstanding
+    ]))
+  }
+
+  static async exportAgeingToExcel(report: ReceivablesAgeingReport): Promise<void> {
+    const workbook = XLSX.utils.book_new()
+    const company = await this.loadCompanyProfile()
+
+    const summaryData: (string | number)[][] = []
+    summaryData.push([`${getReportHeading(company)} - RECEIVABLES AGEING`])
+    summaryData.push(['As on:', this.formatDate(report.as_of)])
+    summaryData.push(['Generated on:', new Date().toLocaleString('en-IN')])
+    summaryData.push([])
+    summaryData.push(this.getAgeingHeaders())
+    summaryData.push(...this.getAgeingRows(report))
+
+    const summarySheet = XLSX.utils.aoa_to_sheet(summaryData)
+    summarySheet['!cols'] = [{ width: 30 }, ...AGEING_BUCKETS.map(() => ({ width: 14 })), { width: 14 }, { width: 16 }]
+    XLSX.utils.book_append_sheet(workbook, summarySheet, 'Ageing Summary')
+
+    const invoiceData: (string | number)[][] = [
+      ['CLIENT', 'INVOICE NO', 'INVOICE DATE', 'DUE DATE', 'DAYS OVERDUE', 'BUCKET', 'OUTSTANDING'],
+      ...this.getAgeingInvoiceRows(report)
+    ]
+
+    const invoiceSheet = XLSX.utils.aoa_to_sheet(invoiceData)
+    invoiceSheet['!cols'] = [
+      { width: 30 }, // Client
+      { width: 18 }, // Invoice No
+      { width: 14 }, // Invoice Date
+      { width: 14 }, // Due Date
+      { width: 14 }, // Days Overdue
+      { width: 10 }, // Bucket
+      { width: 16 }  // Outstanding
+    ]
+    XLSX.utils.book_append_sheet(workbook, invoiceSheet, 'Open Invoices')
+
+    XLSX.writeFile(workbook, this.getAgeingFilename(report, 'xlsx'))
+  }
+
+  static async exportAgeingToCSV(report: ReceivablesAgeingReport): Promise<void> {
+    const csvContent = [this.getAgeingHeaders(), ...this.getAgeingRows(report)]
+      .map(row => row.map(field => `"${field}"`).join(','))
+      .join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+    const link = document.createElement('a')
+    const url = URL.createObjectURL(blob)
+    link.setAttribute('href', url)
+    link.setAttribute('download', this.getAgeingFilename(report, 'csv'))
+    link.style.visibility = 'hidden'
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  static async exportAgeingToPDF(report: ReceivablesAgeingReport): Promise<void> {
+    const doc = new jsPDF({ orientation: 'landscape' })
+    const company = await this.loadCompanyProfile()
+
+    // Header
+    doc.setFontSize(18)
+    doc.text(getReportHeading(company), 20, 20)
+    doc.setFontSize(14)
+    doc.text(`Receivables Ageing as on ${this.formatDate(report.as_of)}`, 20, 30)
+    doc.setFontSize(10)
+    doc.text(`Generated on: ${new Date().toLocaleString('en-IN')}`, 20, 40)
+
+    const rows = this.getAgeingRows(report).map(row =>
+      row.map((field, index) => index === 0 ? String(field) : this.formatCurrency(Number(field)))
+    )
+
+    autoTable(doc, {
+      head: [this.getAgeingHeaders()],
+      body: rows,
+      startY: 50,
+      styles: { fontSize: 8 },
+      headStyles: { fillColor: [66, 139, 202] },
+      columnStyles: Object.fromEntries(
+        Array.from({ length: AGEING_BUCKETS.length + 2 }, (_, index) => [index + 1, { halign: 'right' as const }])
+      ),
+      didParseCell: (cell) => {
+        if (cell.section === 'body' && cell.row.index === rows.length - 1) {
+          cell.cell.styles.fontStyle = 'bold'
+        }
+      }
+    })
+
+    const invoiceRows = this.getAgeingInvoiceRows(report)
+    if (invoiceRows.length > 0) {
+      const finalY = (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY || 50
+
+      autoTable(doc, {
+        head: [['Client', 'Invoice No', 'Invoice Date', 'Due Date', 'Days Overdue', 'Bucket', 'Outstanding']],
+        body: invoiceRows.map(row => row.map((field, index) => index === 6 ? this.formatCurrency(Number(field)) : String(field))),
+        startY: finalY + 10,
+        styles: { fontSize: 8 },
+        headStyles: { fillColor: [66, 139, 202] },
+        columnStyles: { 4: { halign: 'right' }, 6: { halign: 'right' } }
+      })
+    }
+
+    doc.save(this.getAgeingFilename(report, 'pdf'))
+  }
+
+  // Weight reconciliation for one client, flagged lots marked in the last column
+  static async exportWeightReconciliationToExcel(report: WeightReconciliationReport, clientName: string): Promise<void> {
+    const workbook = XLSX.utils.book_new()
+    const company = await this.loadCompanyProfile()
+
+    const sheetData: (string | number)[][] = []
+    sheetData.push([`${getReportHeading(company)} - WEIGHT RECONCILIATION`])
+    sheetData.push(['Client:', clientName])
+    sheetData.push(['Generated on:', new Date().toLocaleString('en-IN')])
+    sheetData.push([])
+    sheetData.push(['COMPONENT', 'LOT NO', 'RECEIVED (KG)', 'DELIVERED (KG)', 'LOSS %', 'TOLERANCE %', 'STATUS'])
+
+    report.lots.forEach(lot => {
+      sheetData.push([
+        lot.component,
+        lot.lot_no,
+        lot.received_kg,
+        lot.delivered_kg,
+        lot.weight_loss_percent ?? '',
+        lot.tolerance_percent,
+        lot.weight_loss_percent === null ? 'Not weighed' : lot.exceeds_tolerance ? 'Over tolerance' : 'Within tolerance'
+      ])
+    })
+
+    sheetData.push([])
+    sheetData.push(['TOTAL', '', report.received_kg, report.delivered_kg, '', '', `${report.flagged_count} over tolerance`])
+
+    const worksheet = XLSX.utils.aoa_to_sheet(sheetData)
+    worksheet['!cols'] = [
+      { width: 25 }, // Component
+      { width: 15 }, // Lot No
+      { width: 15 }, // Received
+      { width: 15 }, // Delivered
+      { width: 10 }, // Loss
+      { width: 12 }, // Tolerance
+      { width: 18 }  // Status
+    ]
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Weight Reconciliation')
+
+    const timestamp = new Date().toISOString().split('T')[0]
+    XLSX.writeFile(workbook, `BRS_Weight_Reconciliation_${clientName.replace(/[^a-zA-Z0-9]/g, '_')}_${timestamp}.xlsx`)
+  }
+}
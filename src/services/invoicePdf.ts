@@ -0,0 +1,463 @@
+import jsPDF from 'jspdf'
+import autoTable, { type RowInput } from 'jspdf-autotable'
+import { DEFAULT_LOGO_URL, formatPeriodLabel, getHsnSummary, getLineDescription, getTaxLines, getTdsLabel, getWorkTypeLabel, type HsnSummaryRow } from '../lib/billing'
+import { amountInWords } from '../lib/amountInWords'
+import type { InvoiceDraft } from '../types'
+
+export interface InvoicePdfOptions {
+  title?: string
+  // Printed as "Against" in place of the due date and period (credit / debit notes)
+  reference?: string
+  // Image URL or data URL; null leaves the logo out
+  logoUrl?: string | null
+}
+
+type AutoTableDoc = jsPDF & { lastAutoTable?: { finalY: number } }
+
+const PAGE_MARGIN = 14
+const HEADER_COLOR: [number, number, number] = [66, 139, 202]
+const TEXT_MUTED: [number, number, number] = [90, 90, 90]
+
+export class InvoicePdfService {
+  // The standard PDF fonts have no rupee glyph, so amounts print as plain numbers
+  private static formatAmount(amount: number): string {
+    return amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  }
+
+  private static formatMoney(amount: number, currency: string): string {
+    return `${currency === 'INR' ? 'Rs.' : currency} ${this.formatAmount(amount)}`
+  }
+
+  private static formatDate(date: string): string {
+    return new Date(date).toLocaleDateString('en-IN', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric'
+    })
+  }
+
+  private static getFinalY(doc: jsPDF, fallback: number): number {
+    return (doc as AutoTableDoc).lastAutoTable?.finalY ?? fallback
+  }
+
+  // Starts a new page when the next block would run into the footer
+  private static ensureSpace(doc: jsPDF, y: number, height: number): number {
+    const pageHeight = doc.internal.pageSize.getHeight()
+    if (y + height > pageHeight - 20) {
+      doc.addPage()
+      return PAGE_MARGIN + 6
+    }
+    return y
+  }
+
+  private static sectionTitle(doc: jsPDF, text: string, y: number): number {
+    const pageWidth = doc.internal.pageSize.getWidth()
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(10)
+    doc.setTextColor(0)
+    doc.text(text, PAGE_MARGIN, y)
+    doc.setDrawColor(200)
+    doc.line(PAGE_MARGIN, y + 1.5, pageWidth - PAGE_MARGIN, y + 1.5)
+    doc.setFont('helvetica', 'normal')
+    return y + 7
+  }
+
+  static async loadImage(url: string): Promise<string | null> {
+    if (url.startsWith('data:')) return url
+
+    try {
+      const response = await fetch(url)
+      if (!response.ok) return null
+      const blob = await response.blob()
+
+      return await new Promise<string | null>(resolve => {
+        const reader = new FileReader()
+        reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null)
+        reader.onerror = () => resolve(null)
+        reader.readAsDataURL(blob)
+      })
+    } catch {
+      // A missing logo should never block the invoice itself
+      return null
+    }
+  }
+
+  private static drawHeader(doc: jsPDF, invoice: InvoiceDraft, options: InvoicePdfOptions, logo: string | null): number {
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const right = pageWidth - PAGE_MARGIN
+    let textX = PAGE_MARGIN
+
+    if (logo) {
+      try {
+        doc.addImage(logo, PAGE_MARGIN, PAGE_MARGIN, 20, 20)
+        textX = PAGE_MARGIN + 24
+      } catch {
+        // Unsupported image formats are skipped
+      }
+    }
+
+    // Company block
+    doc.setTextColor(0)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(15)
+    const nameLines: string[] = doc.splitTextToSize(invoice.company_name, 105 - (textX - PAGE_MARGIN))
+    doc.text(nameLines, textX, PAGE_MARGIN + 5)
+    let leftY = PAGE_MARGIN + 5 + nameLines.length * 6
+
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8.5)
+    doc.setTextColor(...TEXT_MUTED)
+    const companyDetails = [
+      invoice.company_address,
+      `GSTIN: ${invoice.company_gst}`,
+      `Phone: ${invoice.company_phone}`,
+      `Email: ${invoice.company_email}`
+    ].filter(Boolean)
+    companyDetails.forEach(detail => {
+      const lines: string[] = doc.splitTextToSize(detail, 105 - (textX - PAGE_MARGIN))
+      doc.text(lines, textX, leftY)
+      leftY += lines.length * 4
+    })
+
+    // Document block
+    doc.setTextColor(0)
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(16)
+    doc.text(options.title || 'INVOICE', right, PAGE_MARGIN + 5, { align: 'right' })
+
+    doc.setFontSize(9)
+    const details: [string, string][] = [
+      [options.reference ? 'Number' : 'Invoice #', invoice.invoice_number],
+      ['Date', this.formatDate(invoice.invoice_date)]
+    ]
+    if (options.reference) {
+      details.push(['Against', options.reference])
+    } else {
+      details.push(['Due Date', this.formatDate(invoice.due_date)])
+      details.push(['Period', formatPeriodLabel({ start: invoice.period_start, end: invoice.period_end })])
+    }
+
+    let rightY = PAGE_MARGIN + 12
+    details.forEach(([label, value]) => {
+      doc.setFont('helvetica', 'normal')
+      doc.text(value, right, rightY, { align: 'right' })
+      doc.setFont('helvetica', 'bold')
+      doc.text(`${label}:`, right - doc.getTextWidth(value) - 2, rightY, { align: 'right' })
+      rightY += 5
+    })
+
+    if (invoice.status === 'Cancelled') {
+      doc.setTextColor(220, 38, 38)
+      doc.text('CANCELLED', right, rightY, { align: 'right' })
+      doc.setTextColor(0)
+      rightY += 5
+    }
+
+    const y = Math.max(leftY, rightY, logo ? PAGE_MARGIN + 22 : 0) + 2
+    doc.setDrawColor(30)
+    doc.setLineWidth(0.6)
+    doc.line(PAGE_MARGIN, y, right, y)
+    doc.setLineWidth(0.2)
+
+    return y + 7
+  }
+
+  private static drawParties(doc: jsPDF, invoice: InvoiceDraft, y: number): number {
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const columnX = pageWidth / 2 + 4
+    const columnWidth = pageWidth / 2 - PAGE_MARGIN - 4
+
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(10)
+    doc.setTextColor(0)
+    doc.text('BILL TO:', PAGE_MARGIN, y)
+
+    doc.setFontSize(11)
+    const clientLines: string[] = doc.splitTextToSize(invoice.client_name, columnWidth)
+    doc.text(clientLines, PAGE_MARGIN, y + 6)
+    let leftY = y + 6 + clientLines.length * 5
+
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(8.5)
+    const clientDetails = [
+      invoice.client_gst_number ? `GSTIN: ${invoice.client_gst_number}` : 'GSTIN: Unregistered',
+      invoice.place_of_supply ? `Place of Supply: ${invoice.place_of_supply}` : '',
+      invoice.client_address ? `Address: ${invoice.client_address}` : ''
+    ].filter(Boolean)
+    clientDetails.forEach(detail => {
+      const lines: string[] = doc.splitTextToSize(detail, columnWidth)
+      doc.text(lines, PAGE_MARGIN, leftY)
+      leftY += lines.length * 4
+    })
+
+    let rightY = y
+    if (invoice.template !== 'minimal') {
+      const transactionLines = invoice.lines.filter(line => line.line_type !== 'Charge')
+      const totalQuantity = transactionLines.reduce((sum, line) => sum + line.quantity, 0)
+      const totalWeight = invoice.lines.reduce((sum, line) => sum + (line.weight_kg || 0), 0)
+
+      doc.setFont('helvetica', 'bold')
+      doc.setFontSize(10)
+      doc.text('INVOICE SUMMARY:', columnX, y)
+      doc.setFont('helvetica', 'normal')
+      doc.setFontSize(8.5)
+
+      const summary: [string, string][] = [
+        ['Total Transactions', transactionLines.length.toString()],
+        ['Total Quantity', `${totalQuantity.toLocaleString('en-IN')} units`],
+        ['Total Weight', `${totalWeight.toLocaleString('en-IN')} kg`]
+      ]
+      rightY = y + 6
+      summary.forEach(([label, value]) => {
+        doc.text(`${label}:`, columnX, rightY)
+        doc.text(value, pageWidth - PAGE_MARGIN, rightY, { align: 'right' })
+        rightY += 5
+      })
+    }
+
+    return Math.max(leftY, rightY) + 4
+  }
+
+  private static drawLines(doc: jsPDF, invoice: InvoiceDraft, y: number, headerBottom: number): number {
+    const standardHead = ['Date', 'Description', 'SAC', 'Qty', 'Weight (kg)', 'Rate', 'Amount']
+    const detailedHead = ['#', 'Date', 'DC No', 'Component', 'Lot No', 'Work', 'SAC', 'Unit', 'Qty', 'Weight (kg)', 'Rate', 'Amount']
+
+    const body: RowInput[] = invoice.lines.map(line => invoice.template === 'detailed'
+      ? [
+        line.line_no.toString(),
+        this.formatDate(line.date),
+        line.dc_no || '-',
+        getLineDescription({ description: line.component, tax_treatment: line.tax_treatment }),
+        line.lot_no || '-',
+        line.work_type ? getWorkTypeLabel(line.work_type) : '-',
+        line.sac_code || '-',
+        line.unit || '-',
+        line.quantity.toLocaleString('en-IN'),
+        line.line_type === 'Charge' ? '-' : (line.weight_kg || 0).toFixed(2),
+        this.formatAmount(line.rate),
+        this.formatAmount(line.amount)
+      ]
+      : [
+        this.formatDate(line.date),
+        getLineDescription(line),
+        line.sac_code || '-',
+        line.quantity.toLocaleString('en-IN'),
+        line.line_type === 'Charge' ? '-' : (line.weight_kg || 0).toFixed(2),
+        this.formatAmount(line.rate),
+        this.formatAmount(line.amount)
+      ])
+
+    const amountColumns = invoice.template === 'detailed' ? [8, 9, 10, 11] : [3, 4, 5, 6]
+
+    y = this.sectionTitle(doc, 'TRANSACTION DETAILS:', y)
+
+    autoTable(doc, {
+      head: [invoice.template === 'detailed' ? detailedHead : standardHead],
+      body,
+      startY: y,
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN, top: headerBottom, bottom: 20 },
+      showHead: 'everyPage',
+      rowPageBreak: 'avoid',
+      styles: { fontSize: invoice.template === 'detailed' ? 7 : 8, cellPadding: 1.5 },
+      headStyles: { fillColor: HEADER_COLOR },
+      columnStyles: Object.fromEntries(amountColumns.map(column => [column, { halign: 'right' as const }]))
+    })
+
+    return this.getFinalY(doc, y) + 6
+  }
+
+  private static drawTotals(doc: jsPDF, invoice: InvoiceDraft, y: number): number {
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const rows: [string, string][] = [['Subtotal', this.formatMoney(invoice.subtotal, invoice.currency)]]
+
+    if (invoice.discount_percent > 0) {
+      rows.push([`Discount (${invoice.discount_percent}%)`, `-${this.formatMoney(invoice.discount_amount, invoice.currency)}`])
+    }
+    rows.push(['Taxable Value', this.formatMoney(invoice.taxable_amount, invoice.currency)])
+    if (invoice.exempt_amount > 0) {
+      rows.push(['Exempt Value', this.formatMoney(invoice.exempt_amount, invoice.currency)])
+    }
+    getTaxLines(invoice).forEach(tax => rows.push([tax.label, this.formatMoney(tax.amount, invoice.currency)]))
+    if (invoice.round_off !== 0) {
+      rows.push(['Round Off', `${invoice.round_off < 0 ? '-' : '+'}${this.formatMoney(Math.abs(invoice.round_off), invoice.currency)}`])
+    }
+
+    // Expected TDS is shown after the total; it does not change the invoice value
+    const tdsRows: [string, string][] = invoice.tds_amount > 0
+      ? [
+          [getTdsLabel(invoice.tds_rate), `-${this.formatMoney(invoice.tds_amount, invoice.currency)}`],
+          ['Net Receivable', this.formatMoney(invoice.net_receivable, invoice.currency)]
+        ]
+      : []
+
+    y = this.ensureSpace(doc, y, (rows.length + tdsRows.length) * 6 + 10)
+
+    autoTable(doc, {
+      body: [
+        ...rows,
+        [
+          { content: 'Total Amount', styles: { fontStyle: 'bold', fontSize: 10 } },
+          { content: this.formatMoney(invoice.total_amount, invoice.currency), styles: { fontStyle: 'bold', fontSize: 10 } }
+        ],
+        ...tdsRows
+      ],
+      startY: y,
+      margin: { left: pageWidth - PAGE_MARGIN - 85, right: PAGE_MARGIN },
+      tableWidth: 85,
+      styles: { fontSize: 8.5, cellPadding: 1.5, fillColor: [245, 245, 245] },
+      columnStyles: { 1: { halign: 'right' } },
+      theme: 'plain',
+      pageBreak: 'avoid'
+    })
+
+    y = this.getFinalY(doc, y) + 5
+    doc.setFont('helvetica', 'bolditalic')
+    doc.setFontSize(8.5)
+    const words: string[] = doc.splitTextToSize(
+      `Amount in words: ${amountInWords(invoice.total_amount, invoice.currency)}`,
+      pageWidth - PAGE_MARGIN * 2
+    )
+    y = this.ensureSpace(doc, y, words.length * 4)
+    doc.text(words, PAGE_MARGIN, y)
+    doc.setFont('helvetica', 'normal')
+
+    return y + words.length * 4 + 4
+  }
+
+  // Taxable value and GST per SAC code, as required on the face of a tax invoice
+  private static drawTaxSummary(doc: jsPDF, invoice: InvoiceDraft, y: number): number {
+    const rows = getHsnSummary(invoice)
+    if (rows.length === 0) return y
+
+    const interState = invoice.igst_rate > 0
+    const taxColumns = (row: Pick<HsnSummaryRow, 'cgst_amount' | 'sgst_amount' | 'igst_amount'>) => interState
+      ? [this.formatAmount(row.igst_amount)]
+      : [this.formatAmount(row.cgst_amount), this.formatAmount(row.sgst_amount)]
+
+    y = this.ensureSpace(doc, y, 18 + rows.length * 6)
+    y = this.sectionTitle(doc, 'HSN/SAC-WISE TAX SUMMARY:', y)
+
+    autoTable(doc, {
+      head: [['SAC', 'Taxable Value', ...getTaxLines(invoice).map(tax => tax.label), 'Total Tax']],
+      body: [
+        ...rows.map(row => [row.sac_code, this.formatAmount(row.taxable_amount), ...taxColumns(row), this.formatAmount(row.total_tax)]),
+        [
+          { content: 'Total', styles: { fontStyle: 'bold' } },
+          { content: this.formatAmount(invoice.taxable_amount), styles: { fontStyle: 'bold' } },
+          ...taxColumns(invoice).map(content => ({ content, styles: { fontStyle: 'bold' as const } })),
+          { content: this.formatAmount(invoice.total_tax), styles: { fontStyle: 'bold' } }
+        ]
+      ],
+      startY: y,
+      margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+      styles: { fontSize: 8, cellPadding: 1.5, halign: 'right' },
+      headStyles: { fillColor: [230, 230, 230], textColor: 0, halign: 'right' },
+      columnStyles: { 0: { halign: 'left' } },
+      pageBreak: 'avoid'
+    })
+
+    return this.getFinalY(doc, y) + 6
+  }
+
+  private static drawBankAndNotes(doc: jsPDF, invoice: InvoiceDraft, y: number): number {
+    const pageWidth = doc.internal.pageSize.getWidth()
+
+    if (invoice.bank_name) {
+      y = this.ensureSpace(doc, y, 20)
+      y = this.sectionTitle(doc, 'BANK DETAILS:', y)
+      doc.setFontSize(8.5)
+
+      const columnWidth = (pageWidth - PAGE_MARGIN * 2) / 3
+      const bank: [string, string][] = [
+        ['Bank Name', invoice.bank_name],
+        ['Account Number', invoice.account_number || '-'],
+        ['IFSC Code', invoice.ifsc_code || '-']
+      ]
+      bank.forEach(([label, value], index) => {
+        const x = PAGE_MARGIN + index * columnWidth
+        doc.setFont('helvetica', 'bold')
+        doc.text(`${label}:`, x, y)
+        doc.setFont('helvetica', 'normal')
+        doc.text(value, x, y + 4.5)
+      })
+      y += 12
+    }
+
+    if (invoice.notes) {
+      doc.setFontSize(8.5)
+      const noteLines: string[] = doc.splitTextToSize(invoice.notes, pageWidth - PAGE_MARGIN * 2)
+      y = this.ensureSpace(doc, y, noteLines.length * 4 + 10)
+      y = this.sectionTitle(doc, 'NOTES:', y)
+      doc.setFontSize(8.5)
+      doc.setTextColor(...TEXT_MUTED)
+      doc.text(noteLines, PAGE_MARGIN, y)
+      doc.setTextColor(0)
+      y += noteLines.length * 4 + 4
+    }
+
+    return y
+  }
+
+  private static drawClosing(doc: jsPDF, invoice: InvoiceDraft, y: number): void {
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const right = pageWidth - PAGE_MARGIN
+
+    y = this.ensureSpace(doc, y, 28)
+    doc.setDrawColor(200)
+    doc.line(PAGE_MARGIN, y, right, y)
+    y += 6
+
+    doc.setFontSize(8.5)
+    doc.setFont('helvetica', 'bold')
+    doc.text(`Payment Terms: ${invoice.payment_terms}`, PAGE_MARGIN, y)
+    doc.setFont('helvetica', 'normal')
+    doc.setTextColor(...TEXT_MUTED)
+    doc.text(`For ${invoice.company_name}`, right, y, { align: 'right' })
+
+    // Signature line
+    doc.setDrawColor(120)
+    doc.line(right - 50, y + 16, right, y + 16)
+    doc.setFontSize(7.5)
+    doc.text('Authorized Signature', right, y + 20, { align: 'right' })
+    doc.setTextColor(0)
+  }
+
+  private static drawFooters(doc: jsPDF, invoice: InvoiceDraft): void {
+    const pageCount = doc.getNumberOfPages()
+    const pageWidth = doc.internal.pageSize.getWidth()
+    const pageHeight = doc.internal.pageSize.getHeight()
+
+    for (let page = 1; page <= pageCount; page++) {
+      doc.setPage(page)
+      doc.setFontSize(7.5)
+      doc.setTextColor(...TEXT_MUTED)
+      doc.text(invoice.invoice_number, PAGE_MARGIN, pageHeight - 10)
+      doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, pageHeight - 10, { align: 'right' })
+      doc.setTextColor(0)
+    }
+  }
+
+  // Renders the invoice in the layout of the on-screen preview for its template
+  static async render(invoice: InvoiceDraft, options: InvoicePdfOptions = {}): Promise<jsPDF> {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' })
+    const logoUrl = options.logoUrl === undefined ? DEFAULT_LOGO_URL : options.logoUrl
+    const logo = logoUrl ? await this.loadImage(logoUrl) : null
+
+    let y = this.drawHeader(doc, invoice, options, logo)
+    y = this.drawParties(doc, invoice, y)
+
+    if (invoice.template !== 'minimal' && invoice.lines.length > 0) {
+      y = this.drawLines(doc, invoice, y, PAGE_MARGIN + 6)
+    }
+
+    y = this.drawTotals(doc, invoice, y)
+
+    y = this.drawTaxSummary(doc, invoice, y)
+
+    y = this.drawBankAndNotes(doc, invoice, y)
+    this.drawClosing(doc, invoice, y)
+    this.drawFooters(doc, invoice)
+
+    return doc
+  }
+}
@@ -0,0 +1,135 @@
+import { supabase } from '../lib/supabase'
+import { INVOICE_SERIES } from '../lib/billing'
+import { formatDocumentNumber } from '../lib/financialYear'
+import { getErrorMessage } from '../lib/errorHandling'
+import type { Invoice, InvoiceBatchResult, InvoiceDraft, InvoiceNumberingReport, InvoiceWithLines } from '../types'
+
+export const invoicesService = {
+  async getAll(): Promise<Invoice[]> {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .order('invoice_date', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  },
+
+  async getByClientId(clientId: string): Promise<Invoice[]> {
+    const { data, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('invoice_date', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  },
+
+  async getById(id: string): Promise<InvoiceWithLines> {
+    const { data: invoice, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (error) throw error
+
+    const { data: lines, error: linesError } = await supabase
+      .from('invoice_lines')
+      .select('*')
+      .eq('invoice_id', id)
+      .order('line_no')
+
+    if (linesError) throw linesError
+    return { ...invoice, lines: lines || [] }
+  },
+
+  // Stores the invoice and its lines in one database transaction, which also
+  // allocates the next gapless number for the invoice's financial year
+  async create(draft: InvoiceDraft): Promise<Invoice> {
+    const { lines, ...invoiceData } = draft
+
+    const { data, error } = await supabase
+      .rpc('finalize_invoice', {
+        p_invoice: invoiceData,
+        p_lines: lines,
+        p_series: INVOICE_SERIES
+      })
+
+    if (error) throw error
+    return data
+  },
+
+  // Issues the invoices one after another so they are numbered in the order
+  // given. A failed invoice is reported against its client and the run continues.
+  async createMany(drafts: InvoiceDraft[]): Promise<InvoiceBatchResult> {
+    const result: InvoiceBatchResult = { created: [], failed: [] }
+
+    for (const draft of drafts) {
+      try {
+        const invoice = await this.create(draft)
+        result.created.push({ ...invoice, lines: draft.lines })
+      } catch (error) {
+        result.failed.push({ client_id: draft.client_id, client_name: draft.client_name, error: getErrorMessage(error) })
+      }
+    }
+
+    return result
+  },
+
+  // Cancelled invoices keep their number so the sequence stays gapless
+  async cancel(id: string): Promise<Invoice> {
+    const { data, error } = await supabase
+      .from('invoices')
+      .update({ status: 'Cancelled', cancelled_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'Issued')
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  async getNumberingReport(financialYear: string, series = INVOICE_SERIES): Promise<InvoiceNumberingReport> {
+    const { data: sequence, error: sequenceError } = await supabase
+      .from('number_sequences')
+      .select('*')
+      .eq('series', series)
+      .eq('financial_year', financialYear)
+      .maybeSingle()
+
+    if (sequenceError) throw sequenceError
+
+    const { data: invoices, error } = await supabase
+      .from('invoices')
+      .select('*')
+      .eq('series', series)
+      .eq('financial_year', financialYear)
+      .order('sequence_number')
+
+    if (error) throw error
+
+    const lastNumber = sequence?.last_number || 0
+    const usedNumbers = new Set((invoices || []).map(invoice => invoice.sequence_number))
+    const missingNumbers: string[] = []
+
+    for (let number = 1; number <= lastNumber; number++) {
+      if (!usedNumbers.has(number)) {
+        missingNumbers.push(formatDocumentNumber(series, financialYear, number))
+      }
+    }
+
+    return {
+      series,
+      financial_year: financialYear,
+      last_number: lastNumber,
+      issued_count: (invoices || []).filter(invoice => invoice.status === 'Issued').length,
+      cancelled: (invoices || []).filter(invoice => invoice.status === 'Cancelled'),
+      missing_numbers: missingNumbers
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { supabase } from '../lib/supabase'
+import { ValidationError } from '../lib/errorHandling'
+import type { LotStageMove, LotStageMoveInput } from '../types'
+
+export const lotStagesService = {
+  async getByClientId(clientId: string): Promise<LotStageMove[]> {
+    const { data, error } = await supabase
+      .from('lot_stage_moves')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('created_at', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  },
+
+  // Pieces can only leave a stage they are actually sitting in; the database
+  // checks this against the locked lot (see check_lot_stage_move)
+  async move(input: LotStageMoveInput): Promise<LotStageMove> {
+    if (!(input.quantity > 0)) {
+      throw new ValidationError('Quantity must be greater than 0', 'INVALID_QUANTITY')
+    }
+    if ((input.from_stage ?? 'Not Started') === input.to_stage) {
+      throw new ValidationError('Pick a different stage to move to', 'SAME_STAGE')
+    }
+
+    const { data, error } = await supabase
+      .from('lot_stage_moves')
+      .insert(input)
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  }
+}
@@ -0,0 +1,107 @@
+import { supabase } from '../lib/supabase'
+import { buildAgeingReport, buildClientAccount } from '../lib/receivables'
+import type { ClientAccount, Payment, PaymentDraft, ReceivablesAgeingReport } from '../types'
+
+export const paymentsService = {
+  async getByClientId(clientId: string): Promise<Payment[]> {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('client_id', clientId)
+      .order('payment_date', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  },
+
+  // Stores the payment and its invoice allocations in one transaction
+  async create(draft: PaymentDraft): Promise<Payment> {
+    const { allocations, ...paymentData } = draft
+
+    const { data, error } = await supabase
+      .rpc('record_payment', {
+        p_payment: paymentData,
+        p_allocations: allocations
+      })
+
+    if (error) throw error
+    return data
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('payments')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  },
+
+  // Invoices, notes and payments of a client rolled up into a ledger
+  async getClientAccount(clientId: string): Promise<ClientAccount> {
+    const [invoicesResult, notesResult, paymentsResult] = await Promise.all([
+      supabase.from('invoices').select('*').eq('client_id', clientId),
+      supabase.from('adjustment_notes').select('*').eq('client_id', clientId),
+      supabase.from('payments').select('*').eq('client_id', clientId)
+    ])
+
+    if (invoicesResult.error) throw invoicesResult.error
+    if (notesResult.error) throw notesResult.error
+    if (paymentsResult.error) throw paymentsResult.error
+
+    const payments = paymentsResult.data || []
+    let allocations: ClientAccount['payments'][number]['allocations'] = []
+
+    if (payments.length > 0) {
+      const { data, error } = await supabase
+        .from('payment_allocations')
+        .select('*')
+        .in('payment_id', payments.map(payment => payment.id))
+
+      if (error) throw error
+      allocations = data || []
+    }
+
+    return buildClientAccount(invoicesResult.data || [], notesResult.data || [], payments, allocations)
+  },
+
+  // Open invoices of every client bucketed by days past due
+  async getAgeingReport(asOf: string): Promise<ReceivablesAgeingReport> {
+    const [clientsResult, invoicesResult, notesResult, paymentsResult, allocationsResult] = await Promise.all([
+      supabase.from('clients').select('id, name').order('name'),
+      supabase.from('invoices').select('*').lte('invoice_date', asOf),
+      supabase.from('adjustment_notes').select('*').lte('note_date', asOf),
+      supabase.from('payments').select('*').lte('payment_date', asOf),
+      supabase.from('payment_allocations').select('*')
+    ])
+
+    if (clientsResult.error) throw clientsResult.error
+    if (invoicesResult.error) throw invoicesResult.error
+    if (notesResult.error) throw notesResult.error
+    if (paymentsResult.error) throw paymentsResult.error
+    if (allocationsResult.error) throw allocationsResult.error
+
+    const invoices = invoicesResult.data || []
+    const notes = notesResult.data || []
+    const payments = paymentsResult.data || []
+    const paymentIds = new Set(payments.map(payment => payment.id))
+    const allocations = (allocationsResult.data || []).filter(allocation => paymentIds.has(allocation.payment_id))
+
+    const accounts = (clientsResult.data || []).map(client => {
+      const clientPayments = payments.filter(payment => payment.client_id === client.id)
+      const clientPaymentIds = new Set(clientPayments.map(payment => payment.id))
+
+      return {
+        client,
+        account: buildClientAccount(
+          invoices.filter(invoice => invoice.client_id === client.id),
+          notes.filter(note => note.client_id === client.id),
+          clientPayments,
+          allocations.filter(allocation => clientPaymentIds.has(allocation.payment_id))
+        )
+      }
+    })
+
+    return buildAgeingReport(accounts, asOf)
+  }
+}
@@ -1,11 +1,48 @@
 import { supabase } from '../lib/supabase'
-import type { Rate, WorkType, Unit } from '../types'
+import { getDefaultSacCode, isValidSacCode } from '../lib/billing'
+import { ValidationError } from '../lib/errorHandling'
+import type { Rate, RateInput, RateLookup, WorkType, Unit } from '../types'
+
+function assertValidSacCode(code: string | null | undefined) {
+  if (code && !isValidSacCode(code)) {
+    throw new ValidationError('SAC/HSN code must be 4, 6 or 8 digits', 'INVALID_SAC_CODE')
+  }
+}
+
+// The version of a rate in force on the given date
+async function findRateVersion(
+  clientId: string | null,
+  component: string,
+  workType: WorkType,
+  unit: Unit,
+  date: string
+): Promise<RateLookup | null> {
+  let query = supabase
+    .from('rates')
+    .select('rate, sac_code')
+    .eq('component', component)
+    .eq('work_type', workType)
+    .eq('unit', unit)
+    .lte('effective_from', date)
+    .or(`effective_to.is.null,effective_to.gte.${date}`)
+
+  query = clientId ? query.eq('client_id', clientId) : query.is('client_id', null)
+
+  const { data } = await query
+    .order('effective_from', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return data
+}
 
 export const ratesService = {
+  // Current version of every rate; earlier versions are in getHistory
   async getAll(): Promise<Rate[]> {
     const { data, error } = await supabase
       .from('rates')
       .select('*')
+      .is('effective_to', null)
       .order('component')
     
     if (error) throw error
@@ -17,44 +54,49 @@ export const ratesService = {
       .from('rates')
       .select('*')
       .eq('client_id', clientId)
+      .is('effective_to', null)
       .order('component')
     
     if (error) throw error
     return data || []
   },
 
+  // Every version of every rate, newest first within a component
+  async getHistory(): Promise<Rate[]> {
+    const { data, error } = await supabase
+      .from('rates')
+      .select('*')
+      .order('component')
+      .order('effective_from', { ascending: false })
+
+    if (error) throw error
+    return data || []
+  },
+
   async getRateForTransaction(
     clientId: string,
     component: string,
     workType: WorkType,
-    unit: Unit
-  ): Promise<number | null> {
+    unit: Unit,
+    date: string
+  ): Promise<RateLookup | null> {
     // Priority 1: Client-specific rate
-    const { data: clientRate } = await supabase
-      .from('rates')
-      .select('rate')
-      .eq('client_id', clientId)
-      .eq('component', component)
-      .eq('work_type', workType)
-      .eq('unit', unit)
-      .single()
+    const clientRate = await findRateVersion(clientId, component, workType, unit, date)
     
-    if (clientRate) return clientRate.rate
+    if (clientRate) {
+      return { rate: clientRate.rate, sac_code: clientRate.sac_code || getDefaultSacCode(workType) }
+    }
     
     // Priority 2: Default rate (client_id is null)
-    const { data: defaultRate } = await supabase
-      .from('rates')
-      .select('rate')
-      .is('client_id', null)
-      .eq('component', component)
-      .eq('work_type', workType)
-      .eq('unit', unit)
-      .single()
+    const defaultRate = await findRateVersion(null, component, workType, unit, date)
     
-    return defaultRate?.rate || null
+    if (!defaultRate?.rate) return null
+    return { rate: defaultRate.rate, sac_code: defaultRate.sac_code || getDefaultSacCode(workType) }
   },
 
-  async create(rate: Omit<Rate, 'id' | 'created_at'>): Promise<Rate> {
+  async create(rate: RateInput): Promise<Rate> {
+    assertValidSacCode(rate.sac_code)
+
     const { data, error } = await supabase
       .from('rates')
       .insert(rate)
@@ -65,10 +107,73 @@ export const ratesService = {
     return data
   },
 
-  async update(id: string, updates: Partial<Omit<Rate, 'id' | 'created_at'>>): Promise<Rate> {
+  // A later effective date starts a new version so deliveries before it keep
+  // the old price. Otherwise only the SAC code and start date of the current
+  // version can be corrected; earlier versions are never rewritten.
+  async update(id: string, updates: Partial<RateInput>): Promise<Rate> {
+    assertValidSacCode(updates.sac_code)
+
+    const { data: current, error: currentError } = await supabase
+      .from('rates')
+      .select('*')
+      .eq('id', id)
+      .single()
+
+    if (currentError) throw currentError
+
+    if (current.effective_to !== null) {
+      throw new ValidationError('Earlier versions of a rate cannot be changed', 'RATE_NOT_CURRENT')
+    }
+
+    const keyChanged = (['client_id', 'component', 'work_type', 'unit'] as const)
+      .some(field => updates[field] !== undefined && updates[field] !== current[field])
+    if (keyChanged) {
+      throw new ValidationError(
+        'Client, component, work type and unit of a rate cannot change. Add a new rate instead.',
+        'RATE_KEY_CHANGED'
+      )
+    }
+
+    const effectiveFrom = updates.effective_from
+    if (effectiveFrom && effectiveFrom > current.effective_from) {
+      const { data, error } = await supabase
+        .rpc('revise_rate', {
+          p_rate_id: id,
+          p_rate: updates.rate ?? current.rate,
+          p_sac_code: updates.sac_code !== undefined ? updates.sac_code : current.sac_code,
+          p_effective_from: effectiveFrom
+        })
+
+      if (error) throw error
+      return data
+    }
+
+    if (updates.rate !== undefined && updates.rate !== current.rate) {
+      throw new ValidationError(
+        `A new price needs an effective date after ${current.effective_from}`,
+        'RATE_NEEDS_NEW_VERSION'
+      )
+    }
+
+    if (effectiveFrom && effectiveFrom < current.effective_from) {
+      const history = await this.getHistory()
+      const overlaps = history.some(version =>
+        version.id !== id &&
+        version.client_id === current.client_id &&
+        version.component === current.component &&
+        version.work_type === current.work_type &&
+        version.unit === current.unit &&
+        version.effective_to !== null &&
+        version.effective_to >= effectiveFrom
+      )
+      if (overlaps) {
+        throw new ValidationError('The effective date overlaps an earlier version of this rate', 'RATE_VERSION_OVERLAP')
+      }
+    }
+
     const { data, error } = await supabase
       .from('rates')
-      .update(updates)
+      .update({ sac_code: updates.sac_code, effective_from: updates.effective_from })
       .eq('id', id)
       .select()
       .single()
@@ -77,6 +182,7 @@ export const ratesService = {
     return data
   },
 
+  // Deleting the current version reverts to the one before it (see add-rate-history.sql)
   async delete(id: string): Promise<void> {
     const { error } = await supabase
       .from('rates')
@@ -1,5 +1,8 @@
 import * as XLSX from 'xlsx'
-import type { Client, Transaction, BalanceSummaryItem } from '../types'
+import { getReportHeading } from '../lib/billing'
+import { getMovementTotals } from '../lib/transactionTypes'
+import { companyProfileService } from './companyProfile'
+import type { Client, Transaction, BalanceSummaryItem, CompanyProfile } from '../types'
 
 export interface BRSExportData {
   clients: Client[]
@@ -9,6 +12,8 @@ export interface BRSExportData {
     start: string
     end: string
   }
+  // Loaded from the company profile when not passed in
+  company?: CompanyProfile | null
 }
 
 export class TemplateBasedExportService {
@@ -31,6 +36,11 @@ export class TemplateBasedExportService {
   }
 
   static async exportUsingTemplate(data: BRSExportData, clientId?: string): Promise<void> {
+    if (data.company === undefined) {
+      // The sheets still export with the app name if the profile cannot be loaded
+      data = { ...data, company: await companyProfileService.get().catch(() => null) }
+    }
+
     const workbook = XLSX.utils.book_new()
 
     // Create sheets based on your template structure
@@ -55,7 +65,7 @@ export class TemplateBasedExportService {
     const sheetData = []
 
     // Header section (matching your template)
-    sheetData.push(['BRS MANAGEMENT SYSTEM'])
+    sheetData.push([getReportHeading(data.company)])
     sheetData.push(['CLIENT SUMMARY REPORT'])
     sheetData.push([`Generated on: ${new Date().toLocaleString('en-IN')}`])
     sheetData.push([]) // Empty row
@@ -81,13 +91,7 @@ export class TemplateBasedExportService {
 
     data.clients.forEach((client, index) => {
       const clientTransactions = data.transactions.filter(t => t.client_id === client.id)
-      const totalReceived = clientTransactions
-        .filter(t => t.transaction_type === 'Received')
-        .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-      const totalDelivered = clientTransactions
-        .filter(t => t.transaction_type === 'Delivered')
-        .reduce((sum, t) => sum + (t.qty_out || 0), 0)
-      const currentBalance = totalReceived - totalDelivered
+      const { received: totalReceived, delivered: totalDelivered, balance: currentBalance } = getMovementTotals(clientTransactions)
       const totalBilled = clientTransactions
         .reduce((sum, t) => sum + (t.billed_amount || 0), 0)
 
@@ -139,7 +143,7 @@ export class TemplateBasedExportService {
       this.getClientName(clientId, data.clients) : 
       'All Clients'
     
-    sheetData.push(['BRS MANAGEMENT SYSTEM'])
+    sheetData.push([getReportHeading(data.company)])
     sheetData.push([`TRANSACTION DETAILS - ${clientName}`])
     sheetData.push([`Generated on: ${new Date().toLocaleString('en-IN')}`])
     if (data.dateRange) {
@@ -148,7 +152,7 @@ export class TemplateBasedExportService {
     sheetData.push([]) // Empty row
 
     // Transaction table headers
-    sheetData.push(['S.No', 'Date', 'Client', 'DC No', 'Component', 'Lot No', 'Type', 'Qty In', 'Qty Out', 'Work Type', 'Unit', 'Rate', 'Billed Amount'])
+    sheetData.push(['S.No', 'Date', 'Client', 'DC No', 'Component', 'Lot No', 'Type', 'Qty In', 'Qty Out', 'Work Type', 'Unit', 'SAC', 'Rate', 'Billed Amount'])
 
     // Transaction data
     transactions.forEach((transaction, index) => {
@@ -164,6 +168,7 @@ export class TemplateBasedExportService {
         transaction.qty_out || '',
         transaction.work_type || '',
         transaction.unit || '',
+        transaction.sac_code || '',
         transaction.rate_applied ? this.formatCurrency(transaction.rate_applied) : '',
         transaction.billed_amount ? this.formatCurrency(transaction.billed_amount) : ''
       ])
@@ -171,19 +176,14 @@ export class TemplateBasedExportService {
 
     // Summary section
     const totalBilled = transactions.reduce((sum, t) => sum + (t.billed_amount || 0), 0)
-    const totalReceived = transactions
-      .filter(t => t.transaction_type === 'Received')
-      .reduce((sum, t) => sum + (t.qty_in || 0), 0)
-    const totalDelivered = transactions
-      .filter(t => t.transaction_type === 'Delivered')
-      .reduce((sum, t) => sum + (t.qty_out || 0), 0)
+    const { received: totalReceived, delivered: totalDelivered, balance: totalBalance } = getMovementTotals(transactions)
 
     sheetData.push([]) // Empty row
     sheetData.push(['SUMMARY'])
     sheetData.push(['Total Transactions:', transactions.length])
     sheetData.push(['Total Received:', totalReceived, 'units'])
     sheetData.push(['Total Delivered:', totalDelivered, 'units'])
-    sheetData.push(['Current Balance:', totalReceived - totalDelivered, 'units'])
+    sheetData.push(['Current Balance:', totalBalance, 'units'])
     sheetData.push(['Total Billed:', this.formatCurrency(totalBilled)])
 
     const worksheet = XLSX.utils.aoa_to_sheet(sheetData)
@@ -201,6 +201,7 @@ export class TemplateBasedExportService {
       { width: 10 },  // Qty Out
       { width: 15 },  // Work Type
       { width: 10 },  // Unit
+      { width: 10 },  // SAC
       { width: 12 },  // Rate
       { width: 15 }   // Billed Amount
     ]
@@ -254,7 +255,7 @@ export class TemplateBasedExportService {
     const sheetData = []
 
     // Header section
-    sheetData.push(['BRS MANAGEMENT SYSTEM'])
+    sheetData.push([getReportHeading(data.company)])
     sheetData.push(['COMPONENT ANALYSIS REPORT'])
     sheetData.push([`Generated on: ${new Date().toLocaleString('en-IN')}`])
     sheetData.push([]) // Empty row
@@ -314,13 +315,13 @@ export class TemplateBasedExportService {
       this.getClientName(clientId, data.clients) : 
       'All Clients'
     
-    sheetData.push(['BRS MANAGEMENT SYSTEM'])
+    sheetData.push([getReportHeading(data.company)])
     sheetData.push([`BALANCE SUMMARY - ${clientName}`])
     sheetData.push([`Generated on: ${new Date().toLocaleString('en-IN')}`])
     sheetData.push([]) // Empty row
 
     // Balance summary table
-    sheetData.push(['S.No', 'Component', 'Received', 'Delivered', 'Balance', 'Status'])
+    sheetData.push(['S.No', 'Component', 'Received', 'Delivered', 'Rejected', 'Returned Unprocessed', 'Scrapped', 'Balance', 'Status'])
 
     let serialNo = 1
     data.balanceSummary.forEach(item => {
@@ -330,7 +331,10 @@ export class TemplateBasedExportService {
         serialNo++,
         item.component,
         item.total_in,
-        item.total_out,
+        item.total_delivered,
+        item.total_rejected,
+        item.total_returned_unprocessed,
+        item.total_scrapped,
         item.balance,
         status
       ])
@@ -344,6 +348,9 @@ export class TemplateBasedExportService {
       { width: 25 },  // Component
       { width: 12 },  // Received
       { width: 12 },  // Delivered
+      { width: 12 },  // Rejected
+      { width: 22 },  // Returned Unprocessed
+      { width: 12 },  // Scrapped
       { width: 12 },  // Balance
       { width: 12 }   // Status
     ]
@@ -406,7 +413,7 @@ export class TemplateBasedExportService {
       this.getClientName(clientId, data.clients) : 
       'All Clients'
     
-    sheetData.push(['BRS MANAGEMENT SYSTEM'])
+    sheetData.push([getReportHeading(data.company)])
     sheetData.push([`MONTHLY REPORT - ${clientName}`])
     sheetData.push([`Generated on: ${new Date().toLocaleString('en-IN')}`])
     sheetData.push([]) // Empty row
@@ -1,5 +1,64 @@
 import { supabase } from '../lib/supabase'
-import type { Transaction, ClientKPIs, BalanceSummaryItem } from '../types'
+import { ValidationError } from '../lib/errorHandling'
+import { getMovementTotals } from '../lib/transactionTypes'
+import { getWeightLossPercent } from '../lib/weightReconciliation'
+import { getLotKey, getStageBreakdown, groupByLot } from '../lib/lotStages'
+import type { Transaction, TransactionInput, ClientKPIs, BalanceSummaryItem, PendingLot } from '../types'
+
+// Stage moves of every lot of the client and, when there are any, the
+// transactions to replay them against. Before add-lot-stages.sql is applied
+// the moves table is missing and every piece is treated as Not Started.
+async function getStageHistory(clientId: string) {
+  const { data: moves, error: movesError } = await supabase
+    .from('lot_stage_moves')
+    .select('component, lot_no, from_stage, to_stage, quantity, created_at')
+    .eq('client_id', clientId)
+
+  if (movesError) {
+    // 42P01 from Postgres, PGRST205 from PostgREST's schema cache
+    if (movesError.code === '42P01' || movesError.code === 'PGRST205') {
+      return { moves: [], transactions: [] }
+    }
+    throw movesError
+  }
+
+  if (!moves || moves.length === 0) {
+    return { moves: [], transactions: [] }
+  }
+
+  const { data: transactions, error } = await supabase
+    .from('transactions')
+    .select('component, lot_no, date, created_at, qty_in, qty_out')
+    .eq('client_id', clientId)
+
+  if (error) throw error
+  return { moves, transactions: transactions || [] }
+}
+
+// Billed transactions are frozen until their invoice is cancelled; the database
+// enforces the same rule, this just gives a clearer message first
+async function assertNotInvoiced(id: string) {
+  const { data, error } = await supabase
+    .from('transactions')
+    .select('dc_no, invoice_id')
+    .eq('id', id)
+    .single()
+
+  if (error) throw error
+  if (!data.invoice_id) return
+
+  const { data: invoice } = await supabase
+    .from('invoices')
+    .select('invoice_number')
+    .eq('id', data.invoice_id)
+    .maybeSingle()
+
+  throw new ValidationError(
+    `DC ${data.dc_no} is on invoice ${invoice?.invoice_number || data.invoice_id} and cannot be changed. Cancel the invoice first.`,
+    'TRANSACTION_INVOICED',
+    { invoiceId: data.invoice_id }
+  )
+}
 
 export const transactionsService = {
   async getAll(): Promise<Transaction[]> {
@@ -23,7 +82,7 @@ export const transactionsService = {
     return data || []
   },
 
-  async create(transaction: Omit<Transaction, 'id' | 'created_at'>): Promise<Transaction> {
+  async create(transaction: TransactionInput): Promise<Transaction> {
     const { data, error } = await supabase
       .from('transactions')
       .insert(transaction)
@@ -34,7 +93,9 @@ export const transactionsService = {
     return data
   },
 
-  async update(id: string, updates: Partial<Omit<Transaction, 'id' | 'created_at'>>): Promise<Transaction> {
+  async update(id: string, updates: Partial<TransactionInput>): Promise<Transaction> {
+    await assertNotInvoiced(id)
+
     const { data, error } = await supabase
       .from('transactions')
       .update(updates)
@@ -47,6 +108,8 @@ export const transactionsService = {
   },
 
   async delete(id: string): Promise<void> {
+    await assertNotInvoiced(id)
+
     const { error } = await supabase
       .from('transactions')
       .delete()
@@ -58,32 +121,48 @@ export const transactionsService = {
   async getClientKPIs(clientId: string): Promise<ClientKPIs> {
     const { data, error } = await supabase
       .from('transactions')
-      .select('qty_in, qty_out, billed_amount')
+      .select('transaction_type, qty_in, qty_out, billed_amount')
       .eq('client_id', clientId)
     
     if (error) throw error
     
     const transactions = data || []
-    const totalReceived = transactions.reduce((sum, t) => sum + (t.qty_in || 0), 0)
-    const totalDelivered = transactions.reduce((sum, t) => sum + (t.qty_out || 0), 0)
+    const totals = getMovementTotals(transactions)
     const totalBilled = transactions.reduce((sum, t) => sum + (t.billed_amount || 0), 0)
     
     return {
-      totalReceived,
-      totalDelivered,
-      currentBalance: totalReceived - totalDelivered,
+      totalReceived: totals.received,
+      totalDelivered: totals.delivered,
+      currentBalance: totals.balance,
       totalBilled
     }
   },
 
   async getBalanceSummary(clientId: string): Promise<BalanceSummaryItem[]> {
+    const [items, history] = await Promise.all([this.getLotTotals(clientId), getStageHistory(clientId)])
+    const movesByLot = groupByLot(history.moves)
+    const transactionsByLot = groupByLot(history.transactions)
+
+    return items.map(item => ({
+      ...item,
+      stages: getStageBreakdown(
+        item,
+        transactionsByLot.get(getLotKey(item)) || [],
+        movesByLot.get(getLotKey(item)) || []
+      )
+    }))
+  },
+
+  async getLotTotals(clientId: string): Promise<Omit<BalanceSummaryItem, 'stages'>[]> {
     const { data, error } = await supabase
       .rpc('get_balance_summary', { client_id: clientId })
     
     if (error) {
       // Fallback to manual calculation if RPC doesn't exist yet
       const transactions = await this.getByClientId(clientId)
-      const summary = new Map<string, BalanceSummaryItem>()
+      const summary = new Map<string, Omit<BalanceSummaryItem, 'stages'>>()
+      // Pieces on weighed rows, for the per-piece weight loss
+      const weighedPieces = new Map<string, { received: number; delivered: number }>()
       
       transactions.forEach(t => {
         const key = `${t.component}-${t.lot_no}`
@@ -93,14 +172,41 @@ export const transactionsService = {
             lot_no: t.lot_no,
             total_in: 0,
             total_out: 0,
-            balance: 0
+            total_delivered: 0,
+            total_rejected: 0,
+            total_returned_unprocessed: 0,
+            total_scrapped: 0,
+            balance: 0,
+            received_kg: 0,
+            delivered_kg: 0,
+            weight_loss_percent: null,
+            first_received_date: null
           })
+          weighedPieces.set(key, { received: 0, delivered: 0 })
         }
         
         const item = summary.get(key)!
+        const pieces = weighedPieces.get(key)!
         item.total_in += t.qty_in || 0
         item.total_out += t.qty_out || 0
+        if (t.transaction_type === 'Delivered') item.total_delivered += t.qty_out || 0
+        if (t.transaction_type === 'Rejected') item.total_rejected += t.qty_out || 0
+        if (t.transaction_type === 'Returned Unprocessed') item.total_returned_unprocessed += t.qty_out || 0
+        if (t.transaction_type === 'Scrapped') item.total_scrapped += t.qty_out || 0
         item.balance = item.total_in - item.total_out
+
+        if (t.transaction_type === 'Received' && (!item.first_received_date || t.date < item.first_received_date)) {
+          item.first_received_date = t.date
+        }
+        if (t.weight_kg !== null && t.transaction_type === 'Received') {
+          item.received_kg += t.weight_kg
+          pieces.received += t.qty_in || 0
+        }
+        if (t.weight_kg !== null && t.transaction_type === 'Delivered') {
+          item.delivered_kg += t.weight_kg
+          pieces.delivered += t.qty_out || 0
+        }
+        item.weight_loss_percent = getWeightLossPercent(item.received_kg, pieces.received, item.delivered_kg, pieces.delivered)
       })
       
       return Array.from(summary.values()).sort((a, b) => 
@@ -108,6 +214,15 @@ export const transactionsService = {
       )
     }
     
+    return data || []
+  },
+
+  // Open lots of every client, longest waiting first
+  async getOldestPendingLots(limit = 10): Promise<PendingLot[]> {
+    const { data, error } = await supabase
+      .rpc('get_oldest_pending_lots', { p_limit: limit })
+
+    if (error) throw error
     return data || []
   }
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+import { supabase } from '../lib/supabase'
+import { ValidationError } from '../lib/errorHandling'
+import type { WeightLossTolerance } from '../types'
+
+export const weightTolerancesService = {
+  async getAll(): Promise<WeightLossTolerance[]> {
+    const { data, error } = await supabase
+      .from('weight_loss_tolerances')
+      .select('*')
+      .order('component')
+
+    if (error) throw error
+    return data || []
+  },
+
+  // One tolerance per component; saving again replaces it
+  async save(component: string, tolerancePercent: number): Promise<WeightLossTolerance> {
+    if (!component.trim()) {
+      throw new ValidationError('Component is required', 'COMPONENT_REQUIRED')
+    }
+    if (!(tolerancePercent >= 0 && tolerancePercent <= 100)) {
+      throw new ValidationError('Tolerance must be between 0 and 100%', 'INVALID_TOLERANCE')
+    }
+
+    const { data, error } = await supabase
+      .from('weight_loss_tolerances')
+      .upsert({ component: component.trim(), tolerance_percent: tolerancePercent }, { onConflict: 'component' })
+      .select()
+      .single()
+
+    if (error) throw error
+    return data
+  },
+
+  async delete(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('weight_loss_tolerances')
+      .delete()
+      .eq('id', id)
+
+    if (error) throw error
+  }
+}
@@ -41,7 +41,7 @@ export interface Database {
           dc_no: string
           component: string
           lot_no: string
-          transaction_type: 'Received' | 'Delivered'
+          transaction_type: 'Received' | 'Delivered' | 'Rejected' | 'Returned Unprocessed' | 'Scrapped'
           qty_in: number | null
           qty_out: number | null
           weight_kg: number | null
@@ -49,6 +49,10 @@ export interface Database {
           unit: 'Per Piece' | 'Per Kg' | null
           rate_applied: number | null
           billed_amount: number | null
+          sac_code: string | null
+          invoice_id: string | null
+          dc_id: string | null
+          balance_override_reason: string | null
           created_at: string
         }
         Insert: {
@@ -58,7 +62,7 @@ export interface Database {
           dc_no: string
           component: string
           lot_no: string
-          transaction_type: 'Received' | 'Delivered'
+          transaction_type: 'Received' | 'Delivered' | 'Rejected' | 'Returned Unprocessed' | 'Scrapped'
           qty_in?: number | null
           qty_out?: number | null
           weight_kg?: number | null
@@ -66,6 +70,10 @@ export interface Database {
           unit?: 'Per Piece' | 'Per Kg' | null
           rate_applied?: number | null
           billed_amount?: number | null
+          sac_code?: string | null
+          invoice_id?: string | null
+          dc_id?: string | null
+          balance_override_reason?: string | null
           created_at?: string
         }
         Update: {
@@ -75,7 +83,7 @@ export interface Database {
           dc_no?: string
           component?: string
           lot_no?: string
-          transaction_type?: 'Received' | 'Delivered'
+          transaction_type?: 'Received' | 'Delivered' | 'Rejected' | 'Returned Unprocessed' | 'Scrapped'
           qty_in?: number | null
           qty_out?: number | null
           weight_kg?: number | null
@@ -83,6 +91,10 @@ export interface Database {
           unit?: 'Per Piece' | 'Per Kg' | null
           rate_applied?: number | null
           billed_amount?: number | null
+          sac_code?: string | null
+          invoice_id?: string | null
+          dc_id?: string | null
+          balance_override_reason?: string | null
           created_at?: string
         }
         Relationships: [
@@ -92,6 +104,130 @@ export interface Database {
             isOneToOne: false
             referencedRelation: "clients"
             referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transactions_dc_id_fkey"
+            columns: ["dc_id"]
+            isOneToOne: false
+            referencedRelation: "challans"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      challans: {
+        Row: {
+          id: string
+          client_id: string
+          dc_no: string
+          dc_date: string
+          transaction_type: 'Received' | 'Delivered' | 'Rejected' | 'Returned Unprocessed' | 'Scrapped'
+          vehicle_no: string | null
+          notes: string | null
+          series: string | null
+          financial_year: string | null
+          sequence_number: number | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          dc_no: string
+          dc_date: string
+          transaction_type: 'Received' | 'Delivered' | 'Rejected' | 'Returned Unprocessed' | 'Scrapped'
+          vehicle_no?: string | null
+          notes?: string | null
+          series?: string | null
+          financial_year?: string | null
+          sequence_number?: number | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          dc_no?: string
+          dc_date?: string
+          transaction_type?: 'Received' | 'Delivered' | 'Rejected' | 'Returned Unprocessed' | 'Scrapped'
+          vehicle_no?: string | null
+          notes?: string | null
+          series?: string | null
+          financial_year?: string | null
+          sequence_number?: number | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "challans_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      balance_overrides: {
+        Row: {
+          id: string
+          transaction_id: string | null
+          client_id: string
+          component: string
+          lot_no: string
+          dc_no: string
+          quantity: number
+          balance_after: number
+          reason: string
+          overridden_by: string | null
+          overridden_by_email: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          transaction_id?: string | null
+          client_id: string
+          component: string
+          lot_no: string
+          dc_no: string
+          quantity: number
+          balance_after: number
+          reason: string
+          overridden_by?: string | null
+          overridden_by_email?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          transaction_id?: string | null
+          client_id?: string
+          component?: string
+          lot_no?: string
+          dc_no?: string
+          quantity?: number
+          balance_after?: number
+          reason?: string
+          overridden_by?: string | null
+          overridden_by_email?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "balance_overrides_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "balance_overrides_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
           }
         ]
       }
@@ -103,6 +239,9 @@ export interface Database {
           work_type: 'Fettling' | 'Shot Blasting' | 'Both'
           unit: 'Per Piece' | 'Per Kg'
           rate: number
+          sac_code: string | null
+          effective_from: string
+          effective_to: string | null
           created_at: string
         }
         Insert: {
@@ -112,6 +251,9 @@ export interface Database {
           work_type: 'Fettling' | 'Shot Blasting' | 'Both'
           unit: 'Per Piece' | 'Per Kg'
           rate: number
+          sac_code?: string | null
+          effective_from?: string
+          effective_to?: string | null
           created_at?: string
         }
         Update: {
@@ -121,6 +263,9 @@ export interface Database {
           work_type?: 'Fettling' | 'Shot Blasting' | 'Both'
           unit?: 'Per Piece' | 'Per Kg'
           rate?: number
+          sac_code?: string | null
+          effective_from?: string
+          effective_to?: string | null
           created_at?: string
         }
         Relationships: [
@@ -132,6 +277,618 @@ export interface Database {
           }
         ]
       }
+      invoices: {
+        Row: {
+          id: string
+          invoice_number: string
+          client_id: string
+          invoice_date: string
+          due_date: string
+          period_start: string
+          period_end: string
+          client_name: string
+          client_gst_number: string | null
+          client_address: string | null
+          company_name: string
+          company_gst: string
+          company_address: string
+          company_phone: string
+          company_email: string
+          bank_name: string | null
+          account_number: string | null
+          ifsc_code: string | null
+          payment_terms: string
+          currency: string
+          notes: string | null
+          template: 'standard' | 'detailed' | 'minimal'
+          subtotal: number
+          discount_percent: number
+          discount_amount: number
+          taxable_amount: number
+          exempt_amount: number
+          cgst_rate: number
+          cgst_amount: number
+          sgst_rate: number
+          sgst_amount: number
+          igst_rate: number
+          igst_amount: number
+          place_of_supply: string | null
+          total_tax: number
+          total_amount: number
+          round_off: number
+          tds_rate: number
+          tds_amount: number
+          net_receivable: number
+          status: 'Issued' | 'Cancelled'
+          series: string | null
+          financial_year: string | null
+          sequence_number: number | null
+          cancelled_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          invoice_number: string
+          client_id: string
+          invoice_date: string
+          due_date: string
+          period_start: string
+          period_end: string
+          client_name: string
+          client_gst_number?: string | null
+          client_address?: string | null
+          company_name: string
+          company_gst: string
+          company_address: string
+          company_phone: string
+          company_email: string
+          bank_name?: string | null
+          account_number?: string | null
+          ifsc_code?: string | null
+          payment_terms: string
+          currency?: string
+          notes?: string | null
+          template?: 'standard' | 'detailed' | 'minimal'
+          subtotal: number
+          discount_percent?: number
+          discount_amount?: number
+          taxable_amount: number
+          exempt_amount?: number
+          cgst_rate: number
+          cgst_amount: number
+          sgst_rate: number
+          sgst_amount: number
+          igst_rate: number
+          igst_amount: number
+          place_of_supply: string | null
+          total_tax: number
+          total_amount: number
+          round_off?: number
+          tds_rate?: number
+          tds_amount?: number
+          net_receivable?: number
+          status?: 'Issued' | 'Cancelled'
+          series?: string | null
+          financial_year?: string | null
+          sequence_number?: number | null
+          cancelled_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          invoice_number?: string
+          client_id?: string
+          invoice_date?: string
+          due_date?: string
+          period_start?: string
+          period_end?: string
+          client_name?: string
+          client_gst_number?: string | null
+          client_address?: string | null
+          company_name?: string
+          company_gst?: string
+          company_address?: string
+          company_phone?: string
+          company_email?: string
+          bank_name?: string | null
+          account_number?: string | null
+          ifsc_code?: string | null
+          payment_terms?: string
+          currency?: string
+          notes?: string | null
+          template?: 'standard' | 'detailed' | 'minimal'
+          subtotal?: number
+          discount_percent?: number
+          discount_amount?: number
+          taxable_amount?: number
+          exempt_amount?: number
+          cgst_rate?: number
+          cgst_amount?: number
+          sgst_rate?: number
+          sgst_amount?: number
+          igst_rate?: number
+          igst_amount?: number
+          place_of_supply?: string | null
+          total_tax?: number
+          total_amount?: number
+          round_off?: number
+          tds_rate?: number
+          tds_amount?: number
+          net_receivable?: number
+          status?: 'Issued' | 'Cancelled'
+          series?: string | null
+          financial_year?: string | null
+          sequence_number?: number | null
+          cancelled_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      number_sequences: {
+        Row: {
+          series: string
+          financial_year: string
+          last_number: number
+          updated_at: string
+        }
+        Insert: {
+          series: string
+          financial_year: string
+          last_number?: number
+          updated_at?: string
+        }
+        Update: {
+          series?: string
+          financial_year?: string
+          last_number?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      invoice_lines: {
+        Row: {
+          id: string
+          invoice_id: string
+          transaction_id: string | null
+          line_no: number
+          date: string
+          dc_no: string | null
+          component: string
+          lot_no: string | null
+          description: string
+          work_type: 'Fettling' | 'Shot Blasting' | 'Both' | null
+          unit: 'Per Piece' | 'Per Kg' | null
+          quantity: number
+          weight_kg: number | null
+          rate: number
+          amount: number
+          sac_code: string | null
+          line_type: 'Transaction' | 'Charge'
+          tax_treatment: 'Taxable' | 'Exempt'
+        }
+        Insert: {
+          id?: string
+          invoice_id: string
+          transaction_id?: string | null
+          line_no: number
+          date: string
+          dc_no?: string | null
+          component: string
+          lot_no?: string | null
+          description: string
+          work_type?: 'Fettling' | 'Shot Blasting' | 'Both' | null
+          unit?: 'Per Piece' | 'Per Kg' | null
+          quantity: number
+          weight_kg?: number | null
+          rate: number
+          amount: number
+          sac_code?: string | null
+          line_type?: 'Transaction' | 'Charge'
+          tax_treatment?: 'Taxable' | 'Exempt'
+        }
+        Update: {
+          id?: string
+          invoice_id?: string
+          transaction_id?: string | null
+          line_no?: number
+          date?: string
+          dc_no?: string | null
+          component?: string
+          lot_no?: string | null
+          description?: string
+          work_type?: 'Fettling' | 'Shot Blasting' | 'Both' | null
+          unit?: 'Per Piece' | 'Per Kg' | null
+          quantity?: number
+          weight_kg?: number | null
+          rate?: number
+          amount?: number
+          sac_code?: string | null
+          line_type?: 'Transaction' | 'Charge'
+          tax_treatment?: 'Taxable' | 'Exempt'
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_lines_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      adjustment_notes: {
+        Row: {
+          id: string
+          note_type: 'Credit' | 'Debit'
+          note_number: string
+          series: string
+          financial_year: string
+          sequence_number: number
+          invoice_id: string
+          client_id: string
+          note_date: string
+          reason: string
+          taxable_amount: number
+          cgst_rate: number
+          cgst_amount: number
+          sgst_rate: number
+          sgst_amount: number
+          igst_rate: number
+          igst_amount: number
+          total_tax: number
+          total_amount: number
+          status: 'Issued' | 'Cancelled'
+          cancelled_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          note_type: 'Credit' | 'Debit'
+          note_number: string
+          series: string
+          financial_year: string
+          sequence_number: number
+          invoice_id: string
+          client_id: string
+          note_date: string
+          reason: string
+          taxable_amount: number
+          cgst_rate?: number
+          cgst_amount?: number
+          sgst_rate?: number
+          sgst_amount?: number
+          igst_rate?: number
+          igst_amount?: number
+          total_tax: number
+          total_amount: number
+          status?: 'Issued' | 'Cancelled'
+          cancelled_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          note_type?: 'Credit' | 'Debit'
+          note_number?: string
+          series?: string
+          financial_year?: string
+          sequence_number?: number
+          invoice_id?: string
+          client_id?: string
+          note_date?: string
+          reason?: string
+          taxable_amount?: number
+          cgst_rate?: number
+          cgst_amount?: number
+          sgst_rate?: number
+          sgst_amount?: number
+          igst_rate?: number
+          igst_amount?: number
+          total_tax?: number
+          total_amount?: number
+          status?: 'Issued' | 'Cancelled'
+          cancelled_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "adjustment_notes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "adjustment_notes_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      adjustment_note_lines: {
+        Row: {
+          id: string
+          note_id: string
+          invoice_line_id: string | null
+          line_no: number
+          description: string
+          quantity: number
+          rate: number
+          amount: number
+          sac_code: string | null
+        }
+        Insert: {
+          id?: string
+          note_id: string
+          invoice_line_id?: string | null
+          line_no: number
+          description: string
+          quantity?: number
+          rate?: number
+          amount: number
+          sac_code?: string | null
+        }
+        Update: {
+          id?: string
+          note_id?: string
+          invoice_line_id?: string | null
+          line_no?: number
+          description?: string
+          quantity?: number
+          rate?: number
+          amount?: number
+          sac_code?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "adjustment_note_lines_note_id_fkey"
+            columns: ["note_id"]
+            isOneToOne: false
+            referencedRelation: "adjustment_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "adjustment_note_lines_invoice_line_id_fkey"
+            columns: ["invoice_line_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_lines"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      payments: {
+        Row: {
+          id: string
+          client_id: string
+          payment_date: string
+          mode: 'Cash' | 'Cheque' | 'NEFT' | 'RTGS' | 'IMPS' | 'UPI' | 'Other'
+          reference: string | null
+          amount: number
+          tds_amount: number
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          payment_date: string
+          mode: 'Cash' | 'Cheque' | 'NEFT' | 'RTGS' | 'IMPS' | 'UPI' | 'Other'
+          reference?: string | null
+          amount: number
+          tds_amount?: number
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          payment_date?: string
+          mode?: 'Cash' | 'Cheque' | 'NEFT' | 'RTGS' | 'IMPS' | 'UPI' | 'Other'
+          reference?: string | null
+          amount?: number
+          tds_amount?: number
+          notes?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      payment_allocations: {
+        Row: {
+          id: string
+          payment_id: string
+          invoice_id: string
+          amount: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          payment_id: string
+          invoice_id: string
+          amount: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          payment_id?: string
+          invoice_id?: string
+          amount?: number
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_allocations_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      company_profile: {
+        Row: {
+          id: number
+          company_name: string
+          gst_number: string | null
+          address: string | null
+          phone: string | null
+          email: string | null
+          bank_name: string | null
+          account_number: string | null
+          ifsc_code: string | null
+          logo_url: string | null
+          payment_terms: string
+          cgst_rate: number
+          sgst_rate: number
+          invoice_notes: string | null
+          round_off_invoices: boolean
+          dc_series: string
+          weight_loss_tolerance_percent: number
+          updated_at: string
+        }
+        Insert: {
+          id?: number
+          company_name: string
+          gst_number?: string | null
+          address?: string | null
+          phone?: string | null
+          email?: string | null
+          bank_name?: string | null
+          account_number?: string | null
+          ifsc_code?: string | null
+          logo_url?: string | null
+          payment_terms?: string
+          cgst_rate?: number
+          sgst_rate?: number
+          invoice_notes?: string | null
+          round_off_invoices?: boolean
+          dc_series?: string
+          weight_loss_tolerance_percent?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: number
+          company_name?: string
+          gst_number?: string | null
+          address?: string | null
+          phone?: string | null
+          email?: string | null
+          bank_name?: string | null
+          account_number?: string | null
+          ifsc_code?: string | null
+          logo_url?: string | null
+          payment_terms?: string
+          cgst_rate?: number
+          sgst_rate?: number
+          invoice_notes?: string | null
+          round_off_invoices?: boolean
+          dc_series?: string
+          weight_loss_tolerance_percent?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      lot_stage_moves: {
+        Row: {
+          id: string
+          client_id: string
+          component: string
+          lot_no: string
+          from_stage: 'Fettling' | 'Shot Blasting' | 'Inspection' | 'Ready for Dispatch' | null
+          to_stage: 'Fettling' | 'Shot Blasting' | 'Inspection' | 'Ready for Dispatch'
+          quantity: number
+          notes: string | null
+          moved_by: string | null
+          moved_by_email: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          client_id: string
+          component: string
+          lot_no: string
+          from_stage?: 'Fettling' | 'Shot Blasting' | 'Inspection' | 'Ready for Dispatch' | null
+          to_stage: 'Fettling' | 'Shot Blasting' | 'Inspection' | 'Ready for Dispatch'
+          quantity: number
+          notes?: string | null
+          moved_by?: string | null
+          moved_by_email?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          client_id?: string
+          component?: string
+          lot_no?: string
+          from_stage?: 'Fettling' | 'Shot Blasting' | 'Inspection' | 'Ready for Dispatch' | null
+          to_stage?: 'Fettling' | 'Shot Blasting' | 'Inspection' | 'Ready for Dispatch'
+          quantity?: number
+          notes?: string | null
+          moved_by?: string | null
+          moved_by_email?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lot_stage_moves_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          }
+        ]
+      }
+      weight_loss_tolerances: {
+        Row: {
+          id: string
+          component: string
+          tolerance_percent: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          component: string
+          tolerance_percent: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          component?: string
+          tolerance_percent?: number
+          created_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
@@ -146,9 +903,68 @@ export interface Database {
           lot_no: string
           total_in: number
           total_out: number
+          total_delivered: number
+          total_rejected: number
+          total_returned_unprocessed: number
+          total_scrapped: number
           balance: number
+          received_kg: number
+          delivered_kg: number
+          weight_loss_percent: number | null
+          first_received_date: string | null
         }[]
       }
+      get_oldest_pending_lots: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          client_id: string
+          client_name: string
+          component: string
+          lot_no: string
+          balance: number
+          first_received_date: string | null
+        }[]
+      }
+      finalize_invoice: {
+        Args: {
+          p_invoice: Json
+          p_lines: Json
+          p_series?: string
+        }
+        Returns: Database['public']['Tables']['invoices']['Row']
+      }
+      finalize_adjustment_note: {
+        Args: {
+          p_note: Json
+          p_lines: Json
+        }
+        Returns: Database['public']['Tables']['adjustment_notes']['Row']
+      }
+      revise_rate: {
+        Args: {
+          p_rate_id: string
+          p_rate: number
+          p_sac_code: string | null
+          p_effective_from: string
+        }
+        Returns: Database['public']['Tables']['rates']['Row']
+      }
+      record_payment: {
+        Args: {
+          p_payment: Json
+          p_allocations: Json
+        }
+        Returns: Database['public']['Tables']['payments']['Row']
+      }
+      create_challan: {
+        Args: {
+          p_challan: Json
+          p_lines: Json
+        }
+        Returns: Database['public']['Tables']['challans']['Row']
+      }
     }
     Enums: {
       [_ in never]: never
@@ -13,7 +13,9 @@ export interface Transaction {
   dc_no: string
   component: string
   lot_no: string
-  transaction_type: 'Received' | 'Delivered'
+  // Rejected, Returned Unprocessed and Scrapped take castings out of a lot
+  // like a delivery but are never billed
+  transaction_type: 'Received' | 'Delivered' | 'Rejected' | 'Returned Unprocessed' | 'Scrapped'
   qty_in: number | null
   qty_out: number | null
   weight_kg: number | null
@@ -21,9 +23,60 @@ export interface Transaction {
   unit: 'Per Piece' | 'Per Kg' | null
   rate_applied: number | null
   billed_amount: number | null
+  // SAC of the rate applied, carried onto the invoice line
+  sac_code: string | null
+  // Invoice the delivery was billed on; set when the invoice is issued and
+  // cleared if it is cancelled. Linked transactions cannot be changed.
+  invoice_id: string | null
+  // DC header the row is filed under; set by the database from client and dc_no
+  dc_id: string | null
+  // Why a delivery was allowed beyond the lot balance; each use is logged
+  balance_override_reason: string | null
   created_at: string
 }
 
+// Fields the user enters; invoice_id and dc_id are only ever set by the database
+export type TransactionInput = Omit<Transaction, 'id' | 'created_at' | 'invoice_id' | 'dc_id'>
+
+// One delivery challan as received or sent, with a transaction per
+// component and lot on it
+export interface Challan {
+  id: string
+  client_id: string
+  dc_no: string
+  dc_date: string
+  transaction_type: Transaction['transaction_type']
+  vehicle_no: string | null
+  notes: string | null
+  // Set on outward DCs numbered in our series, e.g. DC/25-26/0001
+  series: string | null
+  financial_year: string | null
+  sequence_number: number | null
+  created_at: string
+}
+
+// An outward DC with a blank dc_no is given the next number in the series
+export type ChallanInput = Omit<Challan, 'id' | 'created_at' | 'series' | 'financial_year' | 'sequence_number'>
+
+// A line entered on a new DC; client, date, DC number and type come from the header
+export type ChallanLineInput = Pick<
+  TransactionInput,
+  | 'component' | 'lot_no' | 'qty_in' | 'qty_out' | 'weight_kg' | 'work_type' | 'unit'
+  | 'rate_applied' | 'billed_amount' | 'sac_code' | 'balance_override_reason'
+>
+
+// A line as typed on the DC entry form; quantity becomes qty_in or qty_out by direction
+export interface ChallanLineDraft {
+  component: string
+  lot_no: string
+  quantity: number | null
+  weight_kg: number | null
+  work_type: WorkType | null
+  unit: Unit | null
+  rate_applied: number | null
+  sac_code: string | null
+}
+
 export interface Rate {
   id: string
   client_id: string | null
@@ -31,9 +84,17 @@ export interface Rate {
   work_type: 'Fettling' | 'Shot Blasting' | 'Both'
   unit: 'Per Piece' | 'Per Kg'
   rate: number
+  sac_code: string | null
+  // Version in force from effective_from through effective_to; null while current
+  effective_from: string
+  effective_to: string | null
   created_at: string
 }
 
+export type RateLookup = Pick<Rate, 'rate' | 'sac_code'>
+
+export type RateInput = Omit<Rate, 'id' | 'created_at' | 'effective_to'>
+
 export interface ClientKPIs {
   totalReceived: number
   totalDelivered: number
@@ -45,10 +106,412 @@ export interface BalanceSummaryItem {
   component: string
   lot_no: string
   total_in: number
+  // Everything that left the lot; the columns below split it by movement
   total_out: number
+  total_delivered: number
+  total_rejected: number
+  total_returned_unprocessed: number
+  total_scrapped: number
   balance: number
+  // Weight in and out; the loss compares weight per piece, so part-delivered
+  // lots are judged fairly. Null until both sides have been weighed.
+  received_kg: number
+  delivered_kg: number
+  weight_loss_percent: number | null
+  // Earliest receipt of the lot, which its age is counted from
+  first_received_date: string | null
+  // Open balance split by work-in-progress stage; worked out from the stage moves
+  stages: StageBreakdown
 }
 
-export type TransactionType = 'Received' | 'Delivered'
+export type WipStage = 'Fettling' | 'Shot Blasting' | 'Inspection' | 'Ready for Dispatch'
+export type LotStage = 'Not Started' | WipStage
+export type StageBreakdown = Record<LotStage, number>
+
+// Pieces of a lot moved from one stage to the next
+export interface LotStageMove {
+  id: string
+  client_id: string
+  component: string
+  lot_no: string
+  // Null for pieces not yet started on
+  from_stage: WipStage | null
+  to_stage: WipStage
+  quantity: number
+  notes: string | null
+  // Set by the database to the signed-in user
+  moved_by: string | null
+  moved_by_email: string | null
+  created_at: string
+}
+
+export type LotStageMoveInput = Pick<LotStageMove, 'client_id' | 'component' | 'lot_no' | 'from_stage' | 'to_stage' | 'quantity' | 'notes'>
+
+export type LotAgeBucket = '0-7' | '8-15' | '16-30' | '30+'
+
+// An open lot on the cross-client pending material list
+export interface PendingLot {
+  client_id: string
+  client_name: string
+  component: string
+  lot_no: string
+  balance: number
+  first_received_date: string | null
+}
+
+// Loss allowed on a component before its lots are flagged
+export interface WeightLossTolerance {
+  id: string
+  component: string
+  tolerance_percent: number
+  created_at: string
+}
+
+export interface WeightReconciliationLot {
+  component: string
+  lot_no: string
+  received_kg: number
+  delivered_kg: number
+  weight_loss_percent: number | null
+  tolerance_percent: number
+  exceeds_tolerance: boolean
+}
+
+export interface WeightReconciliationReport {
+  lots: WeightReconciliationLot[]
+  received_kg: number
+  delivered_kg: number
+  flagged_count: number
+}
+
+export interface Invoice {
+  id: string
+  invoice_number: string
+  client_id: string
+  invoice_date: string
+  due_date: string
+  period_start: string
+  period_end: string
+  client_name: string
+  client_gst_number: string | null
+  client_address: string | null
+  company_name: string
+  company_gst: string
+  company_address: string
+  company_phone: string
+  company_email: string
+  bank_name: string | null
+  account_number: string | null
+  ifsc_code: string | null
+  payment_terms: string
+  currency: string
+  notes: string | null
+  template: InvoiceTemplate
+  subtotal: number
+  discount_percent: number
+  discount_amount: number
+  taxable_amount: number
+  // Value of exempt lines after discount, billed without GST
+  exempt_amount: number
+  cgst_rate: number
+  cgst_amount: number
+  sgst_rate: number
+  sgst_amount: number
+  igst_rate: number
+  igst_amount: number
+  place_of_supply: string | null
+  total_tax: number
+  // Adjustment to the nearest rupee, included in total_amount
+  round_off: number
+  // TDS the client is expected to deduct under section 194C, on the taxable value
+  tds_rate: number
+  tds_amount: number
+  // total_amount less the expected TDS
+  net_receivable: number
+  total_amount: number
+  status: InvoiceStatus
+  series: string | null
+  financial_year: string | null
+  sequence_number: number | null
+  cancelled_at: string | null
+  created_at: string
+}
+
+// Charge lines are added by hand on the billing screen (transport, packing,
+// minimum lot charges) and are not tied to a transaction
+export type InvoiceLineType = 'Transaction' | 'Charge'
+
+// Exempt lines are billed at their value with no GST
+export type LineTaxTreatment = 'Taxable' | 'Exempt'
+
+export interface InvoiceLine {
+  id: string
+  invoice_id: string
+  transaction_id: string | null
+  line_no: number
+  date: string
+  dc_no: string | null
+  component: string
+  lot_no: string | null
+  description: string
+  work_type: WorkType | null
+  unit: Unit | null
+  quantity: number
+  weight_kg: number | null
+  rate: number
+  amount: number
+  sac_code: string | null
+  line_type: InvoiceLineType
+  tax_treatment: LineTaxTreatment
+}
+
+export interface InvoiceWithLines extends Invoice {
+  lines: InvoiceLine[]
+}
+
+export type InvoiceLineDraft = Omit<InvoiceLine, 'id' | 'invoice_id'>
+
+export interface InvoiceCharge {
+  description: string
+  sac_code: string
+  quantity: number
+  rate: number
+  tax_treatment: LineTaxTreatment
+}
+
+// Numbering and cancellation fields are set by the database when the invoice is finalised
+export type InvoiceDraft = Omit<
+  Invoice,
+  'id' | 'created_at' | 'series' | 'financial_year' | 'sequence_number' | 'cancelled_at'
+> & {
+  lines: InvoiceLineDraft[]
+}
+
+// An issued invoice together with the lines it was issued with
+export type IssuedInvoice = Invoice & { lines: InvoiceLineDraft[] }
+
+export interface InvoiceBatchResult {
+  created: IssuedInvoice[]
+  failed: { client_id: string, client_name: string, error: string }[]
+}
+
+export interface InvoiceNumberingReport {
+  series: string
+  financial_year: string
+  last_number: number
+  issued_count: number
+  cancelled: Invoice[]
+  missing_numbers: string[]
+}
+
+// The same outward DC number sent to more than one client
+export interface DuplicateDcNumber {
+  dc_no: string
+  challans: Challan[]
+}
+
+export interface DcNumberingReport {
+  series: string
+  financial_year: string
+  last_number: number
+  numbered_count: number
+  missing_numbers: string[]
+  duplicates: DuplicateDcNumber[]
+}
+
+export interface AdjustmentNote {
+  id: string
+  note_type: AdjustmentNoteType
+  note_number: string
+  series: string
+  financial_year: string
+  sequence_number: number
+  invoice_id: string
+  client_id: string
+  note_date: string
+  reason: string
+  taxable_amount: number
+  cgst_rate: number
+  cgst_amount: number
+  sgst_rate: number
+  sgst_amount: number
+  igst_rate: number
+  igst_amount: number
+  total_tax: number
+  total_amount: number
+  status: InvoiceStatus
+  cancelled_at: string | null
+  created_at: string
+}
+
+export interface AdjustmentNoteLine {
+  id: string
+  note_id: string
+  invoice_line_id: string | null
+  line_no: number
+  description: string
+  quantity: number
+  rate: number
+  amount: number
+  sac_code: string | null
+}
+
+export interface AdjustmentNoteWithLines extends AdjustmentNote {
+  lines: AdjustmentNoteLine[]
+}
+
+export type AdjustmentNoteLineDraft = Omit<AdjustmentNoteLine, 'id' | 'note_id'>
+
+// Numbering, client and status are set by the database when the note is finalised
+export type AdjustmentNoteDraft = Omit<
+  AdjustmentNote,
+  'id' | 'created_at' | 'note_number' | 'series' | 'financial_year' | 'sequence_number' |
+  'client_id' | 'status' | 'cancelled_at'
+> & {
+  lines: AdjustmentNoteLineDraft[]
+}
+
+export interface Payment {
+  id: string
+  client_id: string
+  payment_date: string
+  mode: PaymentMode
+  reference: string | null
+  amount: number
+  tds_amount: number
+  notes: string | null
+  created_at: string
+}
+
+export interface PaymentAllocation {
+  id: string
+  payment_id: string
+  invoice_id: string
+  amount: number
+  created_at: string
+}
+
+export type PaymentDraft = Omit<Payment, 'id' | 'created_at'> & {
+  allocations: Pick<PaymentAllocation, 'invoice_id' | 'amount'>[]
+}
+
+export interface LedgerEntry {
+  date: string
+  type: 'Invoice' | 'Credit Note' | 'Debit Note' | 'Payment' | 'TDS'
+  reference: string
+  description: string
+  debit: number
+  credit: number
+  balance: number
+  // Route of the document behind the entry, if it has its own page
+  link: string | null
+}
+
+export interface InvoiceOutstanding {
+  invoice: Invoice
+  adjusted_value: number
+  allocated: number
+  outstanding: number
+}
+
+export interface ClientAccount {
+  ledger: LedgerEntry[]
+  invoices: InvoiceOutstanding[]
+  payments: (Payment & { allocations: PaymentAllocation[] })[]
+  totalInvoiced: number
+  totalReceived: number
+  totalTds: number
+  outstanding: number
+  // Received but not yet allocated to any invoice
+  unallocated: number
+}
+
+export type AgeingBucket = 'Not Due' | '0-30' | '31-60' | '61-90' | '90+'
+
+export interface AgeingInvoice {
+  invoice_id: string
+  invoice_number: string
+  invoice_date: string
+  due_date: string
+  days_overdue: number
+  bucket: AgeingBucket
+  outstanding: number
+}
+
+export interface ClientAgeing {
+  client_id: string
+  client_name: string
+  buckets: Record<AgeingBucket, number>
+  // Payments not yet allocated, shown as a credit against the buckets
+  unallocated: number
+  outstanding: number
+  invoices: AgeingInvoice[]
+}
+
+export interface ReceivablesAgeingReport {
+  as_of: string
+  clients: ClientAgeing[]
+  totals: Record<AgeingBucket, number> & { unallocated: number, outstanding: number }
+}
+
+// Single row holding the business details and billing defaults
+export interface CompanyProfile {
+  id: number
+  company_name: string
+  gst_number: string | null
+  address: string | null
+  phone: string | null
+  email: string | null
+  bank_name: string | null
+  account_number: string | null
+  ifsc_code: string | null
+  // Uploaded logo; the bundled /brs.jpeg is used when not set
+  logo_url: string | null
+  payment_terms: string
+  cgst_rate: number
+  sgst_rate: number
+  invoice_notes: string | null
+  // Round invoice totals to the nearest rupee
+  round_off_invoices: boolean
+  // Prefix of our outward DC numbers, e.g. DC/25-26/0001
+  dc_series: string
+  // Weight loss allowed for components without their own tolerance
+  weight_loss_tolerance_percent: number
+  updated_at: string
+}
+
+export type CompanyProfileUpdate = Partial<Omit<CompanyProfile, 'id' | 'updated_at'>>
+
+export interface DeliveryChallanLine {
+  component: string
+  lot_no: string
+  work_type: WorkType | null
+  quantity: number
+  weight_kg: number | null
+}
+
+// Outward challan sent with processed material returned to the client,
+// built from the Delivered transactions sharing a DC number
+export interface DeliveryChallan {
+  dc_no: string
+  date: string
+  vehicle_no: string | null
+  company_name: string
+  company_address: string
+  company_gst: string
+  company_phone: string
+  client_name: string
+  client_address: string | null
+  client_gst_number: string | null
+  lines: DeliveryChallanLine[]
+}
+
+export type PaperSize = 'a4' | 'a5'
+
+export type TransactionType = Transaction['transaction_type']
 export type WorkType = 'Fettling' | 'Shot Blasting' | 'Both'
-export type Unit = 'Per Piece' | 'Per Kg'
\ No newline at end of file
+export type Unit = 'Per Piece' | 'Per Kg'
+export type InvoiceStatus = 'Issued' | 'Cancelled'
+export type InvoiceTemplate = 'standard' | 'detailed' | 'minimal'
+export type AdjustmentNoteType = 'Credit' | 'Debit'
+export type PaymentMode = 'Cash' | 'Cheque' | 'NEFT' | 'RTGS' | 'IMPS' | 'UPI' | 'Other'
\ No newline at end of file